@@ -0,0 +1,188 @@
+// Answer Generator
+// Writes prose answers to open-ended form questions, within the field's length limits
+
+import type { AnswerAction, AnswerLength, FieldSignature, FormSignature, Profile } from '@shared/types';
+import { createLogger } from '@shared/utils';
+import { countWords, fitToLimits } from '@shared/matching';
+import { providerRegistry } from '../providers';
+import { promptBuilder } from './PromptBuilder';
+import { ragEngine } from './RAGEngine';
+
+const logger = createLogger('AnswerGenerator');
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AnswerRequest {
+    field: FieldSignature;
+    formSignature: FormSignature;
+    profile: Profile;
+    ragContext?: string[];      // Retrieved for the question when omitted
+    revision?: { action: AnswerAction; answer: string };   // Rewrite this answer instead of starting fresh
+    signal?: AbortSignal;
+}
+
+export interface GeneratedAnswer {
+    value: string;
+    tokensUsed: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Target words per profile length preset, when the field sets no tighter limit
+const LENGTH_TARGETS: Record<AnswerLength, number> = {
+    short: 80,
+    medium: 150,
+    long: 300,
+};
+
+const SHORTEN_FACTOR = 0.6;
+const EXPAND_FACTOR = 1.5;
+const MIN_TARGET_WORDS = 15;
+
+// Models overshoot word counts, so targets stay this far under a hard limit
+const LIMIT_HEADROOM = 0.85;
+
+// Average characters per English word, counting the space after it
+const CHARS_PER_WORD = 6;
+
+// Output tokens allowed per target word (about 1.3 tokens a word, plus slack)
+const TOKENS_PER_WORD = 2;
+
+// ============================================================================
+// Answer Generator
+// ============================================================================
+
+export class AnswerGenerator {
+    /**
+     * Write an answer to an open-ended question with the profile's provider, in
+     * the profile's tone. Throws if no provider is configured or the response is empty.
+     */
+    async generate(request: AnswerRequest): Promise<GeneratedAnswer> {
+        const { field, formSignature, profile, revision } = request;
+
+        await providerRegistry.init();
+        const provider = providerRegistry.getForProfile(profile);
+        if (!provider?.isConfigured()) {
+            throw new Error('No AI provider configured');
+        }
+
+        const ragContext = request.ragContext ?? await this.retrieveContext(profile.id, formSignature, field);
+        const targetWords = getTargetWords(field, profile, revision);
+
+        const prompt = promptBuilder.buildLongFormPrompt({
+            profile,
+            formSignature,
+            field,
+            targetWords,
+            ragContext,
+            revision,
+        });
+
+        logger.debug('Long-form prompt built', {
+            provider: provider.config.name,
+            estimatedTokens: prompt.estimatedTokens,
+            targetWords,
+            action: revision?.action,
+        });
+
+        const response = await provider.chatCompletion({
+            messages: [
+                { role: 'system', content: prompt.systemPrompt },
+                { role: 'user', content: prompt.userPrompt },
+            ],
+            // A regenerated answer should read differently from the last one
+            temperature: revision?.action === 'regenerate' ? 0.9 : 0.7,
+            maxTokens: targetWords * TOKENS_PER_WORD,
+            signal: request.signal,
+        });
+
+        const rawContent = response.choices[0]?.message?.content;
+        const value = rawContent ? fitToLimits(cleanAnswer(rawContent), field.limits) : '';
+        if (!value) {
+            throw new Error('Empty response from LLM');
+        }
+
+        logger.info('Long-form answer generated', {
+            fieldId: field.id,
+            words: countWords(value),
+            tokensUsed: response.usage.totalTokens,
+        });
+
+        return { value, tokensUsed: response.usage.totalTokens };
+    }
+
+    /**
+     * Retrieve knowledge for the question, degrading to no context on failure
+     */
+    private async retrieveContext(
+        profileId: string,
+        formSignature: FormSignature,
+        field: FieldSignature
+    ): Promise<string[]> {
+        try {
+            const result = await ragEngine.retrieveForField(profileId, formSignature, field);
+            return result.context;
+        } catch (error) {
+            logger.warn('Question retrieval failed, continuing without context', {
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return [];
+        }
+    }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Words to aim for: the profile's length preset (or the answer being shortened
+ * or expanded), kept inside the field's limits
+ */
+function getTargetWords(
+    field: FieldSignature,
+    profile: Profile,
+    revision?: AnswerRequest['revision']
+): number {
+    let target = LENGTH_TARGETS[profile.settings.answerLength ?? 'medium'];
+    if (revision?.action === 'shorten') {
+        target = countWords(revision.answer) * SHORTEN_FACTOR;
+    } else if (revision?.action === 'expand') {
+        target = countWords(revision.answer) * EXPAND_FACTOR;
+    }
+
+    const { maxWords, minWords, maxLength } = field.limits ?? {};
+    if (maxWords !== undefined) {
+        target = Math.min(target, maxWords * LIMIT_HEADROOM);
+    }
+    if (maxLength !== undefined) {
+        target = Math.min(target, (maxLength / CHARS_PER_WORD) * LIMIT_HEADROOM);
+    }
+    if (minWords !== undefined) {
+        target = Math.max(target, minWords);
+    }
+
+    return Math.max(MIN_TARGET_WORDS, Math.round(target));
+}
+
+/**
+ * Strip what models wrap answers in despite instructions: surrounding quotes
+ * and a leading "Answer:" label
+ */
+function cleanAnswer(text: string): string {
+    return text
+        .trim()
+        .replace(/^(answer|response)\s*:\s*/i, '')
+        .replace(/^["“](.*)["”]$/s, '$1')
+        .trim();
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+export const answerGenerator = new AnswerGenerator();
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { chunkDocument } from './DocumentChunker';
+
+describe('chunkDocument', () => {
+    it('heads each chunk with its section path', () => {
+        const text = [
+            '# Experience',
+            '## Acme Corp',
+            'Built the billing platform.',
+            '## Globex',
+            'Led the data team.',
+        ].join('\n');
+
+        expect(chunkDocument(text, 500).map((c) => c.text)).toEqual([
+            'Experience > Acme Corp\nBuilt the billing platform.',
+            'Experience > Globex\nLed the data team.',
+        ]);
+    });
+
+    it('recognizes unmarked resume headings', () => {
+        const text = 'Ada Lovelace\nSKILLS\nMathematics\nEducation:\nSelf-taught';
+        const chunks = chunkDocument(text, 500);
+
+        expect(chunks.map((c) => c.provenance.section)).toEqual([undefined, 'SKILLS', 'Education']);
+    });
+
+    it('does not take sentences or list items for headings', () => {
+        const chunks = chunkDocument('Summary\nI ENJOY HARD PROBLEMS.\n- SQL', 500);
+
+        expect(chunks.map((c) => c.provenance.section)).toEqual(['Summary']);
+        expect(chunks[0].text).toBe('Summary\nI ENJOY HARD PROBLEMS.\n- SQL');
+    });
+
+    it('joins wrapped list items and unifies their markers', () => {
+        const text = 'Skills\n• Distributed\n  systems design\n2) Technical writing';
+
+        expect(chunkDocument(text, 500)[0].text).toBe('Skills\n- Distributed systems design\n- Technical writing');
+    });
+
+    it('records the character range each chunk came from', () => {
+        const text = '# Summary\nFirst paragraph.\n\nSecond paragraph.';
+        const [chunk] = chunkDocument(text, 500);
+
+        expect(text.slice(chunk.provenance.startOffset, chunk.provenance.endOffset))
+            .toBe('First paragraph.\n\nSecond paragraph.');
+        expect(chunk.provenance.chunkIndex).toBe(0);
+    });
+
+    it('starts a new chunk when the next block would not fit', () => {
+        const text = 'One two three.\n\nFour five six.\n\nSeven eight.';
+        const chunks = chunkDocument(text, 32);
+
+        expect(chunks.map((c) => c.text)).toEqual(['One two three.\nFour five six.', 'Seven eight.']);
+        expect(chunks.map((c) => c.provenance.chunkIndex)).toEqual([0, 1]);
+    });
+
+    it('splits long paragraphs between sentences', () => {
+        const text = 'First sentence here. Second sentence here. Third one.';
+        const chunks = chunkDocument(text, 25);
+
+        expect(chunks.map((c) => c.text)).toEqual([
+            'First sentence here.',
+            'Second sentence here.',
+            'Third one.',
+        ]);
+    });
+
+    it('keeps a long list item whole', () => {
+        const item = '- ' + 'word '.repeat(20).trim();
+        expect(chunkDocument(item, 30).map((c) => c.text)).toEqual([item]);
+    });
+
+    it('returns nothing for blank text', () => {
+        expect(chunkDocument('\n  \n', 100)).toEqual([]);
+    });
+});
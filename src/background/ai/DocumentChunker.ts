@@ -0,0 +1,204 @@
+// Document Chunker
+// Splits document text into embedding-sized chunks along its structure: sections, paragraphs and list items
+
+import type { ChunkProvenance } from '@shared/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DocumentChunk {
+    text: string;                   // Chunk content, headed by its section path
+    provenance: ChunkProvenance;
+}
+
+interface Block {
+    kind: 'heading' | 'paragraph' | 'list_item';
+    level: number;                  // Heading level; 0 for other blocks
+    start: number;                  // Character range in the document
+    end: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+/;
+const LIST_ITEM = /^\s*(?:[-*+•▪◦●‣–]|\d{1,2}[.)])\s+/;
+
+// Resume and cover letter section titles, recognised without heading markup
+// (text extracted from PDFs has none)
+const SECTION_TITLE = /^(?:(?:professional|career|executive)\s+)?(?:summary|profile|objective|experience|work experience|work history|employment(?: history)?|education|skills|technical skills|core competencies|projects|certifications?|licenses|awards|honors|publications|languages|interests|volunteer(?:ing| experience)?|references|achievements|activities|training|courses)$/i;
+
+// Lines longer than this are never taken for unmarked headings
+const MAX_HEADING_LENGTH = 60;
+
+// ============================================================================
+// Chunking
+// ============================================================================
+
+/**
+ * Split a document into chunks of about chunkSize characters. Chunks never span
+ * sections and never split a list item; paragraphs longer than a chunk are split
+ * between sentences.
+ */
+export function chunkDocument(text: string, chunkSize: number): DocumentChunk[] {
+    const chunks: DocumentChunk[] = [];
+    const headings: Array<{ level: number; title: string }> = [];
+    let current: { section?: string; parts: string[]; start: number; end: number; length: number } | null = null;
+
+    const flush = () => {
+        if (current && current.parts.length > 0) {
+            const body = current.parts.join('\n');
+            chunks.push({
+                text: current.section ? `${current.section}\n${body}` : body,
+                provenance: {
+                    chunkIndex: chunks.length,
+                    section: current.section,
+                    startOffset: current.start,
+                    endOffset: current.end,
+                },
+            });
+        }
+        current = null;
+    };
+
+    for (const block of parseBlocks(text)) {
+        if (block.kind === 'heading') {
+            flush();
+            while (headings.length > 0 && headings[headings.length - 1].level >= block.level) {
+                headings.pop();
+            }
+            headings.push({ level: block.level, title: getBlockText(text, block) });
+            continue;
+        }
+
+        const section = headings.length > 0 ? headings.map((h) => h.title).join(' > ') : undefined;
+
+        for (const piece of splitBlock(text, block, chunkSize)) {
+            const pieceText = getBlockText(text, piece);
+            if (current && current.length + pieceText.length + 1 > chunkSize) {
+                flush();
+            }
+
+            current ??= { section, parts: [], start: piece.start, end: piece.end, length: 0 };
+            current.parts.push(pieceText);
+            current.end = piece.end;
+            current.length += pieceText.length + 1;
+        }
+    }
+
+    flush();
+    return chunks;
+}
+
+/**
+ * Group lines into headings, paragraphs and list items. A list item runs on
+ * over following lines until a blank line, heading or new item, as wrapped
+ * bullets do in extracted text.
+ */
+function parseBlocks(text: string): Block[] {
+    const blocks: Block[] = [];
+    let open: Block | null = null;
+    let offset = 0;
+
+    for (const line of text.split('\n')) {
+        const start = offset;
+        const end = start + line.length;
+        offset = end + 1;
+        const trimmed = line.trim();
+
+        if (!trimmed) {
+            open = null;
+            continue;
+        }
+
+        const headingLevel = getHeadingLevel(trimmed);
+        if (headingLevel > 0) {
+            blocks.push({ kind: 'heading', level: headingLevel, start, end });
+            open = null;
+            continue;
+        }
+
+        if (LIST_ITEM.test(line)) {
+            open = { kind: 'list_item', level: 0, start, end };
+            blocks.push(open);
+            continue;
+        }
+
+        if (open) {
+            open.end = end;
+        } else {
+            open = { kind: 'paragraph', level: 0, start, end };
+            blocks.push(open);
+        }
+    }
+
+    return blocks;
+}
+
+/**
+ * Heading level of a line: from "#" markup, or 1 for an all-caps line or a
+ * known section title; 0 if the line isn't a heading
+ */
+function getHeadingLevel(line: string): number {
+    const markdown = MARKDOWN_HEADING.exec(line);
+    if (markdown) {
+        return markdown[1].length;
+    }
+
+    if (line.length > MAX_HEADING_LENGTH || LIST_ITEM.test(line) || /[.,;]$/.test(line)) {
+        return 0;
+    }
+
+    const title = line.replace(/:$/, '').trim();
+    const allCaps = /\p{Lu}{2}/u.test(title) && title === title.toUpperCase() && title.split(/\s+/).length <= 5;
+    return allCaps || SECTION_TITLE.test(title) ? 1 : 0;
+}
+
+/**
+ * Split a block longer than a chunk between sentences. List items are kept whole.
+ */
+function splitBlock(text: string, block: Block, chunkSize: number): Block[] {
+    if (block.end - block.start <= chunkSize || block.kind === 'list_item') {
+        return [block];
+    }
+
+    const pieces: Block[] = [];
+    const sentence = /[^.!?]+(?:[.!?]+|$)\s*/g;
+    const raw = text.slice(block.start, block.end);
+    let piece: Block | null = null;
+
+    for (let match = sentence.exec(raw); match && match[0]; match = sentence.exec(raw)) {
+        const start = block.start + match.index;
+        const end = start + match[0].trimEnd().length;
+
+        if (piece && end - piece.start > chunkSize) {
+            pieces.push(piece);
+            piece = null;
+        }
+        piece ??= { ...block, start };
+        piece.end = end;
+    }
+
+    if (piece) {
+        pieces.push(piece);
+    }
+    return pieces;
+}
+
+/**
+ * A block's text on one line, with list markers unified and heading markup dropped
+ */
+function getBlockText(text: string, block: Block): string {
+    const raw = text.slice(block.start, block.end).replace(/\s*\n\s*/g, ' ').trim();
+
+    switch (block.kind) {
+        case 'heading':
+            return raw.replace(MARKDOWN_HEADING, '').replace(/:$/, '');
+        case 'list_item':
+            return raw.replace(LIST_ITEM, '- ');
+        default:
+            return raw;
+    }
+}
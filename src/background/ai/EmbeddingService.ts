@@ -1,8 +1,9 @@
 // Embedding Service
-// Generates text embeddings via OpenRouter API
+// Generates text embeddings via the profile's LLM provider, or on-device without one
 
-import { openRouterClient } from '../services/OpenRouterClient';
+import type { LLMProvider } from '../providers';
 import { createLogger } from '@shared/utils';
+import { localEmbedder, LOCAL_EMBEDDING_MODEL } from './LocalEmbedder';
 
 const logger = createLogger('EmbeddingService');
 
@@ -14,11 +15,13 @@ export interface EmbeddingResult {
     embedding: number[];
     text: string;
     tokensUsed: number;
+    model: string;      // Embedding model that produced the vector
 }
 
 export interface BatchEmbeddingResult {
     embeddings: Array<{ text: string; embedding: number[] }>;
     totalTokens: number;
+    model: string;
 }
 
 // ============================================================================
@@ -28,7 +31,7 @@ export interface BatchEmbeddingResult {
 // Maximum texts to embed in a single batch request
 const MAX_BATCH_SIZE = 20;
 
-// Simple in-memory cache for embeddings (text hash -> embedding)
+// Simple in-memory cache for embeddings (provider, model and text hash -> embedding)
 const embeddingCache = new Map<string, number[]>();
 const MAX_CACHE_SIZE = 500;
 
@@ -44,29 +47,42 @@ export class EmbeddingService {
      */
     async init(): Promise<void> {
         if (this.initialized) return;
-        await openRouterClient.init();
         this.initialized = true;
         logger.debug('Embedding service initialized');
     }
 
+    /**
+     * Get the embedding model used for a provider: its own, or the on-device one
+     */
+    getModel(provider: LLMProvider | null): string {
+        return this.usesRemoteModel(provider) ? provider.config.embeddingModel! : LOCAL_EMBEDDING_MODEL;
+    }
+
     /**
      * Generate embedding for a single text
      */
-    async embed(text: string, useCache: boolean = true): Promise<EmbeddingResult> {
+    async embed(text: string, provider: LLMProvider | null, useCache: boolean = true): Promise<EmbeddingResult> {
         await this.init();
 
+        const model = this.getModel(provider);
+
+        // No remote embedding model: embed on-device, so nothing leaves the browser
+        if (!this.usesRemoteModel(provider)) {
+            return { embedding: localEmbedder.embed(text), text, tokensUsed: 0, model };
+        }
+
         // Check cache first
         if (useCache) {
-            const cacheKey = this.hashText(text);
+            const cacheKey = this.getCacheKey(provider, text);
             const cached = embeddingCache.get(cacheKey);
             if (cached) {
                 logger.debug('Embedding cache hit', { textLength: text.length });
-                return { embedding: cached, text, tokensUsed: 0 };
+                return { embedding: cached, text, tokensUsed: 0, model };
             }
         }
 
         // Call API
-        const response = await openRouterClient.createEmbedding({
+        const response = await provider.createEmbedding({
             input: text,
         });
 
@@ -77,7 +93,7 @@ export class EmbeddingService {
 
         // Cache the result
         if (useCache) {
-            this.cacheEmbedding(text, embedding);
+            this.cacheEmbedding(provider, text, embedding);
         }
 
         logger.debug('Embedding generated', {
@@ -90,17 +106,28 @@ export class EmbeddingService {
             embedding,
             text,
             tokensUsed: response.usage.totalTokens,
+            model,
         };
     }
 
     /**
      * Generate embeddings for multiple texts in batch
      */
-    async embedBatch(texts: string[], useCache: boolean = true): Promise<BatchEmbeddingResult> {
+    async embedBatch(texts: string[], provider: LLMProvider | null, useCache: boolean = true): Promise<BatchEmbeddingResult> {
         await this.init();
 
+        const model = this.getModel(provider);
+
         if (texts.length === 0) {
-            return { embeddings: [], totalTokens: 0 };
+            return { embeddings: [], totalTokens: 0, model };
+        }
+
+        if (!this.usesRemoteModel(provider)) {
+            return {
+                embeddings: texts.map((text) => ({ text, embedding: localEmbedder.embed(text) })),
+                totalTokens: 0,
+                model,
+            };
         }
 
         const results: Array<{ text: string; embedding: number[] }> = [];
@@ -112,7 +139,7 @@ export class EmbeddingService {
         for (let i = 0; i < texts.length; i++) {
             const text = texts[i];
             if (useCache) {
-                const cacheKey = this.hashText(text);
+                const cacheKey = this.getCacheKey(provider, text);
                 const cached = embeddingCache.get(cacheKey);
                 if (cached) {
                     results.push({ text, embedding: cached });
@@ -126,7 +153,7 @@ export class EmbeddingService {
         // If all were cached, return early
         if (textsToEmbed.length === 0) {
             logger.debug('All embeddings from cache', { count: texts.length });
-            return { embeddings: results, totalTokens: 0 };
+            return { embeddings: results, totalTokens: 0, model };
         }
 
         // Batch embed remaining texts
@@ -135,7 +162,7 @@ export class EmbeddingService {
         for (let i = 0; i < textsToEmbed.length; i += MAX_BATCH_SIZE) {
             const batch = textsToEmbed.slice(i, i + MAX_BATCH_SIZE);
 
-            const response = await openRouterClient.createEmbedding({
+            const response = await provider.createEmbedding({
                 input: batch,
             });
 
@@ -149,7 +176,7 @@ export class EmbeddingService {
 
                 // Cache the result
                 if (useCache) {
-                    this.cacheEmbedding(text, embedding);
+                    this.cacheEmbedding(provider, text, embedding);
                 }
             }
         }
@@ -178,7 +205,7 @@ export class EmbeddingService {
             totalTokens,
         });
 
-        return { embeddings: allResults, totalTokens };
+        return { embeddings: allResults, totalTokens, model };
     }
 
     /**
@@ -243,6 +270,21 @@ export class EmbeddingService {
         };
     }
 
+    /**
+     * Check whether a provider can embed remotely. Providers without an API key
+     * still name an embedding model, but the request would fail.
+     */
+    private usesRemoteModel(provider: LLMProvider | null): provider is LLMProvider {
+        return !!provider?.isConfigured() && provider.supportsEmbeddings();
+    }
+
+    /**
+     * Vectors from different models aren't comparable, so key by provider and model
+     */
+    private getCacheKey(provider: LLMProvider, text: string): string {
+        return `${provider.config.id}:${provider.config.embeddingModel}:${this.hashText(text)}`;
+    }
+
     /**
      * Simple hash function for cache keys
      */
@@ -259,8 +301,8 @@ export class EmbeddingService {
     /**
      * Cache an embedding, evicting oldest if at capacity
      */
-    private cacheEmbedding(text: string, embedding: number[]): void {
-        const cacheKey = this.hashText(text);
+    private cacheEmbedding(provider: LLMProvider, text: string, embedding: number[]): void {
+        const cacheKey = this.getCacheKey(provider, text);
 
         // Simple LRU: remove oldest entry if at capacity
         if (embeddingCache.size >= MAX_CACHE_SIZE) {
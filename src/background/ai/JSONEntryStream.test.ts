@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { JSONEntryStream } from './JSONEntryStream';
+
+/**
+ * Feed text one character at a time, collecting every entry in order
+ */
+function streamByCharacter(text: string): Array<[string, string]> {
+    const stream = new JSONEntryStream();
+    return Array.from(text).flatMap((char) => stream.push(char));
+}
+
+describe('JSONEntryStream', () => {
+    it('yields each entry once the next one starts', () => {
+        const stream = new JSONEntryStream();
+
+        expect(stream.push('{"name": "Ada", "em')).toEqual([['name', 'Ada']]);
+        expect(stream.push('ail": "ada@example.com"')).toEqual([]);
+        expect(stream.push('}')).toEqual([['email', 'ada@example.com']]);
+    });
+
+    it('gives the same entries however the text is split', () => {
+        const text = '{"a": "1", "b": "two, three", "c": 4}';
+        expect(streamByCharacter(text)).toEqual([['a', '1'], ['b', 'two, three'], ['c', '4']]);
+    });
+
+    it('ignores braces, commas and escaped quotes inside strings', () => {
+        const text = '{"bio": "Likes {curly} things, \\"quoted\\" too", "next": "x"}';
+        expect(streamByCharacter(text)).toEqual([
+            ['bio', 'Likes {curly} things, "quoted" too'],
+            ['next', 'x'],
+        ]);
+    });
+
+    it('keeps nested values whole and stringifies them', () => {
+        const text = '{"list": [1, 2], "flag": true, "empty": null}';
+        expect(streamByCharacter(text)).toEqual([['list', '1,2'], ['flag', 'true']]);
+    });
+
+    it('skips text around the object, such as a code fence', () => {
+        const text = 'Here you go:\n```json\n{"a": "1"}\n```\n{"b": "2"}';
+        expect(streamByCharacter(text)).toEqual([['a', '1']]);
+    });
+
+    it('skips malformed entries and carries on', () => {
+        const text = '{"a": oops, "b": "2"}';
+        expect(streamByCharacter(text)).toEqual([['b', '2']]);
+    });
+
+    it('yields nothing for an empty object or an unfinished entry', () => {
+        expect(streamByCharacter('{}')).toEqual([]);
+        expect(streamByCharacter('{"a": "unterminated')).toEqual([]);
+    });
+});
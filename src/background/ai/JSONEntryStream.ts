@@ -0,0 +1,89 @@
+// JSON Entry Stream
+// Incremental parser that yields a JSON object's top-level entries as streamed text completes them
+
+// ============================================================================
+// JSON Entry Stream
+// ============================================================================
+
+export class JSONEntryStream {
+    private buffer: string = '';
+    private position: number = 0;
+    private depth: number = 0;          // 0 before the opening brace and after the closing one
+    private started: boolean = false;
+    private finished: boolean = false;
+    private inString: boolean = false;
+    private escaped: boolean = false;
+    private entryStart: number = 0;     // Buffer offset where the current top-level entry begins
+
+    /**
+     * Add streamed text and return the entries it completed, as [key, value] with
+     * values stringified the way ResponseValidator does. Text before the opening
+     * brace (such as a markdown code fence) and after the closing one is ignored.
+     */
+    push(chunk: string): Array<[string, string]> {
+        this.buffer += chunk;
+        const entries: Array<[string, string]> = [];
+
+        for (; this.position < this.buffer.length && !this.finished; this.position++) {
+            const char = this.buffer[this.position];
+
+            if (!this.started) {
+                if (char === '{') {
+                    this.started = true;
+                    this.depth = 1;
+                    this.entryStart = this.position + 1;
+                }
+                continue;
+            }
+
+            if (this.inString) {
+                if (this.escaped) {
+                    this.escaped = false;
+                } else if (char === '\\') {
+                    this.escaped = true;
+                } else if (char === '"') {
+                    this.inString = false;
+                }
+                continue;
+            }
+
+            if (char === '"') {
+                this.inString = true;
+            } else if (char === '{' || char === '[') {
+                this.depth++;
+            } else if (char === '}' || char === ']') {
+                this.depth--;
+                if (this.depth === 0) {
+                    this.finished = true;
+                    this.collectEntry(this.position, entries);
+                }
+            } else if (char === ',' && this.depth === 1) {
+                this.collectEntry(this.position, entries);
+                this.entryStart = this.position + 1;
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * Parse the entry ending at an offset; malformed entries are skipped
+     */
+    private collectEntry(end: number, entries: Array<[string, string]>): void {
+        const text = this.buffer.slice(this.entryStart, end);
+        if (!text.trim()) {
+            return;
+        }
+
+        try {
+            const parsed = JSON.parse(`{${text}}`) as Record<string, unknown>;
+            for (const [key, value] of Object.entries(parsed)) {
+                if (value !== null && value !== undefined) {
+                    entries.push([key, String(value)]);
+                }
+            }
+        } catch {
+            // The full response is validated again once complete
+        }
+    }
+}
@@ -1,12 +1,19 @@
 // LLM Orchestrator
 // Coordinates the full LLM-powered form filling workflow
 
-import type { FormSignature, FieldMapping, Profile } from '@shared/types';
+import type { FormSignature, FieldMapping, FieldSignature, Profile } from '@shared/types';
 import { createLogger } from '@shared/utils';
-import { createSuggestedMappings } from '@shared/matching';
-import { openRouterClient, OpenRouterError } from '../services/OpenRouterClient';
+import { isFieldDenylisted } from '@shared/constants';
+import { createSuggestedMappings, isLongFormField, mapFieldsFromExamples } from '@shared/matching';
+import { providerRegistry, LLMProviderError } from '../providers';
+import type { LLMProvider, ChatCompletionRequest, ChatCompletionResponse } from '../providers';
+import { cacheService } from '../services/CacheService';
 import { promptBuilder } from './PromptBuilder';
+import type { PriorAnswer } from './PromptBuilder';
 import { responseValidator } from './ResponseValidator';
+import { ragEngine } from './RAGEngine';
+import { answerGenerator } from './AnswerGenerator';
+import { JSONEntryStream } from './JSONEntryStream';
 
 const logger = createLogger('LLMOrchestrator');
 
@@ -17,16 +24,27 @@ const logger = createLogger('LLMOrchestrator');
 export interface FillRequest {
     formSignature: FormSignature;
     profile: Profile;
-    ragContext?: string[];
+    ragContext?: string[];      // Pre-retrieved context; retrieved from the vector store when omitted
+    priorAnswers?: PriorAnswer[];   // Answers from earlier steps of the same multi-step form
     useCache?: boolean;
+    onStage?: (stage: FillStage) => void | Promise<void>;
+    // Streams the LLM response, reporting each mapping the final result will keep as soon as it is parsed.
+    // A response rejected after that falls back to a result marked retracted.
+    onMapping?: (mapping: FieldMapping) => void;
+    signal?: AbortSignal;       // Cancels the fill; the returned promise rejects rather than falling back
 }
 
+export type FillStage =
+    | { type: 'RETRIEVING' }
+    | { type: 'INFERRING'; retrievedContext: string[] };
+
 export interface FillResponse {
     mappings: FieldMapping[];
-    source: 'llm' | 'static' | 'cached' | 'hybrid';
+    source: 'llm' | 'static' | 'cached' | 'hybrid' | 'learned';
     llmUsed: boolean;
     tokensUsed?: number;
     fallbackReason?: string;
+    retracted?: boolean;        // Mappings already reported through onMapping are not part of this result
 }
 
 export interface OrchestratorConfig {
@@ -45,6 +63,14 @@ const DEFAULT_CONFIG: OrchestratorConfig = {
     timeout: 30000, // 30 seconds
 };
 
+// Each open-ended question costs its own request; any beyond this go in the
+// main JSON response instead
+const MAX_LONG_FORM_ANSWERS = 5;
+
+// Prose answers are written for the question rather than recalled, so they
+// rank below profile values but above guesses
+const LONG_FORM_CONFIDENCE = 0.75;
+
 // ============================================================================
 // LLM Orchestrator
 // ============================================================================
@@ -63,16 +89,17 @@ export class LLMOrchestrator {
     async init(): Promise<void> {
         if (this.initialized) return;
 
-        await openRouterClient.init();
+        await providerRegistry.init();
         this.initialized = true;
         logger.info('LLM Orchestrator initialized');
     }
 
     /**
-     * Check if LLM is available (API key configured)
+     * Check if an LLM is available for a profile (or the default provider when omitted)
      */
-    isAvailable(): boolean {
-        return openRouterClient.isConfigured();
+    isAvailable(profile?: Profile): boolean {
+        const provider = profile ? providerRegistry.getForProfile(profile) : providerRegistry.getDefault();
+        return provider?.isConfigured() ?? false;
     }
 
     /**
@@ -81,108 +108,186 @@ export class LLMOrchestrator {
     async fill(request: FillRequest): Promise<FillResponse> {
         await this.init();
 
-        const { formSignature, profile, ragContext } = request;
+        const { formSignature, profile, useCache } = request;
+
+        // A fallback after mappings were streamed replaces them
+        let streamed = false;
+        const report = request.onMapping;
+        const onMapping = report && ((mapping: FieldMapping) => {
+            streamed = true;
+            report(mapping);
+        });
+        const fallback = async (reason: string): Promise<FillResponse> => ({
+            ...await this.staticFill(formSignature, profile, reason),
+            ...(streamed && { retracted: true }),
+        });
 
         // Check if LLM is available
-        if (!this.isAvailable()) {
+        const provider = providerRegistry.getForProfile(profile);
+        if (!provider?.isConfigured()) {
             logger.info('LLM not available, using static mapping');
-            return this.staticFill(formSignature, profile, 'API key not configured');
+            return this.staticFill(formSignature, profile, 'AI provider not configured');
+        }
+
+        // Serve a previous response for the same form and profile version, unless
+        // earlier steps gave answers it may contradict
+        if (useCache && !request.priorAnswers?.length) {
+            const cached = await this.getCachedFill(formSignature, profile);
+            if (cached) {
+                return cached;
+            }
         }
 
         try {
-            // Build prompt
-            const prompt = promptBuilder.buildPrompt({
-                profile,
-                formSignature,
-                ragContext,
-            });
+            // Retrieve similar past fills and knowledge from the vector store
+            let ragContext = request.ragContext;
+            if (!ragContext) {
+                await request.onStage?.({ type: 'RETRIEVING' });
+                ragContext = await this.retrieveContext(profile.id, formSignature);
+            }
+            this.checkCancelled(request.signal);
 
-            logger.debug('Prompt built', {
-                estimatedTokens: prompt.estimatedTokens,
-                fieldCount: formSignature.fields.length,
-            });
+            await request.onStage?.({ type: 'INFERRING', retrievedContext: ragContext });
 
-            // Call LLM
-            const response = await openRouterClient.chatCompletion({
-                messages: [
-                    { role: 'system', content: prompt.systemPrompt },
-                    { role: 'user', content: prompt.userPrompt },
-                ],
-                temperature: 0.2,
-                responseFormat: { type: 'json_object' },
-            });
+            // Get static mappings for comparison/merge
+            const staticMappings = createSuggestedMappings(formSignature.fields, profile, formSignature.repeatingSections);
+
+            // Open-ended questions get answers of their own, written in prose
+            const staticIds = new Set(staticMappings.map((m) => m.fieldSignature.id));
+            const longFormFields = formSignature.fields
+                .filter((f) => isLongFormField(f) && !staticIds.has(f.id) && !isFieldDenylisted(f))
+                .slice(0, MAX_LONG_FORM_ANSWERS);
+            const longFormIds = new Set(longFormFields.map((f) => f.id));
+            const jsonSignature: FormSignature = {
+                ...formSignature,
+                fields: formSignature.fields.filter((f) => !longFormIds.has(f.id)),
+            };
 
-            const rawContent = response.choices[0]?.message?.content;
-            if (!rawContent) {
-                throw new Error('Empty response from LLM');
-            }
+            let llmMappings: FieldMapping[] = [];
+            let tokensUsed = 0;
 
-            logger.debug('LLM response received', {
-                tokensUsed: response.usage.totalTokens,
-                contentLength: rawContent.length,
-            });
+            if (jsonSignature.fields.length > 0) {
+                // Build prompt
+                const prompt = promptBuilder.buildPrompt({
+                    profile,
+                    formSignature: jsonSignature,
+                    ragContext,
+                    priorAnswers: request.priorAnswers,
+                });
+
+                logger.debug('Prompt built', {
+                    provider: provider.config.name,
+                    estimatedTokens: prompt.estimatedTokens,
+                    fieldCount: jsonSignature.fields.length,
+                });
 
-            // Validate response
-            const validationResult = responseValidator.validate(rawContent, formSignature);
+                // Call LLM
+                const chatRequest: ChatCompletionRequest = {
+                    messages: [
+                        { role: 'system', content: prompt.systemPrompt },
+                        { role: 'user', content: prompt.userPrompt },
+                    ],
+                    temperature: 0.2,
+                    responseFormat: { type: 'json_object' },
+                    signal: request.signal,
+                };
+                const response = onMapping
+                    ? await this.streamCompletion(provider, chatRequest, jsonSignature, staticMappings, onMapping)
+                    : await provider.chatCompletion(chatRequest);
+
+                const rawContent = response.choices[0]?.message?.content;
+                if (!rawContent) {
+                    throw new Error('Empty response from LLM');
+                }
 
-            if (!validationResult.valid) {
-                logger.warn('LLM response validation failed', {
-                    errors: validationResult.errors,
+                logger.debug('LLM response received', {
+                    tokensUsed: response.usage.totalTokens,
+                    contentLength: rawContent.length,
                 });
 
-                if (this.config.fallbackToStatic) {
-                    return this.staticFill(formSignature, profile, 'LLM response validation failed');
+                // Validate response
+                const validationResult = responseValidator.validate(rawContent, jsonSignature);
+
+                if (!validationResult.valid) {
+                    logger.warn('LLM response validation failed', {
+                        errors: validationResult.errors,
+                    });
+
+                    if (this.config.fallbackToStatic) {
+                        return fallback('LLM response validation failed');
+                    }
+
+                    throw new Error('LLM response validation failed');
                 }
 
-                throw new Error('LLM response validation failed');
-            }
+                // Log warnings
+                if (validationResult.warnings.length > 0) {
+                    logger.debug('Validation warnings', { warnings: validationResult.warnings });
+                }
 
-            // Log warnings
-            if (validationResult.warnings.length > 0) {
-                logger.debug('Validation warnings', { warnings: validationResult.warnings });
+                llmMappings = validationResult.mappings;
+                tokensUsed += response.usage.totalTokens;
             }
 
-            // Get static mappings for comparison/merge
-            const staticMappings = createSuggestedMappings(formSignature.fields, profile);
+            for (const field of longFormFields) {
+                const answer = await this.answerLongFormField(field, formSignature, profile, request.signal);
+                if (answer) {
+                    llmMappings.push(answer.mapping);
+                    tokensUsed += answer.tokensUsed;
+                    onMapping?.(answer.mapping);
+                }
+            }
 
             // Merge LLM and static mappings
             const mergedMappings = responseValidator.mergeWithStaticMappings(
-                validationResult.mappings,
+                llmMappings,
                 staticMappings
             );
 
             logger.info('LLM fill successful', {
-                llmMappings: validationResult.mappings.length,
+                llmMappings: llmMappings.length,
+                longFormAnswers: longFormFields.length,
                 staticMappings: staticMappings.length,
                 mergedMappings: mergedMappings.length,
+                ragContextItems: ragContext.length,
             });
 
+            if (useCache) {
+                await this.cacheFill(formSignature, profile, mergedMappings, tokensUsed);
+            }
+
             return {
                 mappings: mergedMappings,
                 source: staticMappings.length > 0 ? 'hybrid' : 'llm',
                 llmUsed: true,
-                tokensUsed: response.usage.totalTokens,
+                tokensUsed,
             };
 
         } catch (error) {
+            // A cancelled fill fills nothing, not even the static fallback
+            if (request.signal?.aborted) {
+                logger.info('LLM fill cancelled');
+                throw error;
+            }
+
             logger.error('LLM fill failed', {
                 error: error instanceof Error ? error.message : String(error),
             });
 
             // Handle specific error types
-            if (error instanceof OpenRouterError) {
+            if (error instanceof LLMProviderError) {
                 if (error.code === 'INVALID_API_KEY') {
-                    return this.staticFill(formSignature, profile, 'Invalid API key');
+                    return fallback('Invalid API key');
                 }
                 if (error.code === 'RATE_LIMITED') {
-                    return this.staticFill(formSignature, profile, 'Rate limited');
+                    return fallback('Rate limited');
                 }
             }
 
             // Fallback to static mapping
             if (this.config.fallbackToStatic) {
                 const reason = error instanceof Error ? error.message : 'Unknown error';
-                return this.staticFill(formSignature, profile, reason);
+                return fallback(reason);
             }
 
             throw error;
@@ -190,49 +295,242 @@ export class LLMOrchestrator {
     }
 
     /**
-     * Perform static-only fill (fallback)
+     * Stream a completion, reporting each entry as soon as it parses and validates.
+     * Only entries that will survive the merge with static mappings are reported,
+     * so streamed values match the final result. A security violation rejects the
+     * whole response, so nothing more is reported once one appears.
      */
-    private staticFill(
+    private async streamCompletion(
+        provider: LLMProvider,
+        chatRequest: ChatCompletionRequest,
+        formSignature: FormSignature,
+        staticMappings: FieldMapping[],
+        onMapping: (mapping: FieldMapping) => void
+    ): Promise<ChatCompletionResponse> {
+        const parser = new JSONEntryStream();
+        const staticById = new Map(staticMappings.map((m) => [m.fieldSignature.id, m]));
+        const reported = new Set<string>();
+        let rejected = false;
+
+        return provider.streamChatCompletion(chatRequest, (delta) => {
+            for (const [fieldId, value] of parser.push(delta)) {
+                if (rejected) return;
+
+                const { mapping, errors } = responseValidator.validateEntry(fieldId, value, formSignature);
+                if (errors.some((e) => e.type === 'SECURITY_VIOLATION')) {
+                    logger.warn('Streamed response touched a denylisted field, stopping early fill');
+                    rejected = true;
+                    return;
+                }
+
+                const existing = staticById.get(fieldId);
+                if (mapping && !reported.has(fieldId) && (!existing || mapping.confidence > existing.confidence)) {
+                    reported.add(fieldId);
+                    onMapping(mapping);
+                }
+            }
+        });
+    }
+
+    /**
+     * Write the answer to one open-ended question. A failed answer leaves the
+     * field empty rather than failing the fill; cancellation still throws.
+     */
+    private async answerLongFormField(
+        field: FieldSignature,
+        formSignature: FormSignature,
+        profile: Profile,
+        signal?: AbortSignal
+    ): Promise<{ mapping: FieldMapping; tokensUsed: number } | null> {
+        this.checkCancelled(signal);
+
+        try {
+            const answer = await answerGenerator.generate({ field, formSignature, profile, signal });
+            return {
+                mapping: {
+                    fieldSignature: field,
+                    value: answer.value,
+                    confidence: LONG_FORM_CONFIDENCE,
+                    source: 'llm',
+                },
+                tokensUsed: answer.tokensUsed,
+            };
+        } catch (error) {
+            if (signal?.aborted) {
+                throw error;
+            }
+            logger.warn('Long-form answer failed', {
+                fieldId: field.id,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return null;
+        }
+    }
+
+    /**
+     * Throw if the fill was cancelled between steps
+     */
+    private checkCancelled(signal?: AbortSignal): void {
+        if (signal?.aborted) {
+            throw new LLMProviderError('Fill cancelled', 'CANCELLED');
+        }
+    }
+
+    /**
+     * Retrieve RAG context for a form, degrading to no context on failure
+     */
+    async retrieveContext(profileId: string, formSignature: FormSignature): Promise<string[]> {
+        try {
+            const result = await ragEngine.retrieve(profileId, formSignature);
+            return result.context;
+        } catch (error) {
+            logger.warn('RAG retrieval failed, continuing without context', {
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return [];
+        }
+    }
+
+    /**
+     * Look up a cached fill response for this form and profile
+     */
+    private async getCachedFill(
+        formSignature: FormSignature,
+        profile: Profile
+    ): Promise<FillResponse | null> {
+        try {
+            const cached = await cacheService.get(formSignature, profile.id, profile.version);
+            if (!cached || cached.mappings.length === 0) {
+                return null;
+            }
+
+            logger.info('Using cached fill response', { mappingCount: cached.mappings.length });
+
+            // Encrypted values are never cached; take them (and any other profile
+            // values) fresh from the static mapping
+            const staticMappings = createSuggestedMappings(formSignature.fields, profile, formSignature.repeatingSections);
+
+            return {
+                mappings: responseValidator.mergeWithStaticMappings(cached.mappings, staticMappings),
+                source: 'cached',
+                llmUsed: false,
+                tokensUsed: 0,
+            };
+        } catch (error) {
+            logger.warn('Cache lookup failed', {
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return null;
+        }
+    }
+
+    /**
+     * Store a successful LLM fill response (cache failures are non-fatal)
+     */
+    private async cacheFill(
+        formSignature: FormSignature,
+        profile: Profile,
+        mappings: FieldMapping[],
+        tokensUsed: number
+    ): Promise<void> {
+        // Decrypted values stay in memory only
+        const cacheable = mappings.filter((m) => !m.sensitive);
+
+        try {
+            await cacheService.set(formSignature, profile.id, cacheable, tokensUsed, profile.version);
+        } catch (error) {
+            logger.warn('Failed to cache fill response', {
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    /**
+     * Fill fields from values entered on similar past forms, without an LLM.
+     * Examples retrieved as most similar are tried first, then the rest by recency.
+     */
+    async matchLearnedExamples(formSignature: FormSignature, profile: Profile): Promise<FieldMapping[]> {
+        if (profile.learnedExamples.length === 0) {
+            return [];
+        }
+
+        let rankedIds: string[] = [];
+        try {
+            rankedIds = await ragEngine.rankLearnedExamples(profile.id, formSignature);
+        } catch (error) {
+            logger.warn('Learned example ranking failed, using recency order', {
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+
+        const rank = (id: string) => {
+            const index = rankedIds.indexOf(id);
+            return index === -1 ? rankedIds.length : index;
+        };
+        // Stable sort keeps the most-recent-first order among unranked examples
+        const examples = [...profile.learnedExamples].sort((a, b) => rank(a.id) - rank(b.id));
+
+        return mapFieldsFromExamples(formSignature.fields, examples);
+    }
+
+    /**
+     * Perform fill without the LLM (fallback): profile values, then learned examples
+     */
+    private async staticFill(
         formSignature: FormSignature,
         profile: Profile,
         fallbackReason: string
-    ): FillResponse {
-        const mappings = createSuggestedMappings(formSignature.fields, profile);
+    ): Promise<FillResponse> {
+        const mappings = createSuggestedMappings(formSignature.fields, profile, formSignature.repeatingSections);
+
+        const mappedFieldIds = new Set(mappings.map((m) => m.fieldSignature.id));
+        const unmappedFields = formSignature.fields.filter((f) => !mappedFieldIds.has(f.id));
+        const learnedMappings = unmappedFields.length > 0
+            ? await this.matchLearnedExamples({ ...formSignature, fields: unmappedFields }, profile)
+            : [];
 
         logger.info('Static fill performed', {
             mappingCount: mappings.length,
+            learnedCount: learnedMappings.length,
             reason: fallbackReason,
         });
 
         return {
-            mappings,
-            source: 'static',
+            mappings: [...mappings, ...learnedMappings],
+            source: learnedMappings.length > 0 ? 'learned' : 'static',
             llmUsed: false,
             fallbackReason,
         };
     }
 
     /**
-     * Test the LLM connection
+     * Test the connection to a provider (the default provider when omitted)
      */
-    async testConnection(): Promise<{ success: boolean; error?: string }> {
+    async testConnection(providerId?: string): Promise<{ success: boolean; error?: string }> {
         await this.init();
-        return openRouterClient.testConnection();
+
+        const provider = providerId ? providerRegistry.get(providerId) : providerRegistry.getDefault();
+        if (!provider) {
+            return { success: false, error: 'No AI provider configured' };
+        }
+        return provider.testConnection();
     }
 
     /**
-     * Get current configuration status
+     * Get the status of the default provider
      */
     getStatus(): {
         available: boolean;
+        providerName: string | null;
         chatModel: string;
         embeddingModel: string;
     } {
-        const config = openRouterClient.getConfig();
+        const provider = providerRegistry.getDefault();
         return {
-            available: config.hasApiKey,
-            chatModel: config.chatModel,
-            embeddingModel: config.embeddingModel,
+            available: provider?.isConfigured() ?? false,
+            providerName: provider?.config.name ?? null,
+            chatModel: provider?.config.chatModel ?? '',
+            embeddingModel: provider?.config.embeddingModel ?? '',
         };
     }
 }
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { LocalEmbedder } from './LocalEmbedder';
+
+const embedder = new LocalEmbedder();
+
+function cosine(a: number[], b: number[]): number {
+    return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+describe('LocalEmbedder', () => {
+    it('returns unit vectors of the declared size', () => {
+        const vector = embedder.embed('Current employer');
+        const norm = Math.sqrt(cosine(vector, vector));
+
+        expect(vector).toHaveLength(embedder.dimensions);
+        expect(norm).toBeCloseTo(1, 10);
+    });
+
+    it('is deterministic', () => {
+        expect(embedder.embed('First name')).toEqual(embedder.embed('First name'));
+    });
+
+    it('returns a zero vector for text with no words', () => {
+        const vector = embedder.embed('the, of & a');
+        expect(vector.every((v) => v === 0)).toBe(true);
+    });
+
+    it('ignores case, accents and punctuation', () => {
+        expect(embedder.embed('Résumé: ATTACHED!')).toEqual(embedder.embed('resume attached'));
+    });
+
+    it('ranks related labels above unrelated ones', () => {
+        const query = embedder.embed('Name of your current employer');
+        const related = embedder.embed('Current employer name');
+        const unrelated = embedder.embed('Preferred start date');
+
+        expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+    });
+
+    it('matches word variants through character trigrams', () => {
+        const employment = embedder.embed('employment');
+        expect(cosine(employment, embedder.embed('employer'))).toBeGreaterThan(
+            cosine(employment, embedder.embed('education'))
+        );
+    });
+});
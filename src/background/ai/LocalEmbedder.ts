@@ -0,0 +1,107 @@
+// Local Embedder
+// On-device hashed n-gram vectorizer, so retrieval works with no network access
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Model id recorded on vectors produced here. Bump the version whenever the
+ * features or dimensions change, since old vectors stop being comparable.
+ */
+export const LOCAL_EMBEDDING_MODEL = 'local/hashed-ngrams-v1';
+
+const DIMENSIONS = 512;
+
+// Feature weights: whole words carry the meaning, bigrams catch phrases like
+// "first name", and character trigrams match word variants ("employer", "employment")
+const WORD_WEIGHT = 1.0;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.3;
+
+const STOPWORDS: ReadonlySet<string> = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have',
+    'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'that', 'the',
+    'this', 'to', 'was', 'we', 'were', 'will', 'with', 'you', 'your',
+]);
+
+// ============================================================================
+// Local Embedder
+// ============================================================================
+
+export class LocalEmbedder {
+    readonly model = LOCAL_EMBEDDING_MODEL;
+    readonly dimensions = DIMENSIONS;
+
+    /**
+     * Embed text as an L2-normalized vector of hashed, log-scaled n-gram counts
+     */
+    embed(text: string): number[] {
+        const vector = new Array<number>(DIMENSIONS).fill(0);
+        const counts = new Map<string, { count: number; weight: number }>();
+
+        const addFeature = (feature: string, weight: number) => {
+            const entry = counts.get(feature);
+            if (entry) {
+                entry.count++;
+            } else {
+                counts.set(feature, { count: 1, weight });
+            }
+        };
+
+        const words = this.tokenize(text);
+        for (let i = 0; i < words.length; i++) {
+            const word = words[i];
+            addFeature(`w:${word}`, WORD_WEIGHT);
+
+            if (i > 0) {
+                addFeature(`b:${words[i - 1]} ${word}`, BIGRAM_WEIGHT);
+            }
+
+            const padded = `^${word}$`;
+            for (let j = 0; j + 3 <= padded.length; j++) {
+                addFeature(`t:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+            }
+        }
+
+        // Sublinear term frequency; the sign bit spreads hash collisions around zero
+        for (const [feature, { count, weight }] of counts) {
+            const hash = this.hashFeature(feature);
+            const sign = hash & 0x80000000 ? -1 : 1;
+            vector[hash % DIMENSIONS] += sign * weight * (1 + Math.log(count));
+        }
+
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+        return norm === 0 ? vector : vector.map((v) => v / norm);
+    }
+
+    /**
+     * Lowercase, strip accents, split on anything that isn't a letter or digit
+     */
+    private tokenize(text: string): string[] {
+        return text
+            .normalize('NFKD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .split(/[^\p{L}\p{N}]+/u)
+            .filter((word) => word && !STOPWORDS.has(word));
+    }
+
+    /**
+     * FNV-1a, as an unsigned 32-bit integer
+     */
+    private hashFeature(feature: string): number {
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < feature.length; i++) {
+            hash ^= feature.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return hash >>> 0;
+    }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+export const localEmbedder = new LocalEmbedder();
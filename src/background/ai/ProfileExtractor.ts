@@ -0,0 +1,89 @@
+// Profile Extractor
+// Proposes structured profile fields from a document such as a resume, for the user to review
+
+import type { ContextDocument, ExtractedProfileField, Profile } from '@shared/types';
+import { createLogger } from '@shared/utils';
+import { providerRegistry } from '../providers';
+import { promptBuilder } from './PromptBuilder';
+import { responseValidator } from './ResponseValidator';
+
+const logger = createLogger('ProfileExtractor');
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ExtractionResult {
+    fields: ExtractedProfileField[];
+    tokensUsed: number;
+}
+
+// ============================================================================
+// Profile Extractor
+// ============================================================================
+
+export class ProfileExtractor {
+    /**
+     * Extract profile fields from a document with the profile's provider (the
+     * default provider for a profile not yet saved). Throws if no provider is
+     * configured or the response holds no usable fields.
+     */
+    async extract(
+        document: Pick<ContextDocument, 'name' | 'content'>,
+        profile?: Profile | null
+    ): Promise<ExtractionResult> {
+        await providerRegistry.init();
+
+        const provider = providerRegistry.getForProfile(profile);
+        if (!provider?.isConfigured()) {
+            throw new Error('No AI provider configured');
+        }
+
+        const prompt = promptBuilder.buildExtractionPrompt(document);
+        logger.debug('Extraction prompt built', {
+            provider: provider.config.name,
+            estimatedTokens: prompt.estimatedTokens,
+        });
+
+        const response = await provider.chatCompletion({
+            messages: [
+                { role: 'system', content: prompt.systemPrompt },
+                { role: 'user', content: prompt.userPrompt },
+            ],
+            temperature: 0,
+            responseFormat: { type: 'json_object' },
+        });
+
+        const rawContent = response.choices[0]?.message?.content;
+        if (!rawContent) {
+            throw new Error('Empty response from LLM');
+        }
+
+        const result = responseValidator.validateProfileFields(rawContent, document.content);
+        if (result.errors.length > 0 || result.warnings.length > 0) {
+            logger.debug('Extraction validation issues', {
+                errors: result.errors,
+                warnings: result.warnings,
+            });
+        }
+
+        if (!result.valid) {
+            throw new Error(result.errors.some((e) => e.type === 'INVALID_JSON')
+                ? 'The AI response could not be read - try again'
+                : 'No profile fields were found in the document');
+        }
+
+        logger.info('Profile fields extracted', {
+            fieldCount: result.fields.length,
+            tokensUsed: response.usage.totalTokens,
+        });
+
+        return { fields: result.fields, tokensUsed: response.usage.totalTokens };
+    }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+export const profileExtractor = new ProfileExtractor();
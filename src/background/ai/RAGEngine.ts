@@ -1,9 +1,22 @@
 // RAG Engine
 // Retrieval-Augmented Generation for contextual form filling
 
-import type { FormSignature, FieldSignature, LearnedExample, VectorEntry } from '@shared/types';
+import type {
+    ChunkProvenance,
+    ContextDocument,
+    FormSignature,
+    FieldSignature,
+    LearnedExample,
+    Profile,
+    VectorEntry,
+} from '@shared/types';
 import { vectorStore } from '@shared/storage/VectorStore';
+import { profileService } from '@shared/storage';
 import { embeddingService } from './EmbeddingService';
+import { LOCAL_EMBEDDING_MODEL } from './LocalEmbedder';
+import { chunkDocument } from './DocumentChunker';
+import { providerRegistry } from '../providers';
+import type { LLMProvider } from '../providers';
 import { createLogger } from '@shared/utils';
 
 const logger = createLogger('RAGEngine');
@@ -42,6 +55,9 @@ const DEFAULT_CONFIG: RAGConfig = {
 // Approximate characters per token
 const CHARS_PER_TOKEN = 4;
 
+// Hashed n-gram vectors score lower than learned embeddings for the same match
+const LOCAL_SIMILARITY_THRESHOLD = 0.2;
+
 // ============================================================================
 // RAG Engine
 // ============================================================================
@@ -61,6 +77,7 @@ export class RAGEngine {
         if (this.initialized) return;
         await vectorStore.init();
         await embeddingService.init();
+        await providerRegistry.init();
         this.initialized = true;
         logger.debug('RAG engine initialized');
     }
@@ -72,23 +89,48 @@ export class RAGEngine {
         profileId: string,
         formSignature: FormSignature,
         options?: Partial<RAGConfig>
+    ): Promise<RetrievalResult> {
+        return this.retrieveForQuery(profileId, this.buildQueryText(formSignature), formSignature, options);
+    }
+
+    /**
+     * Retrieve context for one open-ended question on a form
+     */
+    async retrieveForField(
+        profileId: string,
+        formSignature: FormSignature,
+        field: FieldSignature,
+        options?: Partial<RAGConfig>
+    ): Promise<RetrievalResult> {
+        const queryText = `Question on ${formSignature.domain}${this.describeSubject(formSignature)}: ` +
+            (field.context.labelText ?? field.normalizedLabel);
+        return this.retrieveForQuery(profileId, queryText, formSignature, options);
+    }
+
+    /**
+     * Search a profile's vector store with a query and build context within the token budget
+     */
+    private async retrieveForQuery(
+        profileId: string,
+        queryText: string,
+        formSignature: FormSignature,
+        options?: Partial<RAGConfig>
     ): Promise<RetrievalResult> {
         await this.init();
 
         const config = { ...this.config, ...options };
 
-        // Build query text from form signature
-        const queryText = this.buildQueryText(formSignature);
-
         // Generate query embedding
-        const queryResult = await embeddingService.embed(queryText);
+        const provider = await this.getProvider(profileId);
+        const queryResult = await embeddingService.embed(queryText, provider);
 
         // Search vector store
         const searchResults = await vectorStore.search(
             profileId,
             queryResult.embedding,
             config.topK * 2, // Over-fetch for filtering
-            config.similarityThreshold
+            this.getThreshold(queryResult.model, options),
+            queryResult.model
         );
 
         if (searchResults.length === 0) {
@@ -113,6 +155,34 @@ export class RAGEngine {
         return { context, sources, tokenEstimate };
     }
 
+    /**
+     * Rank a profile's learned examples by similarity to a form, most similar first
+     */
+    async rankLearnedExamples(
+        profileId: string,
+        formSignature: FormSignature,
+        topK: number = 10
+    ): Promise<string[]> {
+        await this.init();
+
+        const provider = await this.getProvider(profileId);
+        const queryResult = await embeddingService.embed(this.buildQueryText(formSignature), provider);
+
+        // Over-fetch, since other source types share the store
+        const searchResults = await vectorStore.search(
+            profileId,
+            queryResult.embedding,
+            topK * 4,
+            this.getThreshold(queryResult.model),
+            queryResult.model
+        );
+
+        return searchResults
+            .filter((result) => result.sourceType === 'learned_example')
+            .slice(0, topK)
+            .map((result) => result.sourceId);
+    }
+
     /**
      * Ingest a learned example into the vector store
      */
@@ -122,22 +192,8 @@ export class RAGEngine {
     ): Promise<void> {
         await this.init();
 
-        // Build text representation of the example
-        const text = this.buildExampleText(example);
-
-        // Generate embedding
-        const result = await embeddingService.embed(text);
-
-        // Create vector entry
-        const entry: VectorEntry = {
-            id: `${profileId}_learned_${example.id}`,
-            profileId,
-            embedding: result.embedding,
-            sourceType: 'learned_example',
-            sourceId: example.id,
-            text,
-            createdAt: Date.now(),
-        };
+        const provider = await this.getProvider(profileId);
+        const entry = await this.buildExampleEntry(profileId, example, provider);
 
         // Store in vector store
         await vectorStore.upsert(entry);
@@ -145,48 +201,50 @@ export class RAGEngine {
         logger.debug('Learned example ingested', {
             profileId,
             exampleId: example.id,
-            textLength: text.length,
+            textLength: entry.text.length,
         });
     }
 
     /**
-     * Ingest a document (resume, cover letter) into the vector store
+     * Ingest a document (resume, cover letter) into the vector store, replacing
+     * any chunks from an earlier version of it
      */
     async ingestDocument(
         profileId: string,
-        documentId: string,
-        documentText: string,
+        document: ContextDocument,
         chunkSize: number = 500
     ): Promise<number> {
         await this.init();
 
-        // Split document into chunks
-        const chunks = this.chunkText(documentText, chunkSize);
-
-        // Generate embeddings for all chunks
-        const embedResults = await embeddingService.embedBatch(chunks);
-
-        // Create and store vector entries
-        const entries: VectorEntry[] = embedResults.embeddings.map((result, idx) => ({
-            id: `${profileId}_doc_${documentId}_${idx}`,
+        const provider = await this.getProvider(profileId);
+        const entries = await this.buildChunkEntries(
             profileId,
-            embedding: result.embedding,
-            sourceType: 'document' as const,
-            sourceId: documentId,
-            text: result.text,
-            createdAt: Date.now(),
-        }));
+            'document',
+            document.id,
+            document.content,
+            chunkSize,
+            provider
+        );
 
+        await vectorStore.deleteBySource(profileId, 'document', document.id);
         await vectorStore.upsertBatch(entries);
 
         logger.info('Document ingested', {
             profileId,
-            documentId,
-            chunks: chunks.length,
-            totalTokens: embedResults.totalTokens,
+            documentId: document.id,
+            chunks: entries.length,
         });
 
-        return chunks.length;
+        return entries.length;
+    }
+
+    /**
+     * Remove a document's chunks from the vector store
+     */
+    async removeDocument(profileId: string, documentId: string): Promise<void> {
+        await this.init();
+        await vectorStore.deleteBySource(profileId, 'document', documentId);
+        logger.info('Document removed', { profileId, documentId });
     }
 
     /**
@@ -207,32 +265,81 @@ export class RAGEngine {
             return 0;
         }
 
-        // Split knowledge base into chunks
-        const chunks = this.chunkText(knowledgeBase, chunkSize);
-
-        // Generate embeddings for all chunks
-        const embedResults = await embeddingService.embedBatch(chunks);
-
-        // Create and store vector entries
-        const entries: VectorEntry[] = embedResults.embeddings.map((result, idx) => ({
-            id: `${profileId}_kb_${idx}_${Date.now()}`,
+        const provider = await this.getProvider(profileId);
+        const entries = await this.buildChunkEntries(
             profileId,
-            embedding: result.embedding,
-            sourceType: 'knowledge_base' as const,
-            sourceId: 'knowledge_base',
-            text: result.text,
-            createdAt: Date.now(),
-        }));
+            'knowledge_base',
+            'knowledge_base',
+            knowledgeBase,
+            chunkSize,
+            provider
+        );
 
         await vectorStore.upsertBatch(entries);
 
         logger.info('Knowledge base ingested', {
             profileId,
-            chunks: chunks.length,
-            totalTokens: embedResults.totalTokens,
+            chunks: entries.length,
         });
 
-        return chunks.length;
+        return entries.length;
+    }
+
+    /**
+     * Re-embed everything a profile has indexed - learned examples, documents and
+     * knowledge base - with its current embedding model. The new vectors replace
+     * the old ones only once all are built, so a failure leaves the index as it was.
+     */
+    async reindexProfile(
+        profile: Profile,
+        onProgress?: (completed: number, total: number) => void
+    ): Promise<number> {
+        await this.init();
+
+        const provider = providerRegistry.getForProfile(profile);
+        const documents = profile.staticContext.documents.filter((doc) => doc.content);
+        const knowledgeBase = profile.staticContext.knowledgeBase?.trim();
+
+        const total = profile.learnedExamples.length + documents.length + (knowledgeBase ? 1 : 0);
+        const entries: VectorEntry[] = [];
+        let completed = 0;
+
+        const step = () => {
+            completed++;
+            onProgress?.(completed, total);
+        };
+
+        for (const example of profile.learnedExamples) {
+            entries.push(await this.buildExampleEntry(profile.id, example, provider));
+            step();
+        }
+
+        for (const doc of documents) {
+            entries.push(...await this.buildChunkEntries(profile.id, 'document', doc.id, doc.content, 500, provider));
+            step();
+        }
+
+        if (knowledgeBase) {
+            entries.push(...await this.buildChunkEntries(
+                profile.id,
+                'knowledge_base',
+                'knowledge_base',
+                knowledgeBase,
+                500,
+                provider
+            ));
+            step();
+        }
+
+        await vectorStore.replaceProfile(profile.id, entries);
+
+        logger.info('Profile reindexed', {
+            profileId: profile.id,
+            embeddingModel: embeddingService.getModel(provider),
+            vectors: entries.length,
+        });
+
+        return entries.length;
     }
 
     /**
@@ -244,6 +351,83 @@ export class RAGEngine {
         logger.info('Profile vectors cleared', { profileId });
     }
 
+    /**
+     * Minimum similarity for a model, unless the caller set one
+     */
+    private getThreshold(model: string, options?: Partial<RAGConfig>): number {
+        if (options?.similarityThreshold !== undefined) {
+            return options.similarityThreshold;
+        }
+        return model === LOCAL_EMBEDDING_MODEL ? LOCAL_SIMILARITY_THRESHOLD : this.config.similarityThreshold;
+    }
+
+    /**
+     * Resolve the provider that embeds text for a profile.
+     * Null means no remote embeddings: text is embedded on-device.
+     */
+    private async getProvider(profileId: string): Promise<LLMProvider | null> {
+        const profile = await profileService.getById(profileId);
+        return providerRegistry.getForProfile(profile);
+    }
+
+    /**
+     * Embed a learned example as a vector entry
+     */
+    private async buildExampleEntry(
+        profileId: string,
+        example: LearnedExample,
+        provider: LLMProvider | null
+    ): Promise<VectorEntry> {
+        const text = this.buildExampleText(example);
+        const result = await embeddingService.embed(text, provider);
+
+        return {
+            id: `${profileId}_learned_${example.id}`,
+            profileId,
+            embedding: result.embedding,
+            sourceType: 'learned_example',
+            sourceId: example.id,
+            text,
+            createdAt: Date.now(),
+            embeddingModel: result.model,
+            embeddingDimensions: result.embedding.length,
+        };
+    }
+
+    /**
+     * Chunk and embed a document or the knowledge base as vector entries.
+     * Documents are chunked along their sections and lists, with provenance.
+     */
+    private async buildChunkEntries(
+        profileId: string,
+        sourceType: 'document' | 'knowledge_base',
+        sourceId: string,
+        text: string,
+        chunkSize: number,
+        provider: LLMProvider | null
+    ): Promise<VectorEntry[]> {
+        const chunks: Array<{ text: string; provenance?: ChunkProvenance }> = sourceType === 'document'
+            ? chunkDocument(text, chunkSize)
+            : this.chunkText(text, chunkSize).map((chunk) => ({ text: chunk }));
+        const embedResults = await embeddingService.embedBatch(chunks.map((c) => c.text), provider);
+        const createdAt = Date.now();
+
+        return embedResults.embeddings.map((result, idx) => ({
+            id: sourceType === 'document'
+                ? `${profileId}_doc_${sourceId}_${idx}`
+                : `${profileId}_kb_${idx}_${createdAt}`,
+            profileId,
+            embedding: result.embedding,
+            sourceType,
+            sourceId,
+            text: result.text,
+            createdAt,
+            embeddingModel: embedResults.model,
+            embeddingDimensions: result.embedding.length,
+            provenance: chunks[idx].provenance,
+        }));
+    }
+
     /**
      * Build query text from form signature
      */
@@ -254,7 +438,25 @@ export class RAGEngine {
             .slice(0, 10) // Limit to top 10 fields
             .join(', ');
 
-        return `Form on ${formSignature.domain}: ${fieldDescriptions}`;
+        return `Form on ${formSignature.domain}${this.describeSubject(formSignature)}: ${fieldDescriptions}`;
+    }
+
+    /**
+     * Describe what the form's page is about, so retrieval favours knowledge
+     * about that role or organization: " for <job> at <company>", else " about <page title>"
+     */
+    private describeSubject(formSignature: FormSignature): string {
+        const pageContext = formSignature.pageContext;
+        const job = pageContext?.jobPosting;
+        const company = job?.company ?? pageContext?.organization?.name;
+
+        if (job?.title) {
+            return ` for ${job.title}${company ? ` at ${company}` : ''}`;
+        }
+        if (company) {
+            return ` at ${company}`;
+        }
+        return pageContext?.title ? ` about ${pageContext.title}` : '';
     }
 
     /**
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { FieldSignature, FormSignature } from '@shared/types';
+import { ResponseValidator } from './ResponseValidator';
+
+function field(overrides: Partial<FieldSignature> & Pick<FieldSignature, 'id'>): FieldSignature {
+    return {
+        domPath: `#${overrides.id}`,
+        inputType: 'text',
+        normalizedLabel: overrides.id,
+        semanticClass: 'unknown',
+        attributes: {},
+        context: { position: { x: 0, y: 0 } },
+        ...overrides,
+    };
+}
+
+function form(fields: FieldSignature[]): FormSignature {
+    return {
+        id: 'form-1',
+        url: 'https://example.com/apply',
+        domain: 'example.com',
+        formIndex: 0,
+        fields,
+        detectedAt: 0,
+    };
+}
+
+const validator = new ResponseValidator();
+
+describe('ResponseValidator.validate', () => {
+    const signature = form([
+        field({ id: 'name', normalizedLabel: 'full name', semanticClass: 'full_name' }),
+        field({
+            id: 'size',
+            inputType: 'select',
+            normalizedLabel: 'team size',
+            options: [
+                { value: 'small', label: '1-10 people' },
+                { value: 'large', label: 'More than 10 people' },
+            ],
+        }),
+        field({ id: 'password', inputType: 'password', normalizedLabel: 'password' }),
+    ]);
+
+    it('parses a response wrapped in a markdown code block', () => {
+        const result = validator.validate('```json\n{"name": "Ada Lovelace"}\n```', signature);
+
+        expect(result.valid).toBe(true);
+        expect(result.mappings).toHaveLength(1);
+        expect(result.mappings[0]).toMatchObject({ value: 'Ada Lovelace', source: 'llm' });
+    });
+
+    it('rejects a response that is not a JSON object', () => {
+        const result = validator.validate('["Ada"]', signature);
+
+        expect(result.valid).toBe(false);
+        expect(result.errors[0].type).toBe('INVALID_JSON');
+    });
+
+    it('reports unknown field ids and denylisted fields', () => {
+        const result = validator.validate('{"name": "Ada", "ghost": "x", "password": "hunter2"}', signature);
+
+        expect(result.valid).toBe(false);
+        expect(result.errors.map((e) => e.type)).toEqual(['INVALID_FIELD_ID', 'SECURITY_VIOLATION']);
+        expect(result.mappings.map((m) => m.fieldSignature.id)).toEqual(['name']);
+    });
+
+    it('submits the option value for an exact label', () => {
+        const result = validator.validate('{"size": "1-10 people"}', signature);
+
+        expect(result.mappings[0]).toMatchObject({ value: 'small', confidence: 0.9 });
+        expect(result.warnings).toEqual([]);
+    });
+
+    it('snaps a fuzzy answer to an option with lower confidence', () => {
+        const result = validator.validate('{"size": "more than 10"}', signature);
+
+        expect(result.mappings[0]).toMatchObject({ value: 'large', confidence: 0.7 });
+        expect(result.warnings[0].type).toBe('SNAPPED_TO_OPTION');
+    });
+
+    it('rejects an answer that is none of the options', () => {
+        const result = validator.validate('{"size": "enterprise"}', signature);
+
+        expect(result.mappings).toEqual([]);
+        expect(result.errors[0]).toMatchObject({ type: 'INVALID_OPTION', fieldId: 'size' });
+    });
+
+    it('skips empty values with a warning', () => {
+        const result = validator.validate('{"name": "  "}', signature);
+
+        expect(result.valid).toBe(false);
+        expect(result.warnings[0].type).toBe('EMPTY_VALUE');
+    });
+});
+
+describe('ResponseValidator.validateEntry', () => {
+    it('lowers confidence for a value of the wrong type', () => {
+        const signature = form([field({ id: 'email', inputType: 'email', semanticClass: 'email' })]);
+        const { mapping, warnings } = validator.validateEntry('email', 'not an address', signature);
+
+        expect(mapping?.confidence).toBeLessThanOrEqual(0.5);
+        expect(warnings.map((w) => w.type)).toContain('TYPE_MISMATCH');
+    });
+
+    it('cuts an answer to the field\'s length limit', () => {
+        const signature = form([field({ id: 'bio', inputType: 'textarea', limits: { maxLength: 20 } })]);
+        const { mapping, warnings } = validator.validateEntry(
+            'bio',
+            'I build compilers. I also enjoy long walks.',
+            signature
+        );
+
+        expect(mapping?.value.length).toBeLessThanOrEqual(20);
+        expect(warnings.map((w) => w.type)).toContain('TRUNCATED');
+    });
+});
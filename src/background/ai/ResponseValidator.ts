@@ -1,8 +1,23 @@
 // Response Validator
 // Validates and sanitizes LLM responses for form filling
 
-import type { FormSignature, FieldSignature, FieldMapping } from '@shared/types';
-import { isFieldDenylisted } from '@shared/constants';
+import type {
+    FormSignature,
+    FieldSignature,
+    FieldMapping,
+    FieldCategory,
+    SemanticClass,
+    ExtractedProfileField
+} from '@shared/types';
+import { isFieldDenylisted, FIELD_DENYLIST } from '@shared/constants';
+import {
+    matchOption,
+    matchAddressOption,
+    inferFieldCategory,
+    inferSemanticClass,
+    exceedsLimits,
+    fitToLimits
+} from '@shared/matching';
 import { createLogger } from '@shared/utils';
 
 const logger = createLogger('ResponseValidator');
@@ -18,14 +33,28 @@ export interface ValidationResult {
     warnings: ValidationWarning[];
 }
 
+export interface ProfileFieldValidationResult {
+    valid: boolean;
+    fields: ExtractedProfileField[];
+    errors: ValidationError[];
+    warnings: ValidationWarning[];
+}
+
 export interface ValidationError {
-    type: 'INVALID_JSON' | 'INVALID_FIELD_ID' | 'INVALID_VALUE_TYPE' | 'SECURITY_VIOLATION';
+    type:
+        | 'INVALID_JSON'
+        | 'INVALID_SCHEMA'
+        | 'INVALID_FIELD_ID'
+        | 'INVALID_VALUE_TYPE'
+        | 'INVALID_OPTION'
+        | 'SECURITY_VIOLATION';
     message: string;
     fieldId?: string;
 }
 
 export interface ValidationWarning {
-    type: 'LOW_CONFIDENCE' | 'TYPE_MISMATCH' | 'EMPTY_VALUE';
+    type: 'LOW_CONFIDENCE' | 'TYPE_MISMATCH' | 'EMPTY_VALUE' | 'SNAPPED_TO_OPTION' | 'DUPLICATE_KEY' | 'NOT_IN_SOURCE'
+        | 'TRUNCATED';
     message: string;
     fieldId?: string;
 }
@@ -41,6 +70,56 @@ const URL_PATTERN = /^https?:\/\/.+/i;
 const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 const ZIP_PATTERN = /^[\d\-\s]{3,10}$/;
 
+/**
+ * Value rules for semantic classes, applied on top of the input type checks.
+ * A value that doesn't fit has its confidence capped at the rule's confidence.
+ */
+const SEMANTIC_VALUE_RULES: Partial<Record<SemanticClass, { pattern: RegExp; confidence: number; expected: string }>> = {
+    email: { pattern: EMAIL_PATTERN, confidence: 0.5, expected: 'an email address' },
+    zip: { pattern: ZIP_PATTERN, confidence: 0.6, expected: 'a postal code' },
+    website: { pattern: URL_PATTERN, confidence: 0.6, expected: 'a URL' },
+    linkedin_url: { pattern: /linkedin\.com\//i, confidence: 0.5, expected: 'a LinkedIn profile URL' },
+    github_url: { pattern: /github\.com\//i, confidence: 0.5, expected: 'a GitHub profile URL' },
+    portfolio_url: { pattern: URL_PATTERN, confidence: 0.6, expected: 'a URL' },
+    years_of_experience: { pattern: /^\d{1,2}(\.\d+)?\+?$/, confidence: 0.5, expected: 'a number of years' },
+    salary_expectation: { pattern: /\d/, confidence: 0.5, expected: 'an amount' },
+    graduation_year: { pattern: /\b(19|20)\d{2}\b/, confidence: 0.5, expected: 'a year' },
+    gpa: { pattern: /^\d{1,2}(\.\d{1,2})?(\s*\/\s*\d{1,3}(\.\d{1,2})?)?$/, confidence: 0.5, expected: 'a grade point average' },
+    passport_number: { pattern: /^[A-Z0-9]{5,20}$/i, confidence: 0.5, expected: 'a passport number' },
+    drivers_license: { pattern: /^[A-Z0-9\-\s]{4,20}$/i, confidence: 0.5, expected: 'a license number' },
+};
+
+// Confidence cap for answers that only fuzzily matched an option
+const SNAPPED_OPTION_CONFIDENCE = 0.7;
+
+// Extracted profile fields
+const FIELD_CATEGORIES: ReadonlySet<string> = new Set<FieldCategory>([
+    'personal',
+    'contact',
+    'professional',
+    'education',
+    'identity',
+    'custom',
+]);
+const PROFILE_FIELD_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,63}$/;
+const MAX_PROFILE_FIELD_LENGTH = 2000;
+const MAX_SECTION_LENGTH = 100;
+
+// Values of these classes are copied verbatim from a document, so one that
+// can't be found in it was most likely made up
+const VERBATIM_CLASSES: ReadonlySet<SemanticClass> = new Set<SemanticClass>([
+    'first_name',
+    'last_name',
+    'full_name',
+    'email',
+    'phone',
+    'website',
+    'linkedin_url',
+    'github_url',
+    'portfolio_url',
+]);
+const NOT_IN_SOURCE_CONFIDENCE = 0.4;
+
 // ============================================================================
 // Response Validator
 // ============================================================================
@@ -77,76 +156,307 @@ export class ResponseValidator {
 
         // Step 3: Validate each field mapping
         for (const [fieldId, value] of Object.entries(parsed)) {
-            const field = fieldMap.get(fieldId);
-
-            // Check if field exists
-            if (!field) {
-                errors.push({
-                    type: 'INVALID_FIELD_ID',
-                    message: `Field ID "${fieldId}" not found in form`,
-                    fieldId,
-                });
-                continue;
+            const mapping = this.checkEntry(fieldId, value, fieldMap.get(fieldId), errors, warnings);
+            if (mapping) {
+                mappings.push(mapping);
             }
+        }
+
+        // Determine overall validity
+        const hasBlockingErrors = errors.some(
+            e => e.type === 'INVALID_JSON' || e.type === 'SECURITY_VIOLATION'
+        );
+
+        logger.debug('Validation complete', {
+            mappingCount: mappings.length,
+            errorCount: errors.length,
+            warningCount: warnings.length,
+        });
+
+        return {
+            valid: !hasBlockingErrors && mappings.length > 0,
+            mappings,
+            errors,
+            warnings,
+        };
+    }
+
+    /**
+     * Validate a single entry of a response, as it streams in
+     */
+    validateEntry(
+        fieldId: string,
+        value: string,
+        formSignature: FormSignature
+    ): { mapping: FieldMapping | null; errors: ValidationError[]; warnings: ValidationWarning[] } {
+        const errors: ValidationError[] = [];
+        const warnings: ValidationWarning[] = [];
+        const field = formSignature.fields.find((f) => f.id === fieldId);
+        const mapping = this.checkEntry(fieldId, value, field, errors, warnings);
+        return { mapping, errors, warnings };
+    }
+
+    /**
+     * Check one field ID and value, recording problems; returns the mapping if usable
+     */
+    private checkEntry(
+        fieldId: string,
+        value: string,
+        field: FieldSignature | undefined,
+        errors: ValidationError[],
+        warnings: ValidationWarning[]
+    ): FieldMapping | null {
+        // Check if field exists
+        if (!field) {
+            errors.push({
+                type: 'INVALID_FIELD_ID',
+                message: `Field ID "${fieldId}" not found in form`,
+                fieldId,
+            });
+            return null;
+        }
 
-            // Check security denylist
-            if (isFieldDenylisted(field)) {
+        // Check security denylist
+        if (isFieldDenylisted(field)) {
+            errors.push({
+                type: 'SECURITY_VIOLATION',
+                message: `Field "${fieldId}" is on security denylist`,
+                fieldId,
+            });
+            return null;
+        }
+
+        // Check for empty value
+        if (!value || value.trim() === '') {
+            warnings.push({
+                type: 'EMPTY_VALUE',
+                message: `Empty value for field "${fieldId}"`,
+                fieldId,
+            });
+            return null;
+        }
+
+        // Selects and radio groups only accept one of their options
+        if (field.options?.length) {
+            const match = field.semanticClass === 'country' || field.semanticClass === 'state'
+                ? matchAddressOption(value.trim(), field.options, field.semanticClass)
+                : matchOption(value.trim(), field.options);
+
+            if (!match) {
                 errors.push({
-                    type: 'SECURITY_VIOLATION',
-                    message: `Field "${fieldId}" is on security denylist`,
+                    type: 'INVALID_OPTION',
+                    message: `Value "${value}" is not an option of field "${fieldId}"`,
                     fieldId,
                 });
-                continue;
+                return null;
             }
 
-            // Check for empty value
-            if (!value || value.trim() === '') {
+            if (!match.exact) {
                 warnings.push({
-                    type: 'EMPTY_VALUE',
-                    message: `Empty value for field "${fieldId}"`,
+                    type: 'SNAPPED_TO_OPTION',
+                    message: `Value "${value}" snapped to option "${match.option.label}"`,
                     fieldId,
                 });
-                continue;
-            }
-
-            // Validate value type
-            const typeValidation = this.validateValueType(value, field);
-            if (typeValidation.warning) {
-                warnings.push(typeValidation.warning);
             }
 
-            // Create mapping
-            mappings.push({
+            return {
                 fieldSignature: field,
-                value: String(value).trim(),
-                confidence: typeValidation.confidence,
+                value: match.option.value,
+                confidence: match.exact ? 0.9 : SNAPPED_OPTION_CONFIDENCE,
                 source: 'llm',
+            };
+        }
+
+        // Validate value type
+        const typeValidation = this.validateValueType(value, field);
+        if (typeValidation.warning) {
+            warnings.push(typeValidation.warning);
+        }
+
+        // Answers longer than the field allows are cut at a sentence or word
+        let text = String(value).trim();
+        if (exceedsLimits(text, field.limits)) {
+            text = fitToLimits(text, field.limits);
+            warnings.push({
+                type: 'TRUNCATED',
+                message: `Value for field "${fieldId}" cut to fit its length limit`,
+                fieldId,
             });
         }
 
-        // Determine overall validity
-        const hasBlockingErrors = errors.some(
-            e => e.type === 'INVALID_JSON' || e.type === 'SECURITY_VIOLATION'
-        );
+        // Create mapping
+        return {
+            fieldSignature: field,
+            value: text,
+            confidence: typeValidation.confidence,
+            source: 'llm',
+        };
+    }
 
-        logger.debug('Validation complete', {
-            mappingCount: mappings.length,
+    /**
+     * Validate profile fields extracted from a document. The response must be
+     * {"fields": [{key, value, category, section}]}; malformed entries are dropped
+     * and reported, and values are checked against their key's format and the
+     * document they were read from.
+     */
+    validateProfileFields(rawResponse: string, sourceText: string): ProfileFieldValidationResult {
+        const errors: ValidationError[] = [];
+        const warnings: ValidationWarning[] = [];
+        const fields: ExtractedProfileField[] = [];
+
+        let entries: unknown[];
+        try {
+            const parsed = JSON.parse(this.extractJSONText(rawResponse));
+            if (typeof parsed !== 'object' || parsed === null || !Array.isArray(parsed.fields)) {
+                throw new Error('Response must be a JSON object with a "fields" array');
+            }
+            entries = parsed.fields;
+        } catch (error) {
+            errors.push({
+                type: 'INVALID_JSON',
+                message: error instanceof Error ? error.message : 'Invalid JSON response',
+            });
+            return { valid: false, fields, errors, warnings };
+        }
+
+        const source = normalizeForSearch(sourceText);
+        const seenKeys = new Set<string>();
+
+        entries.forEach((entry, index) => {
+            const field = this.checkProfileField(entry, index, source, errors, warnings);
+            if (!field) return;
+
+            if (seenKeys.has(field.key.toLowerCase())) {
+                warnings.push({
+                    type: 'DUPLICATE_KEY',
+                    message: `Duplicate key "${field.key}" ignored`,
+                    fieldId: field.key,
+                });
+                return;
+            }
+
+            seenKeys.add(field.key.toLowerCase());
+            fields.push(field);
+        });
+
+        logger.debug('Profile field validation complete', {
+            fieldCount: fields.length,
             errorCount: errors.length,
             warningCount: warnings.length,
         });
 
+        return { valid: fields.length > 0, fields, errors, warnings };
+    }
+
+    /**
+     * Check one extracted entry, recording problems; returns the field if usable
+     */
+    private checkProfileField(
+        entry: unknown,
+        index: number,
+        source: string,
+        errors: ValidationError[],
+        warnings: ValidationWarning[]
+    ): ExtractedProfileField | null {
+        if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+            errors.push({ type: 'INVALID_SCHEMA', message: `Entry ${index} is not an object` });
+            return null;
+        }
+        const { key: rawKey, value: rawValue, category, section } = entry as Record<string, unknown>;
+
+        const key = typeof rawKey === 'string' ? rawKey.trim() : '';
+        if (!PROFILE_FIELD_KEY_PATTERN.test(key)) {
+            errors.push({
+                type: 'INVALID_FIELD_ID',
+                message: `Entry ${index} has an invalid key`,
+                fieldId: typeof rawKey === 'string' ? rawKey : undefined,
+            });
+            return null;
+        }
+
+        if (isKeyDenylisted(key)) {
+            errors.push({
+                type: 'SECURITY_VIOLATION',
+                message: `Key "${key}" is on security denylist`,
+                fieldId: key,
+            });
+            return null;
+        }
+
+        // Lists such as skills may come back as arrays
+        let value: string;
+        if (typeof rawValue === 'string' || typeof rawValue === 'number') {
+            value = String(rawValue).trim();
+        } else if (Array.isArray(rawValue) && rawValue.every((item) => typeof item === 'string')) {
+            value = rawValue.map((item) => item.trim()).filter(Boolean).join(', ');
+        } else {
+            errors.push({
+                type: 'INVALID_VALUE_TYPE',
+                message: `Value of "${key}" must be a string`,
+                fieldId: key,
+            });
+            return null;
+        }
+
+        if (!value) {
+            warnings.push({ type: 'EMPTY_VALUE', message: `Empty value for key "${key}"`, fieldId: key });
+            return null;
+        }
+        if (value.length > MAX_PROFILE_FIELD_LENGTH) {
+            errors.push({
+                type: 'INVALID_VALUE_TYPE',
+                message: `Value of "${key}" is longer than ${MAX_PROFILE_FIELD_LENGTH} characters`,
+                fieldId: key,
+            });
+            return null;
+        }
+
+        // Known keys keep the category the field mapper gives them
+        const semanticClass = inferSemanticClass(key);
+        const fieldCategory = semanticClass !== 'unknown'
+            ? inferFieldCategory(key)
+            : typeof category === 'string' && FIELD_CATEGORIES.has(category)
+                ? category as FieldCategory
+                : 'custom';
+
+        let confidence = 0.9;
+
+        const rule = semanticClass === 'phone'
+            ? { pattern: PHONE_PATTERN, confidence: 0.6, expected: 'a phone number' }
+            : SEMANTIC_VALUE_RULES[semanticClass];
+        if (rule && !rule.pattern.test(value)) {
+            confidence = rule.confidence;
+            warnings.push({
+                type: 'TYPE_MISMATCH',
+                message: `Value "${value}" may not be ${rule.expected}`,
+                fieldId: key,
+            });
+        }
+
+        if (VERBATIM_CLASSES.has(semanticClass) && !isInSource(value, semanticClass, source)) {
+            confidence = Math.min(confidence, NOT_IN_SOURCE_CONFIDENCE);
+            warnings.push({
+                type: 'NOT_IN_SOURCE',
+                message: `Value "${value}" was not found in the document`,
+                fieldId: key,
+            });
+        }
+
         return {
-            valid: !hasBlockingErrors && mappings.length > 0,
-            mappings,
-            errors,
-            warnings,
+            key,
+            value,
+            category: fieldCategory,
+            confidence,
+            section: typeof section === 'string' && section.trim()
+                ? section.trim().slice(0, MAX_SECTION_LENGTH)
+                : undefined,
         };
     }
 
     /**
-     * Parse JSON from LLM response, handling markdown code blocks
+     * The JSON object in an LLM response, unwrapped from markdown code blocks
      */
-    private parseJSON(rawResponse: string): Record<string, string> {
+    private extractJSONText(rawResponse: string): string {
         let jsonStr = rawResponse.trim();
 
         // Handle markdown code blocks
@@ -163,6 +473,15 @@ export class ResponseValidator {
             }
         }
 
+        return jsonStr;
+    }
+
+    /**
+     * Parse JSON from LLM response, handling markdown code blocks
+     */
+    private parseJSON(rawResponse: string): Record<string, string> {
+        const jsonStr = this.extractJSONText(rawResponse);
+
         try {
             const parsed = JSON.parse(jsonStr);
 
@@ -253,12 +572,14 @@ export class ResponseValidator {
         }
 
         // Additional semantic validation
-        if (field.semanticClass === 'zip' && !ZIP_PATTERN.test(trimmedValue)) {
-            confidence = Math.min(confidence, 0.6);
-        }
-
-        if (field.semanticClass === 'email' && !EMAIL_PATTERN.test(trimmedValue)) {
-            confidence = Math.min(confidence, 0.5);
+        const rule = SEMANTIC_VALUE_RULES[field.semanticClass];
+        if (rule && !rule.pattern.test(trimmedValue)) {
+            confidence = Math.min(confidence, rule.confidence);
+            warning ??= {
+                type: 'TYPE_MISMATCH',
+                message: `Value "${trimmedValue}" may not be ${rule.expected}`,
+                fieldId: field.id,
+            };
         }
 
         return { confidence, warning };
@@ -295,3 +616,46 @@ export class ResponseValidator {
 // ============================================================================
 
 export const responseValidator = new ResponseValidator();
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Check a profile field key against the security denylist, word by word
+ */
+function isKeyDenylisted(key: string): boolean {
+    const words = key.replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/_/g, '-').toLowerCase();
+    const compact = words.replace(/-/g, '');
+
+    for (const denied of FIELD_DENYLIST) {
+        const entry = denied.replace(/_/g, '-');
+        if (`-${words}-`.includes(`-${entry}-`) || (entry.length >= 6 && compact.includes(entry.replace(/-/g, '')))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Lowercase text with only letters and digits left, for loose substring checks
+ */
+function normalizeForSearch(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+/**
+ * Check that a value appears in the normalized source text. Phone numbers
+ * are compared by digits and URLs without their scheme.
+ */
+function isInSource(value: string, semanticClass: SemanticClass, source: string): boolean {
+    let needle = value;
+    if (semanticClass === 'phone') {
+        needle = value.replace(/\D/g, '').slice(-7);
+    } else if (semanticClass.endsWith('_url') || semanticClass === 'website') {
+        needle = value.replace(/^https?:\/\/(?:www\.)?/i, '').replace(/\/+$/, '');
+    }
+
+    const normalized = normalizeForSearch(needle);
+    return normalized.length > 0 && source.includes(normalized);
+}
@@ -2,16 +2,34 @@
 // Re-export all AI components from this directory
 
 export { LLMOrchestrator, llmOrchestrator } from './LLMOrchestrator';
-export type { FillRequest, FillResponse, OrchestratorConfig } from './LLMOrchestrator';
+export type { FillRequest, FillResponse, FillStage, OrchestratorConfig } from './LLMOrchestrator';
 
 export { PromptBuilder, promptBuilder } from './PromptBuilder';
-export type { PromptContext, BuiltPrompt } from './PromptBuilder';
+export type { PromptContext, LongFormPromptContext, PriorAnswer, BuiltPrompt } from './PromptBuilder';
 
 export { ResponseValidator, responseValidator } from './ResponseValidator';
-export type { ValidationResult, ValidationError, ValidationWarning } from './ResponseValidator';
+export type {
+    ValidationResult,
+    ProfileFieldValidationResult,
+    ValidationError,
+    ValidationWarning
+} from './ResponseValidator';
+
+export { ProfileExtractor, profileExtractor } from './ProfileExtractor';
+export type { ExtractionResult } from './ProfileExtractor';
+
+export { AnswerGenerator, answerGenerator } from './AnswerGenerator';
+export type { AnswerRequest, GeneratedAnswer } from './AnswerGenerator';
+
+export { JSONEntryStream } from './JSONEntryStream';
+
+export { chunkDocument } from './DocumentChunker';
+export type { DocumentChunk } from './DocumentChunker';
 
 export { EmbeddingService, embeddingService } from './EmbeddingService';
 export type { EmbeddingResult, BatchEmbeddingResult } from './EmbeddingService';
 
 export { RAGEngine, ragEngine } from './RAGEngine';
 export type { RAGConfig, RetrievalResult } from './RAGEngine';
+
+export { LocalEmbedder, localEmbedder, LOCAL_EMBEDDING_MODEL } from './LocalEmbedder';
@@ -1,20 +1,45 @@
 // Background Service Worker Entry Point
 // Main orchestration layer for the extension
 
-import { createLogger } from '@shared/utils';
+import { createLogger, extractDomain, matchesUrlBinding } from '@shared/utils';
 import { MessageBus } from '@shared/messaging';
-import { profileService } from '@shared/storage';
-import { createSuggestedMappings } from '@shared/matching';
-import type { FillState, FormSignature } from '@shared/types';
-import { llmOrchestrator } from './ai';
-import { openRouterClient } from './services';
+import {
+    profileService,
+    storageService,
+    vaultService,
+    VaultLockedError,
+    ProfileImportError,
+} from '@shared/storage';
+import { createSuggestedMappings, getRecords, getSurplusGroupFieldIds } from '@shared/matching';
+import type {
+    EmbeddingIndexStatus,
+    FillState,
+    FillOptions,
+    FormSignature,
+    FormRef,
+    FieldMapping,
+    Profile,
+    MessagePayloadMap,
+    MessageResponseMap,
+} from '@shared/types';
+import { llmOrchestrator, ragEngine, profileExtractor, answerGenerator } from './ai';
+import type { FillResponse } from './ai';
+import { learningService, formRegistry, formSessionService, autoFillService, reindexService } from './services';
+import { providerRegistry } from './providers';
 
 const logger = createLogger('Background');
 
 // Current state (ephemeral, stored in session storage for service worker restarts)
 let state: FillState = { type: 'IDLE', tabId: -1, timestamp: Date.now() };
 let activeProfileId: string | null = null;
-let currentFormSignature: FormSignature | null = null;
+// Profile used for the most recent fill in each tab (for attributing user edits)
+let fillProfileByTab: Record<number, string> = {};
+// Frame that received the most recent fill in each tab, which holds its undo snapshot
+let undoFrameByTab: Record<number, number> = {};
+// Fill being prepared in each tab, aborted on cancel (lost on restart, like the request itself)
+const fillControllers = new Map<number, AbortController>();
+// Most blocks added to one repeating section per fill, so a broken add button can't run away
+const MAX_ADDED_BLOCKS = 10;
 
 /**
  * Initialize the background service worker
@@ -25,24 +50,59 @@ async function initialize(): Promise<void> {
     // Initialize persistent storage
     await profileService.init();
 
+    // Restore per-tab form registry
+    await formRegistry.init();
+
+    // Restore multi-step form sessions and recent auto-fills
+    await formSessionService.init();
+    await autoFillService.init();
+
     // Initialize AI layer
     await llmOrchestrator.init();
 
     // Restore ephemeral state from session storage (for service worker restarts)
     await restoreSessionState();
 
+    // Re-embed vectors left over from a previous embedding model
+    reindexService.onUpdate(broadcastIndexStatus);
+    scheduleStaleReindex();
+
+    logger.info('Background service worker ready', {
+        aiAvailable: llmOrchestrator.isAvailable(),
+    });
+}
+
+/**
+ * Register every listener. Runs synchronously when the worker starts, so the
+ * event that woke it is delivered; handlers wait for initialization themselves.
+ */
+function registerListeners(): void {
     // Set up message handlers
     setupMessageHandlers();
 
     // Set up AI message handlers
     setupAIMessageHandlers();
 
+    // Set up learning message handlers
+    setupLearningMessageHandlers();
+
+    // Set up review overlay message handlers
+    setupReviewMessageHandlers();
+
+    // Set up encrypted field vault handlers
+    setupVaultMessageHandlers();
+
+    // Set up profile import/export handlers
+    setupProfileTransferMessageHandlers();
+
+    // Forget forms when tabs close or navigate
+    setupTabListeners();
+
     // Set up context menu
     setupContextMenu();
 
-    logger.info('Background service worker ready', {
-        aiAvailable: llmOrchestrator.isAvailable(),
-    });
+    // Set up keyboard shortcuts
+    setupKeyboardCommands();
 }
 
 /**
@@ -50,7 +110,12 @@ async function initialize(): Promise<void> {
  */
 async function restoreSessionState(): Promise<void> {
     try {
-        const stored = await chrome.storage.session.get(['state', 'activeProfileId', 'currentFormSignature']);
+        const stored = await chrome.storage.session.get([
+            'state',
+            'activeProfileId',
+            'fillProfileByTab',
+            'undoFrameByTab',
+        ]);
 
         if (stored.state) {
             state = stored.state;
@@ -58,8 +123,11 @@ async function restoreSessionState(): Promise<void> {
         if (stored.activeProfileId) {
             activeProfileId = stored.activeProfileId;
         }
-        if (stored.currentFormSignature) {
-            currentFormSignature = stored.currentFormSignature;
+        if (stored.fillProfileByTab) {
+            fillProfileByTab = stored.fillProfileByTab;
+        }
+        if (stored.undoFrameByTab) {
+            undoFrameByTab = stored.undoFrameByTab;
         }
 
         logger.debug('Session state restored', { activeProfileId });
@@ -73,7 +141,12 @@ async function restoreSessionState(): Promise<void> {
  */
 async function persistSessionState(): Promise<void> {
     try {
-        await chrome.storage.session.set({ state, activeProfileId, currentFormSignature });
+        await chrome.storage.session.set({
+            state,
+            activeProfileId,
+            fillProfileByTab,
+            undoFrameByTab,
+        });
     } catch (error) {
         logger.error('Failed to persist session state', { error });
     }
@@ -98,11 +171,20 @@ function setupMessageHandlers(): void {
     MessageBus.subscribe(['CREATE_PROFILE'], async (message) => {
         const { profile: FormQata } = message.payload;
 
-        const newProfile = await profileService.create({
-            name: FormQata.name,
-            staticContext: FormQata.staticContext,
-            settings: FormQata.settings,
-        });
+        let newProfile: Profile;
+        try {
+            newProfile = await profileService.create({
+                name: FormQata.name,
+                staticContext: FormQata.staticContext,
+                settings: FormQata.settings,
+                urlBindings: FormQata.urlBindings,
+            });
+        } catch (error) {
+            if (error instanceof VaultLockedError) {
+                return { error: error.message };
+            }
+            throw error;
+        }
 
         // If this is the first profile, set it as active
         const allProfiles = await profileService.getAll();
@@ -112,6 +194,7 @@ function setupMessageHandlers(): void {
         }
 
         broadcastProfilesUpdate();
+        void syncDocumentVectors(undefined, newProfile);
 
         return { profile: newProfile };
     });
@@ -119,15 +202,28 @@ function setupMessageHandlers(): void {
     // Handle profile updates
     MessageBus.subscribe(['UPDATE_PROFILE'], async (message) => {
         const { profile: updatedProfile } = message.payload;
+        const previous = await profileService.getById(updatedProfile.id);
 
-        const profile = await profileService.update(updatedProfile.id, {
-            name: updatedProfile.name,
-            staticContext: updatedProfile.staticContext,
-            settings: updatedProfile.settings,
-            urlBindings: updatedProfile.urlBindings,
-        });
+        let profile: Profile;
+        try {
+            profile = await profileService.update(updatedProfile.id, {
+                name: updatedProfile.name,
+                staticContext: updatedProfile.staticContext,
+                settings: updatedProfile.settings,
+                urlBindings: updatedProfile.urlBindings,
+            });
+        } catch (error) {
+            if (error instanceof VaultLockedError) {
+                return { error: error.message };
+            }
+            throw error;
+        }
 
         broadcastProfilesUpdate();
+        void syncDocumentVectors(previous, profile);
+
+        // A different provider may mean a different embedding model
+        scheduleStaleReindex();
 
         return { profile };
     });
@@ -157,10 +253,94 @@ function setupMessageHandlers(): void {
         return { success: true };
     });
 
+    // Handle site profile requests (popup selects the profile bound to the active tab's site)
+    MessageBus.subscribe(['GET_SITE_PROFILE'], async () => {
+        const url = await getActiveTabUrl();
+        const boundProfile = url ? await profileService.findBestForUrl(url) : undefined;
+
+        return {
+            domain: url ? extractDomain(url) || null : null,
+            boundProfileId: boundProfile?.id ?? null,
+            activeProfileId,
+        };
+    });
+
+    // Bind the active tab's domain to a profile, ahead of other profiles bound to it
+    MessageBus.subscribe(['BIND_SITE'], async (message) => {
+        const { profileId } = message.payload;
+        const url = await getActiveTabUrl();
+        const domain = url ? extractDomain(url) : '';
+        if (!url || !domain) {
+            return { success: false, error: 'This page can\'t be bound' };
+        }
+
+        const otherPriorities = (await profileService.findByUrl(url)).flatMap((profile) =>
+            profile.urlBindings
+                .filter((b) => matchesUrlBinding(url, b) && !(profile.id === profileId && b.pattern === domain))
+                .map((b) => b.priority)
+        );
+        const priority = otherPriorities.length > 0 ? Math.max(...otherPriorities) + 1 : 0;
+
+        try {
+            await profileService.removeUrlBinding(profileId, domain);
+            await profileService.addUrlBinding(profileId, { pattern: domain, type: 'domain', priority });
+        } catch (error) {
+            return { success: false, error: error instanceof Error ? error.message : String(error) };
+        }
+
+        logger.info('Site bound to profile', { profileId, domain, priority });
+        broadcastProfilesUpdate();
+        return { success: true };
+    });
+
+    MessageBus.subscribe(['UNBIND_SITE'], async (message) => {
+        const url = await getActiveTabUrl();
+        const domain = url ? extractDomain(url) : '';
+        if (!domain) {
+            return { success: false };
+        }
+
+        await profileService.removeUrlBinding(message.payload.profileId, domain);
+        broadcastProfilesUpdate();
+        return { success: true };
+    });
+
+    // Handle app settings requests (options page)
+    MessageBus.subscribe(['GET_APP_SETTINGS'], async () => {
+        return { settings: await storageService.getSettings() };
+    });
+
+    MessageBus.subscribe(['UPDATE_APP_SETTINGS'], async (message) => {
+        const previous = await storageService.getSettings();
+        const settings = { ...previous, ...message.payload.settings };
+        await storageService.saveSettings(settings);
+
+        // Flagged fields are stored again, encrypted or in plaintext to match
+        if (settings.encryptSensitiveFields !== previous.encryptSensitiveFields) {
+            try {
+                await profileService.resealAll();
+            } catch (error) {
+                await storageService.saveSettings(previous);
+                return { settings: previous, error: error instanceof Error ? error.message : 'Unknown error' };
+            }
+            broadcastProfilesUpdate();
+        }
+
+        return { settings };
+    });
+
     // Handle form detection from content script
     MessageBus.subscribe(['FORM_DETECTED'], async (message, sender) => {
+        const { forms } = message.payload;
+
         if (sender.tab?.id) {
-            currentFormSignature = message.payload.formSignature;
+            // Each frame reports its own forms; frameId routes fills back to it
+            await formRegistry.setForms(sender.tab.id, sender.frameId ?? 0, forms);
+        }
+
+        // An empty report only withdraws a frame's forms; a fill's own
+        // changes to the page don't interrupt it
+        if (sender.tab?.id && forms.length > 0 && !isFillActive(sender.tab.id)) {
             state = {
                 type: 'DETECTING',
                 tabId: sender.tab.id,
@@ -169,149 +349,262 @@ function setupMessageHandlers(): void {
             await persistSessionState();
             broadcastStateUpdate();
         }
-        logger.info('Form detected', {
+        logger.info('Forms detected', {
             tabId: sender.tab?.id,
-            fieldCount: message.payload.formSignature.fields.length,
+            frameId: sender.frameId,
+            fieldCounts: forms.map((f) => f.fields.length),
         });
+
+        // Not awaited: an auto-fill runs a whole fill, which the frame needn't wait on
+        if (sender.tab?.id && forms.length > 0) {
+            void handleNewForms(sender.tab.id, sender.frameId ?? 0, forms);
+        }
+    });
+
+    // Handle form session requests for the active tab (popup)
+    MessageBus.subscribe(['GET_FORM_SESSION'], async () => {
+        const tabId = await getActiveTabId();
+        const session = tabId !== undefined ? formSessionService.getForTab(tabId) : undefined;
+        if (!session) {
+            return { session: null };
+        }
+
+        return {
+            session: {
+                id: session.id,
+                domain: session.domain,
+                stepCount: session.steps.length,
+                autoFill: session.autoFill,
+                startedAt: session.startedAt,
+            },
+        };
+    });
+
+    MessageBus.subscribe(['SET_FORM_SESSION_AUTO_FILL'], async (message) => {
+        const { sessionId, enabled } = message.payload;
+        return { success: await formSessionService.setAutoFill(sessionId, enabled) };
+    });
+
+    MessageBus.subscribe(['END_FORM_SESSION'], async (message) => {
+        return { success: await formSessionService.end(message.payload.sessionId) };
+    });
+
+    // Handle form list requests for the active tab (popup form picker)
+    MessageBus.subscribe(['GET_TAB_FORMS'], async () => {
+        const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        if (!tab?.id) {
+            return { forms: [], focusedForm: null };
+        }
+
+        return {
+            forms: formRegistry.getForms(tab.id),
+            focusedForm: await getFocusedForm(tab.id),
+        };
     });
 
     // Handle fill trigger - Combined static + AI strategy
-    MessageBus.subscribe(['TRIGGER_FILL'], async (message, _sender) => {
+    MessageBus.subscribe(['TRIGGER_FILL'], async (message) => {
+        const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        if (!tab?.id) {
+            return { success: false, error: 'No active tab' };
+        }
+
+        return triggerFill(tab.id, message.payload);
+    });
+
+    // Handle AI fill request - RAG retrieval, cache and LLM with static fallback
+    MessageBus.subscribe(['REQUEST_AI_FILL'], async (message) => {
+        const { useCache = true } = message.payload;
         const profileId = message.payload.profileId || activeProfileId;
 
         if (!profileId) {
             return { success: false, error: 'No profile selected' };
         }
 
-        const profile = await profileService.getById(profileId);
+        const profile = await profileService.getForFill(profileId);
         if (!profile) {
             return { success: false, error: 'Profile not found' };
         }
 
-        // Get active tab
         const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
         if (!tab?.id) {
             return { success: false, error: 'No active tab' };
         }
+        const tabId = tab.id;
 
-        // Check if we have a form signature
-        if (!currentFormSignature) {
+        const formSignature = await resolveTargetForm(
+            tabId,
+            message.payload.formIndex,
+            message.payload.frameId
+        );
+        if (!formSignature) {
             return { success: false, error: 'No form detected on page' };
         }
 
-        // Step 1: Create static field mappings
-        const staticMappings = createSuggestedMappings(currentFormSignature.fields, profile);
+        const controller = beginFill(tabId);
+        const { signal } = controller;
 
-        logger.debug('Static mapping complete', {
-            totalFields: currentFormSignature.fields.length,
-            staticMapped: staticMappings.length,
-        });
+        // Without a review step, fields are filled as the AI response streams in
+        const stream = needsReview(profile, message.payload.options)
+            ? null
+            : createFillStream(tabId, profile, formSignature, signal);
 
-        // Step 2: Identify unmapped fields (fields not covered by static)
-        const mappedFieldIds = new Set(staticMappings.map(m => m.fieldSignature.id));
-        const unmappedFields = currentFormSignature.fields.filter(
-            f => !mappedFieldIds.has(f.id) && f.semanticClass !== 'password'
-        );
+        try {
+            let fillResponse: FillResponse;
+            try {
+                fillResponse = await llmOrchestrator.fill({
+                    formSignature,
+                    profile,
+                    useCache,
+                    priorAnswers: formSessionService.getPriorAnswers(formSignature),
+                    signal,
+                    onMapping: stream ? (mapping) => void stream.send([mapping]) : undefined,
+                    onStage: async (stage) => {
+                        state = stage.type === 'RETRIEVING'
+                            ? { type: 'RETRIEVING', tabId, timestamp: Date.now(), profileId, formSignature }
+                            : {
+                                type: 'INFERRING',
+                                tabId,
+                                timestamp: Date.now(),
+                                profileId,
+                                formSignature,
+                                retrievedContext: stage.retrievedContext,
+                            };
+                        await persistSessionState();
+                        broadcastStateUpdate();
+                    },
+                });
+            } catch (error) {
+                if (signal.aborted) {
+                    return { success: false, error: 'Fill cancelled' };
+                }
+
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                logger.error('AI fill failed', { error: errorMessage });
+                await stream?.cancel();
+
+                state = {
+                    type: 'ERROR',
+                    tabId,
+                    timestamp: Date.now(),
+                    error: errorMessage,
+                    code: 'LLM_ERROR',
+                };
+                await persistSessionState();
+                broadcastStateUpdate();
 
-        let finalMappings = staticMappings;
-        let fillSource: 'static' | 'combined' = 'static';
+                return { success: false, error: errorMessage };
+            }
 
-        // Step 3: Use AI for unmapped fields if available and needed
-        if (unmappedFields.length > 0 && llmOrchestrator.isAvailable()) {
-            logger.info('Using AI for unmapped fields', {
-                unmappedCount: unmappedFields.length,
-            });
+            if (signal.aborted) {
+                return { success: false, error: 'Fill cancelled' };
+            }
 
-            // Update state to INFERRING
-            state = {
-                type: 'INFERRING',
-                tabId: tab.id,
-                timestamp: Date.now(),
-                profileId,
-                formSignature: currentFormSignature,
-                retrievedContext: [],
-            };
-            await persistSessionState();
-            broadcastStateUpdate();
+            // The response was rejected after some of it was typed: start over with the fallback
+            if (fillResponse.retracted) {
+                await stream?.revert();
+            }
 
-            try {
-                // Call LLM with only unmapped fields
-                const aiFormSignature = {
-                    ...currentFormSignature,
-                    fields: unmappedFields,
+            if (fillResponse.mappings.length === 0 && !stream?.isStarted()) {
+                state = { type: 'IDLE', tabId, timestamp: Date.now() };
+                await persistSessionState();
+                broadcastStateUpdate();
+
+                return {
+                    success: false,
+                    source: fillResponse.source,
+                    fallbackReason: fillResponse.fallbackReason,
+                    error: 'No fields could be mapped',
                 };
+            }
 
-                const fillResponse = await llmOrchestrator.fill({
-                    formSignature: aiFormSignature,
+            logger.info('AI fill triggered', {
+                profileId,
+                tabId,
+                source: fillResponse.source,
+                llmUsed: fillResponse.llmUsed,
+                tokensUsed: fillResponse.tokensUsed,
+                mappingCount: fillResponse.mappings.length,
+            });
+
+            // A streamed fill gets whatever the final result adds (cache hits, static fallback)
+            const dispatched = stream
+                ? await stream.end(fillResponse.mappings)
+                : await dispatchFill(
+                    tabId,
                     profile,
-                    useCache: true,
-                });
+                    formSignature,
+                    fillResponse.mappings,
+                    message.payload.options
+                );
+            if (!dispatched) {
+                return { success: false, error: 'Failed to communicate with page' };
+            }
 
-                // Merge static + AI mappings
-                finalMappings = [...staticMappings, ...fillResponse.mappings];
-                fillSource = 'combined';
+            return {
+                success: true,
+                source: fillResponse.source,
+                fallbackReason: fillResponse.fallbackReason,
+            };
+        } finally {
+            endFill(tabId, controller);
+        }
+    });
 
-                logger.info('AI fill complete', {
-                    staticCount: staticMappings.length,
-                    aiCount: fillResponse.mappings.length,
-                    totalCount: finalMappings.length,
-                });
-            } catch (error) {
-                logger.warn('AI fill failed, using static only', { error });
-                // Continue with static mappings only
-            }
+    // Handle cancellation from the popup or the page (Escape)
+    MessageBus.subscribe(['REQUEST_CANCEL'], async (_message, sender) => {
+        const tabId = sender.tab?.id ?? await getActiveTabId();
+        if (tabId === undefined) {
+            return { success: false };
         }
 
-        if (finalMappings.length === 0) {
-            return { success: false, error: 'No fields could be mapped' };
+        return { success: await cancelFill(tabId) };
+    });
+
+    // Handle undo from the popup or the page's undo toast
+    MessageBus.subscribe(['REQUEST_UNDO'], async (_message, sender) => {
+        const tabId = sender.tab?.id ?? await getActiveTabId();
+        if (tabId === undefined) {
+            return { success: false, error: 'No active tab' };
         }
 
-        // Update state to FILLING
-        state = {
-            type: 'FILLING',
-            tabId: tab.id,
-            timestamp: Date.now(),
-            profileId,
-            formSignature: currentFormSignature,
-            mappings: finalMappings,
-            progress: { completed: 0, total: finalMappings.length },
-        };
-        await persistSessionState();
-        broadcastStateUpdate();
+        return undoFill(tabId);
+    });
 
-        logger.info('Fill triggered', {
-            profileId,
-            tabId: tab.id,
-            source: fillSource,
-            staticCount: staticMappings.length,
-            totalCount: finalMappings.length,
-        });
+    // Handle undo availability queries from the popup
+    MessageBus.subscribe(['GET_UNDO_STATUS'], async () => {
+        const tabId = await getActiveTabId();
+        const frameId = tabId !== undefined ? undoFrameByTab[tabId] : undefined;
+        if (tabId === undefined || frameId === undefined) {
+            return { available: false, fieldCount: 0 };
+        }
 
-        // Send fill command to content script
         try {
-            await MessageBus.sendToTab(tab.id, 'FILL_COMMAND', {
-                mappings: finalMappings,
-                options: {
-                    humanize: profile.settings.humanizeTyping,
-                    delayMs: profile.settings.typingDelayMs,
-                },
-            });
-            return { success: true, source: fillSource };
-        } catch (error) {
-            logger.error('Failed to send fill command', { error });
-            return { success: false, error: 'Failed to communicate with page' };
+            const response = await MessageBus.sendToTab(tabId, 'GET_FILL_SNAPSHOT', undefined as never, frameId);
+            const fieldCount = response?.fieldCount ?? 0;
+            return { available: fieldCount > 0, fieldCount };
+        } catch {
+            // The frame navigated away along with its snapshot
+            return { available: false, fieldCount: 0 };
         }
     });
 
     // Handle fill progress
     MessageBus.subscribe(['FILL_PROGRESS'], (message, sender) => {
-        const { completed, total, currentField } = message.payload;
-        logger.debug('Fill progress', { completed, total, currentField });
+        const { completed, total, field } = message.payload;
+        logger.debug('Fill progress', { completed, total, field: field.label, status: field.status });
 
-        if (sender.tab?.id && state.type === 'FILLING') {
+        if (state.type === 'FILLING' && state.tabId === sender.tab?.id) {
+            const fields = [...state.progress.fields.filter((f) => f.fieldId !== field.fieldId), field];
             state = {
                 ...state,
-                progress: { completed, total },
+                progress: {
+                    ...state.progress,
+                    completed,
+                    total: Math.max(total, state.mappings.length),
+                    failed: fields.filter((f) => f.status === 'failed').length,
+                    fields,
+                },
             };
             broadcastStateUpdate();
         }
@@ -319,11 +612,19 @@ function setupMessageHandlers(): void {
 
     // Handle fill completion
     MessageBus.subscribe(['FILL_COMPLETE'], async (message, sender) => {
+        const { result } = message.payload;
         logger.info('Fill complete', {
-            filledCount: message.payload.result.mappings.length,
+            filledCount: result.mappings.length,
         });
 
-        state = { type: 'IDLE', tabId: sender.tab?.id ?? -1, timestamp: Date.now() };
+        // Each completed fill is a step of its form's session, for multi-step forms
+        const tabId = sender.tab?.id;
+        const profileId = tabId !== undefined ? fillProfileByTab[tabId] : undefined;
+        if (tabId !== undefined && profileId) {
+            await formSessionService.recordFill(tabId, profileId, result);
+        }
+
+        state = { type: 'IDLE', tabId: tabId ?? -1, timestamp: Date.now() };
         await persistSessionState();
         broadcastStateUpdate();
     });
@@ -348,83 +649,1232 @@ function setupMessageHandlers(): void {
 }
 
 /**
- * Set up AI-specific message handlers
+ * Run the combined static + AI fill for a form in a tab
  */
-function setupAIMessageHandlers(): void {
-    // Handle AI status requests
-    MessageBus.subscribe(['GET_AI_STATUS'], () => {
-        const status = llmOrchestrator.getStatus();
-        return status;
-    });
+async function triggerFill(
+    tabId: number,
+    request: MessagePayloadMap['TRIGGER_FILL']
+): Promise<MessageResponseMap['TRIGGER_FILL']> {
+    const profileId = request.profileId || activeProfileId;
+
+    if (!profileId) {
+        return { success: false, error: 'No profile selected' };
+    }
 
-    // Handle API key updates
-    MessageBus.subscribe(['SET_API_KEY'], async (message) => {
-        try {
-            await openRouterClient.setApiKey(message.payload.apiKey);
-            logger.info('API key updated');
-            return { success: true };
-        } catch (error) {
-            logger.error('Failed to set API key', { error });
-            return { success: false };
-        }
-    });
+    const profile = await profileService.getForFill(profileId);
+    if (!profile) {
+        return { success: false, error: 'Profile not found' };
+    }
 
-    // Handle API connection test
-    MessageBus.subscribe(['TEST_API_CONNECTION'], async () => {
-        const result = await llmOrchestrator.testConnection();
-        return result;
-    });
+    const targetForm = await resolveTargetForm(tabId, request.formIndex, request.frameId);
+    if (!targetForm) {
+        return { success: false, error: 'No form detected on page' };
+    }
 
-    // Handle knowledge base embedding
-    MessageBus.subscribe(['EMBED_KNOWLEDGE_BASE'], async (message) => {
-        const { profileId } = message.payload;
+    const controller = beginFill(tabId);
+    const { signal } = controller;
 
-        if (!profileId) {
-            return { success: false, error: 'Profile ID required' };
-        }
+    try {
+        // Give every record a block to fill before anything is mapped
+        const formSignature = await expandRepeatingSections(tabId, targetForm, profile);
+        const sections = formSignature.repeatingSections ?? [];
 
-        const profile = await profileService.getById(profileId);
-        if (!profile) {
-            return { success: false, error: 'Profile not found' };
-        }
+        // Step 1: Create static field mappings
+        const staticMappings = createSuggestedMappings(formSignature.fields, profile, sections);
 
-        const knowledgeBase = profile.staticContext.knowledgeBase;
-        if (!knowledgeBase || !knowledgeBase.trim()) {
-            return { success: false, error: 'No knowledge base text to embed' };
-        }
+        logger.debug('Static mapping complete', {
+            totalFields: formSignature.fields.length,
+            staticMapped: staticMappings.length,
+        });
 
-        try {
-            const { ragEngine } = await import('./ai');
-            const chunks = await ragEngine.ingestKnowledgeBase(profileId, knowledgeBase);
+        // Step 2: Identify unmapped fields (fields not covered by static);
+        // blocks with no record to fill stay empty
+        const mappedFieldIds = new Set(staticMappings.map(m => m.fieldSignature.id));
+        const surplusFieldIds = getSurplusGroupFieldIds(sections, profile);
+        const unmappedFields = formSignature.fields.filter(
+            f => !mappedFieldIds.has(f.id) && !surplusFieldIds.has(f.id) && f.semanticClass !== 'password'
+        );
 
-            // Update profile with chunk count
-            await profileService.update(profileId, {
-                staticContext: {
-                    ...profile.staticContext,
-                    knowledgeBaseChunks: chunks,
-                },
+        let finalMappings = staticMappings;
+        let fillSource: 'static' | 'combined' = 'static';
+        let stream: FillStream | null = null;
+        let aiStreamed = false;
+
+        // Step 3: Use AI for unmapped fields if available and needed
+        if (unmappedFields.length > 0 && llmOrchestrator.isAvailable(profile)) {
+            logger.info('Using AI for unmapped fields', {
+                unmappedCount: unmappedFields.length,
             });
 
-            logger.info('Knowledge base embedded', { profileId, chunks });
-            return { success: true, chunks };
-        } catch (error) {
-            logger.error('Failed to embed knowledge base', { error });
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error',
-            };
-        }
-    });
-}
+            // Without a review step, fill the static matches now and AI answers as they stream in
+            const aiStream = needsReview(profile, request.options)
+                ? null
+                : createFillStream(tabId, profile, formSignature, signal);
+            stream = aiStream;
+            await aiStream?.send(staticMappings);
+
+            if (!aiStream?.isStarted()) {
+                // Update state to INFERRING
+                state = {
+                    type: 'INFERRING',
+                    tabId,
+                    timestamp: Date.now(),
+                    profileId,
+                    formSignature,
+                    retrievedContext: [],
+                };
+                await persistSessionState();
+                broadcastStateUpdate();
+            }
 
-/**
- * Broadcast state update to all connected UIs
- */
-function broadcastStateUpdate(): void {
-    chrome.runtime.sendMessage({
-        type: 'STATE_UPDATE',
-        payload: { state },
-        id: crypto.randomUUID(),
+            try {
+                // Call LLM with only unmapped fields
+                const aiFormSignature = {
+                    ...formSignature,
+                    fields: unmappedFields,
+                };
+
+                const fillResponse = await llmOrchestrator.fill({
+                    formSignature: aiFormSignature,
+                    profile,
+                    useCache: true,
+                    priorAnswers: formSessionService.getPriorAnswers(formSignature),
+                    signal,
+                    onMapping: aiStream
+                        ? (mapping) => {
+                            aiStreamed = true;
+                            void aiStream.send([mapping]);
+                        }
+                        : undefined,
+                });
+
+                // AI answers already typed were rejected: undo them, and end() refills from scratch
+                if (fillResponse.retracted) {
+                    await aiStream?.revert();
+                }
+
+                // Merge static + AI mappings
+                finalMappings = [...staticMappings, ...fillResponse.mappings];
+                fillSource = 'combined';
+
+                logger.info('AI fill complete', {
+                    staticCount: staticMappings.length,
+                    aiCount: fillResponse.mappings.length,
+                    totalCount: finalMappings.length,
+                });
+            } catch (error) {
+                if (signal.aborted) {
+                    return { success: false, error: 'Fill cancelled' };
+                }
+                logger.warn('AI fill failed, using static only', { error });
+                // Continue with static mappings only, undoing AI answers already typed
+                if (aiStreamed) {
+                    await aiStream?.revert();
+                }
+            }
+        } else if (unmappedFields.length > 0) {
+            // No LLM: reuse answers from similar past forms
+            const learnedMappings = await llmOrchestrator.matchLearnedExamples(
+                { ...formSignature, fields: unmappedFields },
+                profile
+            );
+
+            if (learnedMappings.length > 0) {
+                finalMappings = [...staticMappings, ...learnedMappings];
+                fillSource = 'combined';
+            }
+        }
+
+        if (signal.aborted) {
+            return { success: false, error: 'Fill cancelled' };
+        }
+
+        if (finalMappings.length === 0) {
+            return { success: false, error: 'No fields could be mapped' };
+        }
+
+        logger.info('Fill triggered', {
+            profileId,
+            tabId,
+            source: fillSource,
+            staticCount: staticMappings.length,
+            totalCount: finalMappings.length,
+        });
+
+        const dispatched = stream
+            ? await stream.end(finalMappings)
+            : await dispatchFill(
+                tabId,
+                profile,
+                formSignature,
+                finalMappings,
+                request.options
+            );
+        if (!dispatched) {
+            return { success: false, error: 'Failed to communicate with page' };
+        }
+
+        return { success: true, source: fillSource };
+    } finally {
+        endFill(tabId, controller);
+    }
+}
+
+/**
+ * Add blocks to repeating sections with fewer blocks than the profile has
+ * records, through the page's "add another" control. Returns the form as
+ * re-detected afterwards, or unchanged when nothing was added.
+ */
+async function expandRepeatingSections(
+    tabId: number,
+    formSignature: FormSignature,
+    profile: Profile
+): Promise<FormSignature> {
+    let form = formSignature;
+
+    for (const section of formSignature.repeatingSections ?? []) {
+        const missing = getRecords(profile, section.recordType).length - section.groups.length;
+        if (missing <= 0 || !section.addButtonPath) {
+            continue;
+        }
+
+        try {
+            const response = await MessageBus.sendToTab(
+                tabId,
+                'EXPAND_REPEATING_SECTION',
+                {
+                    formIndex: form.formIndex,
+                    recordType: section.recordType,
+                    count: Math.min(missing, MAX_ADDED_BLOCKS),
+                },
+                form.frameId ?? 0
+            );
+            if (response?.form) {
+                form = { ...response.form, frameId: form.frameId };
+            }
+        } catch (error) {
+            logger.warn('Failed to add repeating section blocks', { tabId, error: String(error) });
+        }
+    }
+
+    return form;
+}
+
+/**
+ * Auto-fill forms a frame reported, as the next step of a multi-step form or on page load
+ */
+async function handleNewForms(tabId: number, frameId: number, forms: FormSignature[]): Promise<void> {
+    try {
+        if (await continueFormSession(tabId, frameId, forms)) {
+            return;
+        }
+
+        await autoFillOnLoad(tabId, frameId, forms);
+    } catch (error) {
+        logger.error('Failed to auto-fill detected forms', { tabId, error: String(error) });
+    }
+}
+
+/**
+ * Handle a newly shown step of a multi-step form: when its session auto-fills,
+ * fill the step with the profile the session was started with.
+ * Returns whether a fill was started.
+ */
+async function continueFormSession(tabId: number, frameId: number, forms: FormSignature[]): Promise<boolean> {
+    const next = formSessionService.findNextStep(forms);
+    if (!next) {
+        return false;
+    }
+
+    const { session, form } = next;
+    logger.info('Form session step detected', {
+        sessionId: session.id,
+        tabId,
+        stepNumber: session.steps.length + 1,
+        fieldCount: form.fields.length,
+    });
+
+    if (!session.autoFill || session.tabId !== tabId || isFillActive(tabId)) {
+        return false;
+    }
+
+    // Marked before filling, so re-detections while the fill runs don't start another
+    await formSessionService.markSeen(session.id, form.id);
+
+    const result = await triggerFill(tabId, {
+        profileId: session.profileId,
+        formIndex: form.formIndex,
+        frameId,
+    });
+    if (!result.success) {
+        logger.warn('Form session auto-fill failed', { sessionId: session.id, error: result.error });
+    }
+    return true;
+}
+
+/**
+ * Fill the largest form a frame reported when the profile bound to the site
+ * (highest URL binding priority) has auto-fill on. Confirmation settings apply
+ * as for any fill, so the review overlay still shows when the profile asks for it.
+ */
+async function autoFillOnLoad(tabId: number, frameId: number, forms: FormSignature[]): Promise<void> {
+    if (isFillActive(tabId)) {
+        return;
+    }
+
+    const form = forms.reduce((largest, f) => (f.fields.length > largest.fields.length ? f : largest));
+    const settings = await storageService.getSettings();
+
+    const skipReason = autoFillService.check(tabId, form, settings);
+    if (skipReason) {
+        logger.debug('Auto-fill skipped', { tabId, reason: skipReason });
+        return;
+    }
+
+    const profile = await profileService.findBestForUrl(form.url);
+    if (!profile?.settings.autoFill) {
+        return;
+    }
+
+    // Recorded before filling, so re-detections while the fill runs don't start another
+    await autoFillService.record(tabId, form);
+
+    logger.info('Auto-filling form on page load', {
+        tabId,
+        profileId: profile.id,
+        fieldCount: form.fields.length,
+    });
+
+    const result = await triggerFill(tabId, {
+        profileId: profile.id,
+        formIndex: form.formIndex,
+        frameId,
+    });
+    if (!result.success) {
+        logger.warn('Auto-fill failed', { tabId, error: result.error });
+    }
+}
+
+/**
+ * Resolve which form to fill: the requested one, else the focused one, else the largest
+ */
+async function resolveTargetForm(
+    tabId: number,
+    formIndex?: number,
+    frameId?: number
+): Promise<FormSignature | undefined> {
+    if (formIndex !== undefined) {
+        return formRegistry.getForm(tabId, formIndex, frameId);
+    }
+
+    const focusedForm = await getFocusedForm(tabId);
+    return formRegistry.getDefaultForm(tabId, focusedForm);
+}
+
+/**
+ * Ask each frame with forms which form holds focus; the most recently focused one wins
+ */
+async function getFocusedForm(tabId: number): Promise<FormRef | null> {
+    const responses = await Promise.all(
+        formRegistry.getFrameIds(tabId).map(async (frameId) => {
+            try {
+                const response = await MessageBus.sendToTab(
+                    tabId,
+                    'GET_FOCUSED_FORM',
+                    undefined as never,
+                    frameId
+                );
+                return response ? { frameId, ...response } : null;
+            } catch {
+                // Frame gone or content script not reachable
+                return null;
+            }
+        })
+    );
+
+    let focused: FormRef | null = null;
+    let latestFocus = 0;
+
+    for (const response of responses) {
+        if (!response || response.formIndex === null || response.focusedAt === null) {
+            continue;
+        }
+
+        if (response.focusedAt > latestFocus) {
+            focused = { frameId: response.frameId, formIndex: response.formIndex };
+            latestFocus = response.focusedAt;
+        }
+    }
+
+    return focused;
+}
+
+/**
+ * Start a fill in a tab, routing through the review overlay when the profile asks for confirmation
+ */
+async function dispatchFill(
+    tabId: number,
+    profile: Profile,
+    formSignature: FormSignature,
+    mappings: FieldMapping[],
+    options?: FillOptions
+): Promise<boolean> {
+    if (needsReview(profile, options)) {
+        return requestReview(tabId, profile, formSignature, mappings);
+    }
+
+    return sendFillCommand(tabId, profile, formSignature, mappings);
+}
+
+/**
+ * Check whether a fill must be approved in the review overlay before it runs
+ */
+function needsReview(profile: Profile, options?: FillOptions): boolean {
+    return profile.settings.confirmBeforeFill && !options?.skipConfirmation;
+}
+
+/**
+ * A fill sent to a tab as its mappings become available
+ */
+interface FillStream {
+    send(mappings: FieldMapping[]): Promise<boolean>;
+    end(mappings: FieldMapping[]): Promise<boolean>;
+    cancel(): Promise<void>;
+    revert(): Promise<boolean>;
+    isStarted(): boolean;
+}
+
+/**
+ * Stream a fill to a tab: the first mappings start it, later ones are appended,
+ * and end() adds whatever the final result holds that was not sent yet before
+ * telling the page nothing more is coming. Sends run in order and stop once
+ * the fill is cancelled. A started stream must be ended or cancelled, or the
+ * page keeps waiting for more mappings; revert() undoes what was sent so far,
+ * and a later end() starts over as an ordinary fill.
+ */
+function createFillStream(
+    tabId: number,
+    profile: Profile,
+    formSignature: FormSignature,
+    signal: AbortSignal
+): FillStream {
+    const frameId = formSignature.frameId ?? 0;
+    const sentFieldIds = new Set<string>();
+    let started = false;
+    let broken = false;
+    let pending: Promise<unknown> = Promise.resolve();
+
+    // Steps run one at a time, in the order they were requested
+    const enqueue = <T>(step: () => Promise<T>): Promise<T> => {
+        const next = pending.then(step);
+        pending = next;
+        return next;
+    };
+
+    const append = async (mappings: FieldMapping[]): Promise<boolean> => {
+        if (signal.aborted || broken) {
+            return false;
+        }
+
+        const fresh = mappings.filter((m) => !sentFieldIds.has(m.fieldSignature.id));
+        if (fresh.length === 0) {
+            return true;
+        }
+        fresh.forEach((m) => sentFieldIds.add(m.fieldSignature.id));
+
+        if (!started) {
+            started = true;
+            broken = !await sendFillCommand(tabId, profile, formSignature, fresh, true);
+            return !broken;
+        }
+
+        if (state.type === 'FILLING' && state.tabId === tabId) {
+            const all = [...state.mappings, ...fresh];
+            state = { ...state, mappings: all, progress: { ...state.progress, total: all.length } };
+            broadcastStateUpdate();
+        }
+
+        try {
+            await MessageBus.sendToTab(tabId, 'FILL_APPEND', { mappings: fresh }, frameId);
+            return true;
+        } catch (error) {
+            logger.error('Failed to append to fill', { error });
+            broken = true;
+            await setCommunicationError(tabId);
+            return false;
+        }
+    };
+
+    const finish = async (mappings: FieldMapping[]): Promise<boolean> => {
+        if (!started) {
+            // Nothing arrived early: an ordinary fill
+            if (signal.aborted || mappings.length === 0) {
+                return false;
+            }
+            started = true;
+            return sendFillCommand(tabId, profile, formSignature, mappings);
+        }
+
+        if (!await append(mappings) || signal.aborted) {
+            // A cancelled fill was already stopped in the page
+            if (!signal.aborted) {
+                await cancel();
+            }
+            return false;
+        }
+
+        if (state.type === 'FILLING' && state.tabId === tabId) {
+            state = { ...state, progress: { ...state.progress, streaming: false } };
+            await persistSessionState();
+            broadcastStateUpdate();
+        }
+
+        try {
+            await MessageBus.sendToTab(tabId, 'FILL_END', undefined as never, frameId);
+            return true;
+        } catch (error) {
+            logger.error('Failed to end fill', { error });
+            await cancel();
+            await setCommunicationError(tabId);
+            return false;
+        }
+    };
+
+    const cancel = async (): Promise<void> => {
+        broken = true;
+        if (started) {
+            await MessageBus.sendToTab(tabId, 'CANCEL_FILL', undefined as never, frameId).catch(() => {
+                // Page may have navigated away
+            });
+        }
+    };
+
+    const revert = async (): Promise<boolean> => {
+        if (!started) {
+            return true;
+        }
+
+        try {
+            // Stops the page's fill first, then restores its snapshot
+            await MessageBus.sendToTab(tabId, 'UNDO_FILL', undefined as never, frameId);
+        } catch (error) {
+            logger.error('Failed to revert streamed fill', { error });
+            broken = true;
+            return false;
+        }
+
+        started = false;
+        sentFieldIds.clear();
+        return true;
+    };
+
+    return {
+        send: (mappings) => enqueue(() => append(mappings)),
+        end: (mappings) => enqueue(() => finish(mappings)),
+        cancel: () => enqueue(cancel),
+        revert: () => enqueue(revert),
+        isStarted: () => started,
+    };
+}
+
+/**
+ * Start tracking a fill in a tab, cancelling any fill still being prepared there
+ */
+function beginFill(tabId: number): AbortController {
+    fillControllers.get(tabId)?.abort();
+
+    const controller = new AbortController();
+    fillControllers.set(tabId, controller);
+    return controller;
+}
+
+/**
+ * Stop tracking a fill once everything has been sent to the page
+ */
+function endFill(tabId: number, controller: AbortController): void {
+    if (fillControllers.get(tabId) === controller) {
+        fillControllers.delete(tabId);
+    }
+}
+
+/**
+ * Cancel the fill in a tab: abort retrieval and inference, stop typing, close the review
+ */
+async function cancelFill(tabId: number): Promise<boolean> {
+    const controller = fillControllers.get(tabId);
+    controller?.abort();
+    fillControllers.delete(tabId);
+
+    const active = state.tabId === tabId && (
+        state.type === 'RETRIEVING' ||
+        state.type === 'INFERRING' ||
+        state.type === 'FILLING' ||
+        state.type === 'AWAITING_REVIEW'
+    );
+    if (!controller && !active) {
+        return false;
+    }
+
+    if (active && (state.type === 'FILLING' || state.type === 'AWAITING_REVIEW')) {
+        // The review overlay lives in the form's frame, like the fill
+        const frameId = state.formSignature.frameId ?? 0;
+        MessageBus.sendToTab(tabId, 'CANCEL_FILL', undefined as never, frameId).catch(() => {
+            // Page may have navigated away
+        });
+    }
+
+    logger.info('Fill cancelled', { tabId });
+
+    if (active) {
+        state = {
+            type: 'ERROR',
+            tabId,
+            timestamp: Date.now(),
+            error: 'Fill cancelled',
+            code: 'CANCELLED',
+        };
+        await persistSessionState();
+        broadcastStateUpdate();
+    }
+
+    return true;
+}
+
+/**
+ * Check whether a fill is being prepared, reviewed or typed in a tab
+ */
+function isFillActive(tabId: number): boolean {
+    if (fillControllers.has(tabId)) {
+        return true;
+    }
+
+    return state.tabId === tabId && (state.type === 'FILLING' || state.type === 'AWAITING_REVIEW');
+}
+
+/**
+ * Undo the most recent fill in a tab, stopping it first if it is still running
+ */
+async function undoFill(tabId: number): Promise<MessageResponseMap['REQUEST_UNDO']> {
+    const frameId = undoFrameByTab[tabId];
+    if (frameId === undefined) {
+        return { success: false, error: 'Nothing to undo' };
+    }
+
+    await cancelFill(tabId);
+
+    let result: MessageResponseMap['UNDO_FILL'];
+    try {
+        result = await MessageBus.sendToTab(tabId, 'UNDO_FILL', undefined as never, frameId);
+    } catch (error) {
+        logger.error('Failed to undo fill', { error });
+        return { success: false, error: 'Failed to communicate with page' };
+    } finally {
+        delete undoFrameByTab[tabId];
+    }
+
+    logger.info('Fill undone', { tabId, restored: result.restored, skipped: result.skipped });
+
+    // Later steps shouldn't be kept consistent with answers no longer on the page
+    await formSessionService.discardLastStep(tabId);
+
+    if (state.tabId === tabId) {
+        state = { type: 'IDLE', tabId, timestamp: Date.now() };
+        broadcastStateUpdate();
+    }
+    await persistSessionState();
+
+    return { success: true, restored: result.restored, skipped: result.skipped };
+}
+
+/**
+ * Get the id of the active tab in the current window
+ */
+async function getActiveTabId(): Promise<number | undefined> {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    return tab?.id;
+}
+
+/**
+ * Get the URL of the active tab in the current window, if it is a web page
+ */
+async function getActiveTabUrl(): Promise<string | undefined> {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    return tab?.url?.startsWith('http') ? tab.url : undefined;
+}
+
+/**
+ * Check that a message comes from the frame a form lives in; only it shows the form's review
+ */
+function isFromFormFrame(sender: chrome.runtime.MessageSender, formSignature: FormSignature): boolean {
+    return (sender.frameId ?? 0) === (formSignature.frameId ?? 0);
+}
+
+/**
+ * Move to AWAITING_REVIEW and show the review overlay in the tab
+ */
+async function requestReview(
+    tabId: number,
+    profile: Profile,
+    formSignature: FormSignature,
+    mappings: FieldMapping[]
+): Promise<boolean> {
+    state = {
+        type: 'AWAITING_REVIEW',
+        tabId,
+        timestamp: Date.now(),
+        profileId: profile.id,
+        formSignature,
+        mappings,
+    };
+    await persistSessionState();
+    broadcastStateUpdate();
+
+    try {
+        // The overlay goes in the form's own frame: the mappings hold decrypted vault
+        // values, which the top page must not see for a form it doesn't own
+        await MessageBus.sendToTab(
+            tabId,
+            'SHOW_REVIEW',
+            { mappings, canRevise: llmOrchestrator.isAvailable(profile) },
+            formSignature.frameId ?? 0
+        );
+        logger.info('Awaiting review', { tabId, mappingCount: mappings.length });
+        return true;
+    } catch (error) {
+        logger.error('Failed to show review overlay', { error });
+        await setCommunicationError(tabId);
+        return false;
+    }
+}
+
+/**
+ * Move to FILLING and send the fill command to the tab's content script
+ */
+async function sendFillCommand(
+    tabId: number,
+    profile: Profile,
+    formSignature: FormSignature,
+    mappings: FieldMapping[],
+    streaming: boolean = false
+): Promise<boolean> {
+    state = {
+        type: 'FILLING',
+        tabId,
+        timestamp: Date.now(),
+        profileId: profile.id,
+        formSignature,
+        mappings,
+        progress: { completed: 0, total: mappings.length, failed: 0, streaming, fields: [] },
+    };
+    fillProfileByTab[tabId] = profile.id;
+    undoFrameByTab[tabId] = formSignature.frameId ?? 0;
+    await persistSessionState();
+    broadcastStateUpdate();
+
+    try {
+        await MessageBus.sendToTab(tabId, 'FILL_COMMAND', {
+            mappings,
+            options: {
+                humanize: profile.settings.humanizeTyping,
+                delayMs: profile.settings.typingDelayMs,
+            },
+            streaming,
+        }, formSignature.frameId ?? 0);
+        return true;
+    } catch (error) {
+        logger.error('Failed to send fill command', { error });
+        await setCommunicationError(tabId);
+        return false;
+    }
+}
+
+/**
+ * Move to ERROR after failing to reach a tab's content script
+ */
+async function setCommunicationError(tabId: number): Promise<void> {
+    state = {
+        type: 'ERROR',
+        tabId,
+        timestamp: Date.now(),
+        error: 'Failed to communicate with page',
+        code: 'UNKNOWN',
+    };
+    await persistSessionState();
+    broadcastStateUpdate();
+}
+
+/**
+ * Set up handlers for the pre-fill review overlay
+ */
+function setupReviewMessageHandlers(): void {
+    // Handle approval - fill only the rows the user kept, with their edited values
+    MessageBus.subscribe(['USER_APPROVED'], async (message, sender) => {
+        const tabId = sender.tab?.id;
+        if (tabId === undefined || state.type !== 'AWAITING_REVIEW' || state.tabId !== tabId ||
+            !isFromFormFrame(sender, state.formSignature)) {
+            logger.warn('Approval received without a pending review', { tabId });
+            return;
+        }
+
+        const review = state;
+        const profile = review.profileId ? await profileService.getById(review.profileId) : undefined;
+        if (!profile) {
+            state = {
+                type: 'ERROR',
+                tabId,
+                timestamp: Date.now(),
+                error: 'Profile not found',
+                code: 'PROFILE_NOT_FOUND',
+            };
+            await persistSessionState();
+            broadcastStateUpdate();
+            return;
+        }
+
+        const approved = message.payload.mappings;
+
+        // Values changed during review are corrections worth learning from
+        for (const mapping of approved) {
+            const original = review.mappings.find(
+                (m) => m.fieldSignature.id === mapping.fieldSignature.id
+            );
+            if (original && original.value !== mapping.value) {
+                await learningService.recordEdit(profile.id, {
+                    tabId,
+                    frameId: review.formSignature.frameId ?? 0,
+                }, {
+                    formSignature: review.formSignature,
+                    originalMapping: original,
+                    newValue: mapping.value,
+                    timestamp: Date.now(),
+                });
+            }
+        }
+
+        logger.info('Review approved', {
+            tabId,
+            proposed: review.mappings.length,
+            approved: approved.length,
+        });
+
+        if (approved.length === 0) {
+            state = { type: 'IDLE', tabId, timestamp: Date.now() };
+            await persistSessionState();
+            broadcastStateUpdate();
+            return;
+        }
+
+        await sendFillCommand(tabId, profile, review.formSignature, approved);
+    });
+
+    // Rewrite an answer to an open-ended question while it is being reviewed
+    MessageBus.subscribe(['REVISE_ANSWER'], async (message, sender) => {
+        const tabId = sender.tab?.id;
+        if (tabId === undefined || state.type !== 'AWAITING_REVIEW' || state.tabId !== tabId ||
+            !isFromFormFrame(sender, state.formSignature)) {
+            return { error: 'No review in progress' };
+        }
+
+        const review = state;
+        const { fieldId, action, value } = message.payload;
+        const original = review.mappings.find((m) => m.fieldSignature.id === fieldId);
+        const profile = review.profileId ? await profileService.getById(review.profileId) : undefined;
+        if (!original || !profile) {
+            return { error: 'Field not found' };
+        }
+
+        try {
+            const answer = await answerGenerator.generate({
+                field: original.fieldSignature,
+                formSignature: review.formSignature,
+                profile,
+                revision: { action, answer: value },
+            });
+
+            // The rewrite becomes the proposed value, so only the user's own
+            // edits to it are learned as corrections
+            if (state === review) {
+                state = {
+                    ...review,
+                    mappings: review.mappings.map((m) => (m === original ? { ...m, value: answer.value } : m)),
+                };
+                await persistSessionState();
+            }
+
+            return { value: answer.value };
+        } catch (error) {
+            logger.warn('Answer revision failed', { tabId, action, error: String(error) });
+            return { error: error instanceof Error ? error.message : String(error) };
+        }
+    });
+
+    // Handle cancellation - nothing gets typed
+    MessageBus.subscribe(['USER_CANCELLED'], async (_message, sender) => {
+        const tabId = sender.tab?.id;
+        if (tabId === undefined || state.type !== 'AWAITING_REVIEW' || state.tabId !== tabId ||
+            !isFromFormFrame(sender, state.formSignature)) {
+            return;
+        }
+
+        logger.info('Review cancelled', { tabId });
+
+        state = { type: 'IDLE', tabId, timestamp: Date.now() };
+        await persistSessionState();
+        broadcastStateUpdate();
+    });
+}
+
+/**
+ * Set up handlers for locking and unlocking the encrypted field vault
+ */
+function setupVaultMessageHandlers(): void {
+    MessageBus.subscribe(['GET_VAULT_STATUS'], () => {
+        return { status: vaultService.getStatus() };
+    });
+
+    // Set the passphrase for the first time
+    MessageBus.subscribe(['SETUP_VAULT'], async (message) => {
+        try {
+            await vaultService.setup(message.payload.passphrase);
+            broadcastVaultStatus();
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: error instanceof Error ? error.message : String(error) };
+        }
+    });
+
+    MessageBus.subscribe(['UNLOCK_VAULT'], async (message) => {
+        try {
+            await vaultService.unlock(message.payload.passphrase);
+            broadcastVaultStatus();
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: error instanceof Error ? error.message : String(error) };
+        }
+    });
+
+    MessageBus.subscribe(['LOCK_VAULT'], async () => {
+        await vaultService.lock();
+        broadcastVaultStatus();
+        return { success: true };
+    });
+}
+
+/**
+ * Set up handlers for exporting profiles to files and importing them back
+ */
+function setupProfileTransferMessageHandlers(): void {
+    MessageBus.subscribe(['EXPORT_PROFILES'], async (message) => {
+        const { profileIds, options } = message.payload;
+
+        try {
+            return await profileService.exportProfiles(profileIds, options);
+        } catch (error) {
+            logger.error('Failed to export profiles', { error });
+            return { error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+    });
+
+    MessageBus.subscribe(['PREVIEW_PROFILE_IMPORT'], async (message) => {
+        const { data, passphrase } = message.payload;
+
+        try {
+            return { profiles: await profileService.previewImport(data, passphrase) };
+        } catch (error) {
+            if (error instanceof ProfileImportError) {
+                return {
+                    error: error.message,
+                    details: error.details,
+                    needsPassphrase: error.code === 'passphrase_required' || error.code === 'wrong_passphrase',
+                };
+            }
+            throw error;
+        }
+    });
+
+    MessageBus.subscribe(['IMPORT_PROFILES'], async (message) => {
+        const { data, passphrase, mode } = message.payload;
+
+        let imported: Awaited<ReturnType<typeof profileService.importProfiles>>;
+        try {
+            imported = await profileService.importProfiles(data, mode, passphrase);
+        } catch (error) {
+            if (error instanceof ProfileImportError) {
+                return { error: error.message, details: error.details };
+            }
+            if (error instanceof VaultLockedError) {
+                return { error: error.message };
+            }
+            throw error;
+        }
+
+        // Exports carry no embeddings
+        for (const profileId of imported.profileIds) {
+            await reindexService.schedule(profileId);
+        }
+
+        if (!activeProfileId && imported.profileIds.length > 0) {
+            activeProfileId = imported.profileIds[0];
+            await persistSessionState();
+        }
+
+        broadcastProfilesUpdate();
+
+        return { result: imported.result };
+    });
+}
+
+/**
+ * Set up AI-specific message handlers
+ */
+function setupAIMessageHandlers(): void {
+    // Handle AI status requests
+    MessageBus.subscribe(['GET_AI_STATUS'], () => {
+        const status = llmOrchestrator.getStatus();
+        return status;
+    });
+
+    // Handle API connection test
+    MessageBus.subscribe(['TEST_API_CONNECTION'], async (message) => {
+        const result = await llmOrchestrator.testConnection(message.payload?.providerId);
+        return result;
+    });
+
+    // Handle LLM provider listing
+    MessageBus.subscribe(['GET_LLM_PROVIDERS'], () => {
+        return {
+            providers: providerRegistry.getAll(),
+            defaultProviderId: providerRegistry.getDefaultId(),
+        };
+    });
+
+    // Handle LLM provider creation and updates
+    MessageBus.subscribe(['SAVE_LLM_PROVIDER'], async (message) => {
+        try {
+            const provider = await providerRegistry.save(message.payload.provider);
+            scheduleStaleReindex();
+            return { provider };
+        } catch (error) {
+            logger.error('Failed to save LLM provider', { error });
+            return { error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+    });
+
+    // Handle LLM provider deletion
+    MessageBus.subscribe(['DELETE_LLM_PROVIDER'], async (message) => {
+        try {
+            await providerRegistry.delete(message.payload.providerId);
+            scheduleStaleReindex();
+            return { success: true };
+        } catch (error) {
+            logger.error('Failed to delete LLM provider', { error });
+            return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+    });
+
+    // Handle default LLM provider changes
+    MessageBus.subscribe(['SET_DEFAULT_LLM_PROVIDER'], async (message) => {
+        try {
+            await providerRegistry.setDefault(message.payload.providerId);
+            scheduleStaleReindex();
+            return { success: true };
+        } catch (error) {
+            logger.error('Failed to set default LLM provider', { error });
+            return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+    });
+
+    // Handle embedding index status requests
+    MessageBus.subscribe(['GET_EMBEDDING_INDEX'], async () => {
+        const profiles = await reindexService.getAllStatuses();
+        return { profiles };
+    });
+
+    // Handle manual re-index requests
+    MessageBus.subscribe(['REINDEX_PROFILE'], async (message) => {
+        const { profileId } = message.payload;
+
+        const profile = await profileService.getById(profileId);
+        if (!profile) {
+            return { success: false, error: 'Profile not found' };
+        }
+
+        await reindexService.schedule(profileId);
+        return { success: true };
+    });
+
+    // Handle knowledge base embedding
+    MessageBus.subscribe(['EMBED_KNOWLEDGE_BASE'], async (message) => {
+        const { profileId } = message.payload;
+
+        if (!profileId) {
+            return { success: false, error: 'Profile ID required' };
+        }
+
+        const profile = await profileService.getById(profileId);
+        if (!profile) {
+            return { success: false, error: 'Profile not found' };
+        }
+
+        const knowledgeBase = profile.staticContext.knowledgeBase;
+        if (!knowledgeBase || !knowledgeBase.trim()) {
+            return { success: false, error: 'No knowledge base text to embed' };
+        }
+
+        try {
+            const { ragEngine } = await import('./ai');
+            const chunks = await ragEngine.ingestKnowledgeBase(profileId, knowledgeBase);
+
+            // Update profile with chunk count
+            await profileService.update(profileId, {
+                staticContext: {
+                    ...profile.staticContext,
+                    knowledgeBaseChunks: chunks,
+                },
+            });
+
+            logger.info('Knowledge base embedded', { profileId, chunks });
+            return { success: true, chunks };
+        } catch (error) {
+            logger.error('Failed to embed knowledge base', { error });
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    });
+
+    // Handle profile field extraction from a document
+    MessageBus.subscribe(['EXTRACT_PROFILE_FIELDS'], async (message) => {
+        const { document, profileId } = message.payload;
+
+        if (!document.content.trim()) {
+            return { error: 'The document has no text' };
+        }
+
+        const profile = profileId ? await profileService.getById(profileId) : null;
+        if (profileId && !profile) {
+            return { error: 'Profile not found' };
+        }
+
+        try {
+            const { fields } = await profileExtractor.extract(document, profile);
+            return { fields };
+        } catch (error) {
+            logger.error('Failed to extract profile fields', { error });
+            return { error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+    });
+}
+
+/**
+ * Set up handlers that turn user corrections into learned examples
+ */
+function setupLearningMessageHandlers(): void {
+    // Handle user edits to previously filled fields
+    MessageBus.subscribe(['REPORT_EDIT'], async (message, sender) => {
+        const tabId = sender.tab?.id;
+        const profileId = tabId !== undefined ? fillProfileByTab[tabId] : undefined;
+
+        if (tabId === undefined || !profileId) {
+            logger.debug('Edit reported for a tab without a tracked fill', { tabId });
+            return;
+        }
+
+        const { formSignature, originalMapping, newValue } = message.payload;
+        const scope = { tabId, frameId: sender.frameId ?? 0 };
+
+        const recorded = await learningService.recordEdit(profileId, scope, {
+            formSignature,
+            originalMapping,
+            newValue,
+            timestamp: Date.now(),
+        });
+        if (!recorded) {
+            return;
+        }
+
+        // Accumulate edits for this tab, keeping only the latest per field
+        const fieldId = originalMapping.fieldSignature.id;
+        const previousEdits = state.type === 'LEARNING' && state.tabId === tabId
+            ? state.edits.filter((e) => e.fieldId !== fieldId)
+            : [];
+        const edits = newValue === originalMapping.value
+            ? previousEdits
+            : [...previousEdits, { fieldId, oldValue: originalMapping.value, newValue }];
+
+        state = edits.length > 0
+            ? { type: 'LEARNING', tabId, timestamp: Date.now(), formSignature, edits }
+            : { type: 'IDLE', tabId, timestamp: Date.now() };
+        await persistSessionState();
+        broadcastStateUpdate();
+
+        logger.debug('Edit recorded', {
+            tabId,
+            profileId,
+            pendingEdits: await learningService.getPendingEditCount(scope),
+        });
+    });
+
+    // Commit pending edits once the user submits the form
+    MessageBus.subscribe(['FORM_SUBMITTED'], async (message, sender) => {
+        const tabId = sender.tab?.id;
+        const profileId = tabId !== undefined ? fillProfileByTab[tabId] : undefined;
+
+        if (tabId === undefined || !profileId) {
+            return;
+        }
+
+        try {
+            const example = await learningService.commitEdits({ tabId, frameId: sender.frameId ?? 0 });
+
+            logger.info('Form submitted', {
+                tabId,
+                domain: message.payload.formSignature.domain,
+                learnedExampleId: example?.id,
+            });
+
+            if (example) {
+                broadcastProfilesUpdate();
+            }
+        } catch (error) {
+            logger.error('Failed to commit learned edits', { error });
+        }
+
+        delete fillProfileByTab[tabId];
+        if (state.tabId === tabId) {
+            state = { type: 'IDLE', tabId, timestamp: Date.now() };
+            broadcastStateUpdate();
+        }
+        await persistSessionState();
+    });
+
+    // Drop uncommitted edits when a filled tab is closed without submitting
+    chrome.tabs.onRemoved.addListener((tabId) => {
+        const profileId = fillProfileByTab[tabId];
+        if (!profileId) {
+            return;
+        }
+
+        void learningService.cancelEdits(tabId);
+        delete fillProfileByTab[tabId];
+
+        if (state.type === 'LEARNING' && state.tabId === tabId) {
+            state = { type: 'IDLE', tabId: -1, timestamp: Date.now() };
+            broadcastStateUpdate();
+        }
+        persistSessionState();
+    });
+}
+
+/**
+ * Broadcast state update to all connected UIs
+ */
+function broadcastStateUpdate(): void {
+    chrome.runtime.sendMessage({
+        type: 'STATE_UPDATE',
+        payload: { state },
+        id: crypto.randomUUID(),
         timestamp: Date.now(),
     }).catch(() => {
         // Ignore - popup might not be open
@@ -446,6 +1896,123 @@ async function broadcastProfilesUpdate(): Promise<void> {
     });
 }
 
+/**
+ * Broadcast vault lock status to all connected UIs
+ */
+function broadcastVaultStatus(): void {
+    chrome.runtime.sendMessage({
+        type: 'VAULT_STATUS',
+        payload: { status: vaultService.getStatus() },
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+    }).catch(() => {
+        // Ignore - popup might not be open
+    });
+}
+
+/**
+ * Broadcast a profile's embedding index status to all connected UIs
+ */
+function broadcastIndexStatus(status: EmbeddingIndexStatus): void {
+    chrome.runtime.sendMessage({
+        type: 'EMBEDDING_INDEX_UPDATE',
+        payload: { status },
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+    }).catch(() => {
+        // Ignore - options page might not be open
+    });
+}
+
+/**
+ * Embed documents added or changed by a profile save, drop the chunks of removed
+ * ones, and record each embedded document's chunk count
+ */
+async function syncDocumentVectors(previous: Profile | undefined, profile: Profile): Promise<void> {
+    const before = new Map(previous?.staticContext.documents.map((doc) => [doc.id, doc.content]));
+    const after = new Set(profile.staticContext.documents.map((doc) => doc.id));
+    const chunkCounts = new Map<string, number>();
+
+    try {
+        for (const documentId of before.keys()) {
+            if (!after.has(documentId)) {
+                await ragEngine.removeDocument(profile.id, documentId);
+            }
+        }
+
+        for (const doc of profile.staticContext.documents) {
+            if (doc.content && before.get(doc.id) !== doc.content) {
+                chunkCounts.set(doc.id, await ragEngine.ingestDocument(profile.id, doc));
+            }
+        }
+    } catch (error) {
+        logger.error('Failed to embed documents', { profileId: profile.id, error });
+    }
+
+    if (chunkCounts.size === 0) {
+        return;
+    }
+
+    // Re-read, as the profile may have been saved again while embedding
+    const current = await profileService.getById(profile.id);
+    if (!current) {
+        return;
+    }
+
+    await profileService.update(profile.id, {
+        staticContext: {
+            ...current.staticContext,
+            documents: current.staticContext.documents.map((doc) => (
+                chunkCounts.has(doc.id) ? { ...doc, chunkCount: chunkCounts.get(doc.id) } : doc
+            )),
+        },
+    });
+    broadcastProfilesUpdate();
+}
+
+/**
+ * Queue a re-index for profiles whose vectors no longer match their embedding model
+ */
+function scheduleStaleReindex(): void {
+    reindexService.scheduleStale().catch((error) => {
+        logger.error('Failed to schedule re-index', { error });
+    });
+}
+
+/**
+ * Clear per-tab form state when tabs close or start loading a new page
+ */
+function setupTabListeners(): void {
+    chrome.tabs.onRemoved.addListener(async (tabId) => {
+        await ready;
+        formRegistry.clearTab(tabId);
+        autoFillService.clearTab(tabId);
+        delete undoFrameByTab[tabId];
+    });
+
+    chrome.tabs.onUpdated.addListener(async (tabId, changeInfo) => {
+        if (changeInfo.status === 'loading' && changeInfo.url) {
+            await ready;
+            formRegistry.clearTab(tabId);
+            delete undoFrameByTab[tabId];
+        }
+    });
+}
+
+/**
+ * Set up keyboard shortcuts
+ */
+function setupKeyboardCommands(): void {
+    chrome.commands.onCommand.addListener(async (command, tab) => {
+        if (command === 'cancel-fill' && tab?.id !== undefined) {
+            await ready;
+            cancelFill(tab.id).catch((error) => {
+                logger.error('Failed to cancel fill from keyboard', { error: String(error) });
+            });
+        }
+    });
+}
+
 /**
  * Set up context menu for quick actions
  */
@@ -457,20 +2024,44 @@ function setupContextMenu(): void {
             title: 'Fill with FormQ',
             contexts: ['page', 'editable'],
         });
+        chrome.contextMenus.create({
+            id: 'FormQ-undo',
+            title: 'Undo FormQ fill',
+            contexts: ['page', 'editable'],
+        });
     });
 
-    chrome.contextMenus.onClicked.addListener((info, tab) => {
+    chrome.contextMenus.onClicked.addListener(async (info, tab) => {
+        await ready;
         if (info.menuItemId === 'FormQ-fill' && tab?.id) {
-            MessageBus.sendToTab(tab.id, 'TRIGGER_FILL', { profileId: activeProfileId ?? undefined } as { profileId?: string })
+            // No form index: fills the form containing the right-clicked (focused) field
+            triggerFill(tab.id, { profileId: activeProfileId ?? undefined })
+                .then((result) => {
+                    if (!result.success) {
+                        logger.warn('Context menu fill failed', { error: result.error });
+                    }
+                })
                 .catch((error) => {
                     logger.error('Failed to trigger fill from context menu', { error: String(error) });
                 });
+        } else if (info.menuItemId === 'FormQ-undo' && tab?.id) {
+            undoFill(tab.id)
+                .then((result) => {
+                    if (!result.success) {
+                        logger.warn('Context menu undo failed', { error: result.error });
+                    }
+                })
+                .catch((error) => {
+                    logger.error('Failed to undo fill from context menu', { error: String(error) });
+                });
         }
     });
 }
 
 // Initialize
-initialize().catch((error) => {
+const ready = initialize().catch((error) => {
     const errorMessage = error instanceof Error ? error.message : String(error);
     logger.error('Failed to initialize background service worker', { error: errorMessage });
 });
+MessageBus.deferUntil(ready);
+registerListeners();
@@ -0,0 +1,199 @@
+// Anthropic Provider
+// Chat completions via the Anthropic Messages API
+
+import { BaseLLMProvider, LLMProviderError } from './LLMProvider';
+import type { ChatCompletionRequest, ChatCompletionResponse } from './LLMProvider';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// ============================================================================
+// Anthropic Provider
+// ============================================================================
+
+export class AnthropicProvider extends BaseLLMProvider {
+    isConfigured(): boolean {
+        return super.isConfigured() && !!this.config.apiKey;
+    }
+
+    /**
+     * The Messages API has no embeddings endpoint
+     */
+    supportsEmbeddings(): boolean {
+        return false;
+    }
+
+    /**
+     * Send a chat completion request, translated to the Messages API
+     */
+    async chatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+        this.ensureConfigured();
+
+        const response = await this.post<AnthropicMessagesResponse>(
+            '/v1/messages',
+            this.buildMessagesBody(request),
+            this.getHeaders(),
+            request.signal
+        );
+
+        const content = response.content
+            .filter((block) => block.type === 'text')
+            .map((block) => block.text ?? '')
+            .join('');
+
+        return this.toChatResponse(
+            response.id,
+            response.role,
+            content,
+            response.stop_reason,
+            response.usage?.input_tokens ?? 0,
+            response.usage?.output_tokens ?? 0
+        );
+    }
+
+    /**
+     * Send a streaming request, reporting text deltas as they arrive
+     */
+    async streamChatCompletion(
+        request: ChatCompletionRequest,
+        onDelta: (text: string) => void
+    ): Promise<ChatCompletionResponse> {
+        this.ensureConfigured();
+
+        let id = '';
+        let content = '';
+        let stopReason: string | null = null;
+        let inputTokens = 0;
+        let outputTokens = 0;
+
+        await this.postStream<AnthropicStreamEvent>(
+            '/v1/messages',
+            { ...this.buildMessagesBody(request), stream: true },
+            this.getHeaders(),
+            request.signal,
+            (event) => {
+                switch (event.type) {
+                    case 'message_start':
+                        id = event.message?.id ?? '';
+                        inputTokens = event.message?.usage?.input_tokens ?? 0;
+                        break;
+                    case 'content_block_delta':
+                        if (event.delta?.type === 'text_delta' && event.delta.text) {
+                            content += event.delta.text;
+                            onDelta(event.delta.text);
+                        }
+                        break;
+                    case 'message_delta':
+                        stopReason = event.delta?.stop_reason ?? stopReason;
+                        outputTokens = event.usage?.output_tokens ?? outputTokens;
+                        break;
+                    case 'error':
+                        throw new LLMProviderError(event.error?.message ?? 'Stream failed', 'SERVER_ERROR');
+                }
+            }
+        );
+
+        return this.toChatResponse(id, 'assistant', content, stopReason, inputTokens, outputTokens);
+    }
+
+    /**
+     * Build the Messages API body shared by plain and streaming requests
+     */
+    private buildMessagesBody(request: ChatCompletionRequest): object {
+        // System prompts go in a top-level field rather than the message list
+        const system = request.messages
+            .filter((m) => m.role === 'system')
+            .map((m) => m.content)
+            .join('\n\n');
+        const messages = request.messages
+            .filter((m) => m.role !== 'system')
+            .map((m) => ({ role: m.role, content: m.content }));
+
+        // No JSON mode; the prompt already asks for JSON only
+        return {
+            model: this.config.chatModel,
+            messages,
+            max_tokens: request.maxTokens ?? 2048,
+            temperature: request.temperature ?? 0.2,
+            ...(system && { system }),
+        };
+    }
+
+    /**
+     * Messages API auth and version headers
+     */
+    private getHeaders(): Record<string, string> {
+        return {
+            'x-api-key': this.config.apiKey ?? '',
+            'anthropic-version': ANTHROPIC_VERSION,
+            'anthropic-dangerous-direct-browser-access': 'true',
+        };
+    }
+
+    /**
+     * Shape a Messages API result as a provider-neutral chat response
+     */
+    private toChatResponse(
+        id: string,
+        role: string,
+        content: string,
+        stopReason: string | null,
+        promptTokens: number,
+        completionTokens: number
+    ): ChatCompletionResponse {
+        return {
+            id,
+            choices: [{
+                message: { role, content },
+                finishReason: stopReason ?? '',
+            }],
+            usage: {
+                promptTokens,
+                completionTokens,
+                totalTokens: promptTokens + completionTokens,
+            },
+        };
+    }
+}
+
+// ============================================================================
+// Internal API Response Types (snake_case from the API)
+// ============================================================================
+
+interface AnthropicMessagesResponse {
+    id: string;
+    role: string;
+    content: Array<{
+        type: string;
+        text?: string;
+    }>;
+    stop_reason: string | null;
+    usage?: {
+        input_tokens: number;
+        output_tokens: number;
+    };
+}
+
+interface AnthropicStreamEvent {
+    type: string;
+    message?: {
+        id: string;
+        usage?: {
+            input_tokens: number;
+        };
+    };
+    delta?: {
+        type?: string;
+        text?: string;
+        stop_reason?: string | null;
+    };
+    usage?: {
+        output_tokens: number;
+    };
+    error?: {
+        message?: string;
+    };
+}
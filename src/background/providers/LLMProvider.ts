@@ -0,0 +1,421 @@
+// LLM Provider
+// Provider-neutral request types, errors and the shared HTTP plumbing
+
+import type { LLMProviderConfig, LLMProviderSummary } from '@shared/types';
+import { createLogger } from '@shared/utils';
+
+const logger = createLogger('LLMProvider');
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface ChatCompletionRequest {
+    messages: ChatMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    responseFormat?: { type: 'json_object' };
+    signal?: AbortSignal;           // Aborts the request, including retries and an open stream
+}
+
+export interface ChatCompletionResponse {
+    id: string;
+    choices: Array<{
+        message: {
+            role: string;
+            content: string;
+        };
+        finishReason: string;
+    }>;
+    usage: {
+        promptTokens: number;
+        completionTokens: number;
+        totalTokens: number;
+    };
+}
+
+export interface EmbeddingRequest {
+    input: string | string[];
+    model?: string;
+}
+
+export interface EmbeddingResponse {
+    data: Array<{
+        embedding: number[];
+        index: number;
+    }>;
+    usage: {
+        promptTokens: number;
+        totalTokens: number;
+    };
+}
+
+export type LLMProviderErrorCode =
+    | 'NOT_CONFIGURED'
+    | 'INVALID_API_KEY'
+    | 'RATE_LIMITED'
+    | 'MODEL_NOT_FOUND'
+    | 'CONTEXT_LENGTH_EXCEEDED'
+    | 'CONTENT_FILTERED'
+    | 'EMBEDDINGS_UNSUPPORTED'
+    | 'SERVER_ERROR'
+    | 'NETWORK_ERROR'
+    | 'CANCELLED'
+    | 'UNKNOWN';
+
+export class LLMProviderError extends Error {
+    constructor(
+        message: string,
+        public code: LLMProviderErrorCode,
+        public status?: number,
+        public retryable: boolean = false
+    ) {
+        super(message);
+        this.name = 'LLMProviderError';
+    }
+}
+
+/**
+ * A chat (and optionally embedding) backend
+ */
+export interface LLMProvider {
+    readonly config: LLMProviderConfig;
+    isConfigured(): boolean;
+    supportsEmbeddings(): boolean;
+    chatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse>;
+    streamChatCompletion(
+        request: ChatCompletionRequest,
+        onDelta: (text: string) => void
+    ): Promise<ChatCompletionResponse>;
+    createEmbedding(request: EmbeddingRequest): Promise<EmbeddingResponse>;
+    testConnection(): Promise<{ success: boolean; error?: string }>;
+    getSummary(): LLMProviderSummary;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Retry configuration
+const MAX_RETRIES = 3;
+const RETRY_DELAY_MS = 1000;
+const RETRY_BACKOFF_MULTIPLIER = 2;
+
+// ============================================================================
+// Base Provider
+// ============================================================================
+
+export abstract class BaseLLMProvider implements LLMProvider {
+    constructor(readonly config: LLMProviderConfig) {}
+
+    abstract chatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse>;
+
+    /**
+     * Send a chat completion request, reporting the content as it is generated.
+     * Providers without streaming report it all at once.
+     */
+    async streamChatCompletion(
+        request: ChatCompletionRequest,
+        onDelta: (text: string) => void
+    ): Promise<ChatCompletionResponse> {
+        const response = await this.chatCompletion(request);
+        const content = response.choices[0]?.message.content;
+        if (content) {
+            onDelta(content);
+        }
+        return response;
+    }
+
+    /**
+     * Check the provider has what it needs to send requests
+     */
+    isConfigured(): boolean {
+        return !!this.config.baseUrl && !!this.config.chatModel;
+    }
+
+    supportsEmbeddings(): boolean {
+        return !!this.config.embeddingModel;
+    }
+
+    async createEmbedding(_request: EmbeddingRequest): Promise<EmbeddingResponse> {
+        throw new LLMProviderError(
+            `${this.config.name} does not support embeddings`,
+            'EMBEDDINGS_UNSUPPORTED'
+        );
+    }
+
+    /**
+     * Test the connection with a minimal chat request
+     */
+    async testConnection(): Promise<{ success: boolean; error?: string }> {
+        if (!this.isConfigured()) {
+            return { success: false, error: 'Provider not configured' };
+        }
+
+        try {
+            await this.chatCompletion({
+                messages: [{ role: 'user', content: 'Hi' }],
+                maxTokens: 5,
+            });
+            return { success: true };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            return { success: false, error: message };
+        }
+    }
+
+    /**
+     * Get the config without the API key
+     */
+    getSummary(): LLMProviderSummary {
+        const { apiKey, ...rest } = this.config;
+        return { ...rest, hasApiKey: !!apiKey, configured: this.isConfigured() };
+    }
+
+    protected ensureConfigured(): void {
+        if (!this.isConfigured()) {
+            throw new LLMProviderError(`${this.config.name} is not configured`, 'NOT_CONFIGURED');
+        }
+    }
+
+    /**
+     * POST JSON to the provider with retry logic
+     */
+    protected async post<T>(
+        endpoint: string,
+        body: object,
+        headers: Record<string, string>,
+        signal?: AbortSignal
+    ): Promise<T> {
+        const response = await this.send(endpoint, body, headers, signal);
+
+        try {
+            return await response.json() as T;
+        } catch (error) {
+            throw this.toProviderError(error, signal);
+        }
+    }
+
+    /**
+     * POST JSON and read the server-sent event stream it returns, passing each
+     * event's JSON data to onEvent. Only the initial request is retried.
+     */
+    protected async postStream<T>(
+        endpoint: string,
+        body: object,
+        headers: Record<string, string>,
+        signal: AbortSignal | undefined,
+        onEvent: (event: T) => void
+    ): Promise<void> {
+        const response = await this.send(endpoint, body, headers, signal);
+        if (!response.body) {
+            throw new LLMProviderError(`${this.config.name} returned an empty stream`, 'SERVER_ERROR');
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        const handleLine = (line: string) => {
+            if (!line.startsWith('data:')) {
+                return;
+            }
+
+            const data = line.slice(5).trim();
+            if (!data || data === '[DONE]') {
+                return;
+            }
+
+            let event: T;
+            try {
+                event = JSON.parse(data) as T;
+            } catch {
+                logger.debug('Skipping unparseable stream event', { provider: this.config.name });
+                return;
+            }
+            onEvent(event);
+        };
+
+        try {
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) break;
+
+                buffer += decoder.decode(value, { stream: true });
+
+                let newline: number;
+                while ((newline = buffer.indexOf('\n')) >= 0) {
+                    handleLine(buffer.slice(0, newline).replace(/\r$/, ''));
+                    buffer = buffer.slice(newline + 1);
+                }
+            }
+            handleLine(buffer.trim());
+        } catch (error) {
+            throw this.toProviderError(error, signal);
+        } finally {
+            reader.releaseLock();
+        }
+    }
+
+    /**
+     * Send a POST request, retrying rate limits, server errors and network failures
+     */
+    private async send(
+        endpoint: string,
+        body: object,
+        headers: Record<string, string>,
+        signal?: AbortSignal
+    ): Promise<Response> {
+        const url = `${this.config.baseUrl.replace(/\/+$/, '')}${endpoint}`;
+        let lastError: Error | null = null;
+
+        for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+            try {
+                const response = await fetch(url, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        ...headers,
+                    },
+                    body: JSON.stringify(body),
+                    signal,
+                });
+
+                if (response.ok) {
+                    return response;
+                }
+
+                const error = await this.parseErrorResponse(response);
+
+                // Don't retry non-retryable errors
+                if (!error.retryable) {
+                    throw error;
+                }
+
+                lastError = error;
+                logger.warn('Request failed, retrying', {
+                    provider: this.config.name,
+                    attempt: attempt + 1,
+                    status: response.status,
+                    error: error.message,
+                });
+            } catch (error) {
+                const providerError = this.toProviderError(error, signal);
+                if (!providerError.retryable) {
+                    throw providerError;
+                }
+
+                lastError = providerError;
+
+                logger.warn('Request failed with network error', {
+                    provider: this.config.name,
+                    attempt: attempt + 1,
+                    error: lastError.message,
+                });
+            }
+
+            // Wait before retry with exponential backoff
+            if (attempt < MAX_RETRIES - 1) {
+                const delay = RETRY_DELAY_MS * Math.pow(RETRY_BACKOFF_MULTIPLIER, attempt);
+                await this.sleep(delay, signal);
+            }
+        }
+
+        // All retries failed
+        throw lastError ?? new LLMProviderError('Request failed', 'UNKNOWN');
+    }
+
+    /**
+     * Wrap a thrown value as a provider error; anything but a cancellation is a retryable network error
+     */
+    private toProviderError(error: unknown, signal?: AbortSignal): LLMProviderError {
+        if (signal?.aborted) {
+            return new LLMProviderError('Request cancelled', 'CANCELLED');
+        }
+        if (error instanceof LLMProviderError) {
+            return error;
+        }
+        return new LLMProviderError(
+            `Could not reach ${this.config.name}: ${error instanceof Error ? error.message : String(error)}`,
+            'NETWORK_ERROR',
+            undefined,
+            true
+        );
+    }
+
+    /**
+     * Map an HTTP error response to a provider error
+     */
+    private async parseErrorResponse(response: Response): Promise<LLMProviderError> {
+        let errorMessage = `HTTP ${response.status}`;
+        let code: LLMProviderErrorCode = 'UNKNOWN';
+        let retryable = false;
+
+        try {
+            // OpenAI-style { error: { message } } and Anthropic-style { error: { type, message } }
+            const errorBody = await response.json() as { error?: { message?: string } | string };
+            const message = typeof errorBody.error === 'string' ? errorBody.error : errorBody.error?.message;
+            if (message) {
+                errorMessage = message;
+            }
+        } catch {
+            // Ignore JSON parse errors
+        }
+
+        switch (response.status) {
+            case 401:
+            case 403:
+                code = 'INVALID_API_KEY';
+                errorMessage = response.status === 401 ? 'Invalid API key' : errorMessage;
+                break;
+            case 429:
+                code = 'RATE_LIMITED';
+                retryable = true;
+                break;
+            case 404:
+                code = 'MODEL_NOT_FOUND';
+                break;
+            case 400:
+                if (errorMessage.toLowerCase().includes('context length')) {
+                    code = 'CONTEXT_LENGTH_EXCEEDED';
+                } else if (errorMessage.toLowerCase().includes('content')) {
+                    code = 'CONTENT_FILTERED';
+                }
+                break;
+            case 500:
+            case 502:
+            case 503:
+            case 504:
+            case 529:
+                code = 'SERVER_ERROR';
+                retryable = true;
+                break;
+        }
+
+        return new LLMProviderError(errorMessage, code, response.status, retryable);
+    }
+
+    private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new LLMProviderError('Request cancelled', 'CANCELLED'));
+                return;
+            }
+
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(new LLMProviderError('Request cancelled', 'CANCELLED'));
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+}
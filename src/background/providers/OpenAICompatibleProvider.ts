@@ -0,0 +1,217 @@
+// OpenAI-Compatible Provider
+// Chat completions and embeddings for any OpenAI-style server (Ollama, llama.cpp, vLLM, OpenRouter)
+
+import {
+    BaseLLMProvider,
+    LLMProviderError,
+} from './LLMProvider';
+import type {
+    ChatCompletionRequest,
+    ChatCompletionResponse,
+    EmbeddingRequest,
+    EmbeddingResponse,
+} from './LLMProvider';
+
+// ============================================================================
+// OpenAI-Compatible Provider
+// ============================================================================
+
+export class OpenAICompatibleProvider extends BaseLLMProvider {
+    /**
+     * Send a chat completion request
+     */
+    async chatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+        this.ensureConfigured();
+
+        const response = await this.post<OpenAIChatResponse>(
+            '/chat/completions',
+            this.buildChatBody(request),
+            this.getHeaders(),
+            request.signal
+        );
+
+        return {
+            id: response.id,
+            choices: response.choices.map((c) => ({
+                message: {
+                    role: c.message.role,
+                    content: c.message.content,
+                },
+                finishReason: c.finish_reason,
+            })),
+            usage: {
+                promptTokens: response.usage?.prompt_tokens ?? 0,
+                completionTokens: response.usage?.completion_tokens ?? 0,
+                totalTokens: response.usage?.total_tokens ?? 0,
+            },
+        };
+    }
+
+    /**
+     * Send a streaming chat completion request, reporting content deltas as they arrive
+     */
+    async streamChatCompletion(
+        request: ChatCompletionRequest,
+        onDelta: (text: string) => void
+    ): Promise<ChatCompletionResponse> {
+        this.ensureConfigured();
+
+        let id = '';
+        let content = '';
+        let finishReason = '';
+        let usage: OpenAIChatResponse['usage'];
+
+        await this.postStream<OpenAIStreamChunk>(
+            '/chat/completions',
+            { ...this.buildChatBody(request), stream: true },
+            this.getHeaders(),
+            request.signal,
+            (chunk) => {
+                // Errors after the stream has started arrive as an event
+                if (chunk.error) {
+                    throw new LLMProviderError(chunk.error.message ?? 'Stream failed', 'SERVER_ERROR');
+                }
+
+                id ||= chunk.id ?? '';
+                usage = chunk.usage ?? usage;
+
+                const choice = chunk.choices?.[0];
+                if (choice?.delta?.content) {
+                    content += choice.delta.content;
+                    onDelta(choice.delta.content);
+                }
+                if (choice?.finish_reason) {
+                    finishReason = choice.finish_reason;
+                }
+            }
+        );
+
+        return {
+            id,
+            choices: [{
+                message: { role: 'assistant', content },
+                finishReason,
+            }],
+            usage: {
+                promptTokens: usage?.prompt_tokens ?? 0,
+                completionTokens: usage?.completion_tokens ?? 0,
+                totalTokens: usage?.total_tokens ?? 0,
+            },
+        };
+    }
+
+    /**
+     * Generate embeddings for text
+     */
+    async createEmbedding(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+        this.ensureConfigured();
+
+        const model = request.model ?? this.config.embeddingModel;
+        if (!model) {
+            throw new LLMProviderError(
+                `${this.config.name} has no embedding model configured`,
+                'EMBEDDINGS_UNSUPPORTED'
+            );
+        }
+
+        const response = await this.post<OpenAIEmbeddingResponse>(
+            '/embeddings',
+            { model, input: request.input },
+            this.getHeaders()
+        );
+
+        return {
+            data: response.data.map((d) => ({
+                embedding: d.embedding,
+                index: d.index,
+            })),
+            usage: {
+                promptTokens: response.usage?.prompt_tokens ?? 0,
+                totalTokens: response.usage?.total_tokens ?? 0,
+            },
+        };
+    }
+
+    /**
+     * Build the request body shared by plain and streaming chat completions
+     */
+    private buildChatBody(request: ChatCompletionRequest): object {
+        return {
+            model: this.config.chatModel,
+            messages: request.messages,
+            temperature: request.temperature ?? 0.2,
+            max_tokens: request.maxTokens ?? 2048,
+            ...(request.responseFormat && { response_format: request.responseFormat }),
+        };
+    }
+
+    /**
+     * Local servers usually run without a key, so only send one when set
+     */
+    protected getHeaders(): Record<string, string> {
+        return this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {};
+    }
+}
+
+// ============================================================================
+// OpenRouter Provider
+// ============================================================================
+
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+    isConfigured(): boolean {
+        return super.isConfigured() && !!this.config.apiKey;
+    }
+
+    protected getHeaders(): Record<string, string> {
+        return {
+            ...super.getHeaders(),
+            'HTTP-Referer': 'https://FormQ-extension.local',
+            'X-Title': 'FormQ Form Autofill',
+        };
+    }
+}
+
+// ============================================================================
+// Internal API Response Types (snake_case from the API)
+// ============================================================================
+
+interface OpenAIChatResponse {
+    id: string;
+    choices: Array<{
+        message: {
+            role: string;
+            content: string;
+        };
+        finish_reason: string;
+    }>;
+    usage?: {
+        prompt_tokens: number;
+        completion_tokens: number;
+        total_tokens: number;
+    };
+}
+
+interface OpenAIStreamChunk {
+    id?: string;
+    choices?: Array<{
+        delta?: {
+            content?: string | null;
+        };
+        finish_reason?: string | null;
+    }>;
+    usage?: OpenAIChatResponse['usage'];
+    error?: {
+        message?: string;
+    };
+}
+
+interface OpenAIEmbeddingResponse {
+    data: Array<{
+        embedding: number[];
+        index: number;
+    }>;
+    usage?: {
+        prompt_tokens: number;
+        total_tokens: number;
+    };
+}
@@ -0,0 +1,237 @@
+// Provider Registry
+// Stores configured LLM providers and resolves which one a profile uses
+
+import type { LLMProviderConfig, LLMProviderInput, LLMProviderSummary, Profile } from '@shared/types';
+import {
+    OPENROUTER_BASE_URL,
+    OPENROUTER_DEFAULT_CHAT_MODEL,
+    OPENROUTER_DEFAULT_EMBEDDING_MODEL,
+} from '@shared/constants';
+import { createLogger, generateId } from '@shared/utils';
+import type { LLMProvider } from './LLMProvider';
+import { OpenAICompatibleProvider, OpenRouterProvider } from './OpenAICompatibleProvider';
+import { AnthropicProvider } from './AnthropicProvider';
+
+const logger = createLogger('ProviderRegistry');
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface StoredProviders {
+    providers: LLMProviderConfig[];
+    defaultProviderId: string | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const STORAGE_KEY = 'llmProviders';
+
+// Keys written by the OpenRouter-only client, migrated on first run
+const LEGACY_KEY_API_KEY = 'openrouter_api_key';
+const LEGACY_KEY_CHAT_MODEL = 'openrouter_chat_model';
+const LEGACY_KEY_EMBEDDING_MODEL = 'openrouter_embedding_model';
+
+// ============================================================================
+// Provider Registry
+// ============================================================================
+
+export class ProviderRegistry {
+    private providers: Map<string, LLMProvider> = new Map();
+    private defaultProviderId: string | null = null;
+    private initialized: boolean = false;
+
+    /**
+     * Load providers from local storage, migrating the legacy OpenRouter settings
+     */
+    async init(): Promise<void> {
+        if (this.initialized) return;
+
+        try {
+            const stored = await chrome.storage.local.get(STORAGE_KEY);
+            const record = (stored[STORAGE_KEY] as StoredProviders | undefined) ?? await this.migrateLegacyConfig();
+
+            for (const config of record.providers) {
+                this.providers.set(config.id, createProvider(config));
+            }
+            this.defaultProviderId = record.defaultProviderId;
+        } catch (error) {
+            logger.error('Failed to load LLM providers', { error });
+        }
+
+        this.initialized = true;
+        logger.debug('Provider registry initialized', {
+            providerCount: this.providers.size,
+            defaultProviderId: this.defaultProviderId,
+        });
+    }
+
+    /**
+     * List all providers without their API keys
+     */
+    getAll(): LLMProviderSummary[] {
+        return Array.from(this.providers.values()).map((provider) => provider.getSummary());
+    }
+
+    getDefaultId(): string | null {
+        return this.defaultProviderId;
+    }
+
+    get(id: string): LLMProvider | null {
+        return this.providers.get(id) ?? null;
+    }
+
+    getDefault(): LLMProvider | null {
+        return this.defaultProviderId ? this.get(this.defaultProviderId) : null;
+    }
+
+    /**
+     * Resolve the provider a profile uses.
+     * A profile pinned to a provider that no longer exists gets none rather than
+     * the default, so its data is never sent somewhere it wasn't meant to go.
+     */
+    getForProfile(profile?: Pick<Profile, 'settings'> | null): LLMProvider | null {
+        const providerId = profile?.settings.providerId;
+        if (!providerId) {
+            return this.getDefault();
+        }
+
+        const provider = this.get(providerId);
+        if (!provider) {
+            logger.warn('Profile references a missing LLM provider', { providerId });
+        }
+        return provider;
+    }
+
+    /**
+     * Create or update a provider
+     */
+    async save(input: LLMProviderInput): Promise<LLMProviderSummary> {
+        await this.init();
+
+        const existing = input.id ? this.providers.get(input.id)?.config : undefined;
+        const config: LLMProviderConfig = {
+            id: existing?.id ?? generateId(),
+            name: input.name.trim() || 'Untitled provider',
+            type: input.type,
+            baseUrl: input.baseUrl.trim(),
+            apiKey: input.apiKey !== undefined ? input.apiKey.trim() || undefined : existing?.apiKey,
+            chatModel: input.chatModel.trim(),
+            embeddingModel: input.embeddingModel?.trim() || undefined,
+        };
+
+        const provider = createProvider(config);
+        this.providers.set(config.id, provider);
+
+        // The first provider becomes the default
+        if (!this.defaultProviderId) {
+            this.defaultProviderId = config.id;
+        }
+
+        await this.persist();
+        logger.info(existing ? 'LLM provider updated' : 'LLM provider added', {
+            id: config.id,
+            type: config.type,
+        });
+
+        return provider.getSummary();
+    }
+
+    /**
+     * Remove a provider; the next remaining one becomes the default if needed
+     */
+    async delete(id: string): Promise<void> {
+        await this.init();
+
+        if (!this.providers.delete(id)) {
+            throw new Error(`Provider not found: ${id}`);
+        }
+
+        if (this.defaultProviderId === id) {
+            this.defaultProviderId = this.providers.keys().next().value ?? null;
+        }
+
+        await this.persist();
+        logger.info('LLM provider deleted', { id });
+    }
+
+    /**
+     * Choose the provider used by profiles without their own
+     */
+    async setDefault(id: string): Promise<void> {
+        await this.init();
+
+        if (!this.providers.has(id)) {
+            throw new Error(`Provider not found: ${id}`);
+        }
+
+        this.defaultProviderId = id;
+        await this.persist();
+        logger.info('Default LLM provider changed', { id });
+    }
+
+    /**
+     * Turn the OpenRouter-only sync settings into a default OpenRouter provider
+     */
+    private async migrateLegacyConfig(): Promise<StoredProviders> {
+        const legacy = await chrome.storage.sync.get([
+            LEGACY_KEY_API_KEY,
+            LEGACY_KEY_CHAT_MODEL,
+            LEGACY_KEY_EMBEDDING_MODEL,
+        ]);
+
+        if (!legacy[LEGACY_KEY_API_KEY]) {
+            return { providers: [], defaultProviderId: null };
+        }
+
+        const config: LLMProviderConfig = {
+            id: generateId(),
+            name: 'OpenRouter',
+            type: 'openrouter',
+            baseUrl: OPENROUTER_BASE_URL,
+            apiKey: legacy[LEGACY_KEY_API_KEY],
+            chatModel: legacy[LEGACY_KEY_CHAT_MODEL] || OPENROUTER_DEFAULT_CHAT_MODEL,
+            embeddingModel: legacy[LEGACY_KEY_EMBEDDING_MODEL] || OPENROUTER_DEFAULT_EMBEDDING_MODEL,
+        };
+        const record: StoredProviders = { providers: [config], defaultProviderId: config.id };
+
+        await chrome.storage.local.set({ [STORAGE_KEY]: record });
+        await chrome.storage.sync.remove([LEGACY_KEY_API_KEY, LEGACY_KEY_CHAT_MODEL, LEGACY_KEY_EMBEDDING_MODEL]);
+        logger.info('Migrated OpenRouter settings to a provider', { id: config.id });
+
+        return record;
+    }
+
+    /**
+     * Write providers to local storage (API keys stay on this device)
+     */
+    private async persist(): Promise<void> {
+        const record: StoredProviders = {
+            providers: Array.from(this.providers.values()).map((provider) => provider.config),
+            defaultProviderId: this.defaultProviderId,
+        };
+        await chrome.storage.local.set({ [STORAGE_KEY]: record });
+    }
+}
+
+/**
+ * Instantiate the provider implementation for a config
+ */
+function createProvider(config: LLMProviderConfig): LLMProvider {
+    switch (config.type) {
+        case 'openrouter':
+            return new OpenRouterProvider(config);
+        case 'anthropic':
+            return new AnthropicProvider(config);
+        case 'openai_compatible':
+            return new OpenAICompatibleProvider(config);
+    }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+export const providerRegistry = new ProviderRegistry();
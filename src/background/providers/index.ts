@@ -0,0 +1,18 @@
+// LLM Provider Exports
+// Re-export all provider components from this directory
+
+export { BaseLLMProvider, LLMProviderError } from './LLMProvider';
+export type {
+    LLMProvider,
+    ChatMessage,
+    ChatCompletionRequest,
+    ChatCompletionResponse,
+    EmbeddingRequest,
+    EmbeddingResponse,
+    LLMProviderErrorCode,
+} from './LLMProvider';
+
+export { OpenAICompatibleProvider, OpenRouterProvider } from './OpenAICompatibleProvider';
+export { AnthropicProvider } from './AnthropicProvider';
+
+export { ProviderRegistry, providerRegistry } from './ProviderRegistry';
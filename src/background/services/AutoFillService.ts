@@ -0,0 +1,169 @@
+// Auto-Fill Service
+// Decides whether a form detected on page load may be filled without the user asking
+
+import type { AppSettings, FormSignature } from '@shared/types';
+import { createLogger } from '@shared/utils';
+
+const logger = createLogger('AutoFillService');
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AutoFillSkipReason =
+    | 'disabled'
+    | 'site_blocked'
+    | 'site_not_allowed'
+    | 'too_small'
+    | 'rate_limited';
+
+interface AutoFillRecord {
+    formId: string;
+    filledAt: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SESSION_KEY = 'autoFillsByTab';
+
+// The same form isn't auto-filled again in a tab within this window, so SPA
+// re-renders and reloads don't overwrite what the user typed since
+const FORM_COOLDOWN_MS = 10 * 60 * 1000;
+
+// Minimum gap between auto-fills in a tab, whatever the form
+const TAB_COOLDOWN_MS = 5 * 1000;
+
+// Smaller forms (search boxes, newsletter sign-ups) are left for the user to fill
+const MIN_FIELDS = 2;
+
+// ============================================================================
+// Auto-Fill Service
+// ============================================================================
+
+export class AutoFillService {
+    // tabId -> auto-fills in the tab still within the form cooldown
+    private fillsByTab: Map<number, AutoFillRecord[]> = new Map();
+    private initialized: boolean = false;
+
+    /**
+     * Restore recent auto-fills from session storage
+     */
+    async init(): Promise<void> {
+        if (this.initialized) return;
+
+        try {
+            const stored = await chrome.storage.session.get(SESSION_KEY);
+            const record = stored[SESSION_KEY] as Record<string, AutoFillRecord[]> | undefined;
+
+            if (record) {
+                for (const [tabId, fills] of Object.entries(record)) {
+                    this.fillsByTab.set(Number(tabId), fills);
+                }
+            }
+        } catch (error) {
+            logger.error('Failed to restore auto-fill history', { error });
+        }
+
+        this.initialized = true;
+    }
+
+    /**
+     * Check whether a form may be auto-filled, returning why not if it may not
+     */
+    check(tabId: number, form: FormSignature, settings: AppSettings): AutoFillSkipReason | null {
+        if (!settings.autoFillEnabled) {
+            return 'disabled';
+        }
+
+        if (settings.autoFillBlockedSites.some((site) => matchesSite(form.domain, site))) {
+            return 'site_blocked';
+        }
+
+        const allowed = settings.autoFillAllowedSites;
+        if (allowed.length > 0 && !allowed.some((site) => matchesSite(form.domain, site))) {
+            return 'site_not_allowed';
+        }
+
+        if (form.fields.length < MIN_FIELDS) {
+            return 'too_small';
+        }
+
+        const now = Date.now();
+        const fills = this.getRecent(tabId);
+        const refill = fills.some((f) => f.formId === form.id);
+        const tooSoon = fills.some((f) => now - f.filledAt < TAB_COOLDOWN_MS);
+        if (refill || tooSoon) {
+            return 'rate_limited';
+        }
+
+        return null;
+    }
+
+    /**
+     * Record that a form was auto-filled in a tab
+     */
+    async record(tabId: number, form: FormSignature): Promise<void> {
+        const fills = this.getRecent(tabId).filter((f) => f.formId !== form.id);
+        fills.push({ formId: form.id, filledAt: Date.now() });
+        this.fillsByTab.set(tabId, fills);
+
+        await this.persist();
+        logger.debug('Auto-fill recorded', { tabId, formId: form.id });
+    }
+
+    /**
+     * Forget a tab's auto-fills (closed)
+     */
+    async clearTab(tabId: number): Promise<void> {
+        if (!this.fillsByTab.delete(tabId)) {
+            return;
+        }
+
+        await this.persist();
+    }
+
+    private getRecent(tabId: number): AutoFillRecord[] {
+        const now = Date.now();
+        return (this.fillsByTab.get(tabId) ?? []).filter((f) => now - f.filledAt < FORM_COOLDOWN_MS);
+    }
+
+    /**
+     * Write recent auto-fills to session storage
+     */
+    private async persist(): Promise<void> {
+        try {
+            const record: Record<string, AutoFillRecord[]> = {};
+            for (const tabId of this.fillsByTab.keys()) {
+                record[tabId] = this.getRecent(tabId);
+            }
+            await chrome.storage.session.set({ [SESSION_KEY]: record });
+        } catch (error) {
+            logger.error('Failed to persist auto-fill history', { error });
+        }
+    }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Check whether a domain is a listed site or one of its subdomains. Entries may
+ * be written as a URL or with a leading "*.".
+ */
+function matchesSite(domain: string, site: string): boolean {
+    const pattern = site.trim().toLowerCase()
+        .replace(/^[a-z]+:\/\//, '')
+        .replace(/^\*\./, '')
+        .replace(/\/.*$/, '');
+
+    return pattern.length > 0 && (domain === pattern || domain.endsWith('.' + pattern));
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+export const autoFillService = new AutoFillService();
@@ -16,6 +16,7 @@ export interface CachedFillResponse {
     tokensUsed: number;
     createdAt: number;
     hitCount: number;
+    profileVersion?: number;    // Profile version the response was generated from
 }
 
 export interface CacheStats {
@@ -45,7 +46,7 @@ let cacheMisses = 0;
 
 export class CacheService {
     private ttlMs: number;
-    private initialized: boolean = false;
+    private initPromise: Promise<void> | null = null;
 
     constructor(ttlMs: number = DEFAULT_TTL_MS) {
         this.ttlMs = ttlMs;
@@ -55,28 +56,50 @@ export class CacheService {
      * Initialize the cache service
      */
     async init(): Promise<void> {
-        if (this.initialized) return;
-        await storageService.init();
-
-        // Clean up expired entries on init
-        await this.cleanExpired();
-
-        this.initialized = true;
-        logger.debug('Cache service initialized');
+        if (!this.initPromise) {
+            this.initPromise = (async () => {
+                await storageService.init();
+
+                // Clean up expired entries on init
+                await this.removeExpired();
+
+                logger.debug('Cache service initialized');
+            })().catch((error) => {
+                // Let the next call retry
+                this.initPromise = null;
+                throw error;
+            });
+        }
+        return this.initPromise;
     }
 
     /**
      * Get a cached fill response
+     * Mappings are re-bound to the fields of the given form signature, since
+     * field IDs are regenerated on every detection.
      */
     async get(
         formSignature: FormSignature,
-        profileId: string
+        profileId: string,
+        profileVersion?: number
     ): Promise<CachedFillResponse | null> {
         await this.init();
 
         const key = this.buildCacheKey(formSignature, profileId);
         const cached = await storageService.getCache<CachedFillResponse>(key);
 
+        // Responses generated from an older profile version are stale
+        if (cached && profileVersion !== undefined && cached.profileVersion !== profileVersion) {
+            cacheMisses++;
+            await storageService.deleteCache(key);
+            logger.debug('Cache entry stale', {
+                key,
+                cachedVersion: cached.profileVersion,
+                profileVersion,
+            });
+            return null;
+        }
+
         if (cached) {
             cacheHits++;
 
@@ -90,7 +113,10 @@ export class CacheService {
                 age: Date.now() - cached.createdAt,
             });
 
-            return cached;
+            return {
+                ...cached,
+                mappings: this.rebindMappings(cached.mappings, formSignature),
+            };
         }
 
         cacheMisses++;
@@ -105,7 +131,8 @@ export class CacheService {
         formSignature: FormSignature,
         profileId: string,
         mappings: FieldMapping[],
-        tokensUsed: number
+        tokensUsed: number,
+        profileVersion?: number
     ): Promise<void> {
         await this.init();
 
@@ -115,6 +142,7 @@ export class CacheService {
             tokensUsed,
             createdAt: Date.now(),
             hitCount: 0,
+            profileVersion,
         };
 
         await storageService.setCache(key, entry, this.ttlMs);
@@ -155,6 +183,13 @@ export class CacheService {
      */
     async cleanExpired(): Promise<number> {
         await this.init();
+        return this.removeExpired();
+    }
+
+    /**
+     * Delete expired entries; storage must already be initialized
+     */
+    private async removeExpired(): Promise<number> {
         const count = await storageService.clearExpiredCache();
 
         if (count > 0) {
@@ -203,7 +238,7 @@ export class CacheService {
     private hashFormSignature(formSignature: FormSignature): string {
         // Hash based on domain and field structure
         const fieldIds = formSignature.fields
-            .map((f: FieldSignature) => `${f.semanticClass}:${f.inputType}`)
+            .map((f: FieldSignature) => `${f.semanticClass}:${f.inputType}:${f.normalizedLabel}`)
             .sort()
             .join('|');
 
@@ -220,6 +255,38 @@ export class CacheService {
         return Math.abs(hash).toString(36);
     }
 
+    /**
+     * Point cached mappings at the matching fields of the current form
+     */
+    private rebindMappings(
+        mappings: FieldMapping[],
+        formSignature: FormSignature
+    ): FieldMapping[] {
+        const rebound: FieldMapping[] = [];
+        const usedFieldIds = new Set<string>();
+
+        for (const mapping of mappings) {
+            const cachedField = mapping.fieldSignature;
+            const candidates = formSignature.fields.filter(
+                (f) => !usedFieldIds.has(f.id) &&
+                    f.inputType === cachedField.inputType &&
+                    f.semanticClass === cachedField.semanticClass &&
+                    f.normalizedLabel === cachedField.normalizedLabel
+            );
+
+            // Prefer the field at the same DOM position when labels repeat
+            const field = candidates.find((f) => f.domPath === cachedField.domPath) ?? candidates[0];
+            if (!field) {
+                continue;
+            }
+
+            usedFieldIds.add(field.id);
+            rebound.push({ ...mapping, fieldSignature: field, source: 'cache' });
+        }
+
+        return rebound;
+    }
+
     /**
      * Set cache TTL
      */
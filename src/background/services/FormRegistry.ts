@@ -0,0 +1,153 @@
+// Form Registry
+// Per-tab registry of detected forms across all frames, persisted across service worker restarts
+
+import type { FormSignature, FormRef } from '@shared/types';
+import { createLogger } from '@shared/utils';
+
+const logger = createLogger('FormRegistry');
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SESSION_KEY = 'formsByTab';
+const TOP_FRAME_ID = 0;
+
+// ============================================================================
+// Form Registry
+// ============================================================================
+
+export class FormRegistry {
+    // tabId -> forms from every frame, ordered by frameId then formIndex
+    private formsByTab: Map<number, FormSignature[]> = new Map();
+    private initialized: boolean = false;
+
+    /**
+     * Restore the registry from session storage
+     */
+    async init(): Promise<void> {
+        if (this.initialized) return;
+
+        try {
+            const stored = await chrome.storage.session.get(SESSION_KEY);
+            const record = stored[SESSION_KEY] as Record<string, FormSignature[]> | undefined;
+
+            if (record) {
+                for (const [tabId, forms] of Object.entries(record)) {
+                    this.formsByTab.set(Number(tabId), forms);
+                }
+            }
+        } catch (error) {
+            logger.error('Failed to restore form registry', { error });
+        }
+
+        this.initialized = true;
+        logger.debug('Form registry initialized', { tabCount: this.formsByTab.size });
+    }
+
+    /**
+     * Replace the detected forms reported by one frame of a tab
+     */
+    async setForms(tabId: number, frameId: number, forms: FormSignature[]): Promise<void> {
+        const otherFrames = this.getForms(tabId).filter((f) => this.frameOf(f) !== frameId);
+        const stamped = forms.map((form) => ({ ...form, frameId }));
+
+        const sorted = [...otherFrames, ...stamped].sort(
+            (a, b) => this.frameOf(a) - this.frameOf(b) || a.formIndex - b.formIndex
+        );
+        this.formsByTab.set(tabId, sorted);
+        await this.persist();
+
+        logger.debug('Forms registered', {
+            tabId,
+            frameId,
+            formIndexes: stamped.map((f) => f.formIndex),
+        });
+    }
+
+    /**
+     * Get all detected forms for a tab, across frames
+     */
+    getForms(tabId: number): FormSignature[] {
+        return this.formsByTab.get(tabId) ?? [];
+    }
+
+    /**
+     * Get the frames in a tab that reported forms
+     */
+    getFrameIds(tabId: number): number[] {
+        return Array.from(new Set(this.getForms(tabId).map((f) => this.frameOf(f))));
+    }
+
+    /**
+     * Get a specific form in a tab by frame and index
+     */
+    getForm(tabId: number, formIndex: number, frameId: number = TOP_FRAME_ID): FormSignature | undefined {
+        return this.getForms(tabId).find(
+            (f) => f.formIndex === formIndex && this.frameOf(f) === frameId
+        );
+    }
+
+    /**
+     * Pick the form to fill when the caller didn't choose one.
+     * Prefers the focused form, then the largest top-frame form, then the largest form
+     * in any frame - so an embedded widget doesn't win over the page's own form.
+     */
+    getDefaultForm(tabId: number, focused?: FormRef | null): FormSignature | undefined {
+        const forms = this.getForms(tabId);
+
+        if (focused) {
+            const focusedForm = this.getForm(tabId, focused.formIndex, focused.frameId);
+            if (focusedForm) {
+                return focusedForm;
+            }
+        }
+
+        const topFrameForms = forms.filter((f) => this.frameOf(f) === TOP_FRAME_ID);
+        return this.largest(topFrameForms) ?? this.largest(forms);
+    }
+
+    /**
+     * Forget all forms for a tab (closed or navigated away)
+     */
+    async clearTab(tabId: number): Promise<void> {
+        if (!this.formsByTab.delete(tabId)) {
+            return;
+        }
+
+        await this.persist();
+        logger.debug('Tab forms cleared', { tabId });
+    }
+
+    private frameOf(form: FormSignature): number {
+        return form.frameId ?? TOP_FRAME_ID;
+    }
+
+    private largest(forms: FormSignature[]): FormSignature | undefined {
+        return forms.reduce<FormSignature | undefined>(
+            (largest, form) => (!largest || form.fields.length > largest.fields.length ? form : largest),
+            undefined
+        );
+    }
+
+    /**
+     * Write the registry to session storage
+     */
+    private async persist(): Promise<void> {
+        try {
+            const record: Record<string, FormSignature[]> = {};
+            for (const [tabId, forms] of this.formsByTab) {
+                record[tabId] = forms;
+            }
+            await chrome.storage.session.set({ [SESSION_KEY]: record });
+        } catch (error) {
+            logger.error('Failed to persist form registry', { error });
+        }
+    }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+export const formRegistry = new FormRegistry();
@@ -0,0 +1,309 @@
+// Form Session Service
+// Tracks multi-step forms across steps, so later steps are answered consistently and can fill themselves
+
+import type { FillResult, FormSession, FormSignature } from '@shared/types';
+import { isFieldDenylisted } from '@shared/constants';
+import { createLogger, generateId } from '@shared/utils';
+import type { PriorAnswer } from '../ai/PromptBuilder';
+
+const logger = createLogger('FormSessionService');
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SESSION_KEY = 'formSessions';
+
+// A flow left alone this long is over; the next fill on it starts a new session
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+
+// Path segments that number a step rather than name the flow (/step-2, /page3, /2)
+const STEP_SEGMENT = /^(?:(?:step|page|stage|section)[-_]?\d+|\d{1,2})$/i;
+
+// A detected form sharing at least this share of its labels with a filled step is that
+// step re-rendered (e.g. a conditional field appeared), not the next one
+const SAME_STEP_OVERLAP = 0.5;
+
+// ============================================================================
+// Form Session Service
+// ============================================================================
+
+export class FormSessionService {
+    // Flow key -> session
+    private sessions: Map<string, FormSession> = new Map();
+    private initialized: boolean = false;
+
+    /**
+     * Restore sessions from session storage
+     */
+    async init(): Promise<void> {
+        if (this.initialized) return;
+
+        try {
+            const stored = await chrome.storage.session.get(SESSION_KEY);
+            const sessions = stored[SESSION_KEY] as FormSession[] | undefined;
+            for (const session of sessions ?? []) {
+                this.sessions.set(session.key, session);
+            }
+        } catch (error) {
+            logger.error('Failed to restore form sessions', { error });
+        }
+
+        this.initialized = true;
+        logger.debug('Form sessions initialized', { sessionCount: this.sessions.size });
+    }
+
+    /**
+     * Record a completed fill as a step of its flow's session, starting one if needed
+     */
+    async recordFill(tabId: number, profileId: string, result: FillResult): Promise<FormSession | null> {
+        const key = getFlowKey(result.formSignature.url);
+        if (!key) {
+            return null;
+        }
+
+        const now = Date.now();
+        let session = this.getActive(key);
+        if (!session || session.profileId !== profileId) {
+            session = {
+                id: generateId(),
+                key,
+                domain: result.formSignature.domain,
+                profileId,
+                tabId,
+                steps: [],
+                seenFormIds: [],
+                autoFill: false,
+                startedAt: now,
+                updatedAt: now,
+            };
+            this.sessions.set(key, session);
+        }
+
+        const step: FillResult = {
+            ...result,
+            mappings: result.mappings.filter((m) => !m.sensitive && !isFieldDenylisted(m.fieldSignature)),
+        };
+
+        // Filling the same step again replaces its answers
+        session.steps = [
+            ...session.steps.filter((s) => s.formSignature.id !== result.formSignature.id),
+            step,
+        ];
+        if (!session.seenFormIds.includes(result.formSignature.id)) {
+            session.seenFormIds.push(result.formSignature.id);
+        }
+        session.tabId = tabId;
+        session.updatedAt = now;
+        await this.persist();
+
+        logger.info('Form session step recorded', {
+            sessionId: session.id,
+            key,
+            stepCount: session.steps.length,
+        });
+
+        return session;
+    }
+
+    /**
+     * Find a newly shown step among forms reported for a tab: a form on an active
+     * session's flow that no filled step covers. Returns the largest such form.
+     */
+    findNextStep(forms: FormSignature[]): { session: FormSession; form: FormSignature } | null {
+        let next: { session: FormSession; form: FormSignature } | null = null;
+
+        for (const form of forms) {
+            const key = getFlowKey(form.url);
+            const session = key ? this.getActive(key) : undefined;
+            if (!session || session.steps.length === 0 || session.seenFormIds.includes(form.id)) {
+                continue;
+            }
+
+            if (session.steps.some((step) => isSameStep(step.formSignature, form))) {
+                continue;
+            }
+
+            if (!next || form.fields.length > next.form.fields.length) {
+                next = { session, form };
+            }
+        }
+
+        return next;
+    }
+
+    /**
+     * Mark a form as handled, so detecting it again doesn't count as a new step
+     */
+    async markSeen(sessionId: string, formId: string): Promise<void> {
+        const session = this.getById(sessionId);
+        if (!session || session.seenFormIds.includes(formId)) {
+            return;
+        }
+
+        session.seenFormIds.push(formId);
+        session.updatedAt = Date.now();
+        await this.persist();
+    }
+
+    /**
+     * Answers given in earlier steps of the form's flow, for keeping later answers consistent
+     */
+    getPriorAnswers(form: FormSignature): PriorAnswer[] {
+        const key = getFlowKey(form.url);
+        const session = key ? this.getActive(key) : undefined;
+        if (!session) {
+            return [];
+        }
+
+        // Later steps win when the same question was asked twice
+        const answers = new Map<string, string>();
+        for (const step of session.steps) {
+            if (step.formSignature.id === form.id) {
+                continue;
+            }
+
+            for (const mapping of step.mappings) {
+                const label = mapping.fieldSignature.normalizedLabel;
+                if (label && mapping.value) {
+                    answers.set(label, mapping.value);
+                }
+            }
+        }
+
+        return Array.from(answers, ([label, value]) => ({ label, value }));
+    }
+
+    /**
+     * Get the most recently active session in a tab
+     */
+    getForTab(tabId: number): FormSession | undefined {
+        return this.getAll()
+            .filter((s) => s.tabId === tabId)
+            .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+    }
+
+    /**
+     * Turn auto-filling of new steps on or off for a session
+     */
+    async setAutoFill(sessionId: string, enabled: boolean): Promise<boolean> {
+        const session = this.getById(sessionId);
+        if (!session) {
+            return false;
+        }
+
+        session.autoFill = enabled;
+        await this.persist();
+
+        logger.info('Form session auto-fill changed', { sessionId, enabled });
+        return true;
+    }
+
+    /**
+     * Drop the answers of a tab's most recent step (the fill was undone)
+     */
+    async discardLastStep(tabId: number): Promise<void> {
+        const session = this.getForTab(tabId);
+        if (!session || session.steps.length === 0) {
+            return;
+        }
+
+        // The form stays seen, so an auto-filled step doesn't fill itself again
+        session.steps = session.steps.slice(0, -1);
+        await this.persist();
+    }
+
+    /**
+     * End a session; the next fill on its flow starts a new one
+     */
+    async end(sessionId: string): Promise<boolean> {
+        const session = this.getById(sessionId);
+        if (!session) {
+            return false;
+        }
+
+        this.sessions.delete(session.key);
+        await this.persist();
+
+        logger.info('Form session ended', { sessionId, stepCount: session.steps.length });
+        return true;
+    }
+
+    /**
+     * All sessions still active
+     */
+    private getAll(): FormSession[] {
+        return Array.from(this.sessions.values()).filter((s) => !isExpired(s));
+    }
+
+    private getActive(key: string): FormSession | undefined {
+        const session = this.sessions.get(key);
+        return session && !isExpired(session) ? session : undefined;
+    }
+
+    private getById(sessionId: string): FormSession | undefined {
+        return this.getAll().find((s) => s.id === sessionId);
+    }
+
+    /**
+     * Write active sessions to session storage, dropping expired ones
+     */
+    private async persist(): Promise<void> {
+        for (const [key, session] of this.sessions) {
+            if (isExpired(session)) {
+                this.sessions.delete(key);
+            }
+        }
+
+        try {
+            await chrome.storage.session.set({ [SESSION_KEY]: Array.from(this.sessions.values()) });
+        } catch (error) {
+            logger.error('Failed to persist form sessions', { error });
+        }
+    }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * The flow a URL belongs to: its host plus the path every step shares. Step
+ * numbers are dropped, as is the last segment, since wizards that move to a
+ * new path per step (/apply/contact, /apply/experience) differ only there.
+ */
+function getFlowKey(url: string): string | null {
+    try {
+        const { hostname, pathname } = new URL(url);
+        const segments = pathname.split('/').filter((s) => s && !STEP_SEGMENT.test(s));
+        if (segments.length > 1) {
+            segments.pop();
+        }
+        return `${hostname}/${segments.join('/')}`;
+    } catch {
+        return null;
+    }
+}
+
+function isExpired(session: FormSession): boolean {
+    return Date.now() - session.updatedAt > SESSION_IDLE_MS;
+}
+
+/**
+ * Check whether a detected form is a filled step re-rendered with a few fields changed
+ */
+function isSameStep(filled: FormSignature, detected: FormSignature): boolean {
+    if (detected.fields.length === 0) {
+        return true;
+    }
+
+    const filledLabels = new Set(filled.fields.map((f) => f.normalizedLabel));
+    const shared = detected.fields.filter((f) => filledLabels.has(f.normalizedLabel)).length;
+    return shared / detected.fields.length >= SAME_STEP_OVERLAP;
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+export const formSessionService = new FormSessionService();
@@ -19,6 +19,18 @@ export interface EditEvent {
     timestamp: number;
 }
 
+// Where edits were made: pending edits are kept per tab and frame, so forms
+// filled in different tabs with the same profile are learned separately
+export interface EditScope {
+    tabId: number;
+    frameId: number;
+}
+
+interface PendingEdits {
+    profileId: string;
+    edits: EditEvent[];
+}
+
 export interface LearningConfig {
     enabled: boolean;
     minConfidenceToLearn: number;       // Only learn from edits where original confidence was below this
@@ -37,8 +49,9 @@ const DEFAULT_CONFIG: LearningConfig = {
     deduplicationThreshold: 0.9,
 };
 
-// Pending edits buffer (per profile)
-const pendingEdits = new Map<string, EditEvent[]>();
+// Session storage key of the pending edits buffer. The buffer outlives service
+// worker restarts between an edit and the form's submission.
+const SESSION_KEY = 'pendingEdits';
 
 // ============================================================================
 // Learning Service
@@ -47,6 +60,8 @@ const pendingEdits = new Map<string, EditEvent[]>();
 export class LearningService {
     private config: LearningConfig;
     private initialized: boolean = false;
+    // "tabId:frameId" -> edits awaiting the form's submission
+    private pendingEdits: Promise<Record<string, PendingEdits>> | null = null;
 
     constructor(config?: Partial<LearningConfig>) {
         this.config = { ...DEFAULT_CONFIG, ...config };
@@ -63,14 +78,22 @@ export class LearningService {
     }
 
     /**
-     * Record a user edit for potential learning
+     * Record a user edit for potential learning. Returns false if the edit was
+     * ignored, leaving the pending edits unchanged.
      */
     async recordEdit(
         profileId: string,
+        scope: EditScope,
         edit: EditEvent
-    ): Promise<void> {
+    ): Promise<boolean> {
         if (!this.config.enabled) {
-            return;
+            return false;
+        }
+
+        // Values from encrypted fields must not end up in plaintext learned examples
+        if (edit.originalMapping.sensitive) {
+            logger.debug('Edit ignored - field holds an encrypted value');
+            return false;
         }
 
         // Only learn from edits where we weren't confident
@@ -79,35 +102,59 @@ export class LearningService {
                 confidence: edit.originalMapping.confidence,
                 threshold: this.config.minConfidenceToLearn,
             });
-            return;
+            return false;
         }
 
-        // Add to pending edits buffer
-        const edits = pendingEdits.get(profileId) ?? [];
-        edits.push(edit);
-        pendingEdits.set(profileId, edits);
+        const pending = await this.loadPendingEdits();
+        const key = getScopeKey(scope);
+
+        // Later edits to the same field supersede earlier ones. Edits left from
+        // a fill with another profile are dropped.
+        const fieldId = edit.originalMapping.fieldSignature.id;
+        const edits = (pending[key]?.profileId === profileId ? pending[key].edits : []).filter(
+            (e) => e.originalMapping.fieldSignature.id !== fieldId
+        );
+
+        // Reverting to the filled value means there is nothing to learn
+        if (edit.newValue !== edit.originalMapping.value) {
+            edits.push(edit);
+        }
+
+        if (edits.length > 0) {
+            pending[key] = { profileId, edits };
+        } else {
+            delete pending[key];
+        }
+        await this.savePendingEdits(pending);
 
         logger.debug('Edit recorded', {
             profileId,
+            ...scope,
             fieldId: edit.originalMapping.fieldSignature.id,
             oldValue: edit.originalMapping.value,
             newValue: edit.newValue,
         });
+        return true;
     }
 
     /**
-     * Commit pending edits as a learned example
+     * Commit a tab frame's pending edits as a learned example
      */
-    async commitEdits(profileId: string): Promise<LearnedExample | null> {
+    async commitEdits(scope: EditScope): Promise<LearnedExample | null> {
         await this.init();
 
-        const edits = pendingEdits.get(profileId);
-        if (!edits || edits.length === 0) {
+        const pending = await this.loadPendingEdits();
+        const key = getScopeKey(scope);
+        const entry = pending[key];
+        if (!entry || entry.edits.length === 0) {
             return null;
         }
 
         // Clear pending edits
-        pendingEdits.delete(profileId);
+        delete pending[key];
+        await this.savePendingEdits(pending);
+
+        const { profileId, edits } = entry;
 
         // Get the profile
         const profile = await profileService.getById(profileId);
@@ -116,8 +163,8 @@ export class LearningService {
             return null;
         }
 
-        // Create learned example from edits
-        const formSignature = edits[0].formSignature;
+        // Create learned example from edits; page text isn't kept with it
+        const { pageContext: _pageContext, ...formSignature } = edits[0].formSignature;
         const fieldMappings: FieldMapping[] = edits.map((edit) => ({
             fieldSignature: edit.originalMapping.fieldSignature,
             value: edit.newValue,
@@ -146,8 +193,16 @@ export class LearningService {
             learnedExamples: updatedExamples,
         });
 
-        // Ingest into RAG engine for future retrieval
-        await ragEngine.ingestLearnedExample(profileId, example);
+        // Ingest into RAG engine for future retrieval. The example is already
+        // persisted, so an embedding failure only delays retrieval until reindex.
+        try {
+            await ragEngine.ingestLearnedExample(profileId, example);
+        } catch (error) {
+            logger.warn('Failed to embed learned example', {
+                exampleId: example.id,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
 
         logger.info('Learned example committed', {
             profileId,
@@ -160,22 +215,26 @@ export class LearningService {
     }
 
     /**
-     * Cancel pending edits without learning
+     * Cancel a tab's pending edits, in all its frames, without learning
      */
-    cancelEdits(profileId: string): void {
-        const hadEdits = pendingEdits.has(profileId);
-        pendingEdits.delete(profileId);
-
-        if (hadEdits) {
-            logger.debug('Pending edits cancelled', { profileId });
+    async cancelEdits(tabId: number): Promise<void> {
+        const pending = await this.loadPendingEdits();
+        const keys = Object.keys(pending).filter((key) => key.startsWith(`${tabId}:`));
+        if (keys.length === 0) {
+            return;
         }
+
+        keys.forEach((key) => delete pending[key]);
+        await this.savePendingEdits(pending);
+        logger.debug('Pending edits cancelled', { tabId });
     }
 
     /**
-     * Get pending edit count for a profile
+     * Get the pending edit count of a tab frame
      */
-    getPendingEditCount(profileId: string): number {
-        return pendingEdits.get(profileId)?.length ?? 0;
+    async getPendingEditCount(scope: EditScope): Promise<number> {
+        const pending = await this.loadPendingEdits();
+        return pending[getScopeKey(scope)]?.edits.length ?? 0;
     }
 
     /**
@@ -193,10 +252,11 @@ export class LearningService {
             throw new Error('Profile not found');
         }
 
+        const { pageContext: _pageContext, ...storedSignature } = formSignature;
         const example: LearnedExample = {
             id: crypto.randomUUID(),
             timestamp: Date.now(),
-            formSignature,
+            formSignature: storedSignature,
             fieldMappings: fieldMappings.map((m) => ({
                 ...m,
                 source: 'learned' as const,
@@ -250,43 +310,6 @@ export class LearningService {
         logger.debug('Learned example removed', { profileId, exampleId });
     }
 
-    /**
-     * Re-index all learned examples for a profile
-     */
-    async reindexProfile(profileId: string): Promise<number> {
-        await this.init();
-
-        const profile = await profileService.getById(profileId);
-        if (!profile) {
-            throw new Error('Profile not found');
-        }
-
-        // Clear existing vectors for this profile
-        await ragEngine.clearProfile(profileId);
-
-        // Re-ingest all learned examples
-        let count = 0;
-        for (const example of profile.learnedExamples) {
-            await ragEngine.ingestLearnedExample(profileId, example);
-            count++;
-        }
-
-        // Ingest documents
-        for (const doc of profile.staticContext.documents) {
-            if (doc.content) {
-                await ragEngine.ingestDocument(profileId, doc.id, doc.content);
-            }
-        }
-
-        logger.info('Profile reindexed', {
-            profileId,
-            learnedExamples: count,
-            documents: profile.staticContext.documents.length,
-        });
-
-        return count;
-    }
-
     /**
      * Update configuration
      */
@@ -307,6 +330,40 @@ export class LearningService {
     isEnabled(): boolean {
         return this.config.enabled;
     }
+
+    /**
+     * Read pending edits from session storage once per service worker lifetime
+     */
+    private loadPendingEdits(): Promise<Record<string, PendingEdits>> {
+        if (!this.pendingEdits) {
+            this.pendingEdits = chrome.storage.session.get(SESSION_KEY)
+                .then((stored) => (stored[SESSION_KEY] as Record<string, PendingEdits> | undefined) ?? {})
+                .catch((error) => {
+                    logger.error('Failed to restore pending edits', { error });
+                    return {};
+                });
+        }
+        return this.pendingEdits;
+    }
+
+    /**
+     * Write pending edits to session storage
+     */
+    private async savePendingEdits(pending: Record<string, PendingEdits>): Promise<void> {
+        try {
+            await chrome.storage.session.set({ [SESSION_KEY]: pending });
+        } catch (error) {
+            logger.error('Failed to persist pending edits', { error });
+        }
+    }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getScopeKey(scope: EditScope): string {
+    return `${scope.tabId}:${scope.frameId}`;
 }
 
 // ============================================================================
@@ -0,0 +1,229 @@
+// Reindex Service
+// Background re-embedding of a profile's vectors when its embedding model changes
+
+import type { EmbeddingIndexStatus, Profile, ReindexJob } from '@shared/types';
+import { profileService } from '@shared/storage';
+import { vectorStore } from '@shared/storage/VectorStore';
+import { embeddingService } from '../ai/EmbeddingService';
+import { ragEngine } from '../ai/RAGEngine';
+import { providerRegistry } from '../providers';
+import { createLogger } from '@shared/utils';
+
+const logger = createLogger('ReindexService');
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type IndexStatusListener = (status: EmbeddingIndexStatus) => void;
+
+// ============================================================================
+// Reindex Service
+// ============================================================================
+
+export class ReindexService {
+    // profileId -> latest job; finished jobs stay so the options page can show the outcome
+    private jobs: Map<string, ReindexJob> = new Map();
+    private queue: string[] = [];
+    private runningModels: Map<string, string> = new Map();  // profileId -> model being built
+    private processing: boolean = false;
+    private listeners: Set<IndexStatusListener> = new Set();
+    private initialized: boolean = false;
+
+    /**
+     * Initialize the reindex service
+     */
+    async init(): Promise<void> {
+        if (this.initialized) return;
+        await profileService.init();
+        await providerRegistry.init();
+        await ragEngine.init();
+        this.initialized = true;
+        logger.debug('Reindex service initialized');
+    }
+
+    /**
+     * Subscribe to status changes; returns an unsubscribe function
+     */
+    onUpdate(listener: IndexStatusListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Get the index status of one profile
+     */
+    async getStatus(profileOrId: Profile | string): Promise<EmbeddingIndexStatus | null> {
+        await this.init();
+
+        const profile = typeof profileOrId === 'string'
+            ? await profileService.getById(profileOrId)
+            : profileOrId;
+        if (!profile) {
+            return null;
+        }
+
+        const embeddingModel = this.getModel(profile);
+        const vectors = await vectorStore.getVectors(profile.id);
+
+        return {
+            profileId: profile.id,
+            embeddingModel,
+            vectorCount: vectors.length,
+            staleCount: await vectorStore.countStale(profile.id, embeddingModel),
+            job: this.jobs.get(profile.id),
+        };
+    }
+
+    /**
+     * Get the index status of every profile
+     */
+    async getAllStatuses(): Promise<EmbeddingIndexStatus[]> {
+        await this.init();
+
+        const profiles = await profileService.getAll();
+        const statuses = await Promise.all(profiles.map((p) => this.getStatus(p)));
+        return statuses.filter((s): s is EmbeddingIndexStatus => s !== null);
+    }
+
+    /**
+     * Queue a profile for re-indexing, unless it is already waiting
+     */
+    async schedule(profileId: string): Promise<void> {
+        await this.init();
+
+        if (this.queue.includes(profileId)) {
+            return;
+        }
+
+        // A running job keeps reporting its progress; it is marked queued when it ends
+        this.queue.push(profileId);
+        if (this.jobs.get(profileId)?.state !== 'running') {
+            await this.setJob(profileId, { state: 'queued', completed: 0, total: 0 });
+        }
+
+        void this.processQueue();
+    }
+
+    /**
+     * Queue every profile whose vectors don't all match its current model
+     */
+    async scheduleStale(): Promise<number> {
+        await this.init();
+
+        let scheduled = 0;
+        for (const profile of await profileService.getAll()) {
+            const model = this.getModel(profile);
+            if (this.runningModels.get(profile.id) === model) {
+                continue;
+            }
+
+            const stale = await vectorStore.countStale(profile.id, model);
+            if (stale > 0) {
+                await this.schedule(profile.id);
+                scheduled++;
+            }
+        }
+
+        if (scheduled > 0) {
+            logger.info('Stale embedding indexes scheduled', { profiles: scheduled });
+        }
+        return scheduled;
+    }
+
+    // ========================================================================
+    // Private Methods
+    // ========================================================================
+
+    /**
+     * Run queued jobs one at a time
+     */
+    private async processQueue(): Promise<void> {
+        if (this.processing) return;
+        this.processing = true;
+
+        try {
+            let profileId: string | undefined;
+            while ((profileId = this.queue.shift()) !== undefined) {
+                await this.runJob(profileId);
+            }
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    /**
+     * Re-index one profile, reporting progress as items are embedded
+     */
+    private async runJob(profileId: string): Promise<void> {
+        const profile = await profileService.getById(profileId);
+        if (!profile) {
+            this.jobs.delete(profileId);
+            return;
+        }
+
+        this.runningModels.set(profileId, this.getModel(profile));
+        await this.setJob(profileId, { state: 'running', completed: 0, total: 0 });
+
+        try {
+            await ragEngine.reindexProfile(profile, (completed, total) => {
+                void this.setJob(profileId, { state: 'running', completed, total });
+            });
+
+            // Examples learned while the job ran were dropped with the old vectors
+            const latest = await profileService.getById(profileId);
+            if (latest && latest.updatedAt !== profile.updatedAt && !this.queue.includes(profileId)) {
+                this.queue.push(profileId);
+            }
+
+            const total = this.jobs.get(profileId)?.total ?? 0;
+            await this.setJob(profileId, this.queue.includes(profileId)
+                ? { state: 'queued', completed: 0, total: 0 }
+                : { state: 'done', completed: total, total });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Re-index failed';
+            logger.error('Re-index failed', { profileId, error: message });
+            await this.setJob(profileId, this.queue.includes(profileId)
+                ? { state: 'queued', completed: 0, total: 0 }
+                : {
+                    state: 'error',
+                    completed: this.jobs.get(profileId)?.completed ?? 0,
+                    total: this.jobs.get(profileId)?.total ?? 0,
+                    error: message,
+                });
+        } finally {
+            this.runningModels.delete(profileId);
+        }
+    }
+
+    /**
+     * Record a job's state and notify listeners
+     */
+    private async setJob(profileId: string, job: ReindexJob): Promise<void> {
+        this.jobs.set(profileId, job);
+
+        const status = await this.getStatus(profileId);
+        if (!status) return;
+
+        for (const listener of this.listeners) {
+            try {
+                listener(status);
+            } catch (error) {
+                logger.error('Index status listener failed', { error });
+            }
+        }
+    }
+
+    /**
+     * Embedding model a profile's vectors should be built with
+     */
+    private getModel(profile: Profile): string {
+        return embeddingService.getModel(providerRegistry.getForProfile(profile));
+    }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+export const reindexService = new ReindexService();
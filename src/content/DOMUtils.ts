@@ -2,9 +2,89 @@
 // Helper functions for DOM traversal and analysis
 
 /**
- * Get a unique CSS selector path for an element
+ * Separator between per-root selectors in a path that crosses shadow roots,
+ * e.g. "#checkout >>> input#email" is input#email inside #checkout's shadow root
+ */
+export const SHADOW_PATH_SEPARATOR = ' >>> ';
+
+/**
+ * A native form control
+ */
+export type FormControl = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+/**
+ * Check if an element is a native form control
+ */
+export function isFormControl(element: Element): element is FormControl {
+    return element instanceof HTMLInputElement ||
+        element instanceof HTMLSelectElement ||
+        element instanceof HTMLTextAreaElement;
+}
+
+/**
+ * Check if an element is the root of a rich-text editor (contenteditable),
+ * not a node inside one
+ */
+export function isEditableRoot(element: Element): element is HTMLElement {
+    return element instanceof HTMLElement &&
+        element.isContentEditable &&
+        !element.parentElement?.isContentEditable;
+}
+
+/**
+ * Check if an element is an ARIA combobox built from non-form elements.
+ * A combobox wrapping a native input is filled through that input instead.
+ */
+export function isCustomCombobox(element: Element): element is HTMLElement {
+    return element instanceof HTMLElement &&
+        element.getAttribute('role') === 'combobox' &&
+        !isFormControl(element) &&
+        element.querySelector('input, select, textarea') === null;
+}
+
+/**
+ * Get a unique CSS selector path for an element, hopping out of open shadow roots
  */
 export function getElementPath(element: Element): string {
+    const segments: string[] = [];
+    let current: Element | null = element;
+
+    while (current) {
+        segments.unshift(getLocalElementPath(current));
+
+        const root = current.getRootNode();
+        current = root instanceof ShadowRoot ? root.host : null;
+    }
+
+    return segments.join(SHADOW_PATH_SEPARATOR);
+}
+
+/**
+ * Resolve a path produced by getElementPath, descending into shadow roots
+ */
+export function queryElementByPath(path: string): Element | null {
+    const segments = path.split(SHADOW_PATH_SEPARATOR);
+    let root: Document | ShadowRoot = document;
+
+    for (let i = 0; i < segments.length; i++) {
+        const element: Element | null = root.querySelector(segments[i]);
+        if (!element || i === segments.length - 1) {
+            return element;
+        }
+
+        if (!element.shadowRoot) {
+            return null;
+        }
+        root = element.shadowRoot;
+    }
+
+    return null;
+}
+
+/**
+ * Get a CSS selector path for an element within its own document or shadow root
+ */
+function getLocalElementPath(element: Element): string {
     const path: string[] = [];
     let current: Element | null = element;
 
@@ -47,10 +127,13 @@ export function getElementPath(element: Element): string {
 /**
  * Get associated label text for an input element
  */
-export function getLabelText(element: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement): string | undefined {
+export function getLabelText(element: HTMLElement): string | undefined {
+    // IDs only resolve within the element's own document or shadow root
+    const root = getElementRoot(element);
+
     // Method 1: Explicit label association via 'for' attribute
     if (element.id) {
-        const label = document.querySelector(`label[for="${CSS.escape(element.id)}"]`);
+        const label = root.querySelector(`label[for="${CSS.escape(element.id)}"]`);
         if (label?.textContent) {
             return cleanText(label.textContent);
         }
@@ -77,7 +160,52 @@ export function getLabelText(element: HTMLInputElement | HTMLSelectElement | HTM
     // Method 4: ARIA labelledby
     const ariaLabelledBy = element.getAttribute('aria-labelledby');
     if (ariaLabelledBy) {
-        const labelElement = document.getElementById(ariaLabelledBy);
+        const labelElement = root.getElementById(ariaLabelledBy);
+        if (labelElement?.textContent) {
+            return cleanText(labelElement.textContent);
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Get all radio inputs in the same group as a radio (same name, same form)
+ */
+export function getRadioGroup(element: HTMLInputElement): HTMLInputElement[] {
+    if (element.type !== 'radio' || !element.name) {
+        return [element];
+    }
+
+    const root = element.form ?? getElementRoot(element);
+    const radios = root.querySelectorAll<HTMLInputElement>(
+        `input[type="radio"][name="${CSS.escape(element.name)}"]`
+    );
+
+    // Radios outside any form only group with other form-less radios
+    return Array.from(radios).filter((radio) => radio.form === element.form);
+}
+
+/**
+ * Get the question text for a radio group (fieldset legend or radiogroup label),
+ * as opposed to the label of a single option
+ */
+export function getRadioGroupLabel(element: HTMLInputElement): string | undefined {
+    const fieldset = element.closest('fieldset');
+    const legend = fieldset?.querySelector('legend');
+    if (legend?.textContent) {
+        return cleanText(legend.textContent);
+    }
+
+    const radioGroup = element.closest('[role="radiogroup"]');
+    if (radioGroup) {
+        const ariaLabel = radioGroup.getAttribute('aria-label');
+        if (ariaLabel) {
+            return cleanText(ariaLabel);
+        }
+
+        const ariaLabelledBy = radioGroup.getAttribute('aria-labelledby');
+        const labelElement = ariaLabelledBy ? getElementRoot(element).getElementById(ariaLabelledBy) : null;
         if (labelElement?.textContent) {
             return cleanText(labelElement.textContent);
         }
@@ -86,6 +214,21 @@ export function getLabelText(element: HTMLInputElement | HTMLSelectElement | HTM
     return undefined;
 }
 
+/**
+ * Get the help text an element points to through aria-describedby
+ */
+export function getDescriptionText(element: HTMLElement): string | undefined {
+    const ids = element.getAttribute('aria-describedby')?.split(/\s+/).filter(Boolean);
+    if (!ids?.length) return undefined;
+
+    const root = getElementRoot(element);
+    const text = ids
+        .map((id) => cleanText(root.getElementById(id)?.textContent || ''))
+        .filter(Boolean)
+        .join(' ');
+    return text || undefined;
+}
+
 /**
  * Get text from sibling elements (often descriptive text)
  */
@@ -177,7 +320,7 @@ function cleanText(text: string): string {
  */
 export function querySelectorAllDeep(
     selector: string,
-    root: Document | Element = document
+    root: Document | Element | ShadowRoot = document
 ): Element[] {
     const results: Element[] = [];
 
@@ -185,12 +328,66 @@ export function querySelectorAllDeep(
     results.push(...Array.from(root.querySelectorAll(selector)));
 
     // Query shadow roots
-    const allElements = root.querySelectorAll('*');
-    allElements.forEach((element) => {
+    for (const shadowRoot of getShadowRoots(root)) {
+        results.push(...Array.from(shadowRoot.querySelectorAll(selector)));
+    }
+
+    return results;
+}
+
+/**
+ * Collect every open shadow root below a root, including nested ones.
+ * Closed roots (such as our own review overlay) are unreachable by design.
+ */
+export function getShadowRoots(root: Document | Element | ShadowRoot = document): ShadowRoot[] {
+    const shadowRoots: ShadowRoot[] = [];
+
+    root.querySelectorAll('*').forEach((element) => {
         if (element.shadowRoot) {
-            results.push(...querySelectorAllDeep(selector, element.shadowRoot as unknown as Element));
+            shadowRoots.push(element.shadowRoot, ...getShadowRoots(element.shadowRoot));
         }
     });
 
-    return results;
+    return shadowRoots;
+}
+
+/**
+ * Like Element.closest, but continues through shadow hosts
+ */
+export function closestDeep(element: Element, selector: string): Element | null {
+    let current: Element | null = element;
+
+    while (current) {
+        const match = current.closest(selector);
+        if (match) {
+            return match;
+        }
+
+        const root = current.getRootNode();
+        current = root instanceof ShadowRoot ? root.host : null;
+    }
+
+    return null;
+}
+
+/**
+ * Get the focused element, looking inside shadow roots
+ * (document.activeElement only reports the outermost shadow host)
+ */
+export function getDeepActiveElement(): Element | null {
+    let active = document.activeElement;
+
+    while (active?.shadowRoot?.activeElement) {
+        active = active.shadowRoot.activeElement;
+    }
+
+    return active;
+}
+
+/**
+ * Get the document or shadow root that contains an element
+ */
+export function getElementRoot(element: Element): Document | ShadowRoot {
+    const root = element.getRootNode();
+    return root instanceof ShadowRoot ? root : document;
 }
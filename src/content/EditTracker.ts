@@ -0,0 +1,166 @@
+// Edit Tracker
+// Watch filled fields for user corrections and form submission
+
+import type { FieldMapping } from '@shared/types';
+import { createLogger } from '@shared/utils';
+import { readFieldValue } from './FillStrategies';
+
+const logger = createLogger('EditTracker');
+
+interface TrackedField {
+    mapping: FieldMapping;
+    filledValue: string;
+    lastReportedValue: string;
+}
+
+export interface EditTrackerCallbacks {
+    onEdit: (mapping: FieldMapping, newValue: string) => void;
+    onSubmit: (mappings: FieldMapping[]) => void;
+}
+
+// Fields written by the last fill, keyed by element
+const trackedFields = new Map<HTMLElement, TrackedField>();
+
+let callbacks: EditTrackerCallbacks | null = null;
+
+// Shadow roots we listen on; change and submit events are not composed,
+// so they never reach the document listeners from inside a shadow root
+const listenedShadowRoots = new WeakSet<ShadowRoot>();
+
+/**
+ * Start listening for user edits and form submissions
+ */
+export function startEditTracking(handlers: EditTrackerCallbacks): void {
+    if (callbacks) {
+        callbacks = handlers;
+        return;
+    }
+
+    callbacks = handlers;
+
+    // Capture phase so pages that stop propagation don't hide edits from us
+    document.addEventListener('change', handleChange, true);
+    document.addEventListener('submit', handleSubmit, true);
+    // Rich-text editors and custom comboboxes never fire change; focusout is composed
+    document.addEventListener('focusout', handleChange, true);
+
+    logger.debug('Edit tracking started');
+}
+
+/**
+ * Track a field that was just written by the fill executor
+ */
+export function trackFilledField(element: HTMLElement, mapping: FieldMapping): void {
+    const filledValue = readFieldValue(element);
+
+    trackedFields.set(element, {
+        mapping,
+        filledValue,
+        lastReportedValue: filledValue,
+    });
+
+    const root = element.getRootNode();
+    if (root instanceof ShadowRoot && !listenedShadowRoots.has(root)) {
+        root.addEventListener('change', handleChange, true);
+        root.addEventListener('submit', handleSubmit, true);
+        listenedShadowRoots.add(root);
+    }
+}
+
+/**
+ * Forget all tracked fields (e.g. before a new fill)
+ */
+export function clearTrackedFields(): void {
+    trackedFields.clear();
+}
+
+/**
+ * Get the number of fields currently being tracked
+ */
+export function getTrackedFieldCount(): number {
+    return trackedFields.size;
+}
+
+/**
+ * Handle change (and focusout) events on tracked fields
+ */
+function handleChange(event: Event): void {
+    // Our own fill dispatches synthetic events; only react to the user
+    if (!event.isTrusted) {
+        return;
+    }
+
+    const element = resolveTrackedElement(event.target);
+    if (!element) {
+        return;
+    }
+
+    const tracked = trackedFields.get(element);
+    if (!tracked) {
+        return;
+    }
+
+    const newValue = readFieldValue(element);
+    if (newValue === tracked.lastReportedValue) {
+        return;
+    }
+
+    tracked.lastReportedValue = newValue;
+
+    logger.debug('User edit detected', {
+        label: tracked.mapping.fieldSignature.normalizedLabel,
+        revertedToFilled: newValue === tracked.filledValue,
+    });
+
+    callbacks?.onEdit(tracked.mapping, newValue);
+}
+
+/**
+ * Handle form submission containing tracked fields
+ */
+function handleSubmit(event: Event): void {
+    if (trackedFields.size === 0) {
+        return;
+    }
+
+    const form = event.target instanceof HTMLFormElement ? event.target : null;
+    const submitted = Array.from(trackedFields.entries())
+        .filter(([element]) => !form || form.contains(element))
+        .map(([, tracked]) => tracked.mapping);
+
+    if (submitted.length === 0) {
+        return;
+    }
+
+    logger.debug('Form submitted with tracked fields', { count: submitted.length });
+
+    callbacks?.onSubmit(submitted);
+    clearTrackedFields();
+}
+
+/**
+ * Map an event target back to a tracked element.
+ * Radio groups report changes on sibling inputs, so match those by name.
+ */
+function resolveTrackedElement(target: EventTarget | null): HTMLElement | null {
+    if (!(target instanceof HTMLElement)) {
+        return null;
+    }
+
+    if (trackedFields.has(target)) {
+        return target;
+    }
+
+    if (target instanceof HTMLInputElement && target.type === 'radio' && target.name) {
+        for (const element of trackedFields.keys()) {
+            if (element instanceof HTMLInputElement &&
+                element.type === 'radio' &&
+                element.name === target.name &&
+                element.form === target.form) {
+                return element;
+            }
+        }
+    }
+
+    return null;
+}
@@ -1,22 +1,26 @@
 // Field Signature
 // Normalize field attributes into a semantic signature
 
-import type { FieldSignature, InputType, SemanticClass } from '@shared/types';
+import type { FieldSignature, FieldLimits, FieldOption, InputType, SemanticClass } from '@shared/types';
 import { generateId, normalizeText } from '@shared/utils';
 import {
     getElementPath,
     getLabelText,
+    getDescriptionText,
     getSiblingText,
     getParentText,
-    getElementPosition
+    getElementPosition,
+    getRadioGroup,
+    getRadioGroupLabel,
+    isCustomCombobox,
+    isEditableRoot,
+    isFormControl
 } from './DOMUtils';
 
 /**
  * Extract a normalized field signature from a form field element
  */
-export function extractFieldSignature(
-    element: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
-): FieldSignature {
+export function extractFieldSignature(element: HTMLElement): FieldSignature {
     const inputType = getInputType(element);
     const attributes = extractAttributes(element);
     const context = extractContext(element);
@@ -35,6 +39,8 @@ export function extractFieldSignature(
         semanticClass,
         attributes,
         context,
+        options: extractOptions(element),
+        limits: extractLimits(element, context),
     };
 }
 
@@ -64,15 +70,32 @@ function getInputType(element: HTMLElement): InputType {
         }
     }
 
+    if (isCustomCombobox(element)) {
+        return 'combobox';
+    }
+
+    if (isEditableRoot(element)) {
+        return 'contenteditable';
+    }
+
     return 'unknown';
 }
 
 /**
  * Extract relevant HTML attributes
  */
-function extractAttributes(
-    element: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
-): FieldSignature['attributes'] {
+function extractAttributes(element: HTMLElement): FieldSignature['attributes'] {
+    if (!isFormControl(element)) {
+        // Editors show their placeholder through ARIA or a data attribute
+        return {
+            name: element.getAttribute('name') || undefined,
+            id: element.id || undefined,
+            placeholder: element.getAttribute('aria-placeholder') ||
+                element.getAttribute('data-placeholder') || undefined,
+            ariaLabel: element.getAttribute('aria-label') || undefined,
+        };
+    }
+
     return {
         name: element.name || undefined,
         id: element.id || undefined,
@@ -82,14 +105,107 @@ function extractAttributes(
     };
 }
 
+/**
+ * Extract the allowed options for selects and radio groups
+ */
+function extractOptions(element: HTMLElement): FieldOption[] | undefined {
+    let options: FieldOption[] = [];
+
+    if (element instanceof HTMLSelectElement) {
+        options = Array.from(element.options)
+            // Empty-value options are "Select..." placeholders, not answers
+            .filter((opt) => opt.value !== '')
+            .map((opt) => ({
+                value: opt.value,
+                label: opt.text.replace(/\s+/g, ' ').trim() || opt.value,
+            }));
+    } else if (isGroupedRadio(element)) {
+        options = getRadioGroup(element).map((radio) => ({
+            value: radio.value,
+            label: getLabelText(radio) || radio.value,
+        }));
+    }
+
+    return options.length > 0 ? options : undefined;
+}
+
+// Word and character limits stated in help text, e.g. "max 200 words",
+// "150-300 words", "at least 50 words", "500 characters or less"
+const LIMIT_UNIT = '(words?|char(?:acter)?s?)';
+const RANGE_LIMIT_PATTERN = new RegExp(`(\\d[\\d,]*)\\s*(?:-|–|to)\\s*(\\d[\\d,]*)\\s*${LIMIT_UNIT}`, 'i');
+const MAX_LIMIT_PATTERNS = [
+    new RegExp(`(?:max(?:imum)?|up\\s*to|no\\s*more\\s*than|not\\s*(?:to\\s*)?exceed(?:ing)?|at\\s*most|limit(?:ed)?(?:\\s*(?:of|to))?|under|fewer\\s*than|less\\s*than)\\s*:?\\s*(\\d[\\d,]*)\\s*${LIMIT_UNIT}`, 'i'),
+    new RegExp(`(\\d[\\d,]*)[\\s-]*${LIMIT_UNIT}\\s*(?:max(?:imum)?|or\\s*(?:less|fewer)|limit)`, 'i'),
+];
+const MIN_LIMIT_PATTERN = new RegExp(`(?:min(?:imum)?|at\\s*least)\\s*:?\\s*(\\d[\\d,]*)\\s*${LIMIT_UNIT}`, 'i');
+
+/**
+ * Extract length limits for free-text fields: the maxlength attribute, then
+ * limits stated in the label or help text
+ */
+function extractLimits(element: HTMLElement, context: FieldSignature['context']): FieldLimits | undefined {
+    if (!(element instanceof HTMLTextAreaElement) &&
+        !(element instanceof HTMLInputElement && ['text', 'url', 'email', 'tel'].includes(element.type)) &&
+        !isEditableRoot(element)) {
+        return undefined;
+    }
+
+    const limits: FieldLimits = {};
+
+    const maxLength = 'maxLength' in element && typeof element.maxLength === 'number'
+        ? element.maxLength
+        : Number(element.getAttribute('maxlength') ?? element.getAttribute('data-maxlength'));
+    if (maxLength > 0) {
+        limits.maxLength = maxLength;
+    }
+
+    const text = [context.labelText, getDescriptionText(element), context.siblingText, context.parentText]
+        .filter(Boolean)
+        .join(' ');
+
+    const applyLimit = (key: 'max' | 'min', amount: string, unit: string) => {
+        const value = Number(amount.replace(/,/g, ''));
+        if (!value) return;
+
+        if (/^word/i.test(unit)) {
+            if (key === 'max') limits.maxWords ??= value;
+            else limits.minWords ??= value;
+        } else if (key === 'max') {
+            limits.maxLength = Math.min(limits.maxLength ?? value, value);
+        }
+    };
+
+    const range = RANGE_LIMIT_PATTERN.exec(text);
+    if (range) {
+        applyLimit('min', range[1], range[3]);
+        applyLimit('max', range[2], range[3]);
+    }
+    for (const pattern of MAX_LIMIT_PATTERNS) {
+        const match = pattern.exec(text);
+        if (match) applyLimit('max', match[1], match[2]);
+    }
+    const min = MIN_LIMIT_PATTERN.exec(text);
+    if (min) {
+        applyLimit('min', min[1], min[2]);
+    }
+
+    return Object.keys(limits).length > 0 ? limits : undefined;
+}
+
+/**
+ * Check if an element is a radio that belongs to a named group
+ */
+function isGroupedRadio(element: HTMLElement): element is HTMLInputElement {
+    return element instanceof HTMLInputElement && element.type === 'radio' && !!element.name;
+}
+
 /**
  * Extract contextual information from surrounding DOM
  */
-function extractContext(
-    element: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
-): FieldSignature['context'] {
+function extractContext(element: HTMLElement): FieldSignature['context'] {
     return {
-        labelText: getLabelText(element),
+        // A radio group is one logical field; its label is the question, not an option
+        labelText: isGroupedRadio(element) ? getRadioGroupLabel(element) : getLabelText(element),
         siblingText: getSiblingText(element),
         parentText: getParentText(element),
         position: getElementPosition(element),
@@ -131,6 +247,80 @@ function buildNormalizedLabel(
     return 'unknown field';
 }
 
+/**
+ * Label patterns for semantic classes, checked in order.
+ * Specific classes come before the generic ones that would also match
+ * ("preferred first name" before first_name, "LinkedIn URL" before website,
+ * "salary for this position" before job_title, "country of citizenship" before country).
+ */
+const SEMANTIC_LABEL_PATTERNS: Array<[RegExp, SemanticClass]> = [
+    // Profile links
+    [/\blinked\s*in\b/, 'linkedin_url'],
+    [/\bgit\s*hub\b/, 'github_url'],
+    [/\b(portfolio|personal\s*(site|website))\b/, 'portfolio_url'],
+
+    // Job application
+    [/\b(years?\s*(of\s*)?(professional\s*|relevant\s*|work\s*)?experience|experience\s*in\s*years)\b/, 'years_of_experience'],
+    [/\b(salary|compensation|pay\s*expectations?|expected\s*(pay|ctc)|ctc)\b/, 'salary_expectation'],
+    [/\bnotice\s*period\b/, 'notice_period'],
+    [/\b(start\s*date|available\s*(to\s*)?start|earliest\s*start|when\s*can\s*you\s*start)\b/, 'start_date'],
+    [/\b(sponsor|sponsorship|visa)\b/, 'visa_sponsorship'],
+    [/\b(authori[sz]ed\s*to\s*work|work\s*authori[sz]ation|right\s*to\s*work|eligible\s*to\s*work|work\s*permit)\b/, 'work_authorization'],
+    [/\b(relocate|relocation)\b/, 'willing_to_relocate'],
+    [/\b(how\s*did\s*you\s*(hear|find|learn)|referral\s*source|referred\s*by|source\s*of\s*application)\b/, 'referral_source'],
+
+    // Identity
+    [/\bpronouns?\b/, 'pronouns'],
+    [/\b(gender|sex)\b/, 'gender'],
+    [/\b(nationality|citizenship|country\s*of\s*(citizenship|origin))\b/, 'nationality'],
+    [/\bpassport\b/, 'passport_number'],
+    [/\b(drivers?|driving)\s*licen[cs]e\b/, 'drivers_license'],
+    [/\b(national\s*(id|identity|insurance)|id\s*card|identity\s*(card|number))\b/, 'national_id'],
+
+    // Education
+    [/\b(gpa|cgpa|grade\s*point)\b/, 'gpa'],
+    [/\b(graduation|graduated|year\s*of\s*completion|class\s*of)\b/, 'graduation_year'],
+    [/\b(field\s*of\s*study|area\s*of\s*study|major|discipline|concentration)\b/, 'field_of_study'],
+    [/\b(degree|qualification|diploma)\b/, 'degree'],
+    [/\b(university|college|school|institution|alma\s*mater)\b/, 'university'],
+
+    // Names
+    [/\b(middle\s*name|middle\s*initial)\b/, 'middle_name'],
+    [/\b(preferred\s*(first\s*)?name|nickname|known\s*as)\b/, 'preferred_name'],
+    [/\b(first\s*name|given\s*name|fname)\b/, 'first_name'],
+    [/\b(last\s*name|family\s*name|surname|lname)\b/, 'last_name'],
+    [/\b(full\s*name|your\s*name|name)\b/, 'full_name'],
+
+    // Contact and address
+    [/\b(e-?mail|email\s*address)\b/, 'email'],
+    [/\b(phone|mobile|cell|telephone|tel)\b/, 'phone'],
+    [/\b(address|street)\b.*\b(1|one|line\s*1)\b/, 'address_line1'],
+    [/\b(address|street)\b.*\b(2|two|line\s*2)\b/, 'address_line2'],
+    [/\b(street\s*address|address\s*line)\b/, 'address_line1'],
+    [/\baddress\b/, 'full_address'],
+    [/\b(city|town)\b/, 'city'],
+    [/\b(state|province|region)\b/, 'state'],
+    [/\b(zip|postal|postcode)\b/, 'zip'],
+    [/\b(country)\b/, 'country'],
+
+    // Professional
+    [/\b(company|organization|employer)\b/, 'company'],
+    [/\b(job\s*title|position|role)\b/, 'job_title'],
+    [/\b(website|url|homepage)\b/, 'website'],
+
+    // Other
+    [/\b(username|user\s*id|login)\b/, 'username'],
+    [/\b(date\s*of\s*birth|dob|birthday|birth\s*date)\b/, 'date_of_birth'],
+    [/\b(message|comment|note|description)\b/, 'message'],
+];
+
+// Classes a URL input can hold besides a generic website
+const URL_SEMANTIC_CLASSES: ReadonlySet<SemanticClass> = new Set<SemanticClass>([
+    'linkedin_url',
+    'github_url',
+    'portfolio_url',
+]);
+
 /**
  * Infer semantic class from field signals
  */
@@ -145,11 +335,15 @@ function inferSemanticClass(
     // Check autocomplete attribute first (most reliable)
     const autocompleteMap: Record<string, SemanticClass> = {
         'given-name': 'first_name',
+        'additional-name': 'middle_name',
         'family-name': 'last_name',
         'name': 'full_name',
+        'nickname': 'preferred_name',
+        'sex': 'gender',
         'email': 'email',
         'tel': 'phone',
         'tel-national': 'phone',
+        'street-address': 'address_line1',
         'address-line1': 'address_line1',
         'address-line2': 'address_line2',
         'address-level2': 'city',
@@ -171,31 +365,16 @@ function inferSemanticClass(
     // Check input type
     if (inputType === 'email') return 'email';
     if (inputType === 'tel') return 'phone';
-    if (inputType === 'url') return 'website';
     if (inputType === 'password') return 'password';
+    if (inputType === 'url') {
+        const profileLink = SEMANTIC_LABEL_PATTERNS.find(
+            ([pattern, semanticClass]) => URL_SEMANTIC_CLASSES.has(semanticClass) && pattern.test(label)
+        );
+        return profileLink?.[1] ?? 'website';
+    }
 
     // Infer from label text
-    const labelPatterns: Array<[RegExp, SemanticClass]> = [
-        [/\b(first\s*name|given\s*name|fname)\b/, 'first_name'],
-        [/\b(last\s*name|family\s*name|surname|lname)\b/, 'last_name'],
-        [/\b(full\s*name|your\s*name|name)\b/, 'full_name'],
-        [/\b(e-?mail|email\s*address)\b/, 'email'],
-        [/\b(phone|mobile|cell|telephone|tel)\b/, 'phone'],
-        [/\b(address|street)\b.*\b(1|one|line\s*1)\b/, 'address_line1'],
-        [/\b(address|street)\b.*\b(2|two|line\s*2)\b/, 'address_line2'],
-        [/\b(city|town)\b/, 'city'],
-        [/\b(state|province|region)\b/, 'state'],
-        [/\b(zip|postal|postcode)\b/, 'zip'],
-        [/\b(country)\b/, 'country'],
-        [/\b(company|organization|employer)\b/, 'company'],
-        [/\b(job\s*title|position|role)\b/, 'job_title'],
-        [/\b(website|url|homepage)\b/, 'website'],
-        [/\b(username|user\s*id|login)\b/, 'username'],
-        [/\b(date\s*of\s*birth|dob|birthday|birth\s*date)\b/, 'date_of_birth'],
-        [/\b(message|comment|note|description)\b/, 'message'],
-    ];
-
-    for (const [pattern, semanticClass] of labelPatterns) {
+    for (const [pattern, semanticClass] of SEMANTIC_LABEL_PATTERNS) {
         if (pattern.test(label)) {
             return semanticClass;
         }
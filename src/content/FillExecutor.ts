@@ -1,16 +1,39 @@
 // Fill Executor
 // Execute form fills with humanization and event dispatching
 
-import type { FieldMapping, FieldSignature } from '@shared/types';
+import type { FieldMapping, FieldSignature, FieldFillProgress } from '@shared/types';
 import { createLogger, sleep } from '@shared/utils';
 import { isFieldDenylisted } from '@shared/constants';
+import {
+    isCustomCombobox,
+    isEditableRoot,
+    isFormControl,
+    queryElementByPath,
+    querySelectorAllDeep,
+} from './DOMUtils';
+import { MappingQueue } from './MappingQueue';
+import { FillSnapshot } from './FillSnapshot';
+import { fillElement, randomJitter } from './FillStrategies';
 
 const logger = createLogger('FillExecutor');
 
 export interface FillOptions {
     humanize: boolean;
     delayMs: number;
-    onProgress?: (completed: number, total: number, field: string) => void;
+    signal?: AbortSignal;
+    // Receives each field's prior state; pass one in to undo a fill before it ends
+    snapshot?: FillSnapshot;
+    // Called once per field with its outcome; total counts the mappings received so far
+    onProgress?: (field: FieldFillProgress, completed: number, total: number) => void;
+    onFieldFilled?: (element: HTMLElement, mapping: FieldMapping) => void;
+}
+
+export interface FillOutcome {
+    success: boolean;
+    filledCount: number;
+    errors: string[];
+    cancelled: boolean;
+    snapshot: FillSnapshot;
 }
 
 const DEFAULT_OPTIONS: FillOptions = {
@@ -19,24 +42,49 @@ const DEFAULT_OPTIONS: FillOptions = {
 };
 
 /**
- * Execute a fill operation on detected form fields
+ * Execute a fill operation on detected form fields. A queue that has not ended
+ * is filled as mappings arrive; an aborted signal stops after the current field.
  */
 export async function executeFill(
-    mappings: FieldMapping[],
+    mappings: FieldMapping[] | MappingQueue,
     options: Partial<FillOptions> = {}
-): Promise<{ success: boolean; filledCount: number; errors: string[] }> {
+): Promise<FillOutcome> {
     const opts = { ...DEFAULT_OPTIONS, ...options };
+    const queue = mappings instanceof MappingQueue ? mappings : MappingQueue.from(mappings);
+    const snapshot = opts.snapshot ?? new FillSnapshot();
     const errors: string[] = [];
     let filledCount = 0;
+    let completed = 0;
+
+    const report = (mapping: FieldMapping, status: FieldFillProgress['status'], error?: string) => {
+        completed++;
+        opts.onProgress?.(
+            {
+                fieldId: mapping.fieldSignature.id,
+                label: mapping.fieldSignature.normalizedLabel,
+                status,
+                ...(error && { error }),
+            },
+            completed,
+            queue.all.length
+        );
+    };
 
-    for (let i = 0; i < mappings.length; i++) {
-        const mapping = mappings[i];
+    for await (const mapping of queue) {
+        if (opts.signal?.aborted) break;
+
+        // Delay between fields
+        if (completed > 0 && opts.delayMs > 0) {
+            await sleep(opts.delayMs + (opts.humanize ? randomJitter(20) : 0));
+            if (opts.signal?.aborted) break;
+        }
 
         // Check denylist
         if (isFieldDenylisted(mapping.fieldSignature)) {
             logger.warn('Skipping denylisted field', {
                 label: mapping.fieldSignature.normalizedLabel
             });
+            report(mapping, 'skipped', 'Protected field');
             continue;
         }
 
@@ -45,67 +93,72 @@ export async function executeFill(
 
             if (!element) {
                 errors.push(`Field not found: ${mapping.fieldSignature.normalizedLabel}`);
+                report(mapping, 'failed', 'Field not found');
                 continue;
             }
 
-            await fillField(element, mapping.value, opts);
+            snapshot.capture(element);
+            try {
+                await fillElement(element, mapping.value, opts);
+            } finally {
+                snapshot.commit(element);
+            }
             filledCount++;
 
-            opts.onProgress?.(i + 1, mappings.length, mapping.fieldSignature.normalizedLabel);
-
-            // Delay between fields
-            if (opts.delayMs > 0 && i < mappings.length - 1) {
-                await sleep(opts.delayMs + (opts.humanize ? randomJitter(20) : 0));
-            }
+            opts.onFieldFilled?.(element, mapping);
+            report(mapping, 'filled');
         } catch (error) {
             const message = error instanceof Error ? error.message : String(error);
             errors.push(`Failed to fill ${mapping.fieldSignature.normalizedLabel}: ${message}`);
             logger.error('Fill error', { field: mapping.fieldSignature.normalizedLabel, error });
+            report(mapping, 'failed', message);
         }
     }
 
-    logger.info('Fill complete', { filledCount, errorCount: errors.length });
+    const cancelled = opts.signal?.aborted ?? false;
+    logger.info(cancelled ? 'Fill cancelled' : 'Fill complete', { filledCount, errorCount: errors.length });
 
     return {
         success: errors.length === 0,
         filledCount,
         errors,
+        cancelled,
+        snapshot,
     };
 }
 
 /**
  * Find a field element by its signature
  */
-function findFieldElement(
-    signature: FieldSignature
-): HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement | null {
-    // Try by DOM path first (most specific)
+function findFieldElement(signature: FieldSignature): HTMLElement | null {
+    // Try by DOM path first (most specific, encodes shadow root hops)
     try {
-        const byPath = document.querySelector(signature.domPath);
+        const byPath = queryElementByPath(signature.domPath);
         if (byPath && isMatchingElement(byPath, signature)) {
-            return byPath as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+            return byPath;
         }
     } catch {
         // Invalid selector, continue to fallbacks
     }
 
-    // Try by ID
+    // Try by ID (unique per document or shadow root, so search them all)
     if (signature.attributes.id) {
-        const byId = document.getElementById(signature.attributes.id);
-        if (byId && isMatchingElement(byId, signature)) {
-            return byId as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+        const byId = querySelectorAllDeep(`#${CSS.escape(signature.attributes.id)}`)
+            .find((element): element is HTMLElement => isMatchingElement(element, signature));
+        if (byId) {
+            return byId;
         }
     }
 
     // Try by name
     if (signature.attributes.name) {
-        const byName = document.querySelector(
+        const byName = querySelectorAllDeep(
             `input[name="${CSS.escape(signature.attributes.name)}"], ` +
             `select[name="${CSS.escape(signature.attributes.name)}"], ` +
             `textarea[name="${CSS.escape(signature.attributes.name)}"]`
-        );
-        if (byName && isMatchingElement(byName, signature)) {
-            return byName as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+        ).find((element): element is HTMLElement => isMatchingElement(element, signature));
+        if (byName) {
+            return byName;
         }
     }
 
@@ -115,10 +168,17 @@ function findFieldElement(
 /**
  * Check if an element matches a field signature
  */
-function isMatchingElement(element: Element, signature: FieldSignature): boolean {
+function isMatchingElement(element: Element, signature: FieldSignature): element is HTMLElement {
+    // Widgets built from non-form elements
+    if (signature.inputType === 'contenteditable') {
+        return isEditableRoot(element);
+    }
+    if (signature.inputType === 'combobox') {
+        return isCustomCombobox(element);
+    }
+
     // Basic type check
-    const tagName = element.tagName.toLowerCase();
-    if (tagName !== 'input' && tagName !== 'select' && tagName !== 'textarea') {
+    if (!isFormControl(element)) {
         return false;
     }
 
@@ -132,131 +192,3 @@ function isMatchingElement(element: Element, signature: FieldSignature): boolean
 
     return true;
 }
-
-/**
- * Fill a single field with the given value
- */
-async function fillField(
-    element: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement,
-    value: string,
-    options: FillOptions
-): Promise<void> {
-    // Focus the element
-    element.focus();
-    await sleep(10);
-
-    if (element instanceof HTMLSelectElement) {
-        await fillSelect(element, value);
-    } else if (element instanceof HTMLInputElement &&
-        (element.type === 'checkbox' || element.type === 'radio')) {
-        await fillCheckboxRadio(element, value);
-    } else {
-        await fillTextInput(element, value, options);
-    }
-
-    // Blur to trigger validation
-    element.blur();
-}
-
-/**
- * Fill a text input with optional character-by-character typing
- */
-async function fillTextInput(
-    element: HTMLInputElement | HTMLTextAreaElement,
-    value: string,
-    options: FillOptions
-): Promise<void> {
-    // Clear existing value
-    element.value = '';
-    dispatchInputEvent(element, 'input');
-
-    if (options.humanize) {
-        // Type character by character
-        for (const char of value) {
-            element.value += char;
-            dispatchInputEvent(element, 'input');
-
-            // Random typing delay
-            await sleep(30 + randomJitter(50));
-        }
-    } else {
-        // Set value directly
-        element.value = value;
-        dispatchInputEvent(element, 'input');
-    }
-
-    // Trigger change event
-    dispatchInputEvent(element, 'change');
-}
-
-/**
- * Fill a select element
- */
-async function fillSelect(element: HTMLSelectElement, value: string): Promise<void> {
-    // Find matching option
-    const options = Array.from(element.options);
-
-    // Try exact value match
-    let matchingOption = options.find((opt) => opt.value === value);
-
-    // Try text match
-    if (!matchingOption) {
-        matchingOption = options.find(
-            (opt) => opt.text.toLowerCase().includes(value.toLowerCase())
-        );
-    }
-
-    // Try partial value match
-    if (!matchingOption) {
-        matchingOption = options.find(
-            (opt) => opt.value.toLowerCase().includes(value.toLowerCase())
-        );
-    }
-
-    if (matchingOption) {
-        element.value = matchingOption.value;
-        dispatchInputEvent(element, 'change');
-    } else {
-        logger.warn('No matching option found', { value, availableOptions: options.map((o) => o.text) });
-    }
-}
-
-/**
- * Fill a checkbox or radio input
- */
-async function fillCheckboxRadio(element: HTMLInputElement, value: string): Promise<void> {
-    const shouldCheck = ['true', 'yes', '1', 'on', 'checked'].includes(value.toLowerCase());
-
-    if (element.type === 'checkbox') {
-        if (element.checked !== shouldCheck) {
-            element.click();
-        }
-    } else if (element.type === 'radio' && shouldCheck) {
-        element.click();
-    }
-}
-
-/**
- * Dispatch input/change events
- */
-function dispatchInputEvent(element: HTMLElement, eventType: 'input' | 'change'): void {
-    const event = new Event(eventType, { bubbles: true, cancelable: true });
-    element.dispatchEvent(event);
-
-    // Also dispatch InputEvent for React and other frameworks
-    if (eventType === 'input') {
-        const inputEvent = new InputEvent('input', {
-            bubbles: true,
-            cancelable: true,
-            inputType: 'insertText',
-        });
-        element.dispatchEvent(inputEvent);
-    }
-}
-
-/**
- * Generate random jitter for humanization
- */
-function randomJitter(max: number): number {
-    return Math.floor(Math.random() * max);
-}
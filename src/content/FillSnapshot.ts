@@ -0,0 +1,195 @@
+// Fill Snapshot
+// Values fields held before a fill, so the fill can be undone
+
+import { createLogger } from '@shared/utils';
+import { getRadioGroup, isCustomCombobox, isFormControl } from './DOMUtils';
+import { dispatchChange, dispatchInput, replaceContents, setNativeChecked, setNativeValue } from './FillStrategies';
+
+const logger = createLogger('FillSnapshot');
+
+interface ElementState {
+    value: string;          // Plain text for rich-text editors
+    checked: boolean;
+    selected: boolean[];    // Per option, for multi-selects
+}
+
+interface SnapshotEntry {
+    // A radio field covers its whole group, since filling it unchecks the others
+    elements: HTMLElement[];
+    before: ElementState[];
+    after: ElementState[] | null;   // Null until the fill of this field finished
+}
+
+export interface RestoreResult {
+    restored: number;
+    skipped: number;        // Left alone: edited since the fill, or not restorable
+}
+
+// ============================================================================
+// Fill Snapshot
+// ============================================================================
+
+export class FillSnapshot {
+    private entries: SnapshotEntry[] = [];
+
+    /**
+     * Number of fields the fill wrote
+     */
+    get size(): number {
+        return this.entries.filter((e) => e.after !== null).length;
+    }
+
+    /**
+     * Record an element's state before the fill writes to it
+     */
+    capture(element: HTMLElement): void {
+        if (this.findEntry(element)) {
+            return;
+        }
+
+        const elements = element instanceof HTMLInputElement && element.type === 'radio'
+            ? getRadioGroup(element)
+            : [element];
+
+        this.entries.push({
+            elements,
+            before: elements.map(readState),
+            after: null,
+        });
+    }
+
+    /**
+     * Record an element's state once the fill is done with it
+     */
+    commit(element: HTMLElement): void {
+        const entry = this.findEntry(element);
+        if (entry) {
+            entry.after = entry.elements.map(readState);
+        }
+    }
+
+    /**
+     * Put back the values fields held before the fill, newest first. Fields the
+     * user changed after the fill, or that left the page, keep their current value,
+     * as do custom comboboxes, whose previous choice can't be re-selected reliably.
+     */
+    restore(): RestoreResult {
+        const result: RestoreResult = { restored: 0, skipped: 0 };
+
+        for (const entry of [...this.entries].reverse()) {
+            if (!entry.after) {
+                continue;
+            }
+
+            const after = entry.after;
+            const untouched = entry.elements.every((element, i) =>
+                element.isConnected && statesEqual(readState(element), after[i])
+            );
+            if (!untouched || isCustomCombobox(entry.elements[0])) {
+                result.skipped++;
+                continue;
+            }
+
+            try {
+                restoreEntry(entry);
+                result.restored++;
+            } catch (error) {
+                logger.error('Failed to restore field', { error });
+                result.skipped++;
+            }
+        }
+
+        this.entries = [];
+        logger.info('Fill undone', { ...result });
+        return result;
+    }
+
+    private findEntry(element: HTMLElement): SnapshotEntry | undefined {
+        return this.entries.find((e) => e.elements.includes(element));
+    }
+}
+
+// ============================================================================
+// Restoring
+// ============================================================================
+
+/**
+ * Restore one field, dispatching the events frameworks listen for
+ */
+function restoreEntry(entry: SnapshotEntry): void {
+    const [first] = entry.elements;
+
+    if (first instanceof HTMLInputElement && (first.type === 'checkbox' || first.type === 'radio')) {
+        restoreChecked(entry.elements as HTMLInputElement[], entry.before);
+        return;
+    }
+
+    const before = entry.before[0];
+    if (!isFormControl(first)) {
+        // Rich-text editor: typed back in the way the fill wrote it, never re-parsed as markup
+        replaceContents(first, before.value);
+        return;
+    }
+
+    if (first instanceof HTMLSelectElement && first.multiple) {
+        Array.from(first.options).forEach((option, i) => {
+            option.selected = before.selected[i] ?? false;
+        });
+    } else {
+        setNativeValue(first, before.value);
+    }
+
+    dispatchInput(first, 'insertReplacementText');
+    dispatchChange(first);
+}
+
+/**
+ * Restore a checkbox or radio group. Clicking goes through the same path as a
+ * user would, which is what React and Vue watch for checkable inputs.
+ */
+function restoreChecked(elements: HTMLInputElement[], before: ElementState[]): void {
+    const previous = elements.find((_, i) => before[i].checked);
+
+    if (elements[0].type === 'radio' && previous) {
+        if (!previous.checked) {
+            previous.click();
+        }
+        return;
+    }
+
+    // Checkboxes, or a radio group that had nothing selected (clicking can't clear a radio)
+    elements.forEach((element, i) => {
+        if (element.checked === before[i].checked) {
+            return;
+        }
+
+        if (element.type === 'checkbox') {
+            element.click();
+        } else {
+            setNativeChecked(element, before[i].checked);
+            dispatchInput(element, 'insertReplacementText');
+            dispatchChange(element);
+        }
+    });
+}
+
+// ============================================================================
+// Element State
+// ============================================================================
+
+function readState(element: HTMLElement): ElementState {
+    return {
+        value: isFormControl(element) ? element.value : element.innerText,
+        checked: element instanceof HTMLInputElement ? element.checked : false,
+        selected: element instanceof HTMLSelectElement
+            ? Array.from(element.options).map((option) => option.selected)
+            : [],
+    };
+}
+
+function statesEqual(a: ElementState, b: ElementState): boolean {
+    return a.value === b.value &&
+        a.checked === b.checked &&
+        a.selected.length === b.selected.length &&
+        a.selected.every((selected, i) => selected === b.selected[i]);
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { formatForDateInput } from './FillStrategies';
+
+describe('formatForDateInput', () => {
+    it('passes ISO dates through and pads their parts', () => {
+        expect(formatForDateInput('1990-3-5', 'date')).toBe('1990-03-05');
+        expect(formatForDateInput(' 1990-03-15 ', 'date')).toBe('1990-03-15');
+    });
+
+    it('reads numeric dates month first', () => {
+        expect(formatForDateInput('03/04/1990', 'date')).toBe('1990-03-04');
+        expect(formatForDateInput('3.4.1990', 'date')).toBe('1990-03-04');
+    });
+
+    it('reads numeric dates day first when the first number cannot be a month', () => {
+        expect(formatForDateInput('15/03/1990', 'date')).toBe('1990-03-15');
+    });
+
+    it('expands two-digit years to the latest year not in the future', () => {
+        const nextYear = (new Date().getFullYear() + 1) % 100;
+        const twoDigits = String(nextYear).padStart(2, '0');
+
+        expect(formatForDateInput('01/02/05', 'date')).toBe('2005-01-02');
+        expect(formatForDateInput(`01/02/${twoDigits}`, 'date')?.startsWith('19')).toBe(true);
+    });
+
+    it('fills in the first of the month or year', () => {
+        expect(formatForDateInput('03/2024', 'date')).toBe('2024-03-01');
+        expect(formatForDateInput('2024', 'date')).toBe('2024-01-01');
+    });
+
+    it('reads written dates', () => {
+        expect(formatForDateInput('March 15, 1990', 'date')).toBe('1990-03-15');
+        expect(formatForDateInput('15 Mar 1990', 'date')).toBe('1990-03-15');
+    });
+
+    it('rejects days that do not exist', () => {
+        expect(formatForDateInput('02/30/2023', 'date')).toBeNull();
+        expect(formatForDateInput('2023-13-01', 'date')).toBeNull();
+        expect(formatForDateInput('2024-02-29', 'date')).toBe('2024-02-29');
+        expect(formatForDateInput('soon', 'date')).toBeNull();
+    });
+
+    it('formats months and local date-times', () => {
+        expect(formatForDateInput('March 2024', 'month')).toBe('2024-03');
+        expect(formatForDateInput('2024-03-15 2:30 pm', 'datetime-local')).toBe('2024-03-15T14:30');
+        expect(formatForDateInput('2024-03-15', 'datetime-local')).toBe('2024-03-15T00:00');
+    });
+
+    it('parses 12- and 24-hour times', () => {
+        expect(formatForDateInput('2:30 PM', 'time')).toBe('14:30');
+        expect(formatForDateInput('12:05 a.m.', 'time')).toBe('00:05');
+        expect(formatForDateInput('09:15:30', 'time')).toBe('09:15');
+        expect(formatForDateInput('25:00', 'time')).toBeNull();
+    });
+
+    it('only accepts weeks already in input format', () => {
+        expect(formatForDateInput('2024-W09', 'week')).toBe('2024-W09');
+        expect(formatForDateInput('week 9', 'week')).toBeNull();
+    });
+});
@@ -0,0 +1,740 @@
+// Fill Strategies
+// Per-widget ways of writing a value so the page's framework registers it
+
+import { createLogger, sleep } from '@shared/utils';
+import { matchOption } from '@shared/matching';
+import {
+    getElementRoot,
+    getLabelText,
+    getRadioGroup,
+    isCustomCombobox,
+    isEditableRoot,
+    isElementVisible,
+    querySelectorAllDeep,
+} from './DOMUtils';
+
+const logger = createLogger('FillStrategies');
+
+export interface FillContext {
+    humanize: boolean;
+    signal?: AbortSignal;
+}
+
+interface FillStrategy {
+    name: string;
+    matches: (element: HTMLElement) => boolean;
+    // Returns what the field should read once filled, or null if nothing was written
+    fill: (element: HTMLElement, value: string, context: FillContext) => Promise<string | null>;
+    read: (element: HTMLElement) => string;
+}
+
+// Time frameworks get to re-render (and reject the value) after blur
+const VERIFY_DELAY_MS = 50;
+
+// Time a combobox gets to show its options after opening or typing
+const LISTBOX_TIMEOUT_MS = 1500;
+const LISTBOX_POLL_MS = 50;
+
+// Humanized typing: per-keystroke delay, shortened so no field takes longer than
+// the cap. Longer values (essay answers) are inserted in one step.
+const KEYSTROKE_DELAY_MS = 30;
+const KEYSTROKE_JITTER_MS = 50;
+const MAX_TYPING_MS = 3000;
+const MAX_TYPED_LENGTH = 200;
+
+const DATE_INPUT_TYPES = new Set(['date', 'datetime-local', 'time', 'month', 'week']);
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Fill a field with the strategy for its widget, then check the value survived
+ * blur. A field the page reset is retried once without humanization.
+ */
+export async function fillElement(
+    element: HTMLElement,
+    value: string,
+    context: FillContext
+): Promise<void> {
+    const strategy = getStrategy(element);
+    const before = strategy.read(element);
+
+    const expected = await runStrategy(strategy, element, value, context);
+    if (expected === null || await isValueStuck(strategy, element, expected, before)) {
+        return;
+    }
+
+    logger.debug('Value did not stick, retrying', { strategy: strategy.name });
+
+    const retried = await runStrategy(strategy, element, value, { ...context, humanize: false });
+    if (retried !== null && !await isValueStuck(strategy, element, retried, before)) {
+        throw new Error('Value did not stick');
+    }
+}
+
+/**
+ * Read a field's current value in the same shape as a FieldMapping value
+ */
+export function readFieldValue(element: HTMLElement): string {
+    return STRATEGIES.find((s) => s.matches(element))?.read(element) ?? '';
+}
+
+/**
+ * Set a value through the prototype setter. React tracks the last value it set
+ * with an instance-level setter; going around it makes the new value register
+ * as a change when the input event arrives.
+ */
+export function setNativeValue(
+    element: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement,
+    value: string
+): void {
+    const prototype = element instanceof HTMLTextAreaElement
+        ? HTMLTextAreaElement.prototype
+        : element instanceof HTMLSelectElement
+            ? HTMLSelectElement.prototype
+            : HTMLInputElement.prototype;
+    const setter = Object.getOwnPropertyDescriptor(prototype, 'value')?.set;
+
+    if (setter) {
+        setter.call(element, value);
+    } else {
+        element.value = value;
+    }
+}
+
+/**
+ * Set checked through the prototype setter, for the same reason as setNativeValue
+ */
+export function setNativeChecked(element: HTMLInputElement, checked: boolean): void {
+    const setter = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'checked')?.set;
+
+    if (setter) {
+        setter.call(element, checked);
+    } else {
+        element.checked = checked;
+    }
+}
+
+/**
+ * Dispatch the input event frameworks listen to for value changes
+ */
+export function dispatchInput(element: HTMLElement, inputType: string, data: string | null = null): void {
+    element.dispatchEvent(new InputEvent('input', {
+        inputType,
+        data,
+        bubbles: true,
+        composed: true,
+    }));
+}
+
+/**
+ * Dispatch a change event
+ */
+export function dispatchChange(element: HTMLElement): void {
+    element.dispatchEvent(new Event('change', { bubbles: true }));
+}
+
+/**
+ * Generate random jitter for humanization
+ */
+export function randomJitter(max: number): number {
+    return Math.floor(Math.random() * max);
+}
+
+/**
+ * Delay after one keystroke of a value this long, keeping the whole value under the typing cap
+ */
+function keystrokeDelay(length: number): number {
+    return Math.min(KEYSTROKE_DELAY_MS + randomJitter(KEYSTROKE_JITTER_MS), MAX_TYPING_MS / length);
+}
+
+// ============================================================================
+// Strategies
+// ============================================================================
+
+const selectStrategy: FillStrategy = {
+    name: 'select',
+    matches: (element) => element instanceof HTMLSelectElement,
+    fill: async (element, value) => {
+        const select = element as HTMLSelectElement;
+
+        // Mapped values are normally already snapped to an option value;
+        // match against the live options in case the page changed them
+        const options = Array.from(select.options)
+            .filter((opt) => opt.value !== '')
+            .map((opt) => ({ value: opt.value, label: opt.text.trim() }));
+
+        const match = matchOption(value, options);
+        if (!match) {
+            logger.warn('No matching option found', { value, availableOptions: options.map((o) => o.label) });
+            return null;
+        }
+
+        setNativeValue(select, match.option.value);
+        dispatchInput(select, 'insertReplacementText');
+        dispatchChange(select);
+        return match.option.value;
+    },
+    read: (element) => (element as HTMLSelectElement).value,
+};
+
+const checkableStrategy: FillStrategy = {
+    name: 'checkable',
+    matches: (element) => element instanceof HTMLInputElement &&
+        (element.type === 'checkbox' || element.type === 'radio'),
+    fill: async (element, value) => {
+        const input = element as HTMLInputElement;
+
+        // A named radio group is one field whose value picks the option to check
+        const group = input.type === 'radio' ? getRadioGroup(input) : [];
+        if (group.length > 1) {
+            const options = group.map((radio) => ({
+                value: radio.value,
+                label: getLabelText(radio) || radio.value,
+            }));
+            const match = matchOption(value, options);
+            const target = match ? group.find((radio) => radio.value === match.option.value) : undefined;
+
+            if (!target) {
+                logger.warn('No matching radio option found', { value, availableOptions: options.map((o) => o.label) });
+                return null;
+            }
+
+            // Clicking goes through the same path as the user, which React and Vue watch
+            if (!target.checked) {
+                target.click();
+            }
+            return target.value;
+        }
+
+        const shouldCheck = ['true', 'yes', '1', 'on', 'checked'].includes(value.toLowerCase());
+
+        if (input.type === 'checkbox') {
+            if (input.checked !== shouldCheck) {
+                input.click();
+            }
+            return shouldCheck ? 'true' : 'false';
+        }
+
+        if (!shouldCheck) {
+            return null;
+        }
+        input.click();
+        return input.value;
+    },
+    read: (element) => {
+        const input = element as HTMLInputElement;
+        if (input.type === 'checkbox') {
+            return input.checked ? 'true' : 'false';
+        }
+
+        // Report the value of whichever option in the group is now selected
+        const checked = getRadioGroup(input).find((radio) => radio.checked);
+        return checked?.value ?? '';
+    },
+};
+
+const dateStrategy: FillStrategy = {
+    name: 'date',
+    matches: (element) => element instanceof HTMLInputElement && DATE_INPUT_TYPES.has(element.type),
+    fill: async (element, value) => {
+        const input = element as HTMLInputElement;
+
+        // Native pickers only accept their wire format (2024-03-15, 14:30, 2024-03)
+        const formatted = formatForDateInput(value, input.type) ?? value;
+
+        setNativeValue(input, formatted);
+        dispatchInput(input, 'insertReplacementText', formatted);
+        dispatchChange(input);
+        return formatted;
+    },
+    read: (element) => (element as HTMLInputElement).value,
+};
+
+const comboboxStrategy: FillStrategy = {
+    name: 'combobox',
+    matches: (element) => isComboboxInput(element) || isCustomCombobox(element),
+    fill: async (element, value, context) => {
+        if (element instanceof HTMLInputElement) {
+            // Typing filters the options (and is all an autocomplete without a listbox needs)
+            await typeText(element, value, context);
+        } else {
+            openCombobox(element);
+        }
+
+        const options = await waitForOptions(element, context.signal);
+        const labeled = options.map((option, index) => ({
+            value: String(index),
+            label: option.textContent?.replace(/\s+/g, ' ').trim() ?? '',
+        }));
+        const match = matchOption(value, labeled);
+
+        if (match) {
+            clickElement(options[Number(match.option.value)]);
+            return match.option.label;
+        }
+
+        // Nothing to pick: close the popup, keeping typed text for free-text comboboxes
+        pressKey(element, 'Escape');
+        if (element instanceof HTMLInputElement) {
+            dispatchChange(element);
+            return value;
+        }
+
+        logger.warn('No matching combobox option found', { value, availableOptions: labeled.map((o) => o.label) });
+        return null;
+    },
+    read: (element) => {
+        if (element instanceof HTMLInputElement && element.value) {
+            return element.value;
+        }
+
+        // Libraries like react-select clear the input and render the choice beside it
+        const container = element instanceof HTMLInputElement ? getComboboxContainer(element) : element;
+        return container.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+    },
+};
+
+const contentEditableStrategy: FillStrategy = {
+    name: 'contenteditable',
+    matches: isEditableRoot,
+    fill: async (element, value, context) => {
+        clearContents(element);
+
+        const chars = Array.from(value);
+        if (!context.humanize || chars.length > MAX_TYPED_LENGTH) {
+            insertText(element, value);
+            return value;
+        }
+
+        for (let i = 0; i < chars.length; i++) {
+            // Cancelled mid-field: finish it at once rather than leave it half typed
+            if (context.signal?.aborted) {
+                insertText(element, chars.slice(i).join(''));
+                break;
+            }
+
+            insertText(element, chars[i]);
+            await sleep(keystrokeDelay(chars.length));
+        }
+        return value;
+    },
+    read: (element) => element.innerText.trim(),
+};
+
+const textStrategy: FillStrategy = {
+    name: 'text',
+    matches: (element) => element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement,
+    fill: async (element, value, context) => {
+        const input = element as HTMLInputElement | HTMLTextAreaElement;
+
+        await typeText(input, value, context);
+        dispatchChange(input);
+
+        // Text inputs with a date picker popup would leave it open over the next field
+        const popup = input.getAttribute('aria-haspopup');
+        if (popup === 'dialog' || popup === 'grid') {
+            pressKey(input, 'Escape');
+        }
+        return value;
+    },
+    read: (element) => (element as HTMLInputElement | HTMLTextAreaElement).value,
+};
+
+// Checked in order; text is the fallback for any other native input
+const STRATEGIES: readonly FillStrategy[] = [
+    selectStrategy,
+    checkableStrategy,
+    dateStrategy,
+    comboboxStrategy,
+    contentEditableStrategy,
+    textStrategy,
+];
+
+// ============================================================================
+// Filling and Verification
+// ============================================================================
+
+function getStrategy(element: HTMLElement): FillStrategy {
+    const strategy = STRATEGIES.find((s) => s.matches(element));
+    if (!strategy) {
+        throw new Error(`Unsupported field: <${element.tagName.toLowerCase()}>`);
+    }
+    return strategy;
+}
+
+/**
+ * Focus, fill and blur (blur triggers the page's validation)
+ */
+async function runStrategy(
+    strategy: FillStrategy,
+    element: HTMLElement,
+    value: string,
+    context: FillContext
+): Promise<string | null> {
+    element.focus();
+    await sleep(10);
+
+    const expected = await strategy.fill(element, value, context);
+
+    element.blur();
+    return expected;
+}
+
+/**
+ * Check a field still holds what was written once the page has reacted.
+ * Masked and formatted inputs rewrite values ("5551234567" -> "(555) 123-4567"),
+ * so only a field that went back to its old value or to empty counts as a failure.
+ */
+async function isValueStuck(
+    strategy: FillStrategy,
+    element: HTMLElement,
+    expected: string,
+    before: string
+): Promise<boolean> {
+    await sleep(VERIFY_DELAY_MS);
+
+    const actual = strategy.read(element);
+    const normalizedActual = normalizeForComparison(actual);
+    const normalizedExpected = normalizeForComparison(expected);
+
+    if (normalizedActual === normalizedExpected ||
+        (normalizedExpected !== '' && normalizedActual.includes(normalizedExpected))) {
+        return true;
+    }
+
+    return actual.trim() !== '' && actual !== before;
+}
+
+function normalizeForComparison(value: string): string {
+    return value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+// ============================================================================
+// Keyboard and Pointer Simulation
+// ============================================================================
+
+/**
+ * Replace a text control's value, typing it character by character when humanized
+ */
+async function typeText(
+    element: HTMLInputElement | HTMLTextAreaElement,
+    value: string,
+    context: FillContext
+): Promise<void> {
+    setNativeValue(element, '');
+    dispatchInput(element, 'deleteContentBackward');
+
+    const chars = Array.from(value);
+    if (!context.humanize || chars.length > MAX_TYPED_LENGTH) {
+        setNativeValue(element, value);
+        dispatchInput(element, 'insertText', value);
+        return;
+    }
+
+    for (const char of chars) {
+        // Cancelled mid-field: finish it at once rather than leave it half typed
+        if (context.signal?.aborted) {
+            setNativeValue(element, value);
+            dispatchInput(element, 'insertText', value);
+            return;
+        }
+
+        typeCharacter(element, char);
+        await sleep(keystrokeDelay(chars.length));
+    }
+}
+
+/**
+ * Type one character the way a keyboard would. Synthetic key events have no
+ * default action, so the character is inserted here, unless a handler (such as
+ * an input mask that inserts it itself) cancelled the keystroke.
+ */
+function typeCharacter(element: HTMLInputElement | HTMLTextAreaElement, char: string): void {
+    const keyInit: KeyboardEventInit = { key: char, bubbles: true, cancelable: true, composed: true };
+
+    const inserted = element.dispatchEvent(new KeyboardEvent('keydown', keyInit)) &&
+        element.dispatchEvent(new KeyboardEvent('keypress', keyInit)) &&
+        element.dispatchEvent(new InputEvent('beforeinput', {
+            inputType: 'insertText',
+            data: char,
+            bubbles: true,
+            cancelable: true,
+            composed: true,
+        }));
+
+    if (inserted) {
+        setNativeValue(element, element.value + char);
+        dispatchInput(element, 'insertText', char);
+    }
+
+    element.dispatchEvent(new KeyboardEvent('keyup', keyInit));
+}
+
+function pressKey(element: HTMLElement, key: string): void {
+    const keyInit: KeyboardEventInit = { key, code: key, bubbles: true, cancelable: true, composed: true };
+    element.dispatchEvent(new KeyboardEvent('keydown', keyInit));
+    element.dispatchEvent(new KeyboardEvent('keyup', keyInit));
+}
+
+/**
+ * Click with the pointer and mouse events around it; many widgets act on
+ * pointerdown or mousedown rather than click
+ */
+function clickElement(element: HTMLElement): void {
+    const init: MouseEventInit = { bubbles: true, cancelable: true, composed: true, view: window };
+    element.dispatchEvent(new PointerEvent('pointerdown', init));
+    element.dispatchEvent(new MouseEvent('mousedown', init));
+    element.dispatchEvent(new PointerEvent('pointerup', init));
+    element.dispatchEvent(new MouseEvent('mouseup', init));
+    element.click();
+}
+
+// ============================================================================
+// Comboboxes
+// ============================================================================
+
+/**
+ * Check if a text input drives a listbox (ARIA combobox or autocomplete)
+ */
+function isComboboxInput(element: HTMLElement): boolean {
+    if (!(element instanceof HTMLInputElement)) {
+        return false;
+    }
+
+    const autocomplete = element.getAttribute('aria-autocomplete');
+    return element.getAttribute('role') === 'combobox' ||
+        autocomplete === 'list' ||
+        autocomplete === 'both';
+}
+
+/**
+ * Open a custom combobox; keyboard-only widgets open on ArrowDown instead of click
+ */
+function openCombobox(element: HTMLElement): void {
+    clickElement(element);
+    if (element.getAttribute('aria-expanded') !== 'true') {
+        pressKey(element, 'ArrowDown');
+    }
+}
+
+/**
+ * Wait for a combobox's options to render
+ */
+async function waitForOptions(element: HTMLElement, signal?: AbortSignal): Promise<HTMLElement[]> {
+    const deadline = Date.now() + LISTBOX_TIMEOUT_MS;
+
+    for (;;) {
+        const options = findListboxOptions(element);
+        if (options.length > 0 || Date.now() >= deadline || signal?.aborted) {
+            return options;
+        }
+        await sleep(LISTBOX_POLL_MS);
+    }
+}
+
+/**
+ * Find the enabled, visible options of the listbox a combobox controls
+ */
+function findListboxOptions(element: HTMLElement): HTMLElement[] {
+    const ids = [element.getAttribute('aria-controls'), element.getAttribute('aria-owns')]
+        .join(' ')
+        .split(/\s+/)
+        .filter(Boolean);
+    const root = getElementRoot(element);
+
+    let listboxes = ids
+        .map((id) => root.getElementById(id) ?? document.getElementById(id))
+        .filter((listbox): listbox is HTMLElement => listbox !== null);
+
+    // Listboxes portaled to the end of <body> are often not linked to their combobox
+    if (listboxes.length === 0) {
+        listboxes = querySelectorAllDeep('[role="listbox"]')
+            .filter((listbox): listbox is HTMLElement => listbox instanceof HTMLElement && isElementVisible(listbox));
+    }
+
+    return listboxes
+        .flatMap((listbox) => Array.from(listbox.querySelectorAll<HTMLElement>('[role="option"]')))
+        .filter((option) => option.getAttribute('aria-disabled') !== 'true' && isElementVisible(option));
+}
+
+/**
+ * The widget around a combobox input: the highest ancestor holding no other form control
+ */
+function getComboboxContainer(input: HTMLInputElement): HTMLElement {
+    let container: HTMLElement = input;
+
+    for (let depth = 0; depth < 4; depth++) {
+        const parent: HTMLElement | null = container.parentElement;
+        if (!parent || parent.querySelectorAll('input, select, textarea').length > 1) {
+            break;
+        }
+        container = parent;
+    }
+
+    return container;
+}
+
+// ============================================================================
+// Contenteditable
+// ============================================================================
+
+/**
+ * Select and delete an editor's contents
+ */
+function clearContents(element: HTMLElement): void {
+    const selection = window.getSelection();
+    if (selection) {
+        const range = document.createRange();
+        range.selectNodeContents(element);
+        selection.removeAllRanges();
+        selection.addRange(range);
+    }
+
+    if (!document.execCommand('delete')) {
+        element.textContent = '';
+        dispatchInput(element, 'deleteContentBackward');
+    }
+}
+
+/**
+ * Replace an editor's contents with plain text
+ */
+export function replaceContents(element: HTMLElement, text: string): void {
+    element.focus();
+    clearContents(element);
+    if (text) {
+        insertText(element, text);
+    }
+}
+
+/**
+ * Insert text at the selection through the browser's editing pipeline, whose
+ * beforeinput/input events rich-text editors (ProseMirror, Lexical, Draft.js) handle
+ */
+function insertText(element: HTMLElement, text: string): void {
+    if (!document.execCommand('insertText', false, text)) {
+        // No editing host has focus: write the DOM directly
+        element.textContent = (element.textContent ?? '') + text;
+        dispatchInput(element, 'insertText', text);
+    }
+}
+
+// ============================================================================
+// Date Formatting
+// ============================================================================
+
+/**
+ * Convert a date or time to the format a native input of this type accepts
+ */
+export function formatForDateInput(value: string, type: string): string | null {
+    const trimmed = value.trim();
+
+    if (type === 'time') {
+        return parseTime(trimmed);
+    }
+    if (type === 'week') {
+        return /^\d{4}-W\d{2}$/.test(trimmed) ? trimmed : null;
+    }
+
+    const date = parseDate(trimmed);
+    if (!date) {
+        return null;
+    }
+
+    if (type === 'month') {
+        return date.slice(0, 7);
+    }
+    if (type === 'datetime-local') {
+        return `${date}T${parseTime(trimmed) ?? '00:00'}`;
+    }
+    return date;
+}
+
+/**
+ * Parse a date to YYYY-MM-DD. Numeric dates are read month first, as in the US,
+ * unless the first number can't be a month.
+ */
+function parseDate(value: string): string | null {
+    const iso = value.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?/);
+    if (iso) {
+        return toIsoDate(Number(iso[1]), Number(iso[2]), iso[3] ? Number(iso[3]) : 1);
+    }
+
+    const numeric = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+    if (numeric) {
+        const first = Number(numeric[1]);
+        const second = Number(numeric[2]);
+        const year = expandYear(Number(numeric[3]));
+        return first > 12
+            ? toIsoDate(year, second, first)
+            : toIsoDate(year, first, second);
+    }
+
+    const monthYear = value.match(/^(\d{1,2})[/.-](\d{4})$/);
+    if (monthYear) {
+        return toIsoDate(Number(monthYear[2]), Number(monthYear[1]), 1);
+    }
+
+    const yearOnly = value.match(/^(\d{4})$/);
+    if (yearOnly) {
+        return toIsoDate(Number(yearOnly[1]), 1, 1);
+    }
+
+    // Written dates ("March 15, 1990", "15 Mar 1990")
+    const parsed = new Date(value);
+    if (!Number.isNaN(parsed.getTime())) {
+        return toIsoDate(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate());
+    }
+
+    return null;
+}
+
+/**
+ * Parse a time ("2:30 pm", "14:30:00") to HH:MM
+ */
+function parseTime(value: string): string | null {
+    const match = value.match(/(\d{1,2}):(\d{2})(?::\d{2})?(?:\s*([ap])\.?m\.?)?/i);
+    if (!match) {
+        return null;
+    }
+
+    let hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    const meridiem = match[3]?.toLowerCase();
+
+    if (meridiem === 'p' && hours < 12) hours += 12;
+    if (meridiem === 'a' && hours === 12) hours = 0;
+    if (hours > 23 || minutes > 59) {
+        return null;
+    }
+
+    return `${pad(hours)}:${pad(minutes)}`;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+    // Days past the end of the month ("02/30") would leave a native input empty
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    if (month < 1 || month > 12 || day < 1 || day > daysInMonth) {
+        return null;
+    }
+    return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Expand a two-digit year to the most recent matching year not in the future
+ */
+function expandYear(year: number): number {
+    if (year >= 100) {
+        return year;
+    }
+
+    const currentYear = new Date().getFullYear();
+    const expanded = 2000 + year;
+    return expanded > currentYear ? expanded - 100 : expanded;
+}
+
+function pad(value: number): string {
+    return String(value).padStart(2, '0');
+}
@@ -1,10 +1,21 @@
 // Form Detector
 // Detect and extract forms from the current page
 
-import type { FormSignature, FieldSignature } from '@shared/types';
+import type { FormSignature } from '@shared/types';
 import { createLogger, extractDomain } from '@shared/utils';
-import { isElementVisible } from './DOMUtils';
+import {
+    isElementVisible,
+    querySelectorAllDeep,
+    closestDeep,
+    getShadowRoots,
+    isFormControl,
+    isEditableRoot,
+    isCustomCombobox,
+} from './DOMUtils';
 import { extractFieldSignature, generateFormHash } from './FieldSignature';
+import { detectRepeatingSections } from './RepeatingSections';
+import type { DetectedField } from './RepeatingSections';
+import { extractPageContext } from './PageContext';
 
 const logger = createLogger('FormDetector');
 
@@ -15,8 +26,32 @@ const FIELD_SELECTORS = [
     'input:not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"])',
     'select',
     'textarea',
+    '[contenteditable]:not([contenteditable="false"])',
+    '[role="combobox"]',
 ];
 
+/**
+ * Selector for added nodes that may be or contain fields
+ */
+const FIELD_MUTATION_SELECTOR = 'form, input, select, textarea, [contenteditable="true"], [contenteditable=""], [role="combobox"]';
+
+/**
+ * Attributes that show or hide content. Multi-step forms often keep every step
+ * in the page and switch between them this way, without adding nodes.
+ */
+const VISIBILITY_ATTRIBUTES = ['style', 'class', 'hidden', 'aria-hidden'];
+
+// Whether each container of fields was rendered when its attributes last changed
+const renderedState = new WeakMap<Element, boolean>();
+
+/**
+ * All <form> elements on the page, including those inside open shadow roots.
+ * Their order defines formIndex.
+ */
+function getFormElements(): HTMLFormElement[] {
+    return querySelectorAllDeep('form') as HTMLFormElement[];
+}
+
 /**
  * Detect all forms on the current page
  */
@@ -24,7 +59,7 @@ export function detectForms(): FormSignature[] {
     const forms: FormSignature[] = [];
 
     // Strategy 1: Detect explicit <form> elements
-    const formElements = document.querySelectorAll('form');
+    const formElements = getFormElements();
     formElements.forEach((formEl, index) => {
         const formSignature = extractFormSignature(formEl, index);
         if (formSignature && formSignature.fields.length > 0) {
@@ -33,14 +68,21 @@ export function detectForms(): FormSignature[] {
     });
 
     // Strategy 2: Detect orphan fields (fields not inside a form)
+    // Orphans always take the index after the last <form> so indexes stay stable
     const orphanFields = findOrphanFields();
     if (orphanFields.length > 0) {
-        const orphanForm = createOrphanFormSignature(orphanFields, forms.length);
+        const orphanForm = createOrphanFormSignature(orphanFields, formElements.length);
         if (orphanForm.fields.length > 0) {
             forms.push(orphanForm);
         }
     }
 
+    // Every form on the page shares the page's summary
+    const pageContext = forms.length > 0 ? extractPageContext() : undefined;
+    if (pageContext) {
+        forms.forEach((form) => { form.pageContext = pageContext; });
+    }
+
     logger.info(`Detected ${forms.length} form(s)`, {
         fieldCounts: forms.map((f) => f.fields.length)
     });
@@ -48,6 +90,27 @@ export function detectForms(): FormSignature[] {
     return forms;
 }
 
+/**
+ * Get the formIndex of the form containing an element, or null if it isn't a form field
+ * Matches the indexing used by detectForms.
+ */
+export function getFormIndexForElement(element: Element | null): number | null {
+    if (!element) {
+        return null;
+    }
+
+    const formElement = closestDeep(element, 'form');
+    if (formElement) {
+        return getFormElements().indexOf(formElement as HTMLFormElement);
+    }
+
+    if (element.matches(FIELD_SELECTORS.join(',')) && isFieldElement(element)) {
+        return getFormElements().length;
+    }
+
+    return null;
+}
+
 /**
  * Extract a form signature from a form element
  */
@@ -55,53 +118,72 @@ function extractFormSignature(
     formElement: HTMLFormElement,
     formIndex: number
 ): FormSignature | null {
-    const fields = extractFieldsFromContainer(formElement);
+    // Only visible fields are extracted
+    const detected = extractFieldsFromContainer(formElement);
 
-    // Filter to only visible fields
-    const visibleFields = fields.filter((_, i) => {
-        const elements = formElement.querySelectorAll(FIELD_SELECTORS.join(','));
-        return elements[i] && isElementVisible(elements[i]);
-    });
-
-    if (visibleFields.length === 0) {
+    if (detected.length === 0) {
         return null;
     }
 
-    const formId = generateFormHash(visibleFields);
+    const fields = detected.map((d) => d.signature);
+    const formId = generateFormHash(fields);
+    const repeatingSections = detectRepeatingSections(formElement, detected);
 
     return {
         id: formId,
         url: window.location.href,
         domain: extractDomain(window.location.href),
         formIndex,
-        fields: visibleFields,
+        label: getFormLabel(formElement),
+        fields,
+        ...(repeatingSections.length > 0 && { repeatingSections }),
         detectedAt: Date.now(),
     };
 }
 
+/**
+ * Derive a human-readable label for a form element
+ */
+function getFormLabel(formElement: HTMLFormElement): string | undefined {
+    const ariaLabel = formElement.getAttribute('aria-label');
+    if (ariaLabel?.trim()) {
+        return ariaLabel.trim();
+    }
+
+    const heading = formElement.querySelector('legend, h1, h2, h3, h4');
+    const headingText = heading?.textContent?.replace(/\s+/g, ' ').trim();
+    if (headingText && headingText.length < 80) {
+        return headingText;
+    }
+
+    return formElement.getAttribute('name') || formElement.id || undefined;
+}
+
 /**
  * Extract field signatures from a container element
  */
-function extractFieldsFromContainer(container: Element): FieldSignature[] {
-    const fields: FieldSignature[] = [];
+function extractFieldsFromContainer(container: Element): DetectedField[] {
+    const fields: DetectedField[] = [];
     const selector = FIELD_SELECTORS.join(',');
-    const elements = container.querySelectorAll(selector);
+    const elements = querySelectorAllDeep(selector, container);
+    const seenRadioGroups = new Set<string>();
 
     elements.forEach((element) => {
-        if (!isElementVisible(element)) {
+        if (!isFieldElement(element) || !isElementVisible(element)) {
             return;
         }
 
-        const input = element as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
-
         // Skip hidden inputs (they're usually for CSRF tokens, etc.)
-        if (input instanceof HTMLInputElement && input.type === 'hidden') {
+        if (element instanceof HTMLInputElement && element.type === 'hidden') {
+            return;
+        }
+
+        if (isCollapsedRadio(element, seenRadioGroups)) {
             return;
         }
 
         try {
-            const signature = extractFieldSignature(input);
-            fields.push(signature);
+            fields.push({ element, signature: extractFieldSignature(element) });
         } catch (error) {
             logger.warn('Failed to extract field signature', { error, element });
         }
@@ -110,15 +192,40 @@ function extractFieldsFromContainer(container: Element): FieldSignature[] {
     return fields;
 }
 
+/**
+ * Check if a selector match is a fillable field: a native control, the root of
+ * a rich-text editor, or a combobox with no native input inside
+ */
+function isFieldElement(element: Element): element is HTMLElement {
+    return isFormControl(element) || isEditableRoot(element) || isCustomCombobox(element);
+}
+
+/**
+ * Check if a radio belongs to a group already represented by an earlier radio.
+ * A named radio group is a single logical field whose options are its radios.
+ */
+function isCollapsedRadio(element: Element, seenGroups: Set<string>): boolean {
+    if (!(element instanceof HTMLInputElement) || element.type !== 'radio' || !element.name) {
+        return false;
+    }
+
+    if (seenGroups.has(element.name)) {
+        return true;
+    }
+
+    seenGroups.add(element.name);
+    return false;
+}
+
 /**
  * Find form fields that are not inside any <form> element
  */
-function findOrphanFields(): Element[] {
-    const allFields = document.querySelectorAll(FIELD_SELECTORS.join(','));
-    const orphans: Element[] = [];
+function findOrphanFields(): HTMLElement[] {
+    const allFields = querySelectorAllDeep(FIELD_SELECTORS.join(','));
+    const orphans: HTMLElement[] = [];
 
     allFields.forEach((field) => {
-        if (!field.closest('form') && isElementVisible(field)) {
+        if (isFieldElement(field) && !closestDeep(field, 'form') && isElementVisible(field)) {
             orphans.push(field);
         }
     });
@@ -130,28 +237,32 @@ function findOrphanFields(): Element[] {
  * Create a form signature for orphan fields
  */
 function createOrphanFormSignature(
-    orphanElements: Element[],
+    orphanElements: HTMLElement[],
     formIndex: number
 ): FormSignature {
-    const fields: FieldSignature[] = [];
+    const detected: DetectedField[] = [];
+    const seenRadioGroups = new Set<string>();
 
     orphanElements.forEach((element) => {
-        const input = element as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
-
         // Skip hidden inputs
-        if (input instanceof HTMLInputElement && input.type === 'hidden') {
+        if (element instanceof HTMLInputElement && element.type === 'hidden') {
+            return;
+        }
+
+        if (isCollapsedRadio(element, seenRadioGroups)) {
             return;
         }
 
         try {
-            const signature = extractFieldSignature(input);
-            fields.push(signature);
+            detected.push({ element, signature: extractFieldSignature(element) });
         } catch (error) {
             logger.warn('Failed to extract orphan field signature', { error });
         }
     });
 
+    const fields = detected.map((d) => d.signature);
     const formId = generateFormHash(fields);
+    const repeatingSections = detectRepeatingSections(document, detected);
 
     return {
         id: formId,
@@ -159,12 +270,14 @@ function createOrphanFormSignature(
         domain: extractDomain(window.location.href),
         formIndex,
         fields,
+        ...(repeatingSections.length > 0 && { repeatingSections }),
         detectedAt: Date.now(),
     };
 }
 
 /**
- * Create a mutation observer to detect dynamically added forms
+ * Create a mutation observer to detect dynamically added forms, and fields
+ * shown or hidden (such as the next step of a multi-step form)
  */
 export function createFormObserver(
     callback: (forms: FormSignature[]) => void
@@ -177,15 +290,23 @@ export function createFormObserver(
             // Check added nodes
             for (const node of mutation.addedNodes) {
                 if (node instanceof Element) {
-                    if (node.tagName === 'FORM' ||
-                        node.tagName === 'INPUT' ||
-                        node.tagName === 'SELECT' ||
-                        node.tagName === 'TEXTAREA' ||
-                        node.querySelector('form, input, select, textarea')) {
+                    if (node.matches(FIELD_MUTATION_SELECTOR) ||
+                        node.querySelector(FIELD_MUTATION_SELECTOR) ||
+                        isPossibleShadowHost(node)) {
                         return true;
                     }
                 }
             }
+
+            // Check visibility changes of fields or their containers. Class and style
+            // changes that show or hide nothing (animations, hover states) are ignored.
+            if (mutation.type === 'attributes' && mutation.target instanceof Element) {
+                const target = mutation.target;
+                if (!target.matches(FIELD_MUTATION_SELECTOR) && !target.querySelector(FIELD_MUTATION_SELECTOR)) {
+                    return false;
+                }
+                return mutation.attributeName === 'aria-hidden' || renderingChanged(target);
+            }
             return false;
         });
 
@@ -196,6 +317,7 @@ export function createFormObserver(
             }
 
             debounceTimer = setTimeout(() => {
+                observeShadowRoots(observer);
                 const forms = detectForms();
                 callback(forms);
                 debounceTimer = null;
@@ -206,6 +328,17 @@ export function createFormObserver(
     return observer;
 }
 
+/**
+ * Check whether an element was shown or hidden since its attributes last changed.
+ * An element seen for the first time counts as changed.
+ */
+function renderingChanged(element: Element): boolean {
+    const rendered = element.getClientRects().length > 0;
+    const previous = renderedState.get(element);
+    renderedState.set(element, rendered);
+    return previous !== rendered;
+}
+
 /**
  * Start observing for form changes
  */
@@ -217,9 +350,38 @@ export function startFormObserver(
     observer.observe(document.body, {
         childList: true,
         subtree: true,
+        attributes: true,
+        attributeFilter: VISIBILITY_ATTRIBUTES,
     });
+    observeShadowRoots(observer);
 
     logger.debug('Started form observer');
 
     return observer;
 }
+
+/**
+ * Extend an observer into open shadow roots, which subtree observation of the
+ * document doesn't reach. Re-observing a root already watched is a no-op.
+ */
+function observeShadowRoots(observer: MutationObserver): void {
+    for (const shadowRoot of getShadowRoots()) {
+        observer.observe(shadowRoot, {
+            childList: true,
+            subtree: true,
+            attributes: true,
+            attributeFilter: VISIBILITY_ATTRIBUTES,
+        });
+    }
+}
+
+/**
+ * Check if an added element may render fields into a shadow root.
+ * Custom elements often attach their shadow root after insertion, so their
+ * fields aren't visible to querySelector at mutation time.
+ */
+function isPossibleShadowHost(element: Element): boolean {
+    return element.shadowRoot !== null ||
+        element.tagName.includes('-') ||
+        element.querySelector(':not(:defined)') !== null;
+}
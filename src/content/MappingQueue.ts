@@ -0,0 +1,72 @@
+// Mapping Queue
+// Field mappings for a fill that may still be streaming in from the background
+
+import type { FieldMapping } from '@shared/types';
+
+export class MappingQueue implements AsyncIterable<FieldMapping> {
+    private pending: FieldMapping[] = [];
+    private received: FieldMapping[] = [];
+    private ended: boolean = false;
+    private wake: (() => void) | null = null;
+
+    /**
+     * Create a queue that already holds every mapping
+     */
+    static from(mappings: FieldMapping[]): MappingQueue {
+        const queue = new MappingQueue();
+        queue.push(mappings);
+        queue.end();
+        return queue;
+    }
+
+    /**
+     * All mappings received so far, processed or not
+     */
+    get all(): FieldMapping[] {
+        return this.received;
+    }
+
+    /**
+     * Add mappings, ignoring fields already queued
+     */
+    push(mappings: FieldMapping[]): void {
+        if (this.ended) return;
+
+        const queued = new Set(this.received.map((m) => m.fieldSignature.id));
+        const fresh = mappings.filter((m) => !queued.has(m.fieldSignature.id));
+
+        this.pending.push(...fresh);
+        this.received.push(...fresh);
+        this.notify();
+    }
+
+    /**
+     * Mark that no more mappings are coming
+     */
+    end(): void {
+        this.ended = true;
+        this.notify();
+    }
+
+    async *[Symbol.asyncIterator](): AsyncIterator<FieldMapping> {
+        for (;;) {
+            const next = this.pending.shift();
+            if (next) {
+                yield next;
+                continue;
+            }
+            if (this.ended) {
+                return;
+            }
+            await new Promise<void>((resolve) => {
+                this.wake = resolve;
+            });
+        }
+    }
+
+    private notify(): void {
+        const wake = this.wake;
+        this.wake = null;
+        wake?.();
+    }
+}
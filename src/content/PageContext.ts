@@ -0,0 +1,279 @@
+// Page Context
+// Compact, privacy-filtered summary of the page around a form: title, headings, main text and JSON-LD
+
+import type { JobPostingContext, OrganizationContext, PageContext } from '@shared/types';
+import { createLogger } from '@shared/utils';
+
+const logger = createLogger('PageContext');
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_HEADINGS = 12;
+const MAX_HEADING_LENGTH = 120;
+const MAX_TEXT_LENGTH = 1500;
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+// Shorter blocks are buttons, captions and labels rather than content
+const MIN_PARAGRAPH_LENGTH = 40;
+
+// Pages keep changing while they load; detection runs often, so a summary is
+// reused for this long unless the URL or title changes
+const CACHE_TTL_MS = 5000;
+
+const MAIN_CONTENT_SELECTOR = 'main, [role="main"], article';
+const TEXT_BLOCK_SELECTOR = 'p, li, dd, blockquote';
+
+// Text in these is site chrome, hidden, or what the user typed
+const HIDDEN_OR_INPUT_SELECTOR = [
+    'form', 'dialog', '[role="dialog"]', '[hidden]', '[aria-hidden="true"]',
+    '[contenteditable]:not([contenteditable="false"])', 'script', 'style', 'noscript', 'template',
+].join(', ');
+const CHROME_SELECTOR = [
+    HIDDEN_OR_INPUT_SELECTOR,
+    'nav', 'header', 'footer', 'aside',
+    '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+].join(', ');
+
+// Organization-like JSON-LD types
+const ORGANIZATION_TYPES = ['Organization', 'Corporation', 'LocalBusiness', 'EducationalOrganization', 'NGO'];
+
+let cached: { key: string; context: PageContext | undefined; extractedAt: number } | null = null;
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Summarize the current page, or undefined if it has nothing worth sending
+ */
+export function extractPageContext(): PageContext | undefined {
+    const key = `${window.location.href}|${document.title}`;
+    if (cached?.key === key && Date.now() - cached.extractedAt < CACHE_TTL_MS) {
+        return cached.context;
+    }
+
+    let context: PageContext | undefined;
+    try {
+        const { jobPosting, organization } = readStructuredData();
+        const title = truncate(redact(cleanText(document.title)), MAX_TITLE_LENGTH);
+        const headings = getHeadings();
+        const text = getMainText();
+
+        context = title || headings.length > 0 || text || jobPosting || organization
+            ? {
+                ...(title && { title }),
+                headings,
+                ...(text && { text }),
+                ...(jobPosting && { jobPosting }),
+                ...(organization && { organization }),
+            }
+            : undefined;
+    } catch (error) {
+        logger.warn('Failed to extract page context', { error });
+    }
+
+    cached = { key, context, extractedAt: Date.now() };
+    return context;
+}
+
+/**
+ * Visible section headings, outside forms and navigation
+ */
+function getHeadings(): string[] {
+    const headings: string[] = [];
+
+    for (const element of document.querySelectorAll('h1, h2, h3')) {
+        if (element.closest(HIDDEN_OR_INPUT_SELECTOR) || element.closest('nav, footer')) continue;
+
+        const text = truncate(redact(cleanText(element.textContent || '')), MAX_HEADING_LENGTH);
+        if (text && !headings.includes(text)) {
+            headings.push(text);
+            if (headings.length >= MAX_HEADINGS) break;
+        }
+    }
+
+    return headings;
+}
+
+/**
+ * Leading paragraphs and list items of the page's main content
+ */
+function getMainText(): string | undefined {
+    const root = document.querySelector(MAIN_CONTENT_SELECTOR) ?? document.body;
+    if (!root) return undefined;
+
+    const blocks: string[] = [];
+    let length = 0;
+
+    for (const element of root.querySelectorAll(TEXT_BLOCK_SELECTOR)) {
+        // Outer blocks repeat the text of blocks nested in them
+        if (element.closest(CHROME_SELECTOR) || element.querySelector(TEXT_BLOCK_SELECTOR)) continue;
+
+        const text = cleanText(element.textContent || '');
+        if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+        blocks.push(text);
+        length += text.length + 1;
+        if (length >= MAX_TEXT_LENGTH) break;
+    }
+
+    return truncate(redact(blocks.join('\n')), MAX_TEXT_LENGTH);
+}
+
+// ============================================================================
+// Structured Data
+// ============================================================================
+
+/**
+ * Read the JobPosting and Organization the page describes in JSON-LD
+ */
+function readStructuredData(): { jobPosting?: JobPostingContext; organization?: OrganizationContext } {
+    const items: Record<string, unknown>[] = [];
+    for (const script of document.querySelectorAll('script[type="application/ld+json"]')) {
+        try {
+            collectItems(JSON.parse(script.textContent || ''), items, 0);
+        } catch {
+            // Malformed JSON-LD is common and not worth reporting
+        }
+    }
+
+    const posting = items.find((item) => hasType(item, ['JobPosting']));
+    const organizationItem = items.find((item) => hasType(item, ORGANIZATION_TYPES));
+
+    const jobPosting = posting ? readJobPosting(posting) : undefined;
+    let organization = organizationItem ? readOrganization(organizationItem) : undefined;
+
+    // The hiring organization, then the site name, stand in for a missing Organization
+    if (!organization && isRecord(posting?.hiringOrganization)) {
+        organization = readOrganization(posting.hiringOrganization);
+    }
+    if (!organization) {
+        const siteName = readText(
+            document.querySelector('meta[property="og:site_name"]')?.getAttribute('content'),
+            MAX_HEADING_LENGTH
+        );
+        if (siteName) {
+            organization = { name: siteName };
+        }
+    }
+
+    return { jobPosting, organization };
+}
+
+/**
+ * Flatten JSON-LD (objects, arrays and @graph lists) into a list of items
+ */
+function collectItems(value: unknown, items: Record<string, unknown>[], depth: number): void {
+    if (depth > 3) return;
+
+    if (Array.isArray(value)) {
+        value.forEach((item) => collectItems(item, items, depth + 1));
+    } else if (isRecord(value)) {
+        items.push(value);
+        if (value['@graph']) {
+            collectItems(value['@graph'], items, depth + 1);
+        }
+    }
+}
+
+function readJobPosting(item: Record<string, unknown>): JobPostingContext | undefined {
+    const organization = item.hiringOrganization;
+    const posting: JobPostingContext = {
+        title: readText(item.title, MAX_HEADING_LENGTH),
+        company: isRecord(organization) ? readText(organization.name, MAX_HEADING_LENGTH) : readText(organization, MAX_HEADING_LENGTH),
+        location: readJobLocation(item),
+        employmentType: readText(Array.isArray(item.employmentType) ? item.employmentType.join(', ') : item.employmentType, MAX_HEADING_LENGTH),
+        description: readText(htmlToText(item.description), MAX_DESCRIPTION_LENGTH),
+    };
+
+    return Object.values(posting).some(Boolean) ? stripUndefined(posting) : undefined;
+}
+
+function readJobLocation(item: Record<string, unknown>): string | undefined {
+    if (item.jobLocationType === 'TELECOMMUTE') {
+        return 'Remote';
+    }
+
+    const locations = Array.isArray(item.jobLocation) ? item.jobLocation : [item.jobLocation];
+    const places = locations
+        .map((location) => {
+            const address = isRecord(location) ? location.address : undefined;
+            if (typeof address === 'string') return address;
+            if (!isRecord(address)) return undefined;
+
+            const country = isRecord(address.addressCountry) ? address.addressCountry.name : address.addressCountry;
+            return [address.addressLocality, address.addressRegion, country]
+                .filter((part): part is string => typeof part === 'string' && !!part.trim())
+                .join(', ');
+        })
+        .filter((place): place is string => !!place);
+
+    return readText(places.join('; '), MAX_HEADING_LENGTH);
+}
+
+function readOrganization(item: Record<string, unknown>): OrganizationContext | undefined {
+    const name = readText(item.name, MAX_HEADING_LENGTH);
+    if (!name) return undefined;
+
+    return stripUndefined({
+        name,
+        description: readText(htmlToText(item.description), MAX_TEXT_LENGTH),
+        url: readText(item.url, MAX_HEADING_LENGTH),
+    });
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Remove personal details: email addresses, runs of 9 or more digits (phone,
+ * account and card numbers; dates and salaries stay), and URL query strings
+ */
+function redact(text: string): string {
+    return text
+        .replace(/[\w.+-]+@[\w-]+(\.[\w-]+)+/g, '[email]')
+        .replace(/\+?\d[\d\s().-]{7,}\d/g, (match) => (match.replace(/\D/g, '').length >= 9 ? '[number]' : match))
+        .replace(/(https?:\/\/[^\s?#]+)[?#]\S*/g, '$1');
+}
+
+/**
+ * Text content of an HTML fragment, as JSON-LD descriptions often are. Parsed
+ * into an inert document, so nothing in it runs or loads.
+ */
+function htmlToText(value: unknown): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    if (!/<[a-z]/i.test(value)) return value;
+
+    const parsed = new DOMParser().parseFromString(value, 'text/html');
+    return parsed.body.textContent ?? undefined;
+}
+
+function readText(value: unknown, maxLength: number): string | undefined {
+    return typeof value === 'string' ? truncate(redact(cleanText(value)), maxLength) : undefined;
+}
+
+function truncate(text: string, maxLength: number): string | undefined {
+    if (!text) return undefined;
+    return text.length > maxLength ? `${text.slice(0, maxLength).replace(/\s+\S*$/, '')}…` : text;
+}
+
+function cleanText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function hasType(item: Record<string, unknown>, types: string[]): boolean {
+    const itemTypes = Array.isArray(item['@type']) ? item['@type'] : [item['@type']];
+    return itemTypes.some((type) => typeof type === 'string' && types.includes(type));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stripUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
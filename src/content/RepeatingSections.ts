@@ -0,0 +1,399 @@
+// Repeating Sections
+// Detect blocks of fields repeated once per record, and add blocks with the page's "add another" control
+
+import type { FieldSignature, RecordType, RepeatingSection, SemanticClass } from '@shared/types';
+import { createLogger } from '@shared/utils';
+import { getElementPath, queryElementByPath, querySelectorAllDeep, isElementVisible } from './DOMUtils';
+
+const logger = createLogger('RepeatingSections');
+
+/**
+ * A detected field with the element it was read from
+ */
+export interface DetectedField {
+    element: HTMLElement;
+    signature: FieldSignature;
+}
+
+/**
+ * Blocks found by one detection strategy, before their record type is known
+ */
+interface Candidate {
+    groups: DetectedField[][];
+    hint: string;               // Names, headings or button text around the blocks
+    container: Element | null;  // Element holding every block
+    addButton?: HTMLElement;
+    useLabels: boolean;         // Field labels may decide the record type
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// An index in a field name: "jobs[1][title]", "employer_2_name", "school-0-degree"
+const INDEXED_NAME = /^(\D+?)[[_.-](\d{1,2})(?=[\]_.-]|$)/;
+
+const ADD_BUTTON_SELECTOR = 'button, input[type="button"], a, [role="button"]';
+const ADD_BUTTON_TEXT = /^\+?\s*add\b|\badd\s+(another|more|new)\b/i;
+const MAX_BUTTON_TEXT_LENGTH = 40;
+
+// Ancestors climbed looking for repeated sibling blocks
+const MAX_BLOCK_DEPTH = 6;
+// A block found only from its "add" button holds at most this many fields,
+// so a button below a whole form isn't taken for a block's
+const MAX_ADDABLE_BLOCK_FIELDS = 12;
+
+/**
+ * Record types named by section text, checked in order: references and
+ * certifications also have company-like fields, so they come first
+ */
+const RECORD_TYPE_PATTERNS: Array<[RegExp, RecordType]> = [
+    [/\b(references?|referees?|relationship)\b/, 'reference'],
+    [/\b(certifications?|certificates?|licen[cs]es?|credentials?)\b/, 'certification'],
+    [/\b(education|schools?|universit(y|ies)|colleges?|degrees?|institutions?|qualifications?|academic)\b/, 'education'],
+    [/\b(employment|employers?|work\s*(history|experience)|experiences?|jobs?|positions?|compan(y|ies))\b/, 'employment'],
+];
+
+// Semantic classes that only appear in one record type's blocks
+const RECORD_CLASS_HINTS: Partial<Record<SemanticClass, RecordType>> = {
+    company: 'employment',
+    job_title: 'employment',
+    university: 'education',
+    degree: 'education',
+    field_of_study: 'education',
+    graduation_year: 'education',
+    gpa: 'education',
+};
+
+// How long to wait for a block to appear after clicking "add"
+const ADD_BLOCK_TIMEOUT_MS = 1500;
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Find repeated blocks among a form's fields: fields whose names share an
+ * indexed prefix, sibling elements holding the same fields, and single blocks
+ * followed by an "add another" control. Blocks that aren't recognisably a
+ * record type are ignored. A form gets at most one section per record type.
+ */
+export function detectRepeatingSections(
+    root: Document | Element,
+    fields: DetectedField[]
+): RepeatingSection[] {
+    const assigned = new Set<DetectedField>();
+    const unassigned = () => fields.filter((f) => !assigned.has(f));
+    const candidates: Candidate[] = [];
+
+    for (const find of [findIndexedBlocks, findSiblingBlocks]) {
+        for (const candidate of find(unassigned())) {
+            candidates.push(candidate);
+            candidate.groups.flat().forEach((f) => assigned.add(f));
+        }
+    }
+    candidates.push(...findAddableBlocks(root, unassigned()));
+
+    const sections = new Map<RecordType, RepeatingSection>();
+    for (const candidate of candidates) {
+        const recordType = classifyCandidate(candidate);
+        const existing = recordType ? sections.get(recordType) : undefined;
+        if (!recordType || (existing && existing.groups.length >= candidate.groups.length)) {
+            continue;
+        }
+
+        const addButton = candidate.addButton ?? findAddButton(candidate);
+        sections.set(recordType, {
+            recordType,
+            groups: candidate.groups.map((group) => group.map((f) => f.signature.id)),
+            ...(addButton && { addButtonPath: getElementPath(addButton) }),
+        });
+    }
+
+    if (sections.size > 0) {
+        logger.debug('Detected repeating sections', {
+            sections: Array.from(sections.values()).map((s) => `${s.recordType}×${s.groups.length}`),
+        });
+    }
+
+    return Array.from(sections.values());
+}
+
+/**
+ * Blocks from field names with an index after a shared prefix
+ */
+function findIndexedBlocks(fields: DetectedField[]): Candidate[] {
+    const byPrefix = new Map<string, Map<number, DetectedField[]>>();
+
+    for (const field of fields) {
+        const name = field.signature.attributes.name ?? field.signature.attributes.id ?? '';
+        const match = INDEXED_NAME.exec(name);
+        if (!match) continue;
+
+        const [, prefix, index] = match;
+        const blocks = byPrefix.get(prefix) ?? new Map<number, DetectedField[]>();
+        blocks.set(Number(index), [...(blocks.get(Number(index)) ?? []), field]);
+        byPrefix.set(prefix, blocks);
+    }
+
+    const candidates: Candidate[] = [];
+    for (const [prefix, blocks] of byPrefix) {
+        const groups = Array.from(blocks.entries())
+            .sort(([a], [b]) => a - b)
+            .map(([, group]) => group);
+
+        // A lone indexed field per index ("phone_1", "phone_2") is a list, not blocks
+        if (!groups.some((group) => group.length >= 2)) continue;
+
+        candidates.push({
+            groups,
+            hint: prefix.replace(/[[\]_.-]+/g, ' '),
+            container: getCommonAncestor(groups.flat().map((f) => f.element)),
+            useLabels: true,
+        });
+    }
+    return candidates;
+}
+
+/**
+ * Blocks from sibling elements of the same kind holding the same fields
+ * (labels compared without their numbers, so "Employer 1" matches "Employer 2")
+ */
+function findSiblingBlocks(fields: DetectedField[]): Candidate[] {
+    const candidates: Candidate[] = [];
+    const done = new Set<DetectedField>();
+
+    for (const field of fields) {
+        if (done.has(field)) continue;
+
+        let block = field.element.parentElement;
+        for (let depth = 0; block?.parentElement && depth < MAX_BLOCK_DEPTH; depth++, block = block.parentElement) {
+            const current: Element = block;
+            const siblings = Array.from(current.parentElement!.children).filter(
+                (el) => el.tagName === current.tagName && el.className === current.className
+            );
+            if (siblings.length < 2) continue;
+
+            const groups = siblings.map((el) => fields.filter((f) => !done.has(f) && el.contains(f.element)));
+            const shape = describeBlock(groups[siblings.indexOf(current)]);
+            const matching = groups.filter((group) => group.length >= 2 && describeBlock(group) === shape);
+            if (matching.length < 2) continue;
+
+            candidates.push({
+                groups: matching,
+                hint: getSectionHint(current.parentElement),
+                container: current.parentElement,
+                useLabels: true,
+            });
+            matching.flat().forEach((f) => done.add(f));
+            break;
+        }
+    }
+    return candidates;
+}
+
+/**
+ * Single blocks directly before an "add another" control. Only the control's
+ * text and the nearest heading may name the record type.
+ */
+function findAddableBlocks(root: Document | Element, fields: DetectedField[]): Candidate[] {
+    const candidates: Candidate[] = [];
+    const done = new Set<DetectedField>();
+
+    for (const button of getAddButtons(root)) {
+        let anchor: Element | null = button;
+        for (let depth = 0; anchor && depth < 4; depth++, anchor = anchor.parentElement) {
+            let block: Element | null = anchor.previousElementSibling;
+            let group: DetectedField[] = [];
+            while (block) {
+                const current = block;
+                group = fields.filter((f) => !done.has(f) && current.contains(f.element));
+                if (group.length > 0) break;
+                block = block.previousElementSibling;
+            }
+            if (!block || group.length === 0) continue;
+
+            if (group.length >= 2 && group.length <= MAX_ADDABLE_BLOCK_FIELDS) {
+                candidates.push({
+                    groups: [group],
+                    hint: `${getButtonText(button)} ${getSectionHint(block.parentElement)}`,
+                    container: block.parentElement,
+                    addButton: button,
+                    useLabels: false,
+                });
+                group.forEach((f) => done.add(f));
+            }
+            break;
+        }
+    }
+    return candidates;
+}
+
+/**
+ * The record type a candidate holds, from its hint text, then its field labels
+ */
+function classifyCandidate(candidate: Candidate): RecordType | null {
+    const hint = candidate.hint.toLowerCase();
+    const byHint = RECORD_TYPE_PATTERNS.find(([pattern]) => pattern.test(hint));
+    if (byHint) {
+        return byHint[1];
+    }
+    if (!candidate.useLabels) {
+        return null;
+    }
+
+    const firstBlock = candidate.groups[0];
+    const labels = firstBlock.map((f) => f.signature.normalizedLabel.toLowerCase()).join(' | ');
+    const byLabel = RECORD_TYPE_PATTERNS.find(([pattern]) => pattern.test(labels));
+    if (byLabel) {
+        return byLabel[1];
+    }
+
+    const byClass = firstBlock.map((f) => RECORD_CLASS_HINTS[f.signature.semanticClass]).find(Boolean);
+    return byClass ?? null;
+}
+
+/**
+ * The "add another" control after a candidate's last block, within its container
+ */
+function findAddButton(candidate: Candidate): HTMLElement | undefined {
+    const lastBlock = candidate.groups[candidate.groups.length - 1];
+    const lastField = lastBlock[lastBlock.length - 1]?.element;
+    const scope = candidate.container?.parentElement ?? candidate.container;
+    if (!lastField || !scope) {
+        return undefined;
+    }
+
+    return getAddButtons(scope).find(
+        (button) => (lastField.compareDocumentPosition(button) & Node.DOCUMENT_POSITION_FOLLOWING) !== 0
+    );
+}
+
+/**
+ * Visible "add" controls that can't submit or navigate away
+ */
+function getAddButtons(root: Document | Element): HTMLElement[] {
+    return (querySelectorAllDeep(ADD_BUTTON_SELECTOR, root) as HTMLElement[]).filter((button) => {
+        const text = getButtonText(button);
+        return text.length <= MAX_BUTTON_TEXT_LENGTH &&
+            ADD_BUTTON_TEXT.test(text) &&
+            isSafeToClick(button) &&
+            isElementVisible(button);
+    });
+}
+
+/**
+ * A button is only clicked when it can't submit the form or leave the page
+ */
+function isSafeToClick(element: HTMLElement): boolean {
+    if (element instanceof HTMLButtonElement) {
+        return element.type === 'button';
+    }
+    if (element instanceof HTMLAnchorElement) {
+        const href = element.getAttribute('href');
+        return !href || href.startsWith('#') || href.startsWith('javascript:');
+    }
+    return true;
+}
+
+function getButtonText(button: HTMLElement): string {
+    const text = button instanceof HTMLInputElement ? button.value : button.textContent ?? '';
+    return (text.trim() || button.getAttribute('aria-label') || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Field labels and types of a block, numbers removed
+ */
+function describeBlock(group: DetectedField[]): string {
+    return group
+        .map((f) => `${f.signature.inputType}:${f.signature.normalizedLabel.replace(/\d+/g, '#')}`)
+        .join('|');
+}
+
+/**
+ * Text naming the section a container holds: its id and class, its heading or
+ * legend, and a heading just before it
+ */
+function getSectionHint(container: Element | null): string {
+    if (!container) {
+        return '';
+    }
+
+    const parts = [container.id, typeof container.className === 'string' ? container.className : ''];
+    const heading = container.querySelector('legend, h1, h2, h3, h4, h5, h6');
+    if (heading?.textContent) {
+        parts.push(heading.textContent);
+    }
+
+    const previous = container.previousElementSibling;
+    if (previous && /^(H[1-6]|LEGEND|LABEL|P)$/.test(previous.tagName) && previous.textContent) {
+        parts.push(previous.textContent);
+    }
+
+    return parts.join(' ').replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').slice(0, 200);
+}
+
+/**
+ * The deepest element containing all of the given elements
+ */
+function getCommonAncestor(elements: Element[]): Element | null {
+    let ancestor: Element | null = elements[0]?.parentElement ?? null;
+    while (ancestor && !elements.every((el) => ancestor!.contains(el))) {
+        ancestor = ancestor.parentElement;
+    }
+    return ancestor;
+}
+
+// ============================================================================
+// Adding Blocks
+// ============================================================================
+
+/**
+ * Click a section's "add" control until it has the requested number of extra
+ * blocks, waiting for each new block's fields to appear. Returns how many were added.
+ */
+export async function addSectionBlocks(section: RepeatingSection, count: number): Promise<number> {
+    const button = section.addButtonPath ? queryElementByPath(section.addButtonPath) : null;
+    if (!(button instanceof HTMLElement) || !isSafeToClick(button)) {
+        logger.warn('Add control not found', { recordType: section.recordType });
+        return 0;
+    }
+
+    let added = 0;
+    for (let i = 0; i < count; i++) {
+        const before = countFields();
+        button.click();
+
+        if (!(await waitFor(() => countFields() > before, ADD_BLOCK_TIMEOUT_MS))) {
+            break;
+        }
+        added++;
+    }
+
+    logger.info('Added repeating section blocks', { recordType: section.recordType, added });
+    return added;
+}
+
+function countFields(): number {
+    return querySelectorAllDeep('input, select, textarea').length;
+}
+
+/**
+ * Poll a condition until it holds or the timeout passes
+ */
+function waitFor(condition: () => boolean, timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+
+    return new Promise((resolve) => {
+        const check = () => {
+            if (condition()) {
+                resolve(true);
+            } else if (Date.now() > deadline) {
+                resolve(false);
+            } else {
+                setTimeout(check, 50);
+            }
+        };
+        check();
+    });
+}
@@ -0,0 +1,464 @@
+// Review Overlay
+// In-page panel for reviewing proposed field values before they are typed
+
+import type { AnswerAction, FieldMapping } from '@shared/types';
+import { createLogger } from '@shared/utils';
+import { countWords, exceedsLimits, isLongFormField } from '@shared/matching';
+
+const logger = createLogger('ReviewOverlay');
+
+export type ReviewDecision =
+    | { approved: true; mappings: FieldMapping[] }
+    | { approved: false };
+
+// Rewrites an answer to an open-ended question, resolving with the new text
+export type AnswerReviser = (mapping: FieldMapping, action: AnswerAction, value: string) => Promise<string>;
+
+const HOST_ID = 'formq-review-host';
+
+// Values longer than this are edited in a textarea instead of a single-line input
+const MULTILINE_THRESHOLD = 80;
+
+const SOURCE_LABELS: Record<FieldMapping['source'], string> = {
+    static: 'Profile',
+    llm: 'AI',
+    cache: 'Cached',
+    learned: 'Learned',
+};
+
+const ANSWER_ACTIONS: Array<[AnswerAction, string]> = [
+    ['regenerate', 'Regenerate'],
+    ['shorten', 'Shorten'],
+    ['expand', 'Expand'],
+];
+
+const STYLES = `
+:host { all: initial; }
+.panel {
+    position: fixed;
+    top: 16px;
+    right: 16px;
+    z-index: 2147483647;
+    width: 420px;
+    max-height: calc(100vh - 32px);
+    display: flex;
+    flex-direction: column;
+    background: #141414;
+    color: #fafafa;
+    border: 1px solid #2e2e2e;
+    border-radius: 12px;
+    box-shadow: 0 10px 15px rgba(0, 0, 0, 0.5);
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, sans-serif;
+    font-size: 13px;
+    line-height: 1.4;
+}
+.header {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    padding: 12px 16px;
+    border-bottom: 1px solid #2e2e2e;
+}
+.title { font-size: 15px; font-weight: 600; }
+.toggle-all {
+    background: transparent;
+    border: none;
+    color: #a3a3a3;
+    cursor: pointer;
+    font-size: 12px;
+}
+.toggle-all:hover { color: #fafafa; }
+.rows {
+    overflow-y: auto;
+    padding: 8px 16px;
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+}
+.row {
+    display: grid;
+    grid-template-columns: auto 1fr;
+    gap: 4px 10px;
+    padding: 8px;
+    background: #1f1f1f;
+    border-radius: 8px;
+}
+.row.excluded { opacity: 0.45; }
+.row input[type="checkbox"] { margin-top: 2px; cursor: pointer; }
+.meta { display: flex; align-items: center; gap: 6px; min-width: 0; }
+.label {
+    flex: 1;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+    color: #a3a3a3;
+}
+.badge {
+    padding: 1px 6px;
+    border-radius: 10px;
+    background: rgba(99, 102, 241, 0.2);
+    color: #a5b4fc;
+    font-size: 11px;
+}
+.confidence { font-size: 11px; }
+.confidence.high { color: #22c55e; }
+.confidence.medium { color: #f59e0b; }
+.confidence.low { color: #ef4444; }
+.value {
+    grid-column: 2;
+    width: 100%;
+    box-sizing: border-box;
+    padding: 6px 8px;
+    background: #0a0a0a;
+    color: #fafafa;
+    border: 1px solid #2e2e2e;
+    border-radius: 6px;
+    font: inherit;
+    resize: vertical;
+}
+.value:focus { outline: none; border-color: #6366f1; }
+.tools {
+    grid-column: 2;
+    display: flex;
+    align-items: center;
+    gap: 6px;
+    flex-wrap: wrap;
+}
+.counter { flex: 1; font-size: 11px; color: #a3a3a3; }
+.counter.over { color: #ef4444; }
+button.tool {
+    padding: 2px 8px;
+    background: transparent;
+    color: #a5b4fc;
+    border: 1px solid #2e2e2e;
+    border-radius: 10px;
+    font: inherit;
+    font-size: 11px;
+    cursor: pointer;
+}
+button.tool:hover { border-color: #6366f1; }
+button.tool:disabled { opacity: 0.5; cursor: wait; }
+.tool-error { grid-column: 2; font-size: 11px; color: #ef4444; }
+.footer {
+    display: flex;
+    justify-content: flex-end;
+    gap: 8px;
+    padding: 12px 16px;
+    border-top: 1px solid #2e2e2e;
+}
+button.btn {
+    padding: 8px 14px;
+    border: none;
+    border-radius: 6px;
+    font: inherit;
+    font-weight: 500;
+    cursor: pointer;
+}
+.btn-primary { background: #6366f1; color: white; }
+.btn-primary:hover { background: #4f46e5; }
+.btn-primary:disabled { opacity: 0.5; cursor: not-allowed; }
+.btn-secondary { background: #1f1f1f; color: #fafafa; border: 1px solid #2e2e2e; }
+.btn-secondary:hover { background: #2e2e2e; }
+`;
+
+interface ReviewRow {
+    mapping: FieldMapping;
+    checkbox: HTMLInputElement;
+    input: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+}
+
+// Resolver for the review currently on screen, if any
+let pendingResolve: ((decision: ReviewDecision) => void) | null = null;
+
+/**
+ * Show the review panel and resolve once the user approves or cancels. Answers
+ * to open-ended questions can be rewritten when a reviser is given.
+ */
+export function showReviewOverlay(mappings: FieldMapping[], reviseAnswer?: AnswerReviser): Promise<ReviewDecision> {
+    // Only one review at a time; a superseded review is dropped without
+    // reporting a cancellation, which would clear the new AWAITING_REVIEW state
+    pendingResolve = null;
+    closeReviewOverlay();
+
+    return new Promise((resolve) => {
+        pendingResolve = resolve;
+        renderOverlay(mappings, reviseAnswer);
+        logger.debug('Review overlay shown', { fieldCount: mappings.length });
+    });
+}
+
+/**
+ * Close the review panel, cancelling any pending review
+ */
+export function closeReviewOverlay(): void {
+    document.getElementById(HOST_ID)?.remove();
+    document.removeEventListener('keydown', handleKeydown, true);
+
+    if (pendingResolve) {
+        const resolve = pendingResolve;
+        pendingResolve = null;
+        resolve({ approved: false });
+    }
+}
+
+/**
+ * Check if a review is currently on screen
+ */
+export function isReviewOpen(): boolean {
+    return pendingResolve !== null;
+}
+
+/**
+ * Build the panel inside a closed shadow root so page styles and scripts can't reach it
+ */
+function renderOverlay(mappings: FieldMapping[], reviseAnswer?: AnswerReviser): void {
+    const host = document.createElement('div');
+    host.id = HOST_ID;
+    const shadow = host.attachShadow({ mode: 'closed' });
+
+    const style = document.createElement('style');
+    style.textContent = STYLES;
+    shadow.appendChild(style);
+
+    const panel = createElement('div', 'panel');
+    panel.setAttribute('role', 'dialog');
+    panel.setAttribute('aria-label', 'Review FormQ fill');
+
+    // Header
+    const header = createElement('div', 'header');
+    header.appendChild(createElement('span', 'title', 'Review before filling'));
+    const toggleAll = createElement('button', 'toggle-all', 'Uncheck all') as HTMLButtonElement;
+    header.appendChild(toggleAll);
+    panel.appendChild(header);
+
+    // Rows
+    const rowsContainer = createElement('div', 'rows');
+    const rows = mappings.map((mapping) => {
+        const row = createRow(mapping, reviseAnswer);
+        rowsContainer.appendChild(row.element);
+        return row;
+    });
+    panel.appendChild(rowsContainer);
+
+    // Footer
+    const footer = createElement('div', 'footer');
+    const cancelButton = createElement('button', 'btn btn-secondary', 'Cancel') as HTMLButtonElement;
+    const approveButton = createElement('button', 'btn btn-primary') as HTMLButtonElement;
+    footer.appendChild(cancelButton);
+    footer.appendChild(approveButton);
+    panel.appendChild(footer);
+
+    const updateSelection = () => {
+        const selected = rows.filter((r) => r.checkbox.checked).length;
+        approveButton.textContent = `Fill ${selected} field${selected !== 1 ? 's' : ''}`;
+        approveButton.disabled = selected === 0;
+        toggleAll.textContent = selected === rows.length ? 'Uncheck all' : 'Check all';
+        rows.forEach((r) => r.element.classList.toggle('excluded', !r.checkbox.checked));
+    };
+
+    rows.forEach((r) => r.checkbox.addEventListener('change', updateSelection));
+    updateSelection();
+
+    toggleAll.addEventListener('click', () => {
+        const checkAll = rows.some((r) => !r.checkbox.checked);
+        rows.forEach((r) => { r.checkbox.checked = checkAll; });
+        updateSelection();
+    });
+
+    cancelButton.addEventListener('click', () => finish({ approved: false }));
+    approveButton.addEventListener('click', () => {
+        finish({ approved: true, mappings: collectApprovedMappings(rows) });
+    });
+
+    shadow.appendChild(panel);
+    document.documentElement.appendChild(host);
+    document.addEventListener('keydown', handleKeydown, true);
+
+    approveButton.focus();
+}
+
+/**
+ * Create a single review row for a mapping
+ */
+function createRow(mapping: FieldMapping, reviseAnswer?: AnswerReviser): ReviewRow & { element: HTMLElement } {
+    const element = createElement('div', 'row');
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.checked = true;
+    checkbox.setAttribute('aria-label', `Fill ${mapping.fieldSignature.normalizedLabel}`);
+    element.appendChild(checkbox);
+
+    const meta = createElement('div', 'meta');
+    meta.appendChild(createElement('span', 'label', mapping.fieldSignature.normalizedLabel));
+    meta.appendChild(createElement('span', 'badge', SOURCE_LABELS[mapping.source]));
+    meta.appendChild(createElement(
+        'span',
+        `confidence ${getConfidenceLevel(mapping.confidence)}`,
+        `${Math.round(mapping.confidence * 100)}%`
+    ));
+    element.appendChild(meta);
+
+    const input = createValueInput(mapping);
+
+    // Editing a value implies the user wants it filled
+    input.addEventListener('input', () => {
+        if (!checkbox.checked) {
+            checkbox.checked = true;
+            checkbox.dispatchEvent(new Event('change'));
+        }
+    });
+    element.appendChild(input);
+
+    const row = { mapping, checkbox, input, element };
+    if (isLongFormField(mapping.fieldSignature) && input instanceof HTMLTextAreaElement) {
+        input.rows = 6;
+        appendAnswerTools(row, reviseAnswer);
+    }
+    return row;
+}
+
+/**
+ * Add a length counter and, when answers can be rewritten, the rewrite actions
+ * below an open-ended answer
+ */
+function appendAnswerTools(row: ReviewRow & { element: HTMLElement }, reviseAnswer?: AnswerReviser): void {
+    const { input, element } = row;
+    const limits = row.mapping.fieldSignature.limits;
+
+    const tools = createElement('div', 'tools');
+    const counter = createElement('span', 'counter');
+    tools.appendChild(counter);
+
+    const updateCounter = () => {
+        const parts = [
+            `${countWords(input.value)}${limits?.maxWords ? `/${limits.maxWords}` : ''} words`,
+            `${input.value.length}${limits?.maxLength ? `/${limits.maxLength}` : ''} characters`,
+        ];
+        counter.textContent = parts.join(' · ');
+        counter.classList.toggle('over', exceedsLimits(input.value, limits));
+    };
+    input.addEventListener('input', updateCounter);
+    updateCounter();
+
+    const errorText = createElement('span', 'tool-error');
+    errorText.hidden = true;
+
+    if (reviseAnswer) {
+        const buttons = ANSWER_ACTIONS.map(([action, label]) => {
+            const button = createElement('button', 'tool', label) as HTMLButtonElement;
+            button.addEventListener('click', async () => {
+                buttons.forEach((b) => { b.disabled = true; });
+                button.textContent = 'Writing...';
+                errorText.hidden = true;
+
+                try {
+                    const value = await reviseAnswer(row.mapping, action, input.value);
+                    // The rewrite is the new proposal; only edits made to it count as the user's
+                    row.mapping = { ...row.mapping, value };
+                    input.value = value;
+                    input.dispatchEvent(new Event('input'));
+                } catch (error) {
+                    errorText.textContent = error instanceof Error ? error.message : 'The answer could not be rewritten';
+                    errorText.hidden = false;
+                } finally {
+                    buttons.forEach((b) => { b.disabled = false; });
+                    button.textContent = label;
+                }
+            });
+            tools.appendChild(button);
+            return button;
+        });
+    }
+
+    element.appendChild(tools);
+    element.appendChild(errorText);
+}
+
+/**
+ * Create the value editor: a dropdown for option fields, otherwise a text input or textarea
+ */
+function createValueInput(mapping: FieldMapping): ReviewRow['input'] {
+    const options = mapping.fieldSignature.options;
+
+    if (options?.length) {
+        const select = document.createElement('select');
+        select.className = 'value';
+        for (const option of options) {
+            select.appendChild(new Option(option.label, option.value));
+        }
+        select.value = mapping.value;
+        return select;
+    }
+
+    const multiline = mapping.fieldSignature.inputType === 'textarea' ||
+        mapping.fieldSignature.inputType === 'contenteditable' ||
+        mapping.value.length > MULTILINE_THRESHOLD;
+    const input = multiline
+        ? document.createElement('textarea')
+        : document.createElement('input');
+    input.className = 'value';
+    input.value = mapping.value;
+    if (input instanceof HTMLTextAreaElement) {
+        input.rows = 3;
+    }
+    return input;
+}
+
+/**
+ * Collect checked rows with their (possibly edited) values
+ */
+function collectApprovedMappings(rows: ReviewRow[]): FieldMapping[] {
+    return rows
+        .filter((r) => r.checkbox.checked)
+        .map((r) => {
+            const value = r.input.value;
+            if (value === r.mapping.value) {
+                return r.mapping;
+            }
+
+            // A value the user typed is as certain as it gets
+            return { ...r.mapping, value, confidence: 1.0 };
+        });
+}
+
+/**
+ * Close the panel and resolve the pending review
+ */
+function finish(decision: ReviewDecision): void {
+    const resolve = pendingResolve;
+    pendingResolve = null;
+    closeReviewOverlay();
+
+    logger.debug('Review finished', {
+        approved: decision.approved,
+        fieldCount: decision.approved ? decision.mappings.length : 0,
+    });
+
+    resolve?.(decision);
+}
+
+/**
+ * Escape cancels the review
+ */
+function handleKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Escape' && pendingResolve) {
+        event.stopPropagation();
+        finish({ approved: false });
+    }
+}
+
+function getConfidenceLevel(confidence: number): 'high' | 'medium' | 'low' {
+    if (confidence >= 0.85) return 'high';
+    if (confidence >= 0.6) return 'medium';
+    return 'low';
+}
+
+function createElement(tag: string, className: string, text?: string): HTMLElement {
+    const element = document.createElement(tag);
+    element.className = className;
+    if (text !== undefined) {
+        element.textContent = text;
+    }
+    return element;
+}
@@ -0,0 +1,111 @@
+// Undo Toast
+// In-page notice after a fill, offering to put the previous values back
+
+import { createLogger } from '@shared/utils';
+
+const logger = createLogger('UndoToast');
+
+const HOST_ID = 'formq-undo-host';
+
+// Long enough to notice a wrong fill, short enough not to linger over the form
+const DISMISS_AFTER_MS = 10000;
+
+const STYLES = `
+:host { all: initial; }
+.toast {
+    position: fixed;
+    bottom: 16px;
+    right: 16px;
+    z-index: 2147483647;
+    display: flex;
+    align-items: center;
+    gap: 12px;
+    padding: 10px 12px 10px 16px;
+    background: #141414;
+    color: #fafafa;
+    border: 1px solid #2e2e2e;
+    border-radius: 12px;
+    box-shadow: 0 10px 15px rgba(0, 0, 0, 0.5);
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, sans-serif;
+    font-size: 13px;
+    line-height: 1.4;
+}
+button {
+    border: none;
+    font: inherit;
+    cursor: pointer;
+}
+.undo {
+    padding: 6px 12px;
+    border-radius: 6px;
+    background: #6366f1;
+    color: white;
+    font-weight: 500;
+}
+.undo:hover { background: #4f46e5; }
+.close {
+    background: transparent;
+    color: #a3a3a3;
+    font-size: 16px;
+    line-height: 1;
+}
+.close:hover { color: #fafafa; }
+`;
+
+let dismissTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Show the undo notice, replacing any previous one
+ */
+export function showUndoToast(message: string, onUndo: () => void): void {
+    hideUndoToast();
+
+    const host = document.createElement('div');
+    host.id = HOST_ID;
+    const shadow = host.attachShadow({ mode: 'closed' });
+
+    const style = document.createElement('style');
+    style.textContent = STYLES;
+    shadow.appendChild(style);
+
+    const toast = document.createElement('div');
+    toast.className = 'toast';
+    toast.setAttribute('role', 'status');
+
+    const text = document.createElement('span');
+    text.textContent = message;
+    toast.appendChild(text);
+
+    const undoButton = document.createElement('button');
+    undoButton.className = 'undo';
+    undoButton.textContent = 'Undo fill';
+    undoButton.addEventListener('click', () => {
+        hideUndoToast();
+        onUndo();
+    });
+    toast.appendChild(undoButton);
+
+    const closeButton = document.createElement('button');
+    closeButton.className = 'close';
+    closeButton.textContent = '×';
+    closeButton.setAttribute('aria-label', 'Dismiss');
+    closeButton.addEventListener('click', hideUndoToast);
+    toast.appendChild(closeButton);
+
+    shadow.appendChild(toast);
+    document.documentElement.appendChild(host);
+
+    dismissTimer = setTimeout(hideUndoToast, DISMISS_AFTER_MS);
+    logger.debug('Undo toast shown');
+}
+
+/**
+ * Remove the undo notice, if shown
+ */
+export function hideUndoToast(): void {
+    if (dismissTimer !== null) {
+        clearTimeout(dismissTimer);
+        dismissTimer = null;
+    }
+    document.getElementById(HOST_ID)?.remove();
+}
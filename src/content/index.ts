@@ -3,15 +3,39 @@
 
 import { createLogger } from '@shared/utils';
 import { MessageBus } from '@shared/messaging';
-import { detectForms, startFormObserver } from './FormDetector';
+import { detectForms, startFormObserver, getFormIndexForElement } from './FormDetector';
 import { executeFill } from './FillExecutor';
-import type { FormSignature } from '@shared/types';
+import { MappingQueue } from './MappingQueue';
+import { FillSnapshot } from './FillSnapshot';
+import { getDeepActiveElement } from './DOMUtils';
+import { startEditTracking, trackFilledField, clearTrackedFields } from './EditTracker';
+import { showReviewOverlay, closeReviewOverlay } from './ReviewOverlay';
+import type { AnswerReviser } from './ReviewOverlay';
+import { showUndoToast, hideUndoToast } from './UndoToast';
+import { addSectionBlocks } from './RepeatingSections';
+import type { FieldFillStatus, FormSignature, FillOptions, SkippedField } from '@shared/types';
 
 const logger = createLogger('ContentScript');
 
 // Current detected forms
 let currentForms: FormSignature[] = [];
 
+// Form the user last interacted with (survives focus moving to the popup)
+let lastFocusedFormIndex: number | null = null;
+// When it was focused, so the background can pick the most recent across frames
+let lastFocusedAt: number | null = null;
+
+// Fill running in this frame, if any
+interface ActiveFill {
+    queue: MappingQueue;
+    controller: AbortController;
+    done: Promise<void>;
+}
+let activeFill: ActiveFill | null = null;
+
+// Prior field values from the last fill in this frame, until it is undone or replaced
+let lastSnapshot: FillSnapshot | null = null;
+
 /**
  * Initialize the content script
  */
@@ -24,24 +48,61 @@ function initialize(): void {
     if (currentForms.length > 0) {
         // Notify background about detected forms
         MessageBus.sendToBackground('FORM_DETECTED', {
-            formSignature: currentForms[0]
+            forms: currentForms
         }).catch((error) => {
             logger.error('Failed to notify form detection', { error });
         });
     }
 
-    // Start observing for dynamic forms
+    // Start observing for dynamic forms and steps of multi-step forms
     startFormObserver((forms) => {
+        // Visibility changes fire often (validation styles while typing); only
+        // report when the fields changed, keeping field ids stable otherwise
+        if (!formsChanged(currentForms, forms)) {
+            return;
+        }
+
         currentForms = forms;
         if (forms.length > 0) {
             MessageBus.sendToBackground('FORM_DETECTED', {
-                formSignature: forms[0]
+                forms
             }).catch((error) => {
                 logger.error('Failed to notify dynamic form detection', { error });
             });
         }
     });
 
+    // Drop this frame's forms from the tab's list when it navigates away or is removed
+    window.addEventListener('pagehide', () => {
+        if (currentForms.length > 0) {
+            MessageBus.sendToBackground('FORM_DETECTED', { forms: [] }).catch(() => {
+                // Extension context may already be gone
+            });
+        }
+    });
+
+    // Restored from the back/forward cache: report the forms again
+    window.addEventListener('pageshow', (event) => {
+        if (event.persisted && currentForms.length > 0) {
+            MessageBus.sendToBackground('FORM_DETECTED', { forms: currentForms }).catch((error) => {
+                logger.error('Failed to notify form detection', { error });
+            });
+        }
+    });
+
+    // Remember which form the user is working in
+    document.addEventListener('focusin', (event) => {
+        // event.target is retargeted to the outermost shadow host; use the real target
+        const formIndex = getFormIndexForElement(event.composedPath()[0] as Element | null);
+        if (formIndex !== null) {
+            lastFocusedFormIndex = formIndex;
+            lastFocusedAt = Date.now();
+        }
+    }, true);
+
+    // Watch filled fields for user corrections
+    setupEditTracking();
+
     // Set up message handlers
     setupMessageHandlers();
 
@@ -50,48 +111,313 @@ function initialize(): void {
     });
 }
 
+/**
+ * Report user corrections and form submissions to the background for learning
+ */
+function setupEditTracking(): void {
+    startEditTracking({
+        onEdit: (mapping, newValue) => {
+            const formSignature = findFormForField(mapping.fieldSignature.id);
+            if (!formSignature) {
+                return;
+            }
+
+            MessageBus.sendToBackground('REPORT_EDIT', {
+                formSignature,
+                originalMapping: mapping,
+                newValue,
+            }).catch((error) => {
+                logger.error('Failed to report edit', { error });
+            });
+        },
+        onSubmit: (mappings) => {
+            const formSignature = findFormForField(mappings[0].fieldSignature.id);
+            if (!formSignature) {
+                return;
+            }
+
+            MessageBus.sendToBackground('FORM_SUBMITTED', {
+                formSignature,
+                fieldIds: mappings.map((m) => m.fieldSignature.id),
+            }).catch((error) => {
+                logger.error('Failed to report form submission', { error });
+            });
+        },
+    });
+}
+
+/**
+ * Find the detected form that owns a field
+ */
+function findFormForField(fieldId: string): FormSignature | undefined {
+    return currentForms.find((form) => form.fields.some((f) => f.id === fieldId))
+        ?? currentForms[0];
+}
+
+/**
+ * Check whether re-detected forms differ from the ones last reported
+ */
+function formsChanged(previous: FormSignature[], next: FormSignature[]): boolean {
+    const describe = (forms: FormSignature[]): string => forms
+        // The URL too: in-app navigation to another page with the same form changes its page context
+        .map((form) => `${form.url}:${form.formIndex}:${form.id}:` +
+            form.fields.map((f) => `${f.normalizedLabel}/${f.options?.length ?? 0}`).join(','))
+        .join('|');
+
+    return describe(previous) !== describe(next);
+}
+
 /**
  * Set up message handlers for background communication
  */
 function setupMessageHandlers(): void {
-    // Handle fill commands
-    MessageBus.subscribe(['FILL_COMMAND'], async (message, _sender) => {
-        logger.info('Received fill command', {
+    // Handle focused form queries (default fill target)
+    MessageBus.subscribe(['GET_FOCUSED_FORM'], () => {
+        const activeFormIndex = document.hasFocus()
+            ? getFormIndexForElement(getDeepActiveElement())
+            : null;
+        const formIndex = activeFormIndex ?? lastFocusedFormIndex;
+        const isDetected = currentForms.some((f) => f.formIndex === formIndex);
+
+        if (!isDetected) {
+            return { formIndex: null, focusedAt: null };
+        }
+
+        return {
+            formIndex,
+            focusedAt: activeFormIndex !== null ? Date.now() : lastFocusedAt,
+        };
+    });
+
+    // Handle review requests - respond right away, report the decision once the user makes it
+    MessageBus.subscribe(['SHOW_REVIEW'], (message) => {
+        logger.info('Received review request', {
             fieldCount: message.payload.mappings.length
         });
 
-        const result = await executeFill(message.payload.mappings, {
-            humanize: true,
-            delayMs: 50,
-            onProgress: (completed, total, field) => {
+        const reviseAnswer: AnswerReviser | undefined = message.payload.canRevise
+            ? async (mapping, action, value) => {
+                const response = await MessageBus.sendToBackground('REVISE_ANSWER', {
+                    fieldId: mapping.fieldSignature.id,
+                    action,
+                    value,
+                });
+                if (!response?.value) {
+                    throw new Error(response?.error || 'The answer could not be rewritten');
+                }
+                return response.value;
+            }
+            : undefined;
+
+        showReviewOverlay(message.payload.mappings, reviseAnswer)
+            .then((decision) => decision.approved
+                ? MessageBus.sendToBackground('USER_APPROVED', { mappings: decision.mappings })
+                : MessageBus.sendToBackground('USER_CANCELLED', undefined as never))
+            .catch((error) => {
+                logger.error('Failed to report review decision', { error });
+            });
+    });
+
+    // Handle fill commands - respond right away, report the outcome once the fill ends
+    MessageBus.subscribe(['FILL_COMMAND'], (message) => {
+        const { mappings, options, streaming } = message.payload;
+        logger.info('Received fill command', {
+            fieldCount: mappings.length,
+            streaming: !!streaming,
+        });
+
+        // A new fill replaces the previous one and whatever we were tracking from it
+        stopActiveFill();
+        clearTrackedFields();
+
+        const queue = new MappingQueue();
+        queue.push(mappings);
+        if (!streaming) {
+            queue.end();
+        }
+
+        const fill: ActiveFill = { queue, controller: new AbortController(), done: Promise.resolve() };
+        activeFill = fill;
+
+        fill.done = runFill(fill, options).catch((error) => {
+            logger.error('Fill failed', { error });
+        });
+
+        return { success: true };
+    });
+
+    // Handle mappings streamed in after the fill started
+    MessageBus.subscribe(['FILL_APPEND'], (message) => {
+        activeFill?.queue.push(message.payload.mappings);
+    });
+
+    // Handle the end of a streamed fill
+    MessageBus.subscribe(['FILL_END'], () => {
+        activeFill?.queue.end();
+    });
+
+    // Handle cancellation - stop typing and drop any pending review
+    MessageBus.subscribe(['CANCEL_FILL'], () => {
+        stopActiveFill();
+        closeReviewOverlay();
+    });
+
+    // Handle requests for more blocks in a repeating section, made before a fill maps records to them
+    MessageBus.subscribe(['EXPAND_REPEATING_SECTION'], async (message) => {
+        const { formIndex, recordType, count } = message.payload;
+        const section = currentForms
+            .find((f) => f.formIndex === formIndex)
+            ?.repeatingSections?.find((s) => s.recordType === recordType);
+        if (!section) {
+            return { added: 0, form: null };
+        }
+
+        const added = await addSectionBlocks(section, count);
+        if (added > 0) {
+            // Report now, so the background's form list has the new fields' ids
+            currentForms = detectForms();
+            await MessageBus.sendToBackground('FORM_DETECTED', { forms: currentForms }).catch((error) => {
+                logger.error('Failed to notify form detection', { error });
+            });
+        }
+
+        return { added, form: currentForms.find((f) => f.formIndex === formIndex) ?? null };
+    });
+
+    // Handle undo availability queries
+    MessageBus.subscribe(['GET_FILL_SNAPSHOT'], () => {
+        return { fieldCount: lastSnapshot?.size ?? 0 };
+    });
+
+    // Handle undo - stop any fill still typing, then put the previous values back
+    MessageBus.subscribe(['UNDO_FILL'], async () => {
+        if (activeFill) {
+            const running = activeFill.done;
+            stopActiveFill();
+            await running;
+        }
+
+        hideUndoToast();
+        // Restoring dispatches change events, which must not be reported as user edits
+        clearTrackedFields();
+
+        const result = lastSnapshot?.restore() ?? { restored: 0, skipped: 0 };
+        lastSnapshot = null;
+        return result;
+    });
+}
+
+/**
+ * Fill the queued mappings, reporting each field's outcome, then the overall result
+ */
+async function runFill(fill: ActiveFill, options?: FillOptions): Promise<void> {
+    document.addEventListener('keydown', handleCancelKey, true);
+    hideUndoToast();
+
+    // Set before typing starts so an undo mid-fill covers the fields done so far
+    const snapshot = new FillSnapshot();
+    lastSnapshot = snapshot;
+
+    // Only fields that were filled count as answered
+    const outcomes = new Map<string, FieldFillStatus>();
+
+    try {
+        const result = await executeFill(fill.queue, {
+            ...(options?.humanize !== undefined && { humanize: options.humanize }),
+            ...(options?.delayMs !== undefined && { delayMs: options.delayMs }),
+            signal: fill.controller.signal,
+            snapshot,
+            onFieldFilled: trackFilledField,
+            onProgress: (field, completed, total) => {
+                outcomes.set(field.fieldId, field.status);
                 MessageBus.sendToBackground('FILL_PROGRESS', {
                     completed,
                     total,
-                    currentField: field,
+                    field,
                 }).catch(() => {
                     // Ignore progress notification errors
                 });
             },
         });
 
-        if (result.success) {
+        if (snapshot.size > 0 && lastSnapshot === snapshot) {
+            const fields = `${snapshot.size} field${snapshot.size !== 1 ? 's' : ''}`;
+            showUndoToast(
+                result.cancelled ? `Fill cancelled after ${fields}` : `FormQ filled ${fields}`,
+                requestUndo
+            );
+        }
+
+        // The background already moved on from a cancelled fill
+        if (result.cancelled) {
+            return;
+        }
+
+        const mappings = fill.queue.all;
+        const filledForm = findFormForField(mappings[0]?.fieldSignature.id ?? '');
+        const skippedFields: SkippedField[] = mappings
+            .filter((m) => outcomes.get(m.fieldSignature.id) !== 'filled')
+            .map((m) => ({
+                fieldId: m.fieldSignature.id,
+                reason: outcomes.get(m.fieldSignature.id) === 'skipped' ? 'denylist' : 'error',
+            }));
+
+        if (result.success && filledForm) {
             await MessageBus.sendToBackground('FILL_COMPLETE', {
                 result: {
-                    formSignature: currentForms[0],
-                    mappings: message.payload.mappings,
-                    skippedFields: [],
+                    formSignature: filledForm,
+                    mappings: mappings.filter((m) => outcomes.get(m.fieldSignature.id) === 'filled'),
+                    skippedFields,
                     timestamp: Date.now(),
                     source: 'static',
                 },
             });
-        } else {
+        } else if (!result.success) {
             await MessageBus.sendToBackground('FILL_ERROR', {
                 error: result.errors.join('; '),
                 code: 'UNKNOWN',
             });
         }
+    } finally {
+        document.removeEventListener('keydown', handleCancelKey, true);
+        if (activeFill === fill) {
+            activeFill = null;
+        }
+    }
+}
+
+/**
+ * Abort the fill running in this frame, if any
+ */
+function stopActiveFill(): void {
+    if (activeFill) {
+        activeFill.controller.abort();
+        activeFill.queue.end();
+        activeFill = null;
+    }
+}
+
+/**
+ * Undo from the toast goes through the background, which resets the fill state
+ */
+function requestUndo(): void {
+    MessageBus.sendToBackground('REQUEST_UNDO', undefined as never).catch((error) => {
+        logger.error('Failed to request undo', { error });
+    });
+}
+
+/**
+ * Escape cancels a fill in progress, here and in the background
+ */
+function handleCancelKey(event: KeyboardEvent): void {
+    if (event.key !== 'Escape' || !activeFill) {
+        return;
+    }
 
-        return { success: result.success };
+    event.stopPropagation();
+    stopActiveFill();
+    MessageBus.sendToBackground('REQUEST_CANCEL', undefined as never).catch((error) => {
+        logger.error('Failed to report fill cancellation', { error });
     });
 }
 
@@ -1,8 +1,30 @@
 import { useEffect, useState } from 'react';
-import type { Profile, StaticContext, ContextField } from '@shared/types';
+import type {
+    AnswerLength,
+    AnswerTone,
+    Profile,
+    StaticContext,
+    ContextField,
+    ContextDocument,
+    PostalAddress,
+    ProfileRecord,
+    URLBinding,
+    VaultStatus,
+} from '@shared/types';
 import { MessageBus } from '@shared/messaging';
 import { FieldEditor } from './components/FieldEditor';
+import { AddressEditor } from './components/AddressEditor';
+import { RecordEditor } from './components/RecordEditor';
 import { KnowledgeBaseEditor } from './components/KnowledgeBaseEditor';
+import { DocumentEditor } from './components/DocumentEditor';
+import { ResumeImportWizard } from './components/ResumeImportWizard';
+import { VaultSettings } from './components/VaultSettings';
+import { EncryptionSetting } from './components/EncryptionSetting';
+import { ProviderSettings } from './components/ProviderSettings';
+import { EmbeddingIndexSettings } from './components/EmbeddingIndexSettings';
+import { AutoFillSettings } from './components/AutoFillSettings';
+import { UrlBindingEditor } from './components/UrlBindingEditor';
+import { ProfileTransferSettings } from './components/ProfileTransferSettings';
 import './styles.css';
 
 type Page = 'profiles' | 'settings' | 'privacy' | 'about';
@@ -12,12 +34,18 @@ function App() {
     const [profiles, setProfiles] = useState<Profile[]>([]);
     const [showModal, setShowModal] = useState(false);
     const [editingProfile, setEditingProfile] = useState<Profile | null>(null);
+    const [vaultStatus, setVaultStatus] = useState<VaultStatus | null>(null);
 
     useEffect(() => {
         loadProfiles();
+        loadVaultStatus();
 
-        const unsubscribe = MessageBus.subscribe(['PROFILES_UPDATE'], (message) => {
-            setProfiles(message.payload.profiles);
+        const unsubscribe = MessageBus.subscribe(['PROFILES_UPDATE', 'VAULT_STATUS'], (message) => {
+            if (message.type === 'PROFILES_UPDATE') {
+                setProfiles((message.payload as { profiles: Profile[] }).profiles);
+            } else {
+                setVaultStatus((message.payload as { status: VaultStatus }).status);
+            }
         });
 
         return () => unsubscribe();
@@ -34,6 +62,17 @@ function App() {
         }
     }
 
+    async function loadVaultStatus() {
+        try {
+            const response = await MessageBus.sendToBackground('GET_VAULT_STATUS', undefined as never);
+            if (response?.status) {
+                setVaultStatus(response.status);
+            }
+        } catch (error) {
+            console.error('Failed to load vault status:', error);
+        }
+    }
+
     function openCreateModal() {
         setEditingProfile(null);
         setShowModal(true);
@@ -105,8 +144,8 @@ function App() {
                         onDelete={handleDeleteProfile}
                     />
                 )}
-                {currentPage === 'settings' && <SettingsPage />}
-                {currentPage === 'privacy' && <PrivacyPage />}
+                {currentPage === 'settings' && <SettingsPage profiles={profiles} />}
+                {currentPage === 'privacy' && <PrivacyPage profiles={profiles} vaultStatus={vaultStatus} />}
                 {currentPage === 'about' && <AboutPage />}
             </main>
 
@@ -114,6 +153,7 @@ function App() {
             {showModal && (
                 <ProfileModal
                     profile={editingProfile}
+                    vaultStatus={vaultStatus}
                     onClose={() => setShowModal(false)}
                     onSave={() => {
                         setShowModal(false);
@@ -196,48 +236,75 @@ function ProfilesPage({ profiles, onCreateNew, onEdit, onDelete }: ProfilesPageP
 /* Profile Modal */
 interface ProfileModalProps {
     profile: Profile | null;
+    vaultStatus: VaultStatus | null;
     onClose: () => void;
     onSave: () => void;
 }
 
-function ProfileModal({ profile, onClose, onSave }: ProfileModalProps) {
+function ProfileModal({ profile, vaultStatus, onClose, onSave }: ProfileModalProps) {
     const [name, setName] = useState(profile?.name || '');
     const [fields, setFields] = useState<ContextField[]>(
         profile?.staticContext.fields || []
     );
+    const [address, setAddress] = useState<PostalAddress | undefined>(
+        profile?.staticContext.address
+    );
+    const [records, setRecords] = useState<ProfileRecord[]>(
+        profile?.staticContext.records || []
+    );
+    const [documents, setDocuments] = useState<ContextDocument[]>(
+        profile?.staticContext.documents || []
+    );
     const [knowledgeBase, setKnowledgeBase] = useState(
         profile?.staticContext.knowledgeBase || ''
     );
+    const [autoFill, setAutoFill] = useState(profile?.settings.autoFill ?? false);
+    const [answerTone, setAnswerTone] = useState<AnswerTone>(profile?.settings.answerTone ?? 'professional');
+    const [answerLength, setAnswerLength] = useState<AnswerLength>(profile?.settings.answerLength ?? 'medium');
+    const [urlBindings, setUrlBindings] = useState<URLBinding[]>(profile?.urlBindings || []);
+    const [showExtraction, setShowExtraction] = useState(false);
     const [saving, setSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
 
     async function handleSave() {
         if (!name.trim()) return;
 
         setSaving(true);
+        setSaveError(null);
 
         try {
             const staticContext: StaticContext = {
                 fields,
-                documents: profile?.staticContext.documents || [],
+                documents,
                 knowledgeBase,
                 knowledgeBaseChunks: profile?.staticContext.knowledgeBaseChunks || 0,
+                address,
+                records,
             };
 
-            if (profile) {
-                await MessageBus.sendToBackground('UPDATE_PROFILE', {
+            const response = profile
+                ? await MessageBus.sendToBackground('UPDATE_PROFILE', {
                     profile: {
                         ...profile,
                         name: name.trim(),
                         staticContext,
+                        settings: { ...profile.settings, autoFill, answerTone, answerLength },
+                        urlBindings,
                     },
-                });
-            } else {
-                await MessageBus.sendToBackground('CREATE_PROFILE', {
+                })
+                : await MessageBus.sendToBackground('CREATE_PROFILE', {
                     profile: {
                         name: name.trim(),
                         staticContext,
+                        settings: { autoFill, answerTone, answerLength },
+                        urlBindings,
                     } as Omit<Profile, 'id' | 'createdAt' | 'updatedAt' | 'version'>,
                 });
+
+            // Encrypted fields can't be saved while the vault is locked
+            if (response?.error) {
+                setSaveError(response.error);
+                return;
             }
 
             onSave();
@@ -272,7 +339,92 @@ function ProfileModal({ profile, onClose, onSave }: ProfileModalProps) {
 
                     <div className="form-group">
                         <label className="form-label">Fields</label>
-                        <FieldEditor fields={fields} onChange={setFields} />
+                        <FieldEditor
+                            fields={fields}
+                            onChange={setFields}
+                            canEncrypt={vaultStatus?.configured ?? false}
+                        />
+                        <div style={{ marginTop: '12px' }}>
+                            {showExtraction ? (
+                                <ResumeImportWizard
+                                    profileId={profile?.id}
+                                    documents={documents}
+                                    fields={fields}
+                                    onAddDocument={(doc) => setDocuments((current) => [...current, doc])}
+                                    onAccept={setFields}
+                                    onClose={() => setShowExtraction(false)}
+                                />
+                            ) : (
+                                <button className="btn btn-secondary" onClick={() => setShowExtraction(true)}>
+                                    Fill from Resume
+                                </button>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="form-group">
+                        <label className="form-label">Address</label>
+                        <AddressEditor address={address} onChange={setAddress} />
+                    </div>
+
+                    <div className="form-group">
+                        <label className="form-label">Experience</label>
+                        <RecordEditor records={records} onChange={setRecords} />
+                    </div>
+
+                    <div className="form-group">
+                        <label className="form-label">Sites</label>
+                        <UrlBindingEditor bindings={urlBindings} onChange={setUrlBindings} />
+                    </div>
+
+                    <div className="form-group">
+                        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
+                            <input
+                                type="checkbox"
+                                checked={autoFill}
+                                onChange={(e) => setAutoFill(e.target.checked)}
+                            />
+                            <span className="form-label" style={{ margin: 0 }}>Auto-fill on page load</span>
+                        </label>
+                        <p style={{ fontSize: '12px', color: 'var(--color-text-secondary)', marginTop: '4px' }}>
+                            Fill forms on sites bound to this profile as soon as they load. When several
+                            profiles are bound to a site, the binding with the highest priority wins.
+                        </p>
+                    </div>
+
+                    <div className="form-group">
+                        <label className="form-label">Written Answers</label>
+                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+                            <select
+                                className="form-input"
+                                value={answerTone}
+                                onChange={(e) => setAnswerTone(e.target.value as AnswerTone)}
+                            >
+                                <option value="professional">Professional</option>
+                                <option value="friendly">Friendly</option>
+                                <option value="enthusiastic">Enthusiastic</option>
+                                <option value="formal">Formal</option>
+                                <option value="concise">Concise</option>
+                            </select>
+                            <select
+                                className="form-input"
+                                value={answerLength}
+                                onChange={(e) => setAnswerLength(e.target.value as AnswerLength)}
+                            >
+                                <option value="short">Short (about 80 words)</option>
+                                <option value="medium">Medium (about 150 words)</option>
+                                <option value="long">Long (about 300 words)</option>
+                            </select>
+                        </div>
+                        <p style={{ fontSize: '12px', color: 'var(--color-text-secondary)', marginTop: '4px' }}>
+                            Tone and length of AI answers to open-ended questions such as "Why do you want
+                            to work here?". Limits the form sets always take precedence.
+                        </p>
+                    </div>
+
+                    <div className="form-group">
+                        <label className="form-label">Documents</label>
+                        <DocumentEditor documents={documents} onChange={setDocuments} />
                     </div>
 
                     <div className="form-group">
@@ -286,6 +438,11 @@ function ProfileModal({ profile, onClose, onSave }: ProfileModalProps) {
                 </div>
 
                 <div className="modal-footer">
+                    {saveError && (
+                        <span style={{ fontSize: '14px', color: '#ef4444', marginRight: 'auto' }}>
+                            ✗ {saveError}
+                        </span>
+                    )}
                     <button className="btn btn-secondary" onClick={onClose}>
                         Cancel
                     </button>
@@ -303,69 +460,11 @@ function ProfileModal({ profile, onClose, onSave }: ProfileModalProps) {
 }
 
 /* Settings Page */
-function SettingsPage() {
-    const [apiKey, setApiKey] = useState('');
-    const [saving, setSaving] = useState(false);
-    const [testing, setTesting] = useState(false);
-    const [saveSuccess, setSaveSuccess] = useState<boolean | null>(null);
-    const [testResult, setTestResult] = useState<{ success: boolean; error?: string } | null>(null);
-    const [aiStatus, setAiStatus] = useState<{ available: boolean; chatModel: string; embeddingModel: string } | null>(null);
-
-    // Load AI status on mount
-    useEffect(() => {
-        loadAIStatus();
-    }, []);
-
-    async function loadAIStatus() {
-        try {
-            const response = await MessageBus.sendToBackground('GET_AI_STATUS', undefined as never);
-            if (response) {
-                setAiStatus(response);
-            }
-        } catch (error) {
-            console.error('Failed to load AI status:', error);
-        }
-    }
-
-    async function handleSaveApiKey() {
-        if (!apiKey.trim()) return;
-
-        setSaving(true);
-        setSaveSuccess(null);
-        setTestResult(null);
-
-        try {
-            const response = await MessageBus.sendToBackground('SET_API_KEY', { apiKey: apiKey.trim() });
-            setSaveSuccess(response?.success ?? false);
-
-            if (response?.success) {
-                // Reload AI status after saving
-                await loadAIStatus();
-                setApiKey(''); // Clear input after successful save
-            }
-        } catch (error) {
-            console.error('Failed to save API key:', error);
-            setSaveSuccess(false);
-        } finally {
-            setSaving(false);
-        }
-    }
-
-    async function handleTestConnection() {
-        setTesting(true);
-        setTestResult(null);
-
-        try {
-            const result = await MessageBus.sendToBackground('TEST_API_CONNECTION', undefined as never);
-            setTestResult(result ?? { success: false, error: 'No response' });
-        } catch (error) {
-            console.error('Failed to test connection:', error);
-            setTestResult({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
-        } finally {
-            setTesting(false);
-        }
-    }
+interface SettingsPageProps {
+    profiles: Profile[];
+}
 
+function SettingsPage({ profiles }: SettingsPageProps) {
     return (
         <>
             <header className="page-header">
@@ -374,103 +473,21 @@ function SettingsPage() {
             </header>
 
             <div className="card">
-                <h2 className="card-title">AI Configuration</h2>
+                <h2 className="card-title">AI Providers</h2>
                 <p style={{ color: 'var(--color-text-secondary)', marginBottom: '16px' }}>
-                    Connect to OpenRouter for AI-powered form filling.
+                    Connect OpenRouter, Anthropic, or any OpenAI-compatible server such as Ollama,
+                    llama.cpp or vLLM for AI-powered form filling.
                 </p>
 
-                {/* AI Status */}
-                <div style={{
-                    padding: '12px',
-                    background: aiStatus?.available ? 'rgba(34, 197, 94, 0.1)' : 'rgba(239, 68, 68, 0.1)',
-                    borderRadius: 'var(--radius-md)',
-                    marginBottom: '16px',
-                }}>
-                    <div style={{
-                        display: 'flex',
-                        alignItems: 'center',
-                        gap: '8px',
-                        marginBottom: '4px',
-                    }}>
-                        <span style={{
-                            width: '8px',
-                            height: '8px',
-                            borderRadius: '50%',
-                            background: aiStatus?.available ? '#22c55e' : '#ef4444',
-                        }} />
-                        <strong style={{ fontSize: '14px' }}>
-                            {aiStatus?.available ? 'AI Enabled' : 'AI Disabled'}
-                        </strong>
-                    </div>
-                    {aiStatus && (
-                        <p style={{ fontSize: '12px', color: 'var(--color-text-secondary)', margin: 0 }}>
-                            Chat: {aiStatus.chatModel} | Embeddings: {aiStatus.embeddingModel}
-                        </p>
-                    )}
-                </div>
-
-                <div className="form-group">
-                    <label className="form-label">OpenRouter API Key</label>
-                    <input
-                        type="password"
-                        className="form-input"
-                        placeholder="sk-or-..."
-                        value={apiKey}
-                        onChange={(e) => setApiKey(e.target.value)}
-                    />
-                    <p style={{ fontSize: '12px', color: 'var(--color-text-secondary)', marginTop: '4px' }}>
-                        Get your API key from{' '}
-                        <a href="https://openrouter.ai/keys" target="_blank" rel="noopener noreferrer"
-                            style={{ color: 'var(--color-primary)' }}>
-                            openrouter.ai/keys
-                        </a>
-                    </p>
-                </div>
-
-                <div style={{ display: 'flex', gap: '8px', marginTop: '12px' }}>
-                    <button
-                        className="btn btn-primary"
-                        onClick={handleSaveApiKey}
-                        disabled={saving || !apiKey.trim()}
-                    >
-                        {saving ? 'Saving...' : 'Save API Key'}
-                    </button>
-                    <button
-                        className="btn btn-secondary"
-                        onClick={handleTestConnection}
-                        disabled={testing || !aiStatus?.available}
-                    >
-                        {testing ? 'Testing...' : 'Test Connection'}
-                    </button>
-                </div>
-
-                {/* Feedback Messages */}
-                {saveSuccess === true && (
-                    <p style={{ color: '#22c55e', marginTop: '12px', fontSize: '14px' }}>
-                        ✓ API key saved successfully!
-                    </p>
-                )}
-                {saveSuccess === false && (
-                    <p style={{ color: '#ef4444', marginTop: '12px', fontSize: '14px' }}>
-                        ✗ Failed to save API key.
-                    </p>
-                )}
-                {testResult && (
-                    <p style={{
-                        color: testResult.success ? '#22c55e' : '#ef4444',
-                        marginTop: '12px',
-                        fontSize: '14px',
-                    }}>
-                        {testResult.success
-                            ? '✓ Connection successful!'
-                            : `✗ Connection failed: ${testResult.error || 'Unknown error'}`}
-                    </p>
-                )}
+                <ProviderSettings profiles={profiles} />
+                <EmbeddingIndexSettings profiles={profiles} />
             </div>
 
             <div className="card">
                 <h2 className="card-title">Behavior</h2>
 
+                <AutoFillSettings />
+
                 <div className="toggle-group">
                     <div>
                         <div className="toggle-label">Auto-detect forms</div>
@@ -500,7 +517,12 @@ function SettingsPage() {
 }
 
 /* Privacy Page */
-function PrivacyPage() {
+interface PrivacyPageProps {
+    profiles: Profile[];
+    vaultStatus: VaultStatus | null;
+}
+
+function PrivacyPage({ profiles, vaultStatus }: PrivacyPageProps) {
     return (
         <>
             <header className="page-header">
@@ -515,13 +537,27 @@ function PrivacyPage() {
                     except for AI inference requests (when enabled).
                 </p>
 
-                <div className="toggle-group">
-                    <div>
-                        <div className="toggle-label">Encrypt sensitive fields</div>
-                        <div className="toggle-desc">Encrypt passwords and other sensitive data at rest</div>
-                    </div>
-                    <div className="toggle active" />
-                </div>
+            </div>
+
+            <div className="card">
+                <h2 className="card-title">Encrypted Fields</h2>
+                <p style={{ color: 'var(--color-text-secondary)', marginBottom: '16px' }}>
+                    Fields marked with 🔒 are encrypted at rest with a key derived from your passphrase
+                    and are only decrypted when filling. They are never sent to the AI.
+                </p>
+
+                <EncryptionSetting />
+                <VaultSettings status={vaultStatus} />
+            </div>
+
+            <div className="card">
+                <h2 className="card-title">Import & Export</h2>
+                <p style={{ color: 'var(--color-text-secondary)', marginBottom: '16px' }}>
+                    Back up profiles to a file or move them to another browser. LLM provider choices
+                    and API keys are never exported.
+                </p>
+
+                <ProfileTransferSettings profiles={profiles} />
             </div>
 
             <div className="card">
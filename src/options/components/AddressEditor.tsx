@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import type { PostalAddress } from '@shared/types';
+import { COUNTRIES, REGIONS } from '@shared/constants';
+import { formatAddress, parseAddress } from '@shared/matching';
+
+interface AddressEditorProps {
+    address: PostalAddress | undefined;
+    onChange: (address: PostalAddress | undefined) => void;
+}
+
+const EMPTY_ADDRESS: PostalAddress = {
+    line1: '',
+    city: '',
+    postalCode: '',
+    country: '',
+};
+
+export function AddressEditor({ address, onChange }: AddressEditorProps) {
+    const [pasted, setPasted] = useState('');
+    const current = address ?? EMPTY_ADDRESS;
+    const regions = REGIONS[current.country];
+
+    const handleUpdate = (updates: Partial<PostalAddress>) => {
+        const updated = { ...current, ...updates };
+        const isEmpty = !updated.line1 && !updated.line2 && !updated.city &&
+            !updated.state && !updated.postalCode && !updated.country;
+
+        onChange(isEmpty ? undefined : updated);
+    };
+
+    const handleParse = () => {
+        if (!pasted.trim()) return;
+
+        onChange(parseAddress(pasted, current.country));
+        setPasted('');
+    };
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            <input
+                type="text"
+                className="form-input"
+                placeholder="Street address"
+                value={current.line1}
+                onChange={(e) => handleUpdate({ line1: e.target.value })}
+            />
+            <input
+                type="text"
+                className="form-input"
+                placeholder="Apartment, suite, building (optional)"
+                value={current.line2 ?? ''}
+                onChange={(e) => handleUpdate({ line2: e.target.value || undefined })}
+            />
+            <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr 1fr', gap: '8px' }}>
+                <input
+                    type="text"
+                    className="form-input"
+                    placeholder="City"
+                    value={current.city}
+                    onChange={(e) => handleUpdate({ city: e.target.value })}
+                />
+                {regions ? (
+                    <select
+                        className="form-input"
+                        value={current.state ?? ''}
+                        onChange={(e) => handleUpdate({ state: e.target.value || undefined })}
+                    >
+                        <option value="">State / Province</option>
+                        {regions.map((region) => (
+                            <option key={region.code} value={region.code}>
+                                {region.name}
+                            </option>
+                        ))}
+                    </select>
+                ) : (
+                    <input
+                        type="text"
+                        className="form-input"
+                        placeholder="State / Region"
+                        value={current.state ?? ''}
+                        onChange={(e) => handleUpdate({ state: e.target.value || undefined })}
+                    />
+                )}
+                <input
+                    type="text"
+                    className="form-input"
+                    placeholder="Postal code"
+                    value={current.postalCode}
+                    onChange={(e) => handleUpdate({ postalCode: e.target.value })}
+                />
+            </div>
+            <select
+                className="form-input"
+                value={current.country}
+                onChange={(e) => handleUpdate({ country: e.target.value, state: undefined })}
+            >
+                <option value="">Country</option>
+                {COUNTRIES.map((country) => (
+                    <option key={country.code} value={country.code}>
+                        {country.name}
+                    </option>
+                ))}
+            </select>
+
+            {address && (
+                <div
+                    style={{
+                        padding: '8px',
+                        background: 'var(--color-bg-secondary)',
+                        borderRadius: 'var(--radius-sm)',
+                        fontSize: '13px',
+                        whiteSpace: 'pre-line',
+                        color: 'var(--color-text-secondary)',
+                    }}
+                >
+                    {formatAddress(address)}
+                </div>
+            )}
+
+            {/* Split a pasted one-line address into the fields above */}
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr auto', gap: '8px' }}>
+                <input
+                    type="text"
+                    className="form-input"
+                    placeholder="Or paste a full address, e.g. 1 Main St, Springfield, IL 62701"
+                    value={pasted}
+                    onChange={(e) => setPasted(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleParse()}
+                />
+                <button
+                    className="btn btn-secondary"
+                    onClick={handleParse}
+                    disabled={!pasted.trim()}
+                >
+                    Split
+                </button>
+            </div>
+        </div>
+    );
+}
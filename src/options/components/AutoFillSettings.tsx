@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import type { AppSettings } from '@shared/types';
+import { MessageBus } from '@shared/messaging';
+
+const mutedText = { fontSize: '12px', color: 'var(--color-text-secondary)', margin: 0 };
+
+export function AutoFillSettings() {
+    const [settings, setSettings] = useState<AppSettings | null>(null);
+    const [allowedSites, setAllowedSites] = useState('');
+    const [blockedSites, setBlockedSites] = useState('');
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        loadSettings();
+    }, []);
+
+    async function loadSettings() {
+        try {
+            const response = await MessageBus.sendToBackground('GET_APP_SETTINGS', undefined as never);
+            if (response?.settings) {
+                applySettings(response.settings);
+            }
+        } catch (err) {
+            console.error('Failed to load settings:', err);
+        }
+    }
+
+    function applySettings(next: AppSettings) {
+        setSettings(next);
+        setAllowedSites(next.autoFillAllowedSites.join('\n'));
+        setBlockedSites(next.autoFillBlockedSites.join('\n'));
+    }
+
+    async function saveSettings(changes: Partial<AppSettings>) {
+        const response = await MessageBus.sendToBackground('UPDATE_APP_SETTINGS', { settings: changes });
+        if (response?.settings) {
+            applySettings(response.settings);
+        }
+    }
+
+    async function handleSaveSites() {
+        await saveSettings({
+            autoFillAllowedSites: parseSites(allowedSites),
+            autoFillBlockedSites: parseSites(blockedSites),
+        });
+        setSaved(true);
+        setTimeout(() => setSaved(false), 2000);
+    }
+
+    if (!settings) {
+        return null;
+    }
+
+    return (
+        <>
+            <div className="toggle-group">
+                <div>
+                    <div className="toggle-label">Auto-fill on page load</div>
+                    <div className="toggle-desc">
+                        Fill forms as pages load, for profiles with auto-fill on that are bound to the site
+                    </div>
+                </div>
+                <div
+                    className={`toggle ${settings.autoFillEnabled ? 'active' : ''}`}
+                    role="switch"
+                    aria-checked={settings.autoFillEnabled}
+                    onClick={() => saveSettings({ autoFillEnabled: !settings.autoFillEnabled })}
+                />
+            </div>
+
+            {settings.autoFillEnabled && (
+                <div style={{ padding: '12px 0', borderBottom: '1px solid var(--color-border)' }}>
+                    <div style={{ display: 'flex', gap: '12px' }}>
+                        <div style={{ flex: 1 }}>
+                            <label className="form-label">Only on these sites</label>
+                            <textarea
+                                className="form-input"
+                                placeholder={'One domain per line\nLeave empty for all sites'}
+                                value={allowedSites}
+                                onChange={(e) => setAllowedSites(e.target.value)}
+                                rows={4}
+                                style={{ resize: 'vertical', fontFamily: 'inherit' }}
+                            />
+                        </div>
+                        <div style={{ flex: 1 }}>
+                            <label className="form-label">Never on these sites</label>
+                            <textarea
+                                className="form-input"
+                                placeholder={'One domain per line\ne.g. bank.example.com'}
+                                value={blockedSites}
+                                onChange={(e) => setBlockedSites(e.target.value)}
+                                rows={4}
+                                style={{ resize: 'vertical', fontFamily: 'inherit' }}
+                            />
+                        </div>
+                    </div>
+                    <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '8px' }}>
+                        <button className="btn btn-secondary btn-sm" onClick={handleSaveSites}>
+                            Save sites
+                        </button>
+                        <p style={mutedText}>
+                            {saved ? '✓ Saved' : 'Subdomains are included. A form is not auto-filled again in the same tab for 10 minutes.'}
+                        </p>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
+
+/**
+ * Split a site list typed one per line (commas also accepted)
+ */
+function parseSites(text: string): string[] {
+    return text
+        .split(/[\n,]/)
+        .map((site) => site.trim())
+        .filter(Boolean);
+}
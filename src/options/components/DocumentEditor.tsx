@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import type { ContextDocument } from '@shared/types';
+import { generateId } from '@shared/utils';
+import { DOCUMENT_FILE_ACCEPT, DocumentParseError, guessDocumentType, parseDocumentFile } from '@shared/documents';
+
+interface DocumentEditorProps {
+    documents: ContextDocument[];
+    onChange: (documents: ContextDocument[]) => void;
+}
+
+const FORMAT_LABELS: Record<NonNullable<ContextDocument['format']>, string> = {
+    pdf: 'PDF',
+    docx: 'Word',
+    markdown: 'Markdown',
+    text: 'Text',
+};
+
+const PREVIEW_LENGTH = 1500;
+
+export function DocumentEditor({ documents, onChange }: DocumentEditorProps) {
+    const [reading, setReading] = useState(false);
+    const [errors, setErrors] = useState<string[]>([]);
+
+    const handleFiles = async (files: File[]) => {
+        if (files.length === 0) return;
+
+        setReading(true);
+        setErrors([]);
+
+        const added: ContextDocument[] = [];
+        const failed: string[] = [];
+
+        for (const file of files) {
+            try {
+                const { content, format } = await parseDocumentFile(file);
+                added.push({
+                    id: generateId(),
+                    name: file.name.replace(/\.[^.]+$/, ''),
+                    content,
+                    type: guessDocumentType(file.name),
+                    fileName: file.name,
+                    format,
+                });
+            } catch (err) {
+                const message = err instanceof DocumentParseError ? err.message : 'The file could not be read';
+                failed.push(`${file.name}: ${message}`);
+            }
+        }
+
+        onChange([...documents, ...added]);
+        setErrors(failed);
+        setReading(false);
+    };
+
+    const handleUpdate = (id: string, updates: Partial<ContextDocument>) => {
+        onChange(documents.map((doc) => (doc.id === id ? { ...doc, ...updates } : doc)));
+    };
+
+    const handleRemove = (id: string) => {
+        onChange(documents.filter((doc) => doc.id !== id));
+    };
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            {documents.map((doc) => (
+                <div
+                    key={doc.id}
+                    style={{
+                        padding: '8px',
+                        background: 'var(--color-bg-secondary)',
+                        borderRadius: 'var(--radius-sm)',
+                    }}
+                >
+                    <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr auto', gap: '8px', alignItems: 'center' }}>
+                        <input
+                            type="text"
+                            className="form-input"
+                            value={doc.name}
+                            onChange={(e) => handleUpdate(doc.id, { name: e.target.value })}
+                        />
+                        <select
+                            className="form-input"
+                            value={doc.type}
+                            onChange={(e) => handleUpdate(doc.id, { type: e.target.value as ContextDocument['type'] })}
+                        >
+                            <option value="resume">Resume</option>
+                            <option value="cover_letter">Cover letter</option>
+                            <option value="other">Other</option>
+                        </select>
+                        <button
+                            className="btn btn-danger btn-sm"
+                            onClick={() => handleRemove(doc.id)}
+                            style={{ padding: '4px 8px', fontSize: '12px' }}
+                        >
+                            ×
+                        </button>
+                    </div>
+
+                    <details style={{ marginTop: '6px', fontSize: '12px', color: 'var(--color-text-secondary)' }}>
+                        <summary style={{ cursor: 'pointer' }}>
+                            {[
+                                doc.format && FORMAT_LABELS[doc.format],
+                                `${doc.content.length.toLocaleString()} characters`,
+                                doc.chunkCount ? `${doc.chunkCount} chunk${doc.chunkCount !== 1 ? 's' : ''} embedded` : 'Embedded on save',
+                            ].filter(Boolean).join(' · ')}
+                        </summary>
+                        <pre
+                            style={{
+                                whiteSpace: 'pre-wrap',
+                                maxHeight: '200px',
+                                overflowY: 'auto',
+                                marginTop: '6px',
+                                fontFamily: 'inherit',
+                            }}
+                        >
+                            {doc.content.slice(0, PREVIEW_LENGTH)}
+                            {doc.content.length > PREVIEW_LENGTH && '…'}
+                        </pre>
+                    </details>
+                </div>
+            ))}
+
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                <label className="btn btn-secondary" style={{ cursor: reading ? 'wait' : 'pointer' }}>
+                    {reading ? 'Reading...' : '+ Upload Document'}
+                    <input
+                        type="file"
+                        accept={DOCUMENT_FILE_ACCEPT}
+                        multiple
+                        disabled={reading}
+                        style={{ display: 'none' }}
+                        onChange={(e) => {
+                            handleFiles(Array.from(e.target.files ?? []));
+                            e.target.value = '';
+                        }}
+                    />
+                </label>
+                <span style={{ fontSize: '12px', color: 'var(--color-text-secondary)' }}>
+                    PDF, Word (.docx), Markdown or text. Text is extracted in your browser.
+                </span>
+            </div>
+
+            {errors.map((error) => (
+                <span key={error} style={{ fontSize: '14px', color: '#ef4444' }}>
+                    ✗ {error}
+                </span>
+            ))}
+        </div>
+    );
+}
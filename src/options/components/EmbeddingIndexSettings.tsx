@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import type { EmbeddingIndexStatus, Profile } from '@shared/types';
+import { MessageBus } from '@shared/messaging';
+
+interface EmbeddingIndexSettingsProps {
+    profiles: Profile[];
+}
+
+const mutedText = { fontSize: '12px', color: 'var(--color-text-secondary)', margin: 0 };
+
+export function EmbeddingIndexSettings({ profiles }: EmbeddingIndexSettingsProps) {
+    const [statuses, setStatuses] = useState<Record<string, EmbeddingIndexStatus>>({});
+    const [error, setError] = useState<string | null>(null);
+
+    // Profiles change when their provider does, which may change the model
+    useEffect(() => {
+        loadStatuses();
+    }, [profiles]);
+
+    useEffect(() => {
+        const unsubscribe = MessageBus.subscribe(['EMBEDDING_INDEX_UPDATE'], (message) => {
+            const { status } = message.payload as { status: EmbeddingIndexStatus };
+            setStatuses((prev) => ({ ...prev, [status.profileId]: status }));
+        });
+
+        return () => unsubscribe();
+    }, []);
+
+    async function loadStatuses() {
+        try {
+            const response = await MessageBus.sendToBackground('GET_EMBEDDING_INDEX', undefined as never);
+            if (response?.profiles) {
+                setStatuses(Object.fromEntries(response.profiles.map((s) => [s.profileId, s])));
+            }
+        } catch (err) {
+            console.error('Failed to load embedding index:', err);
+        }
+    }
+
+    async function handleReindex(profileId: string) {
+        setError(null);
+
+        const response = await MessageBus.sendToBackground('REINDEX_PROFILE', { profileId });
+        if (!response?.success) {
+            setError(response?.error || 'Failed to start re-index');
+        }
+    }
+
+    if (profiles.length === 0) {
+        return null;
+    }
+
+    return (
+        <div style={{ marginTop: '20px' }}>
+            <label className="form-label">Embedding Index</label>
+            <p style={{ ...mutedText, marginBottom: '8px' }}>
+                Learned examples, documents and knowledge base are re-embedded automatically when a
+                profile's embedding model changes. Until then, vectors from the old model are skipped.
+            </p>
+
+            {profiles.map((profile) => {
+                const status = statuses[profile.id];
+                const job = status?.job;
+                const busy = job?.state === 'queued' || job?.state === 'running';
+                const percent = job && job.total > 0 ? Math.round((job.completed / job.total) * 100) : 0;
+
+                return (
+                    <div
+                        key={profile.id}
+                        style={{
+                            padding: '12px',
+                            border: '1px solid var(--color-border)',
+                            borderRadius: 'var(--radius-md)',
+                            marginBottom: '8px',
+                        }}
+                    >
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' }}>
+                            <div>
+                                <strong style={{ fontSize: '14px' }}>{profile.name}</strong>
+                                <p style={mutedText}>
+                                    {status
+                                        ? `${status.embeddingModel} · ${status.vectorCount} vectors`
+                                        : 'Loading...'}
+                                    {status && status.staleCount > 0 && (
+                                        <span style={{ color: '#f59e0b' }}> · {status.staleCount} need re-embedding</span>
+                                    )}
+                                </p>
+                            </div>
+                            <button
+                                className="btn btn-secondary btn-sm"
+                                onClick={() => handleReindex(profile.id)}
+                                disabled={!status || busy}
+                                style={{ flexShrink: 0 }}
+                            >
+                                {job?.state === 'running' ? 'Re-indexing...' : job?.state === 'queued' ? 'Queued' : 'Re-index'}
+                            </button>
+                        </div>
+
+                        {job?.state === 'running' && (
+                            <div style={{ marginTop: '8px' }}>
+                                <div style={{
+                                    height: '6px',
+                                    background: 'var(--color-border)',
+                                    borderRadius: '3px',
+                                    overflow: 'hidden',
+                                }}>
+                                    <div style={{
+                                        width: `${percent}%`,
+                                        height: '100%',
+                                        background: 'var(--color-primary)',
+                                        transition: 'width 0.2s',
+                                    }} />
+                                </div>
+                                <p style={{ ...mutedText, marginTop: '4px' }}>
+                                    {job.completed} of {job.total} items embedded
+                                </p>
+                            </div>
+                        )}
+
+                        {job?.state === 'error' && (
+                            <p style={{ color: '#ef4444', marginTop: '8px', fontSize: '13px' }}>
+                                ✗ Re-index failed: {job.error || 'Unknown error'}. The previous vectors are kept.
+                            </p>
+                        )}
+                    </div>
+                );
+            })}
+
+            {error && (
+                <p style={{ color: '#ef4444', marginTop: '12px', fontSize: '14px' }}>
+                    ✗ {error}
+                </p>
+            )}
+        </div>
+    );
+}
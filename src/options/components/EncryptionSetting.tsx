@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import type { AppSettings } from '@shared/types';
+import { MessageBus } from '@shared/messaging';
+
+export function EncryptionSetting() {
+    const [settings, setSettings] = useState<AppSettings | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadSettings();
+    }, []);
+
+    async function loadSettings() {
+        try {
+            const response = await MessageBus.sendToBackground('GET_APP_SETTINGS', undefined as never);
+            if (response?.settings) {
+                setSettings(response.settings);
+            }
+        } catch (err) {
+            console.error('Failed to load settings:', err);
+        }
+    }
+
+    // Every profile's 🔒 fields are stored again, so this can take a moment
+    async function handleToggle() {
+        if (!settings || busy) return;
+
+        setBusy(true);
+        setError(null);
+
+        try {
+            const response = await MessageBus.sendToBackground('UPDATE_APP_SETTINGS', {
+                settings: { encryptSensitiveFields: !settings.encryptSensitiveFields },
+            });
+            if (response?.settings) {
+                setSettings(response.settings);
+            }
+            if (response?.error) {
+                setError(response.error);
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    if (!settings) {
+        return null;
+    }
+
+    return (
+        <div className="toggle-group">
+            <div>
+                <div className="toggle-label">Encrypt 🔒 fields at rest</div>
+                <div className="toggle-desc">
+                    When off, 🔒 fields are stored as plain text but are still never cached, learned or sent to the AI
+                </div>
+                {error && (
+                    <div style={{ fontSize: '12px', color: '#ef4444', marginTop: '4px' }}>
+                        ✗ {error}
+                    </div>
+                )}
+            </div>
+            <div
+                className={`toggle ${settings.encryptSensitiveFields ? 'active' : ''}`}
+                role="switch"
+                aria-checked={settings.encryptSensitiveFields}
+                aria-disabled={busy}
+                onClick={handleToggle}
+            />
+        </div>
+    );
+}
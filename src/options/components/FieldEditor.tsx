@@ -1,12 +1,15 @@
 import { useState } from 'react';
 import type { ContextField } from '@shared/types';
+import { isEncryptedValue } from '@shared/utils';
+import { inferFieldCategory } from '@shared/matching';
 
 interface FieldEditorProps {
     fields: ContextField[];
     onChange: (fields: ContextField[]) => void;
+    canEncrypt: boolean;  // A vault passphrase has been set
 }
 
-export function FieldEditor({ fields, onChange }: FieldEditorProps) {
+export function FieldEditor({ fields, onChange, canEncrypt }: FieldEditorProps) {
     const [newFieldKey, setNewFieldKey] = useState('');
     const [newFieldValue, setNewFieldValue] = useState('');
     const [editingIndex, setEditingIndex] = useState<number | null>(null);
@@ -23,7 +26,7 @@ export function FieldEditor({ fields, onChange }: FieldEditorProps) {
         const newField: ContextField = {
             key: newFieldKey.trim(),
             value: newFieldValue.trim(),
-            category: 'custom',
+            category: inferFieldCategory(newFieldKey),
             isEncrypted: false,
         };
 
@@ -41,7 +44,6 @@ export function FieldEditor({ fields, onChange }: FieldEditorProps) {
             i === index ? { ...field, ...updates } : field
         );
         onChange(updated);
-        setEditingIndex(null);
     };
 
     return (
@@ -62,11 +64,13 @@ export function FieldEditor({ fields, onChange }: FieldEditorProps) {
                     >
                         {editingIndex === index ? (
                             <>
+                                {/* Stored ciphertext can't be edited, only replaced */}
                                 <input
-                                    type="text"
+                                    type={field.isEncrypted ? 'password' : 'text'}
                                     className="form-input"
                                     style={{ flex: 1 }}
-                                    value={field.value}
+                                    value={isEncryptedValue(field.value) ? '' : field.value}
+                                    placeholder={isEncryptedValue(field.value) ? 'Enter a new value' : undefined}
                                     onChange={(e) =>
                                         handleUpdateField(index, { value: e.target.value })
                                     }
@@ -81,9 +85,24 @@ export function FieldEditor({ fields, onChange }: FieldEditorProps) {
                                         {field.key}
                                     </div>
                                     <div style={{ fontSize: '14px', color: 'var(--color-text-primary)' }}>
-                                        {field.value || '(empty)'}
+                                        {field.isEncrypted && field.value ? '••••••••' : (field.value || '(empty)')}
                                     </div>
                                 </div>
+                                <button
+                                    className="btn btn-secondary btn-sm"
+                                    onClick={() => handleUpdateField(index, { isEncrypted: !field.isEncrypted })}
+                                    disabled={!canEncrypt && !field.isEncrypted}
+                                    title={
+                                        field.isEncrypted
+                                            ? 'Encrypted at rest - click to store as plain text'
+                                            : canEncrypt
+                                                ? 'Encrypt this value at rest'
+                                                : 'Set a vault passphrase under Privacy to encrypt fields'
+                                    }
+                                    style={{ padding: '4px 8px', fontSize: '12px' }}
+                                >
+                                    {field.isEncrypted ? '🔒' : '🔓'}
+                                </button>
                                 <button
                                     className="btn btn-secondary btn-sm"
                                     onClick={() => setEditingIndex(index)}
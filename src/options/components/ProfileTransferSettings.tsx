@@ -0,0 +1,340 @@
+import { useState } from 'react';
+import type { Profile, ProfileImportMode, ProfileImportPreview, ProfileImportResult } from '@shared/types';
+import { MessageBus } from '@shared/messaging';
+
+interface ProfileTransferSettingsProps {
+    profiles: Profile[];
+}
+
+const mutedText = { fontSize: '12px', color: 'var(--color-text-secondary)', margin: 0 };
+const errorText = { fontSize: '14px', color: '#ef4444' };
+const checkboxLabel = { display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer', fontSize: '14px' };
+
+const CONFLICT_LABELS: Record<NonNullable<ProfileImportPreview['conflict']>, string> = {
+    id: 'Matches an existing profile',
+    name: 'Same name as an existing profile',
+};
+
+export function ProfileTransferSettings({ profiles }: ProfileTransferSettingsProps) {
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '24px' }}>
+            <ExportSection profiles={profiles} />
+            <div style={{ borderTop: '1px solid var(--color-border)' }} />
+            <ImportSection />
+        </div>
+    );
+}
+
+function ExportSection({ profiles }: ProfileTransferSettingsProps) {
+    const [profileId, setProfileId] = useState('');
+    const [includeLearnedExamples, setIncludeLearnedExamples] = useState(true);
+    const [includeKnowledgeBase, setIncludeKnowledgeBase] = useState(true);
+    const [passphrase, setPassphrase] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [status, setStatus] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleExport = async () => {
+        setBusy(true);
+        setStatus(null);
+        setError(null);
+
+        try {
+            const response = await MessageBus.sendToBackground('EXPORT_PROFILES', {
+                profileIds: profileId ? [profileId] : undefined,
+                options: {
+                    includeLearnedExamples,
+                    includeKnowledgeBase,
+                    passphrase: passphrase || undefined,
+                },
+            });
+
+            if (!response?.data) {
+                setError(response?.error || 'Export failed');
+                return;
+            }
+
+            const name = profiles.find((p) => p.id === profileId)?.name ?? 'profiles';
+            downloadFile(response.data, `formq-${toFileName(name)}-${new Date().toISOString().slice(0, 10)}.json`);
+
+            const omitted = response.omittedEncryptedFields ?? 0;
+            setStatus(omitted > 0
+                ? `✓ Exported. ${omitted} encrypted field${omitted !== 1 ? 's were' : ' was'} left out - set a passphrase to include them.`
+                : '✓ Exported');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            <h3 style={{ fontSize: '15px', margin: 0 }}>Export</h3>
+
+            <select className="form-input" value={profileId} onChange={(e) => setProfileId(e.target.value)}>
+                <option value="">All profiles ({profiles.length})</option>
+                {profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+            </select>
+
+            <label style={checkboxLabel}>
+                <input
+                    type="checkbox"
+                    checked={includeLearnedExamples}
+                    onChange={(e) => setIncludeLearnedExamples(e.target.checked)}
+                />
+                Include learned examples
+            </label>
+            <label style={checkboxLabel}>
+                <input
+                    type="checkbox"
+                    checked={includeKnowledgeBase}
+                    onChange={(e) => setIncludeKnowledgeBase(e.target.checked)}
+                />
+                Include knowledge base and documents
+            </label>
+
+            <div>
+                <input
+                    type="password"
+                    className="form-input"
+                    placeholder="Passphrase (optional)"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                />
+                <p style={{ ...mutedText, marginTop: '4px' }}>
+                    Encrypts the file. Encrypted fields are only exported into protected files.
+                </p>
+            </div>
+
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                <button
+                    className="btn btn-primary"
+                    onClick={handleExport}
+                    disabled={busy || profiles.length === 0}
+                >
+                    {busy ? 'Exporting...' : 'Export'}
+                </button>
+                {status && <p style={mutedText}>{status}</p>}
+                {error && <span style={errorText}>✗ {error}</span>}
+            </div>
+        </div>
+    );
+}
+
+function ImportSection() {
+    const [fileName, setFileName] = useState('');
+    const [data, setData] = useState<string | null>(null);
+    const [passphrase, setPassphrase] = useState('');
+    const [needsPassphrase, setNeedsPassphrase] = useState(false);
+    const [preview, setPreview] = useState<ProfileImportPreview[] | null>(null);
+    const [mode, setMode] = useState<ProfileImportMode>('merge');
+    const [busy, setBusy] = useState(false);
+    const [result, setResult] = useState<ProfileImportResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [details, setDetails] = useState<string[]>([]);
+
+    const reset = () => {
+        setPreview(null);
+        setResult(null);
+        setError(null);
+        setDetails([]);
+    };
+
+    const loadPreview = async (text: string, filePassphrase?: string) => {
+        setBusy(true);
+        reset();
+
+        try {
+            const response = await MessageBus.sendToBackground('PREVIEW_PROFILE_IMPORT', {
+                data: text,
+                passphrase: filePassphrase,
+            });
+
+            setNeedsPassphrase(!!response?.needsPassphrase);
+            if (response?.profiles) {
+                setPreview(response.profiles);
+            } else {
+                setError(response?.error || 'Failed to read file');
+                setDetails(response?.details ?? []);
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+
+        const text = await file.text();
+        setFileName(file.name);
+        setData(text);
+        setPassphrase('');
+        await loadPreview(text);
+    };
+
+    const handleImport = async () => {
+        if (!data) return;
+
+        setBusy(true);
+        setError(null);
+        setDetails([]);
+
+        try {
+            const response = await MessageBus.sendToBackground('IMPORT_PROFILES', {
+                data,
+                passphrase: passphrase || undefined,
+                mode,
+            });
+
+            if (response?.result) {
+                setResult(response.result);
+                setPreview(null);
+                setData(null);
+            } else {
+                setError(response?.error || 'Import failed');
+                setDetails(response?.details ?? []);
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const hasConflicts = preview?.some((p) => p.conflict !== null) ?? false;
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            <h3 style={{ fontSize: '15px', margin: 0 }}>Import</h3>
+
+            <input
+                type="file"
+                accept=".json,application/json"
+                onChange={(e) => {
+                    handleFile(e.target.files?.[0]);
+                    e.target.value = '';
+                }}
+            />
+
+            {data && needsPassphrase && (
+                <div style={{ display: 'flex', gap: '8px' }}>
+                    <input
+                        type="password"
+                        className="form-input"
+                        placeholder={`Passphrase for ${fileName}`}
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && passphrase && loadPreview(data, passphrase)}
+                    />
+                    <button
+                        className="btn btn-secondary"
+                        onClick={() => loadPreview(data, passphrase)}
+                        disabled={busy || !passphrase}
+                    >
+                        Open
+                    </button>
+                </div>
+            )}
+
+            {preview && (
+                <>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                        {preview.map((profile, index) => (
+                            <div
+                                key={index}
+                                style={{
+                                    display: 'flex',
+                                    justifyContent: 'space-between',
+                                    padding: '8px 12px',
+                                    background: 'var(--color-bg-secondary)',
+                                    borderRadius: 'var(--radius-sm)',
+                                    fontSize: '14px',
+                                }}
+                            >
+                                <span>
+                                    {profile.name}
+                                    <span style={{ color: 'var(--color-text-secondary)' }}>
+                                        {' '}· {profile.fieldCount} field{profile.fieldCount !== 1 ? 's' : ''}
+                                        {profile.learnedExampleCount > 0 && `, ${profile.learnedExampleCount} learned`}
+                                    </span>
+                                </span>
+                                <span style={{ color: profile.conflict ? '#f59e0b' : 'var(--color-text-secondary)' }}>
+                                    {profile.conflict ? CONFLICT_LABELS[profile.conflict] : 'New'}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+
+                    {hasConflicts && (
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                            <label style={checkboxLabel}>
+                                <input
+                                    type="radio"
+                                    name="import-mode"
+                                    checked={mode === 'merge'}
+                                    onChange={() => setMode('merge')}
+                                />
+                                Merge - add imported fields, documents and sites to matching profiles
+                            </label>
+                            <label style={checkboxLabel}>
+                                <input
+                                    type="radio"
+                                    name="import-mode"
+                                    checked={mode === 'replace'}
+                                    onChange={() => setMode('replace')}
+                                />
+                                Replace - overwrite matching profiles with the imported ones
+                            </label>
+                        </div>
+                    )}
+
+                    <div>
+                        <button className="btn btn-primary" onClick={handleImport} disabled={busy}>
+                            {busy ? 'Importing...' : `Import ${preview.length} profile${preview.length !== 1 ? 's' : ''}`}
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {result && (
+                <p style={mutedText}>
+                    ✓ Imported: {result.created} created, {result.merged} merged, {result.replaced} replaced
+                </p>
+            )}
+
+            {error && (
+                <div>
+                    <span style={errorText}>✗ {error}</span>
+                    {details.length > 0 && (
+                        <ul style={{ ...mutedText, paddingLeft: '20px', marginTop: '4px' }}>
+                            {details.map((detail) => (
+                                <li key={detail}><code>{detail}</code></li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Save text as a file through a temporary download link
+ */
+function downloadFile(text: string, fileName: string): void {
+    const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+function toFileName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile';
+}
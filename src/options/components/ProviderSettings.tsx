@@ -0,0 +1,398 @@
+import { useEffect, useState } from 'react';
+import type { LLMProviderSummary, LLMProviderType, Profile } from '@shared/types';
+import { LLM_PROVIDER_PRESETS } from '@shared/constants';
+import { MessageBus } from '@shared/messaging';
+
+interface ProviderSettingsProps {
+    profiles: Profile[];
+}
+
+interface ProviderDraft {
+    id?: string;
+    name: string;
+    type: LLMProviderType;
+    baseUrl: string;
+    apiKey: string;         // Blank keeps the saved key when editing
+    chatModel: string;
+    embeddingModel: string;
+    hasApiKey: boolean;
+    hint?: string;
+}
+
+const PROVIDER_TYPE_LABELS: Record<LLMProviderType, string> = {
+    openrouter: 'OpenRouter',
+    openai_compatible: 'OpenAI-compatible',
+    anthropic: 'Anthropic',
+};
+
+const mutedText = { fontSize: '12px', color: 'var(--color-text-secondary)', margin: 0 };
+
+export function ProviderSettings({ profiles }: ProviderSettingsProps) {
+    const [providers, setProviders] = useState<LLMProviderSummary[]>([]);
+    const [defaultProviderId, setDefaultProviderId] = useState<string | null>(null);
+    const [draft, setDraft] = useState<ProviderDraft | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [testingId, setTestingId] = useState<string | null>(null);
+    const [testResult, setTestResult] = useState<{ providerId: string; success: boolean; error?: string } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadProviders();
+    }, []);
+
+    const defaultProvider = providers.find((p) => p.id === defaultProviderId);
+
+    async function loadProviders() {
+        try {
+            const response = await MessageBus.sendToBackground('GET_LLM_PROVIDERS', undefined as never);
+            if (response) {
+                setProviders(response.providers);
+                setDefaultProviderId(response.defaultProviderId);
+            }
+        } catch (err) {
+            console.error('Failed to load providers:', err);
+        }
+    }
+
+    function startAdd(presetIndex: number) {
+        const preset = LLM_PROVIDER_PRESETS[presetIndex];
+        setError(null);
+        setDraft({
+            name: preset.label,
+            type: preset.type,
+            baseUrl: preset.baseUrl,
+            apiKey: '',
+            chatModel: preset.chatModel,
+            embeddingModel: preset.embeddingModel ?? '',
+            hasApiKey: false,
+            hint: preset.hint,
+        });
+    }
+
+    function startEdit(provider: LLMProviderSummary) {
+        setError(null);
+        setDraft({
+            id: provider.id,
+            name: provider.name,
+            type: provider.type,
+            baseUrl: provider.baseUrl,
+            apiKey: '',
+            chatModel: provider.chatModel,
+            embeddingModel: provider.embeddingModel ?? '',
+            hasApiKey: provider.hasApiKey,
+        });
+    }
+
+    async function handleSave() {
+        if (!draft) return;
+
+        setSaving(true);
+        setError(null);
+
+        try {
+            const response = await MessageBus.sendToBackground('SAVE_LLM_PROVIDER', {
+                provider: {
+                    id: draft.id,
+                    name: draft.name,
+                    type: draft.type,
+                    baseUrl: draft.baseUrl,
+                    apiKey: draft.apiKey || (draft.hasApiKey ? undefined : ''),
+                    chatModel: draft.chatModel,
+                    embeddingModel: draft.type === 'anthropic' ? undefined : draft.embeddingModel,
+                },
+            });
+
+            if (response?.provider) {
+                setDraft(null);
+                await loadProviders();
+            } else {
+                setError(response?.error || 'Failed to save provider');
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    async function handleDelete(provider: LLMProviderSummary) {
+        const pinned = profiles.filter((p) => p.settings.providerId === provider.id);
+        const warning = pinned.length > 0
+            ? ` ${pinned.length} profile(s) use it and will have AI disabled until you choose another provider.`
+            : '';
+        if (!confirm(`Delete provider "${provider.name}"?${warning}`)) return;
+
+        const response = await MessageBus.sendToBackground('DELETE_LLM_PROVIDER', { providerId: provider.id });
+        if (!response?.success) {
+            setError(response?.error || 'Failed to delete provider');
+        }
+        await loadProviders();
+    }
+
+    async function handleSetDefault(providerId: string) {
+        const response = await MessageBus.sendToBackground('SET_DEFAULT_LLM_PROVIDER', { providerId });
+        if (!response?.success) {
+            setError(response?.error || 'Failed to set default provider');
+        }
+        await loadProviders();
+    }
+
+    async function handleTest(providerId: string) {
+        setTestingId(providerId);
+        setTestResult(null);
+
+        try {
+            const result = await MessageBus.sendToBackground('TEST_API_CONNECTION', { providerId });
+            setTestResult({ providerId, ...(result ?? { success: false, error: 'No response' }) });
+        } catch (err) {
+            setTestResult({ providerId, success: false, error: err instanceof Error ? err.message : 'Unknown error' });
+        } finally {
+            setTestingId(null);
+        }
+    }
+
+    async function handleProfileProvider(profile: Profile, providerId: string) {
+        setError(null);
+
+        try {
+            const response = await MessageBus.sendToBackground('UPDATE_PROFILE', {
+                profile: {
+                    ...profile,
+                    settings: { ...profile.settings, providerId: providerId || undefined },
+                },
+            });
+            if (response?.error) {
+                setError(response.error);
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+    }
+
+    return (
+        <div>
+            {/* AI Status */}
+            <div style={{
+                padding: '12px',
+                background: defaultProvider?.configured ? 'rgba(34, 197, 94, 0.1)' : 'rgba(239, 68, 68, 0.1)',
+                borderRadius: 'var(--radius-md)',
+                marginBottom: '16px',
+            }}>
+                <strong style={{ fontSize: '14px' }}>
+                    {defaultProvider?.configured ? `AI Enabled - ${defaultProvider.name}` : 'AI Disabled'}
+                </strong>
+                <p style={mutedText}>
+                    {defaultProvider
+                        ? `Chat: ${defaultProvider.chatModel || 'not set'} | Embeddings: ${defaultProvider.embeddingModel || 'on-device'}`
+                        : 'Add a provider to enable AI-powered form filling. Without one, fills use your profile and past answers, with on-device retrieval.'}
+                </p>
+            </div>
+
+            {/* Provider list */}
+            {providers.map((provider) => (
+                <div
+                    key={provider.id}
+                    style={{
+                        padding: '12px',
+                        border: '1px solid var(--color-border)',
+                        borderRadius: 'var(--radius-md)',
+                        marginBottom: '8px',
+                    }}
+                >
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' }}>
+                        <div>
+                            <strong style={{ fontSize: '14px' }}>{provider.name}</strong>
+                            {provider.id === defaultProviderId && (
+                                <span style={{ ...mutedText, marginLeft: '8px' }}>Default</span>
+                            )}
+                            {!provider.configured && (
+                                <span style={{ fontSize: '12px', color: '#ef4444', marginLeft: '8px' }}>Incomplete</span>
+                            )}
+                            <p style={mutedText}>
+                                {PROVIDER_TYPE_LABELS[provider.type]} · {provider.baseUrl}
+                            </p>
+                            <p style={mutedText}>
+                                Chat: {provider.chatModel || 'not set'} | Embeddings: {provider.embeddingModel || 'on-device'}
+                            </p>
+                        </div>
+                        <div style={{ display: 'flex', gap: '4px', flexShrink: 0 }}>
+                            <button
+                                className="btn btn-secondary btn-sm"
+                                onClick={() => handleTest(provider.id)}
+                                disabled={testingId !== null || !provider.configured}
+                            >
+                                {testingId === provider.id ? 'Testing...' : 'Test'}
+                            </button>
+                            {provider.id !== defaultProviderId && (
+                                <button className="btn btn-secondary btn-sm" onClick={() => handleSetDefault(provider.id)}>
+                                    Make Default
+                                </button>
+                            )}
+                            <button className="btn btn-secondary btn-sm" onClick={() => startEdit(provider)}>
+                                Edit
+                            </button>
+                            <button className="btn btn-danger btn-sm" onClick={() => handleDelete(provider)}>
+                                Delete
+                            </button>
+                        </div>
+                    </div>
+                    {testResult?.providerId === provider.id && (
+                        <p style={{ color: testResult.success ? '#22c55e' : '#ef4444', marginTop: '8px', fontSize: '13px' }}>
+                            {testResult.success
+                                ? '✓ Connection successful!'
+                                : `✗ Connection failed: ${testResult.error || 'Unknown error'}`}
+                        </p>
+                    )}
+                </div>
+            ))}
+
+            {/* Editor */}
+            {draft ? (
+                <div style={{
+                    padding: '12px',
+                    border: '1px solid var(--color-border)',
+                    borderRadius: 'var(--radius-md)',
+                    marginTop: '12px',
+                }}>
+                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+                        <div className="form-group">
+                            <label className="form-label">Name</label>
+                            <input
+                                type="text"
+                                className="form-input"
+                                value={draft.name}
+                                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                            />
+                        </div>
+                        <div className="form-group">
+                            <label className="form-label">API Type</label>
+                            <select
+                                className="form-input"
+                                value={draft.type}
+                                onChange={(e) => setDraft({ ...draft, type: e.target.value as LLMProviderType })}
+                            >
+                                {Object.entries(PROVIDER_TYPE_LABELS).map(([type, label]) => (
+                                    <option key={type} value={type}>{label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="form-group">
+                        <label className="form-label">Base URL</label>
+                        <input
+                            type="text"
+                            className="form-input"
+                            placeholder="http://localhost:11434/v1"
+                            value={draft.baseUrl}
+                            onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+                        />
+                    </div>
+
+                    <div className="form-group">
+                        <label className="form-label">API Key</label>
+                        <input
+                            type="password"
+                            className="form-input"
+                            placeholder={draft.hasApiKey
+                                ? 'Saved - leave blank to keep it'
+                                : draft.type === 'openai_compatible' ? 'Optional for local servers' : ''}
+                            value={draft.apiKey}
+                            onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                        />
+                    </div>
+
+                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+                        <div className="form-group">
+                            <label className="form-label">Chat Model</label>
+                            <input
+                                type="text"
+                                className="form-input"
+                                placeholder="Model name"
+                                value={draft.chatModel}
+                                onChange={(e) => setDraft({ ...draft, chatModel: e.target.value })}
+                            />
+                        </div>
+                        {draft.type !== 'anthropic' && (
+                            <div className="form-group">
+                                <label className="form-label">Embedding Model</label>
+                                <input
+                                    type="text"
+                                    className="form-input"
+                                    placeholder="Leave blank to embed on-device"
+                                    value={draft.embeddingModel}
+                                    onChange={(e) => setDraft({ ...draft, embeddingModel: e.target.value })}
+                                />
+                            </div>
+                        )}
+                    </div>
+
+                    {draft.hint && <p style={{ ...mutedText, marginBottom: '12px' }}>{draft.hint}</p>}
+
+                    <div style={{ display: 'flex', gap: '8px' }}>
+                        <button
+                            className="btn btn-primary"
+                            onClick={handleSave}
+                            disabled={saving || !draft.baseUrl.trim() || !draft.chatModel.trim()}
+                        >
+                            {saving ? 'Saving...' : 'Save Provider'}
+                        </button>
+                        <button className="btn btn-secondary" onClick={() => setDraft(null)}>
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <div className="form-group" style={{ marginTop: '12px' }}>
+                    <select
+                        className="form-input"
+                        value=""
+                        onChange={(e) => e.target.value !== '' && startAdd(Number(e.target.value))}
+                    >
+                        <option value="">+ Add provider...</option>
+                        {LLM_PROVIDER_PRESETS.map((preset, index) => (
+                            <option key={preset.label} value={index}>{preset.label}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
+            {error && (
+                <p style={{ color: '#ef4444', marginTop: '12px', fontSize: '14px' }}>
+                    ✗ {error}
+                </p>
+            )}
+
+            {/* Per-profile provider */}
+            {profiles.length > 0 && providers.length > 0 && (
+                <div style={{ marginTop: '20px' }}>
+                    <label className="form-label">Provider per Profile</label>
+                    <p style={{ ...mutedText, marginBottom: '8px' }}>
+                        Pin a profile to a local provider to keep its data on your network.
+                    </p>
+                    {profiles.map((profile) => (
+                        <div
+                            key={profile.id}
+                            style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px', alignItems: 'center', marginBottom: '8px' }}
+                        >
+                            <span style={{ fontSize: '14px' }}>{profile.name}</span>
+                            <select
+                                className="form-input"
+                                value={profile.settings.providerId ?? ''}
+                                onChange={(e) => handleProfileProvider(profile, e.target.value)}
+                            >
+                                <option value="">Default ({defaultProvider?.name ?? 'none'})</option>
+                                {providers.map((provider) => (
+                                    <option key={provider.id} value={provider.id}>{provider.name}</option>
+                                ))}
+                                {profile.settings.providerId && !providers.some((p) => p.id === profile.settings.providerId) && (
+                                    <option value={profile.settings.providerId}>Deleted provider - AI disabled</option>
+                                )}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,223 @@
+import type { ProfileRecord, RecordType } from '@shared/types';
+import { generateId } from '@shared/utils';
+
+interface RecordEditorProps {
+    records: ProfileRecord[];
+    onChange: (records: ProfileRecord[]) => void;
+}
+
+interface RecordInput {
+    property: string;
+    placeholder: string;
+    kind?: 'month' | 'textarea';
+}
+
+const RECORD_TYPES: Array<{ type: RecordType; label: string; addLabel: string; inputs: RecordInput[] }> = [
+    {
+        type: 'employment',
+        label: 'Work History',
+        addLabel: 'Job',
+        inputs: [
+            { property: 'jobTitle', placeholder: 'Job title' },
+            { property: 'company', placeholder: 'Company' },
+            { property: 'location', placeholder: 'Location' },
+            { property: 'startDate', placeholder: 'Start', kind: 'month' },
+            { property: 'endDate', placeholder: 'End', kind: 'month' },
+            { property: 'description', placeholder: 'Responsibilities and achievements', kind: 'textarea' },
+        ],
+    },
+    {
+        type: 'education',
+        label: 'Education',
+        addLabel: 'School',
+        inputs: [
+            { property: 'institution', placeholder: 'School or university' },
+            { property: 'degree', placeholder: 'Degree' },
+            { property: 'fieldOfStudy', placeholder: 'Field of study' },
+            { property: 'gpa', placeholder: 'GPA' },
+            { property: 'startDate', placeholder: 'Start', kind: 'month' },
+            { property: 'endDate', placeholder: 'End', kind: 'month' },
+        ],
+    },
+    {
+        type: 'reference',
+        label: 'References',
+        addLabel: 'Reference',
+        inputs: [
+            { property: 'name', placeholder: 'Name' },
+            { property: 'relationship', placeholder: 'Relationship, e.g. Former manager' },
+            { property: 'company', placeholder: 'Company' },
+            { property: 'jobTitle', placeholder: 'Job title' },
+            { property: 'email', placeholder: 'Email' },
+            { property: 'phone', placeholder: 'Phone' },
+        ],
+    },
+    {
+        type: 'certification',
+        label: 'Certifications',
+        addLabel: 'Certification',
+        inputs: [
+            { property: 'name', placeholder: 'Certification' },
+            { property: 'issuer', placeholder: 'Issued by' },
+            { property: 'issueDate', placeholder: 'Issued', kind: 'month' },
+            { property: 'expiryDate', placeholder: 'Expires', kind: 'month' },
+            { property: 'credentialId', placeholder: 'Credential ID' },
+            { property: 'url', placeholder: 'Verification URL' },
+        ],
+    },
+];
+
+const EMPTY_RECORDS: { [T in RecordType]: Extract<ProfileRecord, { type: T }> } = {
+    employment: { id: '', type: 'employment', company: '', jobTitle: '' },
+    education: { id: '', type: 'education', institution: '' },
+    reference: { id: '', type: 'reference', name: '' },
+    certification: { id: '', type: 'certification', name: '' },
+};
+
+const smallButton = { padding: '4px 8px', fontSize: '12px' };
+
+export function RecordEditor({ records, onChange }: RecordEditorProps) {
+    const handleAdd = (type: RecordType) => {
+        onChange([...records, { ...EMPTY_RECORDS[type], id: generateId() }]);
+    };
+
+    const handleUpdate = (id: string, updates: Record<string, string | boolean | undefined>) => {
+        onChange(records.map((record) => (record.id === id ? { ...record, ...updates } as ProfileRecord : record)));
+    };
+
+    const handleRemove = (id: string) => {
+        onChange(records.filter((record) => record.id !== id));
+    };
+
+    // Swap with the neighbouring record of the same type; order decides which form block each fills
+    const handleMove = (id: string, direction: -1 | 1) => {
+        const record = records.find((r) => r.id === id);
+        if (!record) return;
+
+        const sameType = records.filter((r) => r.type === record.type);
+        const neighbour = sameType[sameType.indexOf(record) + direction];
+        if (!neighbour) return;
+
+        onChange(records.map((r) => (r === record ? neighbour : r === neighbour ? record : r)));
+    };
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+            {RECORD_TYPES.map(({ type, label, addLabel, inputs }) => {
+                const ofType = records.filter((record) => record.type === type);
+
+                return (
+                    <div key={type} style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                        <h4 style={{ fontSize: '13px', margin: 0 }}>{label}</h4>
+
+                        {ofType.map((record, index) => {
+                            const values = record as unknown as Record<string, string | boolean | undefined>;
+
+                            return (
+                                <div
+                                    key={record.id}
+                                    style={{
+                                        display: 'grid',
+                                        gridTemplateColumns: '1fr 1fr',
+                                        gap: '8px',
+                                        padding: '8px',
+                                        background: 'var(--color-bg-secondary)',
+                                        borderRadius: 'var(--radius-sm)',
+                                    }}
+                                >
+                                    {inputs.map((input) => {
+                                        const value = typeof values[input.property] === 'string'
+                                            ? values[input.property] as string
+                                            : '';
+                                        const update = (next: string) => handleUpdate(record.id, {
+                                            [input.property]: next || (input.property in EMPTY_RECORDS[type] ? '' : undefined),
+                                        });
+
+                                        return input.kind === 'textarea' ? (
+                                            <textarea
+                                                key={input.property}
+                                                className="form-input"
+                                                placeholder={input.placeholder}
+                                                value={value}
+                                                rows={3}
+                                                onChange={(e) => update(e.target.value)}
+                                                style={{ gridColumn: '1 / 3', resize: 'vertical' }}
+                                            />
+                                        ) : (
+                                            <input
+                                                key={input.property}
+                                                type={input.kind ?? 'text'}
+                                                className="form-input"
+                                                placeholder={input.placeholder}
+                                                title={input.placeholder}
+                                                value={value}
+                                                disabled={input.property === 'endDate' && values.current === true}
+                                                onChange={(e) => update(e.target.value)}
+                                            />
+                                        );
+                                    })}
+
+                                    <div style={{ gridColumn: '1 / 3', display: 'flex', gap: '8px', alignItems: 'center' }}>
+                                        {record.type === 'employment' && (
+                                            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', cursor: 'pointer' }}>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={record.current ?? false}
+                                                    onChange={(e) => handleUpdate(record.id, {
+                                                        current: e.target.checked || undefined,
+                                                        endDate: e.target.checked ? undefined : record.endDate,
+                                                    })}
+                                                />
+                                                I work here now
+                                            </label>
+                                        )}
+                                        <span style={{ marginLeft: 'auto', display: 'flex', gap: '4px' }}>
+                                            <button
+                                                className="btn btn-secondary btn-sm"
+                                                onClick={() => handleMove(record.id, -1)}
+                                                disabled={index === 0}
+                                                style={smallButton}
+                                                title="Move up"
+                                            >
+                                                ↑
+                                            </button>
+                                            <button
+                                                className="btn btn-secondary btn-sm"
+                                                onClick={() => handleMove(record.id, 1)}
+                                                disabled={index === ofType.length - 1}
+                                                style={smallButton}
+                                                title="Move down"
+                                            >
+                                                ↓
+                                            </button>
+                                            <button
+                                                className="btn btn-danger btn-sm"
+                                                onClick={() => handleRemove(record.id)}
+                                                style={smallButton}
+                                            >
+                                                ×
+                                            </button>
+                                        </span>
+                                    </div>
+                                </div>
+                            );
+                        })}
+
+                        <button
+                            className="btn btn-secondary"
+                            onClick={() => handleAdd(type)}
+                            style={{ alignSelf: 'flex-start' }}
+                        >
+                            + Add {addLabel}
+                        </button>
+                    </div>
+                );
+            })}
+
+            <p style={{ fontSize: '12px', color: 'var(--color-text-secondary)', margin: 0 }}>
+                Forms that repeat a block per job, school or reference are filled in this order,
+                adding blocks where the form has an "add another" button.
+            </p>
+        </div>
+    );
+}
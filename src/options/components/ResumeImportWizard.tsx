@@ -0,0 +1,314 @@
+import { useState } from 'react';
+import type { ContextDocument, ContextField, ExtractedProfileField, FieldCategory } from '@shared/types';
+import { MessageBus } from '@shared/messaging';
+import { generateId, isEncryptedValue } from '@shared/utils';
+import { DOCUMENT_FILE_ACCEPT, DocumentParseError, guessDocumentType, parseDocumentFile } from '@shared/documents';
+
+interface ResumeImportWizardProps {
+    profileId?: string;                 // Unset for a profile not yet saved
+    documents: ContextDocument[];
+    fields: ContextField[];
+    onAddDocument: (document: ContextDocument) => void;
+    onAccept: (fields: ContextField[]) => void;
+    onClose: () => void;
+}
+
+interface Proposal extends ExtractedProfileField {
+    selected: boolean;
+    existing?: ContextField;            // Profile field with the same key, which accepting replaces
+}
+
+const CATEGORY_LABELS: Record<FieldCategory, string> = {
+    personal: 'Personal',
+    contact: 'Contact',
+    professional: 'Work',
+    education: 'Education',
+    identity: 'Identity',
+    custom: 'Other',
+};
+
+// Proposals below this confidence failed a format check or weren't found in
+// the document, and start unselected
+const REVIEW_CONFIDENCE = 0.6;
+
+const mutedText = { fontSize: '12px', color: 'var(--color-text-secondary)', margin: 0 };
+const errorText = { fontSize: '14px', color: '#ef4444' };
+
+export function ResumeImportWizard({
+    profileId,
+    documents,
+    fields,
+    onAddDocument,
+    onAccept,
+    onClose,
+}: ResumeImportWizardProps) {
+    const [documentId, setDocumentId] = useState(
+        () => (documents.find((doc) => doc.type === 'resume') ?? documents[0])?.id ?? ''
+    );
+    const [reading, setReading] = useState(false);
+    const [extracting, setExtracting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [proposals, setProposals] = useState<Proposal[] | null>(null);
+    const [unchangedCount, setUnchangedCount] = useState(0);
+
+    const sourceDocument = documents.find((doc) => doc.id === documentId);
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+
+        setReading(true);
+        setError(null);
+
+        try {
+            const { content, format } = await parseDocumentFile(file);
+            const added: ContextDocument = {
+                id: generateId(),
+                name: file.name.replace(/\.[^.]+$/, ''),
+                content,
+                type: guessDocumentType(file.name),
+                fileName: file.name,
+                format,
+            };
+            onAddDocument(added);
+            setDocumentId(added.id);
+        } catch (err) {
+            setError(err instanceof DocumentParseError ? err.message : 'The file could not be read');
+        } finally {
+            setReading(false);
+        }
+    };
+
+    const handleExtract = async () => {
+        if (!sourceDocument) return;
+
+        setExtracting(true);
+        setError(null);
+
+        try {
+            const response = await MessageBus.sendToBackground('EXTRACT_PROFILE_FIELDS', {
+                document: { name: sourceDocument.name, content: sourceDocument.content },
+                profileId,
+            });
+
+            if (!response?.fields) {
+                setError(response?.error || 'Extraction failed');
+                return;
+            }
+
+            // Values the profile already has are left out
+            const next: Proposal[] = [];
+            let unchanged = 0;
+            for (const field of response.fields) {
+                const existing = fields.find((f) => f.key.toLowerCase() === field.key.toLowerCase());
+                if (existing && !isEncryptedValue(existing.value) && existing.value.trim() === field.value) {
+                    unchanged++;
+                    continue;
+                }
+                next.push({
+                    ...field,
+                    existing,
+                    selected: !existing && field.confidence >= REVIEW_CONFIDENCE,
+                });
+            }
+
+            setProposals(next);
+            setUnchangedCount(unchanged);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        } finally {
+            setExtracting(false);
+        }
+    };
+
+    const handleUpdate = (index: number, updates: Partial<Proposal>) => {
+        setProposals((current) =>
+            current?.map((proposal, i) => (i === index ? { ...proposal, ...updates } : proposal)) ?? null
+        );
+    };
+
+    const handleAccept = () => {
+        if (!proposals) return;
+
+        const accepted = new Map(
+            proposals
+                .filter((p) => p.selected && p.value.trim())
+                .map((p) => [p.key.toLowerCase(), p])
+        );
+
+        // Replaced fields keep their place and encryption; the rest are appended
+        const updated = fields.map((field) => {
+            const proposal = accepted.get(field.key.toLowerCase());
+            if (!proposal) return field;
+            accepted.delete(field.key.toLowerCase());
+            return { ...field, value: proposal.value.trim(), category: proposal.category };
+        });
+        const added = Array.from(accepted.values()).map((proposal): ContextField => ({
+            key: proposal.key,
+            value: proposal.value.trim(),
+            category: proposal.category,
+            isEncrypted: false,
+        }));
+
+        onAccept([...updated, ...added]);
+        onClose();
+    };
+
+    const selectedCount = proposals?.filter((p) => p.selected && p.value.trim()).length ?? 0;
+
+    return (
+        <div
+            style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '12px',
+                padding: '12px',
+                border: '1px solid var(--color-border)',
+                borderRadius: 'var(--radius-sm)',
+            }}
+        >
+            {!proposals ? (
+                <>
+                    <p style={mutedText}>
+                        The AI reads the document and proposes fields. Nothing is added until you review them.
+                    </p>
+
+                    <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                        <select
+                            className="form-input"
+                            style={{ flex: 1 }}
+                            value={documentId}
+                            onChange={(e) => setDocumentId(e.target.value)}
+                            disabled={documents.length === 0}
+                        >
+                            {documents.length === 0 && <option value="">Upload a resume to start</option>}
+                            {documents.map((doc) => (
+                                <option key={doc.id} value={doc.id}>{doc.name}</option>
+                            ))}
+                        </select>
+                        <label className="btn btn-secondary" style={{ cursor: reading ? 'wait' : 'pointer' }}>
+                            {reading ? 'Reading...' : 'Upload'}
+                            <input
+                                type="file"
+                                accept={DOCUMENT_FILE_ACCEPT}
+                                disabled={reading}
+                                style={{ display: 'none' }}
+                                onChange={(e) => {
+                                    handleFile(e.target.files?.[0]);
+                                    e.target.value = '';
+                                }}
+                            />
+                        </label>
+                    </div>
+
+                    <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                        <button
+                            className="btn btn-primary"
+                            onClick={handleExtract}
+                            disabled={!sourceDocument || extracting || reading}
+                        >
+                            {extracting ? 'Extracting...' : 'Extract Fields'}
+                        </button>
+                        <button className="btn btn-secondary" onClick={onClose}>
+                            Cancel
+                        </button>
+                    </div>
+                </>
+            ) : (
+                <>
+                    <p style={mutedText}>
+                        {proposals.length === 0
+                            ? 'No new fields were found.'
+                            : 'Review the proposed fields. Values that replace existing fields or may be wrong start unselected.'}
+                        {unchangedCount > 0 && ` ${unchangedCount} field${unchangedCount !== 1 ? 's' : ''} already in the profile left out.`}
+                    </p>
+
+                    {(Object.keys(CATEGORY_LABELS) as FieldCategory[]).map((category) => {
+                        const group = proposals
+                            .map((proposal, index) => ({ proposal, index }))
+                            .filter(({ proposal }) => proposal.category === category);
+                        if (group.length === 0) return null;
+
+                        return (
+                            <div key={category} style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                                <h4 style={{ fontSize: '13px', margin: 0 }}>{CATEGORY_LABELS[category]}</h4>
+                                {group.map(({ proposal, index }) => (
+                                    <ProposalRow
+                                        key={proposal.key}
+                                        proposal={proposal}
+                                        onChange={(updates) => handleUpdate(index, updates)}
+                                    />
+                                ))}
+                            </div>
+                        );
+                    })}
+
+                    <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                        <button className="btn btn-primary" onClick={handleAccept} disabled={selectedCount === 0}>
+                            Add {selectedCount} Field{selectedCount !== 1 ? 's' : ''}
+                        </button>
+                        <button className="btn btn-secondary" onClick={() => setProposals(null)}>
+                            Back
+                        </button>
+                        <button className="btn btn-secondary" onClick={onClose}>
+                            Cancel
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {error && <span style={errorText}>✗ {error}</span>}
+        </div>
+    );
+}
+
+interface ProposalRowProps {
+    proposal: Proposal;
+    onChange: (updates: Partial<Proposal>) => void;
+}
+
+function ProposalRow({ proposal, onChange }: ProposalRowProps) {
+    const notes: string[] = [];
+    if (proposal.existing) {
+        notes.push(isEncryptedValue(proposal.existing.value)
+            ? 'Replaces an encrypted value'
+            : `Replaces "${proposal.existing.value}"`);
+    }
+    if (proposal.confidence < REVIEW_CONFIDENCE) {
+        notes.push('Check this value - it may not match the document');
+    }
+    if (proposal.section) {
+        notes.push(`From ${proposal.section}`);
+    }
+
+    return (
+        <div
+            style={{
+                display: 'grid',
+                gridTemplateColumns: 'auto 140px 1fr',
+                gap: '8px',
+                alignItems: 'center',
+                padding: '6px 8px',
+                background: 'var(--color-bg-secondary)',
+                borderRadius: 'var(--radius-sm)',
+            }}
+        >
+            <input
+                type="checkbox"
+                checked={proposal.selected}
+                onChange={(e) => onChange({ selected: e.target.checked })}
+            />
+            <span style={{ fontWeight: 500, fontSize: '13px', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                {proposal.key}
+            </span>
+            <input
+                type="text"
+                className="form-input"
+                value={proposal.value}
+                onChange={(e) => onChange({ value: e.target.value })}
+            />
+            {notes.length > 0 && (
+                <p style={{ ...mutedText, gridColumn: '2 / 4' }}>{notes.join(' · ')}</p>
+            )}
+        </div>
+    );
+}
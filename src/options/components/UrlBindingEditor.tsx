@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import type { URLBinding } from '@shared/types';
+import { matchesUrlBinding } from '@shared/utils';
+
+interface UrlBindingEditorProps {
+    bindings: URLBinding[];
+    onChange: (bindings: URLBinding[]) => void;
+}
+
+const PLACEHOLDERS: Record<URLBinding['type'], string> = {
+    domain: 'example.com (includes subdomains)',
+    exact: 'https://example.com/apply',
+    regex: '^https://jobs\\.example\\.com/.*/apply',
+};
+
+const smallButton = { padding: '4px 8px', fontSize: '12px' };
+
+export function UrlBindingEditor({ bindings, onChange }: UrlBindingEditorProps) {
+    const [newPattern, setNewPattern] = useState('');
+    const [newType, setNewType] = useState<URLBinding['type']>('domain');
+    const [newPriority, setNewPriority] = useState(0);
+    const [testUrl, setTestUrl] = useState('');
+
+    const newPatternError = getPatternError(newPattern.trim(), newType);
+
+    const handleAdd = () => {
+        const pattern = newPattern.trim();
+        if (!pattern || newPatternError) return;
+
+        if (bindings.some((b) => b.pattern === pattern)) {
+            alert('This pattern is already bound');
+            return;
+        }
+
+        onChange([...bindings, { pattern, type: newType, priority: newPriority }]);
+        setNewPattern('');
+    };
+
+    const handleUpdate = (index: number, updates: Partial<URLBinding>) => {
+        onChange(bindings.map((binding, i) => (i === index ? { ...binding, ...updates } : binding)));
+    };
+
+    const handleRemove = (index: number) => {
+        onChange(bindings.filter((_, i) => i !== index));
+    };
+
+    const url = testUrl.trim();
+    const matching = url ? bindings.filter((b) => matchesUrlBinding(url, b)) : [];
+    const bestPriority = matching.length > 0 ? Math.max(...matching.map((b) => b.priority)) : null;
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            {/* Existing Bindings */}
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                {bindings.map((binding, index) => {
+                    const matches = url !== '' && matchesUrlBinding(url, binding);
+                    const error = getPatternError(binding.pattern, binding.type);
+
+                    return (
+                        <div
+                            key={index}
+                            style={{
+                                display: 'grid',
+                                gridTemplateColumns: '2fr 1fr 80px auto',
+                                gap: '8px',
+                                padding: '8px',
+                                background: 'var(--color-bg-secondary)',
+                                borderRadius: 'var(--radius-sm)',
+                                alignItems: 'center',
+                                outline: matches ? '1px solid #22c55e' : undefined,
+                            }}
+                        >
+                            <input
+                                type="text"
+                                className="form-input"
+                                value={binding.pattern}
+                                onChange={(e) => handleUpdate(index, { pattern: e.target.value })}
+                                title={error ?? undefined}
+                                style={error ? { borderColor: '#ef4444' } : undefined}
+                            />
+                            <select
+                                className="form-input"
+                                value={binding.type}
+                                onChange={(e) => handleUpdate(index, { type: e.target.value as URLBinding['type'] })}
+                            >
+                                <option value="domain">Domain</option>
+                                <option value="exact">Exact URL</option>
+                                <option value="regex">Regex</option>
+                            </select>
+                            <input
+                                type="number"
+                                className="form-input"
+                                value={binding.priority}
+                                onChange={(e) => handleUpdate(index, { priority: Number(e.target.value) || 0 })}
+                                title="Priority - the highest matching binding across profiles wins"
+                            />
+                            <button
+                                className="btn btn-danger btn-sm"
+                                onClick={() => handleRemove(index)}
+                                style={smallButton}
+                            >
+                                ×
+                            </button>
+                        </div>
+                    );
+                })}
+
+                {bindings.length === 0 && (
+                    <div
+                        style={{
+                            padding: '16px',
+                            textAlign: 'center',
+                            color: 'var(--color-text-secondary)',
+                            fontSize: '14px',
+                        }}
+                    >
+                        No sites bound. Bound sites select this profile in the popup.
+                    </div>
+                )}
+            </div>
+
+            {/* Add New Binding */}
+            <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr 80px auto', gap: '8px' }}>
+                <input
+                    type="text"
+                    className="form-input"
+                    placeholder={PLACEHOLDERS[newType]}
+                    value={newPattern}
+                    onChange={(e) => setNewPattern(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && handleAdd()}
+                />
+                <select
+                    className="form-input"
+                    value={newType}
+                    onChange={(e) => setNewType(e.target.value as URLBinding['type'])}
+                >
+                    <option value="domain">Domain</option>
+                    <option value="exact">Exact URL</option>
+                    <option value="regex">Regex</option>
+                </select>
+                <input
+                    type="number"
+                    className="form-input"
+                    value={newPriority}
+                    onChange={(e) => setNewPriority(Number(e.target.value) || 0)}
+                    title="Priority"
+                />
+                <button
+                    className="btn btn-primary"
+                    onClick={handleAdd}
+                    disabled={!newPattern.trim() || newPatternError !== null}
+                >
+                    + Add
+                </button>
+            </div>
+            {newPattern.trim() && newPatternError && (
+                <span style={{ fontSize: '12px', color: '#ef4444' }}>{newPatternError}</span>
+            )}
+
+            {/* Live URL Test */}
+            {bindings.length > 0 && (
+                <div style={{ borderTop: '1px solid var(--color-border)', paddingTop: '12px' }}>
+                    <input
+                        type="text"
+                        className="form-input"
+                        placeholder="Test a URL, e.g. https://jobs.example.com/apply"
+                        value={testUrl}
+                        onChange={(e) => setTestUrl(e.target.value)}
+                    />
+                    {url && (
+                        <p style={{ fontSize: '12px', color: 'var(--color-text-secondary)', marginTop: '4px' }}>
+                            {bestPriority === null
+                                ? '✗ No binding matches this URL'
+                                : `✓ ${matching.length} binding${matching.length !== 1 ? 's' : ''} match (priority ${bestPriority})`}
+                        </p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Describe what is wrong with a pattern, or null if it is usable
+ */
+function getPatternError(pattern: string, type: URLBinding['type']): string | null {
+    if (type === 'regex') {
+        try {
+            new RegExp(pattern);
+        } catch {
+            return 'Invalid regular expression';
+        }
+    } else if (type === 'domain' && /[/:]/.test(pattern)) {
+        return 'Enter a domain only, without https:// or a path';
+    }
+    return null;
+}
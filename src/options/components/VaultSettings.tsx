@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import type { VaultStatus } from '@shared/types';
+import { MessageBus } from '@shared/messaging';
+
+interface VaultSettingsProps {
+    status: VaultStatus | null;
+}
+
+export function VaultSettings({ status }: VaultSettingsProps) {
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const isSetup = status !== null && !status.configured;
+
+    const handleSubmit = async () => {
+        if (!passphrase) return;
+
+        if (isSetup && passphrase !== confirmation) {
+            setError('Passphrases do not match');
+            return;
+        }
+
+        setBusy(true);
+        setError(null);
+
+        try {
+            const response = await MessageBus.sendToBackground(
+                isSetup ? 'SETUP_VAULT' : 'UNLOCK_VAULT',
+                { passphrase }
+            );
+
+            if (response?.success) {
+                setPassphrase('');
+                setConfirmation('');
+            } else {
+                setError(response?.error || 'Failed to unlock vault');
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleLock = async () => {
+        try {
+            await MessageBus.sendToBackground('LOCK_VAULT', undefined as never);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+    };
+
+    if (!status) {
+        return null;
+    }
+
+    if (status.unlocked) {
+        return (
+            <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+                <span style={{ fontSize: '14px', color: '#22c55e' }}>🔓 Vault unlocked</span>
+                <button className="btn btn-secondary btn-sm" onClick={handleLock}>
+                    Lock now
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            <p style={{ fontSize: '14px', color: 'var(--color-text-secondary)', margin: 0 }}>
+                {isSetup
+                    ? 'Choose a passphrase to protect encrypted fields. It cannot be recovered if lost.'
+                    : '🔒 Vault locked. Encrypted fields are skipped when filling until you unlock.'}
+            </p>
+            <input
+                type="password"
+                className="form-input"
+                placeholder="Passphrase"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && !isSetup && handleSubmit()}
+            />
+            {isSetup && (
+                <input
+                    type="password"
+                    className="form-input"
+                    placeholder="Confirm passphrase"
+                    value={confirmation}
+                    onChange={(e) => setConfirmation(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                />
+            )}
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                <button
+                    className="btn btn-primary"
+                    onClick={handleSubmit}
+                    disabled={busy || !passphrase}
+                >
+                    {busy ? 'Working...' : (isSetup ? 'Set Passphrase' : 'Unlock')}
+                </button>
+                {error && (
+                    <span style={{ fontSize: '14px', color: '#ef4444' }}>
+                        ✗ {error}
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+}
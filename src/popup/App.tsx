@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import type { Profile, FillState } from '@shared/types';
+import type { Profile, FillState, FormSignature, FormRef, FormSessionStatus, VaultStatus } from '@shared/types';
 import { MessageBus } from '@shared/messaging';
 import './styles.css';
 
@@ -11,6 +11,11 @@ interface StateResponse {
     state: FillState;
 }
 
+interface TabFormsResponse {
+    forms: FormSignature[];
+    focusedForm: FormRef | null;
+}
+
 function App() {
     const [profiles, setProfiles] = useState<Profile[]>([]);
     const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
@@ -18,6 +23,20 @@ function App() {
     const [loading, setLoading] = useState(true);
     const [aiAvailable, setAiAvailable] = useState(false);
     const [lastFillSource, setLastFillSource] = useState<string | null>(null);
+    const [forms, setForms] = useState<FormSignature[]>([]);
+    // null = let the background pick the focused (or largest) form
+    const [selectedForm, setSelectedForm] = useState<FormRef | null>(null);
+    const [vaultStatus, setVaultStatus] = useState<VaultStatus | null>(null);
+    const [passphrase, setPassphrase] = useState('');
+    const [vaultError, setVaultError] = useState<string | null>(null);
+    // Fields the last fill in this tab wrote that can still be put back
+    const [undoFieldCount, setUndoFieldCount] = useState(0);
+    const [undoMessage, setUndoMessage] = useState<string | null>(null);
+    // Active tab's domain and the profile bound to it, if any
+    const [siteDomain, setSiteDomain] = useState<string | null>(null);
+    const [boundProfileId, setBoundProfileId] = useState<string | null>(null);
+    // Multi-step form being filled in this tab, if any
+    const [formSession, setFormSession] = useState<FormSessionStatus | null>(null);
 
     useEffect(() => {
         // Load initial data
@@ -25,13 +44,20 @@ function App() {
 
         // Subscribe to updates
         const unsubscribe = MessageBus.subscribe(
-            ['PROFILES_UPDATE', 'STATE_UPDATE'],
+            ['PROFILES_UPDATE', 'STATE_UPDATE', 'VAULT_STATUS'],
             (message) => {
                 const payload = message.payload as Record<string, unknown>;
                 if (message.type === 'PROFILES_UPDATE' && 'profiles' in payload) {
                     setProfiles(payload.profiles as Profile[]);
                 } else if (message.type === 'STATE_UPDATE' && 'state' in payload) {
-                    setState(payload.state as FillState);
+                    const nextState = payload.state as FillState;
+                    setState(nextState);
+                    if (nextState.type === 'IDLE' || nextState.type === 'ERROR') {
+                        loadUndoStatus();
+                        loadFormSession();
+                    }
+                } else if (message.type === 'VAULT_STATUS' && 'status' in payload) {
+                    setVaultStatus(payload.status as VaultStatus);
                 }
             }
         );
@@ -41,21 +67,36 @@ function App() {
 
     async function loadData() {
         try {
-            const [profilesRes, stateRes, aiStatusRes] = await Promise.all([
+            const [profilesRes, stateRes, aiStatusRes, formsRes, vaultRes, siteRes] = await Promise.all([
                 MessageBus.sendToBackground('GET_PROFILES', undefined as never),
                 MessageBus.sendToBackground('GET_STATE', undefined as never),
                 MessageBus.sendToBackground('GET_AI_STATUS', undefined as never),
+                MessageBus.sendToBackground('GET_TAB_FORMS', undefined as never),
+                MessageBus.sendToBackground('GET_VAULT_STATUS', undefined as never),
+                MessageBus.sendToBackground('GET_SITE_PROFILE', undefined as never),
             ]);
 
             const profilesResult = profilesRes as ProfilesResponse | undefined;
             const stateResult = stateRes as StateResponse | undefined;
             const aiStatus = aiStatusRes as { available: boolean } | undefined;
+            const formsResult = formsRes as TabFormsResponse | undefined;
 
             if (profilesResult?.profiles) {
                 setProfiles(profilesResult.profiles);
-                if (profilesResult.profiles.length > 0 && !activeProfileId) {
-                    setActiveProfileId(profilesResult.profiles[0].id);
-                }
+
+                // The profile bound to this site wins over the one last chosen
+                const known = (id: string | null | undefined) =>
+                    profilesResult.profiles.some((p) => p.id === id) ? id : null;
+                const selected = known(siteRes?.boundProfileId)
+                    ?? known(siteRes?.activeProfileId)
+                    ?? profilesResult.profiles[0]?.id
+                    ?? null;
+                setActiveProfileId(selected);
+            }
+
+            if (siteRes) {
+                setSiteDomain(siteRes.domain);
+                setBoundProfileId(siteRes.boundProfileId);
             }
 
             if (stateResult?.state) {
@@ -65,6 +106,17 @@ function App() {
             if (aiStatus) {
                 setAiAvailable(aiStatus.available);
             }
+
+            if (formsResult?.forms) {
+                setForms(formsResult.forms);
+                setSelectedForm(formsResult.focusedForm);
+            }
+
+            if (vaultRes?.status) {
+                setVaultStatus(vaultRes.status);
+            }
+
+            await Promise.all([loadUndoStatus(), loadFormSession()]);
         } catch (error) {
             console.error('Failed to load data:', error);
         } finally {
@@ -72,13 +124,54 @@ function App() {
         }
     }
 
+    async function loadUndoStatus() {
+        try {
+            const response = await MessageBus.sendToBackground('GET_UNDO_STATUS', undefined as never);
+            setUndoFieldCount(response?.available ? response.fieldCount : 0);
+        } catch (error) {
+            console.error('Failed to load undo status:', error);
+        }
+    }
+
+    async function loadFormSession() {
+        try {
+            const response = await MessageBus.sendToBackground('GET_FORM_SESSION', undefined as never);
+            setFormSession(response?.session ?? null);
+        } catch (error) {
+            console.error('Failed to load form session:', error);
+        }
+    }
+
+    async function handleSessionAutoFill(enabled: boolean) {
+        if (!formSession) return;
+
+        const result = await MessageBus.sendToBackground('SET_FORM_SESSION_AUTO_FILL', {
+            sessionId: formSession.id,
+            enabled,
+        });
+        if (result?.success) {
+            setFormSession({ ...formSession, autoFill: enabled });
+        }
+    }
+
+    async function handleEndSession() {
+        if (!formSession) return;
+
+        await MessageBus.sendToBackground('END_FORM_SESSION', { sessionId: formSession.id });
+        setFormSession(null);
+    }
+
     async function handleFill() {
         if (!activeProfileId) return;
 
+        setUndoMessage(null);
+
         try {
             // Use AI fill - it will automatically fallback to static if API key not set
             const result = await MessageBus.sendToBackground('REQUEST_AI_FILL', {
                 profileId: activeProfileId,
+                formIndex: selectedForm?.formIndex,
+                frameId: selectedForm?.frameId,
                 useCache: true,
             });
 
@@ -92,12 +185,78 @@ function App() {
         }
     }
 
+    async function handleCancel() {
+        try {
+            await MessageBus.sendToBackground('REQUEST_CANCEL', undefined as never);
+        } catch (error) {
+            console.error('Failed to cancel fill:', error);
+        }
+    }
+
+    async function handleUndo() {
+        try {
+            const result = await MessageBus.sendToBackground('REQUEST_UNDO', undefined as never);
+            if (result?.success) {
+                const kept = result.skipped ? `; left ${result.skipped} as they are` : '';
+                setUndoMessage(`Restored ${result.restored ?? 0} fields${kept}`);
+            } else {
+                setUndoMessage(result?.error || 'Failed to undo');
+            }
+            setUndoFieldCount(0);
+        } catch (error) {
+            console.error('Failed to undo fill:', error);
+        }
+    }
+
+    async function handleUnlock() {
+        if (!passphrase) return;
+
+        setVaultError(null);
+        const result = await MessageBus.sendToBackground('UNLOCK_VAULT', { passphrase });
+        if (result?.success) {
+            setPassphrase('');
+        } else {
+            setVaultError(result?.error || 'Failed to unlock');
+        }
+    }
+
+    async function handleLock() {
+        await MessageBus.sendToBackground('LOCK_VAULT', undefined as never);
+    }
+
     async function handleProfileChange(e: React.ChangeEvent<HTMLSelectElement>) {
         const profileId = e.target.value;
         setActiveProfileId(profileId);
         await MessageBus.sendToBackground('SET_ACTIVE_PROFILE', { profileId });
     }
 
+    async function loadSiteProfile() {
+        try {
+            const response = await MessageBus.sendToBackground('GET_SITE_PROFILE', undefined as never);
+            setBoundProfileId(response?.boundProfileId ?? null);
+        } catch (error) {
+            console.error('Failed to load site profile:', error);
+        }
+    }
+
+    async function handleBindSite() {
+        if (!activeProfileId) return;
+
+        const result = await MessageBus.sendToBackground('BIND_SITE', { profileId: activeProfileId });
+        if (result?.success) {
+            await loadSiteProfile();
+        } else {
+            console.error('Failed to bind site:', result?.error);
+        }
+    }
+
+    async function handleUnbindSite() {
+        if (!activeProfileId) return;
+
+        await MessageBus.sendToBackground('UNBIND_SITE', { profileId: activeProfileId });
+        await loadSiteProfile();
+    }
+
     function openOptions() {
         chrome.runtime.openOptionsPage();
     }
@@ -151,18 +310,127 @@ function App() {
                                 ))}
                             </select>
                         </div>
+                        {siteDomain && activeProfileId && (
+                            <div className="site-binding">
+                                {boundProfileId === activeProfileId ? (
+                                    <>
+                                        <span>📌 Selected for {siteDomain}</span>
+                                        {isBoundToDomain(profiles.find((p) => p.id === activeProfileId), siteDomain) && (
+                                            <button className="link-btn" onClick={handleUnbindSite}>
+                                                Unbind
+                                            </button>
+                                        )}
+                                    </>
+                                ) : (
+                                    <button className="link-btn" onClick={handleBindSite}>
+                                        📌 Bind {siteDomain} to this profile
+                                    </button>
+                                )}
+                            </div>
+                        )}
                     </section>
 
+                    {/* Form Selector (only when the page has several forms) */}
+                    {forms.length > 1 && (
+                        <section className="section">
+                            <div className="section-title">Form</div>
+                            <div className="profile-selector">
+                                <select
+                                    className="profile-select"
+                                    value={selectedForm ? getFormKey(selectedForm) : ''}
+                                    onChange={(e) => setSelectedForm(
+                                        forms.find((f) => getFormKey(f) === e.target.value)
+                                            ? parseFormKey(e.target.value)
+                                            : null
+                                    )}
+                                >
+                                    <option value="">Auto (focused form)</option>
+                                    {forms.map((form, i) => (
+                                        <option key={getFormKey(form)} value={getFormKey(form)}>
+                                            {form.label || `Form ${i + 1}`} · {form.fields.length} fields
+                                            {form.frameId ? ` · ${form.domain}` : ''}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        </section>
+                    )}
+
+                    {/* Vault (only once a passphrase has been set) */}
+                    {vaultStatus?.configured && (
+                        <section className="section">
+                            <div className="section-title">Encrypted Fields</div>
+                            <div className="vault-card">
+                                {vaultStatus.unlocked ? (
+                                    <div className="vault-row">
+                                        <span className="vault-text">🔓 Unlocked</span>
+                                        <button className="vault-btn" onClick={handleLock}>
+                                            Lock
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <>
+                                        <div className="vault-row">
+                                            <input
+                                                type="password"
+                                                className="vault-input"
+                                                placeholder="🔒 Passphrase"
+                                                value={passphrase}
+                                                onChange={(e) => setPassphrase(e.target.value)}
+                                                onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                                            />
+                                            <button
+                                                className="vault-btn"
+                                                onClick={handleUnlock}
+                                                disabled={!passphrase}
+                                            >
+                                                Unlock
+                                            </button>
+                                        </div>
+                                        <span className={vaultError ? 'vault-error' : 'vault-text'}>
+                                            {vaultError ?? 'Encrypted fields are skipped while locked'}
+                                        </span>
+                                    </>
+                                )}
+                            </div>
+                        </section>
+                    )}
+
+                    {/* Multi-step form session */}
+                    {formSession && (
+                        <section className="section">
+                            <div className="section-title">Multi-step Form</div>
+                            <div className="vault-card">
+                                <div className="vault-row">
+                                    <span className="vault-text">
+                                        {formSession.stepCount} step{formSession.stepCount !== 1 ? 's' : ''} filled on {formSession.domain}
+                                    </span>
+                                    <button className="vault-btn" onClick={handleEndSession} title="Later steps no longer reuse earlier answers">
+                                        End
+                                    </button>
+                                </div>
+                                <label className="session-toggle">
+                                    <input
+                                        type="checkbox"
+                                        checked={formSession.autoFill}
+                                        onChange={(e) => handleSessionAutoFill(e.target.checked)}
+                                    />
+                                    Fill next steps automatically
+                                </label>
+                            </div>
+                        </section>
+                    )}
+
                     {/* Fill Button */}
                     <section className="section">
                         <button
                             className="fill-btn"
                             onClick={handleFill}
-                            disabled={state.type === 'FILLING' || state.type === 'INFERRING'}
+                            disabled={isFillInProgress(state)}
                         >
                             {state.type === 'FILLING' ? (
                                 <>⏳ Filling...</>
-                            ) : state.type === 'INFERRING' ? (
+                            ) : state.type === 'INFERRING' || state.type === 'RETRIEVING' ? (
                                 <>🤖 AI thinking...</>
                             ) : aiAvailable ? (
                                 <>✨ AI Fill</>
@@ -170,6 +438,19 @@ function App() {
                                 <>✨ Fill Form</>
                             )}
                         </button>
+                        {isFillInProgress(state) && (
+                            <button className="cancel-btn" onClick={handleCancel} title="Esc in the page also cancels">
+                                Cancel
+                            </button>
+                        )}
+                        {!isFillInProgress(state) && undoFieldCount > 0 && (
+                            <button className="undo-btn" onClick={handleUndo}>
+                                ↶ Undo fill ({undoFieldCount} field{undoFieldCount !== 1 ? 's' : ''})
+                            </button>
+                        )}
+                        {undoMessage && undoFieldCount === 0 && (
+                            <div className="undo-message">{undoMessage}</div>
+                        )}
                         {/* AI Status Badge */}
                         <div style={{
                             display: 'flex',
@@ -214,9 +495,20 @@ function App() {
                         <div className="section-title">Status</div>
                         <div className="status-card">
                             <div className="status-row">
-                                <span className={`status-dot ${getStatusClass(state.type)}`} />
+                                <span className={`status-dot ${getStatusClass(state)}`} />
                                 <span className="status-text">{getStatusText(state)}</span>
                             </div>
+                            {state.type === 'FILLING' && state.progress.failed > 0 && (
+                                <ul className="status-failures">
+                                    {state.progress.fields
+                                        .filter((field) => field.status === 'failed')
+                                        .map((field) => (
+                                            <li key={field.fieldId}>
+                                                ✗ {field.label || 'Unlabeled field'}: {field.error ?? 'Failed'}
+                                            </li>
+                                        ))}
+                                </ul>
+                            )}
                         </div>
                     </section>
                 </>
@@ -235,16 +527,39 @@ function App() {
     );
 }
 
-function getStatusClass(stateType: FillState['type']): string {
-    switch (stateType) {
+// Forms are unique per tab by frame + index
+function getFormKey(form: { frameId?: number; formIndex: number }): string {
+    return `${form.frameId ?? 0}:${form.formIndex}`;
+}
+
+function parseFormKey(key: string): FormRef {
+    const [frameId, formIndex] = key.split(':').map(Number);
+    return { frameId, formIndex };
+}
+
+// Only a plain domain binding can be removed from the popup; others are edited in the options page
+function isBoundToDomain(profile: Profile | undefined, domain: string): boolean {
+    return profile?.urlBindings.some((b) => b.type === 'domain' && b.pattern === domain) ?? false;
+}
+
+function isFillInProgress(state: FillState): boolean {
+    return state.type === 'RETRIEVING'
+        || state.type === 'INFERRING'
+        || state.type === 'FILLING'
+        || state.type === 'AWAITING_REVIEW';
+}
+
+function getStatusClass(state: FillState): string {
+    switch (state.type) {
         case 'FILLING':
         case 'DETECTING':
         case 'ANALYZING':
         case 'RETRIEVING':
         case 'INFERRING':
+        case 'AWAITING_REVIEW':
             return 'active';
         case 'ERROR':
-            return 'error';
+            return state.code === 'CANCELLED' ? '' : 'error';
         default:
             return '';
     }
@@ -262,17 +577,19 @@ function getStatusText(state: FillState): string {
             return 'Retrieving context...';
         case 'INFERRING':
             return 'AI is thinking...';
-        case 'FILLING':
-            if ('progress' in state && state.progress) {
-                return `Filling ${state.progress.completed}/${state.progress.total} fields...`;
-            }
-            return 'Filling form...';
+        case 'FILLING': {
+            const { completed, total, failed, streaming } = state.progress;
+            const failures = failed > 0 ? `, ${failed} failed` : '';
+            return streaming
+                ? `Filling ${completed}/${total} fields${failures}, AI still answering...`
+                : `Filling ${completed}/${total} fields${failures}...`;
+        }
         case 'AWAITING_REVIEW':
             return 'Waiting for review...';
         case 'LEARNING':
             return 'Learning from edits...';
         case 'ERROR':
-            return `Error: ${state.error}`;
+            return state.code === 'CANCELLED' ? 'Fill cancelled' : `Error: ${state.error}`;
         default:
             return 'Unknown state';
     }
@@ -0,0 +1,150 @@
+// Address Data
+// Country and region reference data for address normalization
+
+export interface CountryInfo {
+    code: string;       // ISO 3166-1 alpha-2
+    alpha3: string;     // ISO 3166-1 alpha-3
+    name: string;
+    aliases?: string[];
+}
+
+export interface RegionInfo {
+    code: string;       // Postal abbreviation, e.g. "CA" for California
+    name: string;
+}
+
+/**
+ * Countries recognized when normalizing country names and codes
+ */
+export const COUNTRIES: readonly CountryInfo[] = [
+    // Americas
+    { code: 'US', alpha3: 'USA', name: 'United States', aliases: ['United States of America', 'America'] },
+    { code: 'CA', alpha3: 'CAN', name: 'Canada' },
+    { code: 'MX', alpha3: 'MEX', name: 'Mexico', aliases: ['México'] },
+    { code: 'BR', alpha3: 'BRA', name: 'Brazil', aliases: ['Brasil'] },
+    { code: 'AR', alpha3: 'ARG', name: 'Argentina' },
+    { code: 'CL', alpha3: 'CHL', name: 'Chile' },
+    { code: 'CO', alpha3: 'COL', name: 'Colombia' },
+    { code: 'PE', alpha3: 'PER', name: 'Peru', aliases: ['Perú'] },
+    { code: 'VE', alpha3: 'VEN', name: 'Venezuela' },
+    { code: 'CR', alpha3: 'CRI', name: 'Costa Rica' },
+    { code: 'PR', alpha3: 'PRI', name: 'Puerto Rico' },
+    { code: 'JM', alpha3: 'JAM', name: 'Jamaica' },
+
+    // Europe
+    { code: 'GB', alpha3: 'GBR', name: 'United Kingdom', aliases: ['UK', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland'] },
+    { code: 'IE', alpha3: 'IRL', name: 'Ireland', aliases: ['Republic of Ireland'] },
+    { code: 'FR', alpha3: 'FRA', name: 'France' },
+    { code: 'DE', alpha3: 'DEU', name: 'Germany', aliases: ['Deutschland'] },
+    { code: 'NL', alpha3: 'NLD', name: 'Netherlands', aliases: ['The Netherlands', 'Holland'] },
+    { code: 'BE', alpha3: 'BEL', name: 'Belgium' },
+    { code: 'LU', alpha3: 'LUX', name: 'Luxembourg' },
+    { code: 'CH', alpha3: 'CHE', name: 'Switzerland' },
+    { code: 'AT', alpha3: 'AUT', name: 'Austria' },
+    { code: 'ES', alpha3: 'ESP', name: 'Spain', aliases: ['España'] },
+    { code: 'PT', alpha3: 'PRT', name: 'Portugal' },
+    { code: 'IT', alpha3: 'ITA', name: 'Italy', aliases: ['Italia'] },
+    { code: 'SE', alpha3: 'SWE', name: 'Sweden' },
+    { code: 'NO', alpha3: 'NOR', name: 'Norway' },
+    { code: 'DK', alpha3: 'DNK', name: 'Denmark' },
+    { code: 'FI', alpha3: 'FIN', name: 'Finland' },
+    { code: 'IS', alpha3: 'ISL', name: 'Iceland' },
+    { code: 'PL', alpha3: 'POL', name: 'Poland' },
+    { code: 'CZ', alpha3: 'CZE', name: 'Czechia', aliases: ['Czech Republic'] },
+    { code: 'SK', alpha3: 'SVK', name: 'Slovakia' },
+    { code: 'HU', alpha3: 'HUN', name: 'Hungary' },
+    { code: 'RO', alpha3: 'ROU', name: 'Romania' },
+    { code: 'BG', alpha3: 'BGR', name: 'Bulgaria' },
+    { code: 'GR', alpha3: 'GRC', name: 'Greece' },
+    { code: 'HR', alpha3: 'HRV', name: 'Croatia' },
+    { code: 'SI', alpha3: 'SVN', name: 'Slovenia' },
+    { code: 'RS', alpha3: 'SRB', name: 'Serbia' },
+    { code: 'UA', alpha3: 'UKR', name: 'Ukraine' },
+    { code: 'EE', alpha3: 'EST', name: 'Estonia' },
+    { code: 'LV', alpha3: 'LVA', name: 'Latvia' },
+    { code: 'LT', alpha3: 'LTU', name: 'Lithuania' },
+    { code: 'TR', alpha3: 'TUR', name: 'Turkey', aliases: ['Türkiye'] },
+    { code: 'RU', alpha3: 'RUS', name: 'Russia', aliases: ['Russian Federation'] },
+
+    // Middle East and Africa
+    { code: 'IL', alpha3: 'ISR', name: 'Israel' },
+    { code: 'AE', alpha3: 'ARE', name: 'United Arab Emirates', aliases: ['UAE'] },
+    { code: 'SA', alpha3: 'SAU', name: 'Saudi Arabia' },
+    { code: 'QA', alpha3: 'QAT', name: 'Qatar' },
+    { code: 'EG', alpha3: 'EGY', name: 'Egypt' },
+    { code: 'MA', alpha3: 'MAR', name: 'Morocco' },
+    { code: 'ZA', alpha3: 'ZAF', name: 'South Africa' },
+    { code: 'NG', alpha3: 'NGA', name: 'Nigeria' },
+    { code: 'KE', alpha3: 'KEN', name: 'Kenya' },
+    { code: 'GH', alpha3: 'GHA', name: 'Ghana' },
+
+    // Asia Pacific
+    { code: 'IN', alpha3: 'IND', name: 'India' },
+    { code: 'PK', alpha3: 'PAK', name: 'Pakistan' },
+    { code: 'BD', alpha3: 'BGD', name: 'Bangladesh' },
+    { code: 'LK', alpha3: 'LKA', name: 'Sri Lanka' },
+    { code: 'NP', alpha3: 'NPL', name: 'Nepal' },
+    { code: 'CN', alpha3: 'CHN', name: 'China', aliases: ["People's Republic of China", 'PRC'] },
+    { code: 'HK', alpha3: 'HKG', name: 'Hong Kong' },
+    { code: 'TW', alpha3: 'TWN', name: 'Taiwan' },
+    { code: 'JP', alpha3: 'JPN', name: 'Japan' },
+    { code: 'KR', alpha3: 'KOR', name: 'South Korea', aliases: ['Korea', 'Republic of Korea'] },
+    { code: 'SG', alpha3: 'SGP', name: 'Singapore' },
+    { code: 'MY', alpha3: 'MYS', name: 'Malaysia' },
+    { code: 'ID', alpha3: 'IDN', name: 'Indonesia' },
+    { code: 'TH', alpha3: 'THA', name: 'Thailand' },
+    { code: 'VN', alpha3: 'VNM', name: 'Vietnam', aliases: ['Viet Nam'] },
+    { code: 'PH', alpha3: 'PHL', name: 'Philippines' },
+    { code: 'AU', alpha3: 'AUS', name: 'Australia' },
+    { code: 'NZ', alpha3: 'NZL', name: 'New Zealand' },
+];
+
+/**
+ * States, provinces and territories by country code, for countries whose
+ * forms commonly ask for them as a code or a name
+ */
+export const REGIONS: Readonly<Record<string, readonly RegionInfo[]>> = {
+    US: [
+        { code: 'AL', name: 'Alabama' }, { code: 'AK', name: 'Alaska' },
+        { code: 'AZ', name: 'Arizona' }, { code: 'AR', name: 'Arkansas' },
+        { code: 'CA', name: 'California' }, { code: 'CO', name: 'Colorado' },
+        { code: 'CT', name: 'Connecticut' }, { code: 'DE', name: 'Delaware' },
+        { code: 'DC', name: 'District of Columbia' }, { code: 'FL', name: 'Florida' },
+        { code: 'GA', name: 'Georgia' }, { code: 'HI', name: 'Hawaii' },
+        { code: 'ID', name: 'Idaho' }, { code: 'IL', name: 'Illinois' },
+        { code: 'IN', name: 'Indiana' }, { code: 'IA', name: 'Iowa' },
+        { code: 'KS', name: 'Kansas' }, { code: 'KY', name: 'Kentucky' },
+        { code: 'LA', name: 'Louisiana' }, { code: 'ME', name: 'Maine' },
+        { code: 'MD', name: 'Maryland' }, { code: 'MA', name: 'Massachusetts' },
+        { code: 'MI', name: 'Michigan' }, { code: 'MN', name: 'Minnesota' },
+        { code: 'MS', name: 'Mississippi' }, { code: 'MO', name: 'Missouri' },
+        { code: 'MT', name: 'Montana' }, { code: 'NE', name: 'Nebraska' },
+        { code: 'NV', name: 'Nevada' }, { code: 'NH', name: 'New Hampshire' },
+        { code: 'NJ', name: 'New Jersey' }, { code: 'NM', name: 'New Mexico' },
+        { code: 'NY', name: 'New York' }, { code: 'NC', name: 'North Carolina' },
+        { code: 'ND', name: 'North Dakota' }, { code: 'OH', name: 'Ohio' },
+        { code: 'OK', name: 'Oklahoma' }, { code: 'OR', name: 'Oregon' },
+        { code: 'PA', name: 'Pennsylvania' }, { code: 'PR', name: 'Puerto Rico' },
+        { code: 'RI', name: 'Rhode Island' }, { code: 'SC', name: 'South Carolina' },
+        { code: 'SD', name: 'South Dakota' }, { code: 'TN', name: 'Tennessee' },
+        { code: 'TX', name: 'Texas' }, { code: 'UT', name: 'Utah' },
+        { code: 'VT', name: 'Vermont' }, { code: 'VA', name: 'Virginia' },
+        { code: 'WA', name: 'Washington' }, { code: 'WV', name: 'West Virginia' },
+        { code: 'WI', name: 'Wisconsin' }, { code: 'WY', name: 'Wyoming' },
+    ],
+    CA: [
+        { code: 'AB', name: 'Alberta' }, { code: 'BC', name: 'British Columbia' },
+        { code: 'MB', name: 'Manitoba' }, { code: 'NB', name: 'New Brunswick' },
+        { code: 'NL', name: 'Newfoundland and Labrador' }, { code: 'NS', name: 'Nova Scotia' },
+        { code: 'NT', name: 'Northwest Territories' }, { code: 'NU', name: 'Nunavut' },
+        { code: 'ON', name: 'Ontario' }, { code: 'PE', name: 'Prince Edward Island' },
+        { code: 'QC', name: 'Quebec' }, { code: 'SK', name: 'Saskatchewan' },
+        { code: 'YT', name: 'Yukon' },
+    ],
+    AU: [
+        { code: 'ACT', name: 'Australian Capital Territory' }, { code: 'NSW', name: 'New South Wales' },
+        { code: 'NT', name: 'Northern Territory' }, { code: 'QLD', name: 'Queensland' },
+        { code: 'SA', name: 'South Australia' }, { code: 'TAS', name: 'Tasmania' },
+        { code: 'VIC', name: 'Victoria' }, { code: 'WA', name: 'Western Australia' },
+    ],
+};
@@ -1,2 +1,4 @@
 // Constants Index
 export * from './fieldDenylist';
+export * from './addressData';
+export * from './llmProviders';
@@ -0,0 +1,62 @@
+// LLM Provider Presets
+// Starting points for the provider editor in the options page
+
+import type { LLMProviderType } from '@shared/types';
+
+export interface LLMProviderPreset {
+    label: string;
+    type: LLMProviderType;
+    baseUrl: string;
+    chatModel: string;
+    embeddingModel?: string;
+    requiresApiKey: boolean;
+    hint?: string;
+}
+
+export const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+export const OPENROUTER_DEFAULT_CHAT_MODEL = 'openai/gpt-4o-mini';
+export const OPENROUTER_DEFAULT_EMBEDDING_MODEL = 'openai/text-embedding-3-small';
+
+export const LLM_PROVIDER_PRESETS: readonly LLMProviderPreset[] = [
+    {
+        label: 'OpenRouter',
+        type: 'openrouter',
+        baseUrl: OPENROUTER_BASE_URL,
+        chatModel: OPENROUTER_DEFAULT_CHAT_MODEL,
+        embeddingModel: OPENROUTER_DEFAULT_EMBEDDING_MODEL,
+        requiresApiKey: true,
+    },
+    {
+        label: 'Ollama',
+        type: 'openai_compatible',
+        baseUrl: 'http://localhost:11434/v1',
+        chatModel: '',
+        embeddingModel: '',
+        requiresApiKey: false,
+        hint: 'Start Ollama with OLLAMA_ORIGINS=chrome-extension://* so it accepts requests from the extension.',
+    },
+    {
+        label: 'llama.cpp server',
+        type: 'openai_compatible',
+        baseUrl: 'http://localhost:8080/v1',
+        chatModel: '',
+        embeddingModel: '',
+        requiresApiKey: false,
+        hint: 'Embeddings require the server to be started with --embeddings.',
+    },
+    {
+        label: 'vLLM',
+        type: 'openai_compatible',
+        baseUrl: 'http://localhost:8000/v1',
+        chatModel: '',
+        requiresApiKey: false,
+    },
+    {
+        label: 'Anthropic',
+        type: 'anthropic',
+        baseUrl: 'https://api.anthropic.com',
+        chatModel: '',
+        requiresApiKey: true,
+        hint: 'Anthropic has no embeddings API, so retrieval uses on-device embeddings with this provider.',
+    },
+];
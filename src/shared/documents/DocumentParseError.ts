@@ -0,0 +1,9 @@
+// Document Parse Error
+// Raised when an uploaded document can't be read; the message is shown to the user
+
+export class DocumentParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DocumentParseError';
+    }
+}
@@ -0,0 +1,183 @@
+// Document Parser
+// Extracts text from uploaded documents in the browser; headings and list items come out as Markdown-style lines
+
+import type { ContextDocument, DocumentFormat } from '@shared/types';
+import { DocumentParseError } from './DocumentParseError';
+import { extractDocxText } from './DocxParser';
+import { extractPdfText } from './PdfParser';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ParsedDocument {
+    content: string;
+    format: DocumentFormat;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+    pdf: 'pdf',
+    docx: 'docx',
+    md: 'markdown',
+    markdown: 'markdown',
+    txt: 'text',
+    text: 'text',
+};
+
+// For file inputs
+export const DOCUMENT_FILE_ACCEPT = Object.keys(FORMATS_BY_EXTENSION).map((ext) => `.${ext}`).join(',');
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Extract the text of an uploaded file. Throws DocumentParseError with a
+ * message for the user when the file can't be read.
+ */
+export async function parseDocumentFile(file: File): Promise<ParsedDocument> {
+    const format = getDocumentFormat(file.name);
+    if (!format) {
+        throw new DocumentParseError('Unsupported file type - upload a PDF, DOCX, Markdown or text file');
+    }
+    if (file.size > MAX_DOCUMENT_BYTES) {
+        throw new DocumentParseError(`The file is larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`);
+    }
+
+    let content: string;
+    switch (format) {
+        case 'pdf':
+            content = await extractPdfText(new Uint8Array(await file.arrayBuffer()));
+            break;
+        case 'docx':
+            content = await extractDocxText(new Uint8Array(await file.arrayBuffer()));
+            break;
+        case 'markdown':
+            content = normalizeMarkdown(await file.text());
+            break;
+        case 'text':
+            content = await file.text();
+            break;
+    }
+
+    content = normalizeWhitespace(content);
+    if (!content) {
+        throw new DocumentParseError(format === 'pdf'
+            ? 'No text found - scanned PDFs need to be converted to text first'
+            : 'The file contains no text');
+    }
+
+    return { content, format };
+}
+
+/**
+ * Format of a file from its extension, or null if unsupported
+ */
+export function getDocumentFormat(fileName: string): DocumentFormat | null {
+    const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+    return FORMATS_BY_EXTENSION[extension] ?? null;
+}
+
+/**
+ * Guess what a document is from its file name
+ */
+export function guessDocumentType(fileName: string): ContextDocument['type'] {
+    if (/cover[\s_-]*letter/i.test(fileName)) {
+        return 'cover_letter';
+    }
+    if (/(?:^|[^a-z])(?:resume|résumé|cv|curriculum)(?![a-z])/i.test(fileName)) {
+        return 'resume';
+    }
+    return 'other';
+}
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+/**
+ * Strip Markdown formatting, keeping "#" headings and "- " list items as
+ * structure for chunking
+ */
+function normalizeMarkdown(markdown: string): string {
+    const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+    const output: string[] = [];
+    let inCodeBlock = false;
+
+    for (const line of lines) {
+        if (/^\s*(?:```|~~~)/.test(line)) {
+            inCodeBlock = !inCodeBlock;
+            continue;
+        }
+        if (inCodeBlock) {
+            output.push(line);
+            continue;
+        }
+
+        // Setext headings underline the previous line
+        const previous = output[output.length - 1];
+        if (/^\s*(?:=+|-+)\s*$/.test(line) && previous && !/^(?:#|- )/.test(previous)) {
+            output[output.length - 1] = `${line.trim().startsWith('=') ? '#' : '##'} ${previous}`;
+            continue;
+        }
+
+        // Horizontal rules and table separator rows
+        if (/^\s*([-*_])(?:\s*\1){2,}\s*$/.test(line) || /^\s*\|?(?:\s*:?-+:?\s*\|)+\s*:?-*:?\s*\|?\s*$/.test(line)) {
+            continue;
+        }
+
+        const heading = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+        if (heading) {
+            output.push(`${heading[1]} ${stripInline(heading[2])}`);
+            continue;
+        }
+
+        const listItem = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.*)$/.exec(line);
+        if (listItem) {
+            output.push(`- ${stripInline(listItem[1])}`);
+            continue;
+        }
+
+        const text = line
+            .replace(/^\s*>\s?/, '')
+            .replace(/^\s*\|(.*)\|\s*$/, '$1')
+            .replace(/\s*\|\s*/g, ' | ');
+        output.push(stripInline(text));
+    }
+
+    return output.join('\n');
+}
+
+/**
+ * Remove inline Markdown: images, links, emphasis, code spans and HTML tags
+ */
+function stripInline(text: string): string {
+    return text
+        .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/\[([^\]]+)\]\(([^)]*)\)/g, '$1')
+        .replace(/<(https?:[^>\s]+)>/g, '$1')
+        .replace(/<\/?[a-z][^>]*>/gi, '')
+        .replace(/(\*\*|__)(.+?)\1/g, '$2')
+        .replace(/(^|[^\w*])\*(?!\s)(.+?)\*(?!\w)/g, '$1$2')
+        .replace(/(^|\W)_(?!\s)(.+?)_(?!\w)/g, '$1$2')
+        .replace(/~~(.+?)~~/g, '$1')
+        .replace(/`([^`]+)`/g, '$1');
+}
+
+/**
+ * Unify line endings and spaces, and collapse runs of blank lines
+ */
+function normalizeWhitespace(text: string): string {
+    return text
+        .replace(/\r\n?/g, '\n')
+        .replace(/[\t\u00a0\u2007\u202f]/g, ' ')
+        .replace(/[ ]+$/gm, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
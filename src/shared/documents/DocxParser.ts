@@ -0,0 +1,185 @@
+// DOCX Parser
+// Extracts text from Word documents, writing headings and list items as Markdown-style lines
+
+import { inflate } from '@shared/utils';
+import { DocumentParseError } from './DocumentParseError';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const DOCUMENT_PATH = 'word/document.xml';
+
+// ZIP record signatures
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+
+// Outline level Word uses for body text
+const BODY_TEXT_OUTLINE_LEVEL = 9;
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Extract the text of a .docx file, one line per paragraph
+ */
+export async function extractDocxText(bytes: Uint8Array): Promise<string> {
+    let xml: Uint8Array | null;
+    try {
+        xml = await readZipEntry(bytes, DOCUMENT_PATH);
+    } catch (error) {
+        if (error instanceof DocumentParseError) throw error;
+        throw new DocumentParseError('The Word document is damaged');
+    }
+    if (!xml) {
+        throw new DocumentParseError('Not a Word document (.docx)');
+    }
+
+    const doc = new DOMParser().parseFromString(new TextDecoder().decode(xml), 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new DocumentParseError('The Word document is damaged');
+    }
+
+    return Array.from(doc.getElementsByTagNameNS(WORD_NS, 'p'))
+        .map(readParagraph)
+        .join('\n');
+}
+
+/**
+ * A paragraph's text, prefixed with "#" marks for headings or "- " for list items
+ */
+function readParagraph(paragraph: Element): string {
+    const text = collectText(paragraph).trim();
+    if (!text) {
+        return '';
+    }
+
+    const properties = getChild(paragraph, 'pPr');
+    const style = getVal(getChild(properties, 'pStyle')) ?? '';
+
+    const level = getHeadingLevel(style, getVal(getChild(properties, 'outlineLvl')));
+    if (level > 0) {
+        return `${'#'.repeat(Math.min(level, 6))} ${text}`;
+    }
+
+    if (getChild(properties, 'numPr') || /^list/i.test(style)) {
+        return `- ${text}`;
+    }
+
+    return text;
+}
+
+/**
+ * Heading level from the built-in heading styles, else the outline level; 0 for body text
+ */
+function getHeadingLevel(style: string, outlineLevel: string | undefined): number {
+    const heading = /^heading\s*(\d)$/i.exec(style);
+    if (heading) {
+        return Number(heading[1]);
+    }
+    if (/^title$/i.test(style)) {
+        return 1;
+    }
+
+    const level = Number(outlineLevel ?? BODY_TEXT_OUTLINE_LEVEL);
+    return level < BODY_TEXT_OUTLINE_LEVEL ? level + 1 : 0;
+}
+
+/**
+ * Text of a paragraph's runs. Paragraphs nested in text boxes are read on their own.
+ */
+function collectText(node: Element): string {
+    let text = '';
+
+    for (const child of Array.from(node.children)) {
+        if (child.namespaceURI !== WORD_NS) {
+            text += collectText(child);
+            continue;
+        }
+
+        switch (child.localName) {
+            case 'p':
+                break;
+            case 't':
+                text += child.textContent ?? '';
+                break;
+            case 'tab':
+                text += '\t';
+                break;
+            case 'br':
+            case 'cr':
+                text += ' ';
+                break;
+            default:
+                text += collectText(child);
+        }
+    }
+
+    return text;
+}
+
+function getChild(element: Element | undefined, localName: string): Element | undefined {
+    return Array.from(element?.children ?? []).find(
+        (child) => child.namespaceURI === WORD_NS && child.localName === localName
+    );
+}
+
+function getVal(element: Element | undefined): string | undefined {
+    return element?.getAttributeNS(WORD_NS, 'val') ?? undefined;
+}
+
+// ============================================================================
+// ZIP
+// ============================================================================
+
+/**
+ * Read one file from a ZIP archive, or null if it isn't there
+ */
+async function readZipEntry(bytes: Uint8Array, path: string): Promise<Uint8Array | null> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    // The end record sits at the very end, before an optional comment of up to 64 KB
+    let end = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+            end = i;
+            break;
+        }
+    }
+    if (end < 0) {
+        return null;
+    }
+
+    const entryCount = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    const decoder = new TextDecoder();
+
+    for (let n = 0; n < entryCount; n++) {
+        if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+            return null;
+        }
+
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localHeader = view.getUint32(offset + 42, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+        if (name === path) {
+            const start = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+            const data = bytes.subarray(start, start + compressedSize);
+
+            if (method === 0) return data;
+            if (method === 8) return inflate(data, 'deflate-raw');
+            throw new DocumentParseError('The Word document uses an unsupported compression method');
+        }
+
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return null;
+}
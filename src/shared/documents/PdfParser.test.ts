@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentParseError } from './DocumentParseError';
+import { extractPdfText } from './PdfParser';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+// Files are built as binary strings, one character per byte
+
+interface PdfStream {
+    dict: string;
+    data: string;
+}
+
+type PdfObjectBody = string | PdfStream;
+
+async function deflate(text: string): Promise<string> {
+    const stream = new Blob([toBytes(text).slice()]).stream().pipeThrough(new CompressionStream('deflate'));
+    const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+    return String.fromCharCode(...compressed);
+}
+
+async function flateStream(data: string, dict: string = ''): Promise<PdfStream> {
+    return { dict: `/Filter /FlateDecode ${dict}`, data: await deflate(data) };
+}
+
+/**
+ * Object n of the file is objects[n - 1]; null leaves that number undefined
+ */
+function buildPdf(objects: (PdfObjectBody | null)[]): Uint8Array {
+    const body = objects.map((object, i) => {
+        if (object === null) {
+            return '';
+        }
+        const content = typeof object === 'string'
+            ? object
+            : `<< ${object.dict} /Length ${object.data.length} >>\nstream\n${object.data}\nendstream`;
+        return `${i + 1} 0 obj\n${content}\nendobj\n`;
+    });
+    return toBytes(`%PDF-1.7\n${body.join('')}trailer\n<< /Root 1 0 R >>\n%%EOF\n`);
+}
+
+function toBytes(binary: string): Uint8Array {
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+/**
+ * A catalog and one page per content stream, with a WinAnsi font F1
+ */
+function pagesPdf(contents: PdfObjectBody[]): Uint8Array {
+    const pageNums = contents.map((_, i) => 4 + i * 2);
+    return buildPdf([
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        `<< /Type /Pages /Kids [${pageNums.map((n) => `${n} 0 R`).join(' ')}] /Count ${contents.length}`
+            + ' /Resources << /Font << /F1 3 0 R >> >> >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+        ...contents.flatMap((content, i) => [
+            `<< /Type /Page /Parent 2 0 R /Contents ${pageNums[i] + 1} 0 R >>`,
+            content,
+        ]),
+    ]);
+}
+
+function rawStream(data: string): PdfStream {
+    return { dict: '', data };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('extractPdfText', () => {
+    it('rejects files that are not PDFs', async () => {
+        await expect(extractPdfText(toBytes('PK\x03\x04'))).rejects.toThrow(DocumentParseError);
+    });
+
+    it('rejects encrypted PDFs', async () => {
+        const pdf = toBytes('%PDF-1.7\n1 0 obj\n<< /Filter /Standard /V 2 >>\nendobj\n'
+            + 'trailer\n<< /Root 2 0 R /Encrypt 1 0 R >>\n');
+
+        await expect(extractPdfText(pdf)).rejects.toThrow('Password-protected PDFs are not supported');
+    });
+
+    it('reads text lines and separates pages with a blank line', async () => {
+        const pdf = pagesPdf([
+            rawStream('BT /F1 12 Tf 72 720 Td (Ada Lovelace) Tj 0 -14 Td (London) Tj ET'),
+            rawStream('BT /F1 12 Tf 72 720 Td (Page two) Tj ET'),
+        ]);
+
+        expect(await extractPdfText(pdf)).toBe('Ada Lovelace\nLondon\n\nPage two');
+    });
+
+    it('inserts spaces for wide TJ gaps only', async () => {
+        const pdf = pagesPdf([rawStream('BT /F1 12 Tf [(Sen) -20 (ior) -400 (Engineer)] TJ ET')]);
+
+        expect(await extractPdfText(pdf)).toBe('Senior Engineer');
+    });
+
+    it('decodes escapes and WinAnsi punctuation in literal strings', async () => {
+        const pdf = pagesPdf([rawStream('BT /F1 12 Tf (\\223Quoted\\224 \\(x\\) \\226 done) Tj ET')]);
+
+        expect(await extractPdfText(pdf)).toBe('“Quoted” (x) – done');
+    });
+
+    it('inflates Flate-compressed content streams', async () => {
+        const pdf = pagesPdf([await flateStream('BT /F1 12 Tf (Compressed text) Tj ET')]);
+
+        expect(await extractPdfText(pdf)).toBe('Compressed text');
+    });
+
+    it('reads objects packed into a compressed object stream', async () => {
+        // The page tree (2) and page (3) only exist inside object stream 5
+        const packed = ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>', '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>'];
+        const index = `2 0 3 ${packed[0].length + 1} `;
+
+        const pdf = buildPdf([
+            '<< /Type /Catalog /Pages 2 0 R >>',
+            null,
+            null,
+            rawStream('BT (From an object stream) Tj ET'),
+            await flateStream(index + packed.join(' '), `/Type /ObjStm /N 2 /First ${index.length}`),
+        ]);
+
+        expect(await extractPdfText(pdf)).toBe('From an object stream');
+    });
+
+    it('prefers top-level objects over packed copies', async () => {
+        const packed = '<< /Type /Page /Parent 2 0 R /Contents 5 0 R >>';
+        const index = '3 0 ';
+
+        const pdf = buildPdf([
+            '<< /Type /Catalog /Pages 2 0 R >>',
+            '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+            '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>',
+            rawStream('BT (Top level) Tj ET'),
+            rawStream('BT (Packed) Tj ET'),
+            await flateStream(index + packed, `/Type /ObjStm /N 1 /First ${index.length}`),
+        ]);
+
+        expect(await extractPdfText(pdf)).toBe('Top level');
+    });
+
+    it('maps two-byte codes through a composite font\'s ToUnicode CMap', async () => {
+        const cmap = [
+            'begincmap',
+            '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+            '1 beginbfchar <0003> <0020> endbfchar',
+            '2 beginbfrange <0010> <0012> <0041> <0020> <0021> [<0078> <0079>] endbfrange',
+            'endcmap',
+        ].join('\n');
+
+        const pdf = buildPdf([
+            '<< /Type /Catalog /Pages 2 0 R >>',
+            '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+            '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F2 4 0 R >> >> /Contents 6 0 R >>',
+            '<< /Type /Font /Subtype /Type0 /BaseFont /Embedded /ToUnicode 5 0 R >>',
+            await flateStream(cmap),
+            rawStream('BT /F2 10 Tf <001000110012000300200021> Tj ET'),
+        ]);
+
+        expect(await extractPdfText(pdf)).toBe('ABC xy');
+    });
+
+    it('yields no text for a composite font without a ToUnicode map', async () => {
+        const pdf = buildPdf([
+            '<< /Type /Catalog /Pages 2 0 R >>',
+            '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+            '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F2 4 0 R >> >> /Contents 5 0 R >>',
+            '<< /Type /Font /Subtype /Type0 /BaseFont /Embedded >>',
+            rawStream('BT /F2 10 Tf <00100011> Tj ET'),
+        ]);
+
+        expect(await extractPdfText(pdf)).toBe('');
+    });
+
+    it('survives a page tree that refers to itself', async () => {
+        const pdf = buildPdf([
+            '<< /Type /Catalog /Pages 2 0 R >>',
+            '<< /Type /Pages /Kids [2 0 R 3 0 R] /Count 1 >>',
+            '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>',
+            rawStream('BT (Only once) Tj ET'),
+        ]);
+
+        expect(await extractPdfText(pdf)).toBe('Only once');
+    });
+});
@@ -0,0 +1,713 @@
+// PDF Parser
+// Extracts text from PDF files by reading page content streams and decoding them through each font's ToUnicode map
+
+import { inflate } from '@shared/utils';
+import { DocumentParseError } from './DocumentParseError';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+class PdfName {
+    constructor(readonly value: string) {}
+}
+
+class PdfRef {
+    constructor(readonly num: number) {}
+}
+
+// A bare word in a content stream (an operator) or a closing delimiter
+class PdfKeyword {
+    constructor(readonly value: string) {}
+}
+
+// Strings hold raw bytes, one character per byte
+type PdfValue = number | boolean | null | string | PdfName | PdfRef | PdfValue[] | PdfDict;
+type PdfDict = Map<string, PdfValue>;
+
+interface PdfObject {
+    value: PdfValue;
+    stream?: string;
+}
+
+interface FontDecoder {
+    codeLength: 1 | 2;
+    map: Map<number, string>;
+}
+
+interface PdfPage {
+    page: PdfDict;
+    resources: PdfDict | undefined;    // Own or inherited from a parent page tree node
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const WHITESPACE = new Set(['\0', '\t', '\n', '\f', '\r', ' ']);
+const DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%']);
+
+// A TJ adjustment wider than this (thousandths of an em) is a word gap
+const TJ_SPACE_THRESHOLD = 200;
+
+// Page trees deeper than this, or reference chains longer, are malformed
+const MAX_PAGE_TREE_DEPTH = 32;
+const MAX_REF_CHAIN = 8;
+
+// WinAnsiEncoding characters that differ from Latin-1
+const WIN_ANSI_EXTRAS: Record<number, string> = {
+    0x80: '€', 0x85: '…', 0x91: '‘', 0x92: '’', 0x93: '“', 0x94: '”',
+    0x95: '•', 0x96: '–', 0x97: '—', 0x99: '™',
+};
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Extract the text of a PDF, one line per text line and a blank line between pages
+ */
+export async function extractPdfText(bytes: Uint8Array): Promise<string> {
+    const data = bytesToBinary(bytes);
+    if (!data.startsWith('%PDF-')) {
+        throw new DocumentParseError('Not a PDF file');
+    }
+    if (data.includes('/Encrypt')) {
+        throw new DocumentParseError('Password-protected PDFs are not supported');
+    }
+
+    const objects = await readObjects(data);
+    const resolve = (value: PdfValue | undefined): PdfValue | undefined => {
+        for (let i = 0; value instanceof PdfRef && i < MAX_REF_CHAIN; i++) {
+            value = objects.get(value.num)?.value;
+        }
+        return value;
+    };
+
+    // Keyed by object number, as pages often share fonts
+    const fontCache = new Map<PdfValue, FontDecoder | undefined>();
+    const pages: string[] = [];
+
+    for (const { page, resources } of getPages(objects, resolve)) {
+        const fonts = new Map<string, FontDecoder | undefined>();
+        const fontDict = asDict(resolve(resources?.get('Font')));
+        for (const [name, ref] of fontDict ?? []) {
+            const key = ref instanceof PdfRef ? ref.num : ref;
+            if (!fontCache.has(key)) {
+                fontCache.set(key, await getFontDecoder(asDict(resolve(ref)), objects));
+            }
+            fonts.set(name, fontCache.get(key));
+        }
+
+        const contents = resolveContents(page.get('Contents'), resolve);
+        let content = '';
+        for (const ref of contents) {
+            const object = ref instanceof PdfRef ? objects.get(ref.num) : undefined;
+            content += (object ? await decodeStream(object) : null) ?? '';
+            content += '\n';
+        }
+
+        pages.push(extractPageText(content, fonts));
+    }
+
+    return pages.filter(Boolean).join('\n\n');
+}
+
+/**
+ * Interpret a page's text operators: show strings in the current font, starting
+ * new lines when the text position moves down
+ */
+function extractPageText(content: string, fonts: Map<string, FontDecoder | undefined>): string {
+    const lexer = new PdfLexer(content);
+    const operands: PdfValue[] = [];
+    let font: FontDecoder | undefined;
+    let lastY: number | null = null;
+    let text = '';
+
+    const newLine = () => {
+        if (text && !text.endsWith('\n')) text += '\n';
+    };
+    const space = () => {
+        if (text && !/\s$/.test(text)) text += ' ';
+    };
+    const show = (value: PdfValue) => {
+        if (typeof value === 'string') text += decodeText(value, font);
+    };
+
+    for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+        if (!(token instanceof PdfKeyword)) {
+            operands.push(token);
+            continue;
+        }
+
+        switch (token.value) {
+            case 'Tf': {
+                const name = operands[0];
+                font = name instanceof PdfName ? fonts.get(name.value) : undefined;
+                break;
+            }
+            case 'Tj':
+                show(operands[0]);
+                break;
+            case 'TJ':
+                for (const item of Array.isArray(operands[0]) ? operands[0] : []) {
+                    if (typeof item === 'number') {
+                        if (item < -TJ_SPACE_THRESHOLD) space();
+                    } else {
+                        show(item);
+                    }
+                }
+                break;
+            case '\'':
+                newLine();
+                show(operands[0]);
+                break;
+            case '"':
+                newLine();
+                show(operands[2]);
+                break;
+            case 'Td':
+            case 'TD': {
+                const [tx, ty] = operands;
+                if (typeof ty === 'number' && ty !== 0) newLine();
+                else if (typeof tx === 'number' && tx > 0) space();
+                break;
+            }
+            case 'T*':
+                newLine();
+                break;
+            case 'Tm': {
+                const y = operands[5];
+                if (typeof y === 'number') {
+                    if (lastY !== null && Math.abs(y - lastY) > 0.5) newLine();
+                    else space();
+                    lastY = y;
+                }
+                break;
+            }
+            case 'ET':
+                space();
+                break;
+            case 'BI':
+                lexer.skipInlineImage();
+                break;
+        }
+
+        operands.length = 0;
+    }
+
+    return text
+        .split('\n')
+        .map((line) => line.replace(/\s+/g, ' ').trim())
+        .join('\n')
+        .trim();
+}
+
+/**
+ * Decode a shown string's bytes through the font's character map
+ */
+function decodeText(bytes: string, font: FontDecoder | undefined): string {
+    if (!font) {
+        return Array.from(bytes, (c) => WIN_ANSI_EXTRAS[c.charCodeAt(0)] ?? c).join('');
+    }
+
+    let text = '';
+    for (let i = 0; i + font.codeLength <= bytes.length; i += font.codeLength) {
+        const code = font.codeLength === 2
+            ? (bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1)
+            : bytes.charCodeAt(i);
+        text += font.map.get(code) ?? (font.codeLength === 1 ? WIN_ANSI_EXTRAS[code] ?? String.fromCharCode(code) : '');
+    }
+    return text;
+}
+
+// ============================================================================
+// Document Structure
+// ============================================================================
+
+/**
+ * Read every indirect object, including those packed into object streams.
+ * Later definitions win, as in incrementally updated files.
+ */
+async function readObjects(data: string): Promise<Map<number, PdfObject>> {
+    const objects = new Map<number, PdfObject>();
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+
+    for (let match = header.exec(data); match; match = header.exec(data)) {
+        const lexer = new PdfLexer(data, header.lastIndex);
+        const value = lexer.next();
+        if (value === undefined || value instanceof PdfKeyword) {
+            continue;
+        }
+
+        const object: PdfObject = { value };
+        const streamStart = lexer.findStreamStart();
+        if (streamStart !== null && value instanceof Map) {
+            const length = value.get('Length');
+            let end = typeof length === 'number' ? streamStart + length : -1;
+            if (end < 0 || !/^\s*endstream/.test(data.slice(end, end + 20))) {
+                end = data.indexOf('endstream', streamStart);
+            }
+            if (end < 0) {
+                break;
+            }
+
+            object.stream = data.slice(streamStart, end);
+            header.lastIndex = end;
+        }
+
+        objects.set(Number(match[1]), object);
+    }
+
+    for (const object of Array.from(objects.values())) {
+        const dict = asDict(object.value);
+        if (!object.stream || nameOf(dict?.get('Type')) !== 'ObjStm') {
+            continue;
+        }
+
+        const content = await decodeStream(object);
+        const count = dict?.get('N');
+        const first = dict?.get('First');
+        if (content === null || typeof count !== 'number' || typeof first !== 'number') {
+            continue;
+        }
+
+        const index = new PdfLexer(content.slice(0, first));
+        for (let i = 0; i < count; i++) {
+            const num = index.next();
+            const offset = index.next();
+            if (typeof num !== 'number' || typeof offset !== 'number') {
+                break;
+            }
+
+            const value = new PdfLexer(content, first + offset).next();
+            if (value !== undefined && !(value instanceof PdfKeyword) && !objects.has(num)) {
+                objects.set(num, { value });
+            }
+        }
+    }
+
+    return objects;
+}
+
+/**
+ * List pages in reading order by walking the page tree from the catalog,
+ * falling back to every page object in file order
+ */
+function getPages(
+    objects: Map<number, PdfObject>,
+    resolve: (value: PdfValue | undefined) => PdfValue | undefined
+): PdfPage[] {
+    const pages: PdfPage[] = [];
+    const visited = new Set<PdfDict>();
+
+    const walk = (node: PdfDict | undefined, inherited: PdfDict | undefined, depth: number) => {
+        if (!node || visited.has(node) || depth > MAX_PAGE_TREE_DEPTH) {
+            return;
+        }
+        visited.add(node);
+
+        const resources = asDict(resolve(node.get('Resources'))) ?? inherited;
+        const kids = resolve(node.get('Kids'));
+        if (Array.isArray(kids)) {
+            for (const kid of kids) {
+                walk(asDict(resolve(kid)), resources, depth + 1);
+            }
+        } else if (nameOf(node.get('Type')) === 'Page') {
+            pages.push({ page: node, resources });
+        }
+    };
+
+    const catalog = Array.from(objects.values())
+        .map((object) => asDict(object.value))
+        .find((dict) => nameOf(dict?.get('Type')) === 'Catalog');
+    walk(asDict(resolve(catalog?.get('Pages'))), undefined, 0);
+
+    if (pages.length > 0) {
+        return pages;
+    }
+
+    return Array.from(objects.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([, object]) => asDict(object.value))
+        .filter((dict): dict is PdfDict => nameOf(dict?.get('Type')) === 'Page')
+        .map((page) => ({ page, resources: asDict(resolve(page.get('Resources'))) }));
+}
+
+function resolveContents(
+    contents: PdfValue | undefined,
+    resolve: (value: PdfValue | undefined) => PdfValue | undefined
+): PdfValue[] {
+    if (contents instanceof PdfRef) {
+        const target = resolve(contents);
+        return Array.isArray(target) ? target : [contents];
+    }
+    return Array.isArray(contents) ? contents : [];
+}
+
+/**
+ * Decode a stream's data. Null for filters other than Flate (images, mostly).
+ */
+async function decodeStream(object: PdfObject): Promise<string | null> {
+    if (object.stream === undefined) {
+        return null;
+    }
+
+    const filter = asDict(object.value)?.get('Filter');
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map(nameOf);
+    let bytes = binaryToBytes(object.stream);
+
+    for (const name of filters) {
+        if (name !== 'FlateDecode') {
+            return null;
+        }
+        try {
+            bytes = await inflate(bytes, 'deflate');
+        } catch {
+            return null;
+        }
+    }
+
+    return bytesToBinary(bytes);
+}
+
+// ============================================================================
+// Fonts
+// ============================================================================
+
+/**
+ * Build a font's code-to-text map from its ToUnicode CMap. Composite fonts
+ * without one can't be decoded and yield no text.
+ */
+async function getFontDecoder(
+    font: PdfDict | undefined,
+    objects: Map<number, PdfObject>
+): Promise<FontDecoder | undefined> {
+    if (!font) {
+        return undefined;
+    }
+
+    const composite = nameOf(font.get('Subtype')) === 'Type0';
+    const toUnicode = font.get('ToUnicode');
+    const object = toUnicode instanceof PdfRef ? objects.get(toUnicode.num) : undefined;
+    const cmap = object ? await decodeStream(object) : null;
+
+    if (cmap) {
+        return parseCMap(cmap, composite ? 2 : 1);
+    }
+    if (composite) {
+        return { codeLength: 2, map: new Map() };
+    }
+
+    // Simple fonts are read as WinAnsiEncoding; custom encodings aren't mapped
+    return undefined;
+}
+
+/**
+ * Parse the bfchar and bfrange mappings of a ToUnicode CMap
+ */
+function parseCMap(cmap: string, defaultCodeLength: 1 | 2): FontDecoder {
+    const lexer = new PdfLexer(cmap);
+    const decoder: FontDecoder = { codeLength: defaultCodeLength, map: new Map() };
+    const operands: PdfValue[] = [];
+
+    for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+        if (!(token instanceof PdfKeyword)) {
+            operands.push(token);
+            continue;
+        }
+
+        switch (token.value) {
+            case 'endcodespacerange':
+                if (typeof operands[0] === 'string') {
+                    decoder.codeLength = operands[0].length >= 2 ? 2 : 1;
+                }
+                break;
+            case 'endbfchar':
+                for (let i = 0; i + 1 < operands.length; i += 2) {
+                    const [src, dst] = [operands[i], operands[i + 1]];
+                    if (typeof src === 'string' && typeof dst === 'string') {
+                        decoder.map.set(bytesToCode(src), decodeUtf16(dst));
+                    }
+                }
+                break;
+            case 'endbfrange':
+                for (let i = 0; i + 2 < operands.length; i += 3) {
+                    const [lo, hi, dst] = [operands[i], operands[i + 1], operands[i + 2]];
+                    if (typeof lo !== 'string' || typeof hi !== 'string') continue;
+
+                    const start = bytesToCode(lo);
+                    const end = Math.min(bytesToCode(hi), start + 0xffff);
+                    for (let code = start; code <= end; code++) {
+                        const target = Array.isArray(dst) ? dst[code - start] : dst;
+                        if (typeof target !== 'string') continue;
+
+                        // A single destination string counts up from the range start
+                        const text = decodeUtf16(target);
+                        decoder.map.set(code, Array.isArray(dst)
+                            ? text
+                            : text.slice(0, -1) + String.fromCharCode(text.charCodeAt(text.length - 1) + code - start));
+                    }
+                }
+                break;
+        }
+
+        // Mappings are the operands between a begin keyword and its end keyword
+        operands.length = 0;
+    }
+
+    return decoder;
+}
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+/**
+ * Reads PDF values and keywords from object bodies and content streams
+ */
+class PdfLexer {
+    constructor(private readonly data: string, private pos: number = 0) {}
+
+    /**
+     * Read the next value or keyword, or undefined at the end of the data
+     */
+    next(): PdfValue | PdfKeyword | undefined {
+        this.skipWhitespace();
+        if (this.pos >= this.data.length) {
+            return undefined;
+        }
+
+        const c = this.data[this.pos];
+
+        if (c === '/') {
+            this.pos++;
+            return new PdfName(this.readRegular().replace(/#([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+        }
+        if (c === '(') {
+            return this.readLiteralString();
+        }
+        if (c === '<' && this.data[this.pos + 1] === '<') {
+            this.pos += 2;
+            return this.readDict();
+        }
+        if (c === '<') {
+            return this.readHexString();
+        }
+        if (c === '[') {
+            this.pos++;
+            return this.readArray();
+        }
+        if (c === '>' && this.data[this.pos + 1] === '>') {
+            this.pos += 2;
+            return new PdfKeyword('>>');
+        }
+        if (DELIMITERS.has(c)) {
+            this.pos++;
+            return new PdfKeyword(c);
+        }
+
+        const word = this.readRegular();
+        if (/^[+-]?(?:\d+\.?\d*|\.\d+)$/.test(word)) {
+            return this.readNumberOrRef(Number(word));
+        }
+        if (word === 'true' || word === 'false') {
+            return word === 'true';
+        }
+        if (word === 'null') {
+            return null;
+        }
+        return new PdfKeyword(word);
+    }
+
+    /**
+     * After an object's dictionary, find where its stream data starts, if it has any
+     */
+    findStreamStart(): number | null {
+        this.skipWhitespace();
+        if (!this.data.startsWith('stream', this.pos)) {
+            return null;
+        }
+
+        let start = this.pos + 'stream'.length;
+        if (this.data[start] === '\r') start++;
+        if (this.data[start] === '\n') start++;
+        return start;
+    }
+
+    /**
+     * Skip an inline image's binary data (BI ... ID <data> EI)
+     */
+    skipInlineImage(): void {
+        const data = this.data.indexOf('ID', this.pos);
+        const end = data < 0 ? -1 : this.data.indexOf('EI', data + 3);
+        this.pos = end < 0 ? this.data.length : end + 2;
+    }
+
+    private skipWhitespace(): void {
+        while (this.pos < this.data.length) {
+            const c = this.data[this.pos];
+            if (c === '%') {
+                while (this.pos < this.data.length && this.data[this.pos] !== '\n' && this.data[this.pos] !== '\r') {
+                    this.pos++;
+                }
+            } else if (WHITESPACE.has(c)) {
+                this.pos++;
+            } else {
+                return;
+            }
+        }
+    }
+
+    private readRegular(): string {
+        const start = this.pos;
+        while (this.pos < this.data.length && !WHITESPACE.has(this.data[this.pos]) && !DELIMITERS.has(this.data[this.pos])) {
+            this.pos++;
+        }
+        return this.data.slice(start, this.pos);
+    }
+
+    /**
+     * An integer may start an indirect reference: "12 0 R"
+     */
+    private readNumberOrRef(num: number): number | PdfRef {
+        if (!Number.isInteger(num)) {
+            return num;
+        }
+
+        const match = /^\s+\d+\s+R(?![^\s()<>[\]{}/%])/.exec(this.data.slice(this.pos, this.pos + 24));
+        if (match) {
+            this.pos += match[0].length;
+            return new PdfRef(num);
+        }
+        return num;
+    }
+
+    private readLiteralString(): string {
+        this.pos++;
+        let depth = 1;
+        let result = '';
+
+        while (this.pos < this.data.length) {
+            const c = this.data[this.pos++];
+
+            if (c === '\\') {
+                const next = this.data[this.pos++];
+                const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+                if (next in escapes) {
+                    result += escapes[next];
+                } else if (/[0-7]/.test(next)) {
+                    let octal = next;
+                    while (octal.length < 3 && /[0-7]/.test(this.data[this.pos])) {
+                        octal += this.data[this.pos++];
+                    }
+                    result += String.fromCharCode(parseInt(octal, 8) & 0xff);
+                } else if (next === '\r') {
+                    if (this.data[this.pos] === '\n') this.pos++;
+                } else if (next !== '\n') {
+                    result += next;
+                }
+            } else if (c === '(') {
+                depth++;
+                result += c;
+            } else if (c === ')') {
+                if (--depth === 0) break;
+                result += c;
+            } else {
+                result += c;
+            }
+        }
+
+        return result;
+    }
+
+    private readHexString(): string {
+        const end = this.data.indexOf('>', this.pos);
+        const hex = this.data.slice(this.pos + 1, end < 0 ? undefined : end).replace(/[^0-9a-f]/gi, '');
+        this.pos = end < 0 ? this.data.length : end + 1;
+
+        let result = '';
+        for (let i = 0; i < hex.length; i += 2) {
+            result += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16));
+        }
+        return result;
+    }
+
+    private readDict(): PdfDict {
+        const dict: PdfDict = new Map();
+
+        for (let key = this.next(); key !== undefined; key = this.next()) {
+            if (key instanceof PdfKeyword && key.value === '>>') {
+                break;
+            }
+
+            const value = this.next();
+            if (key instanceof PdfName && value !== undefined && !(value instanceof PdfKeyword)) {
+                dict.set(key.value, value);
+            }
+        }
+
+        return dict;
+    }
+
+    private readArray(): PdfValue[] {
+        const items: PdfValue[] = [];
+
+        for (let item = this.next(); item !== undefined; item = this.next()) {
+            if (item instanceof PdfKeyword) {
+                if (item.value === ']') break;
+                continue;
+            }
+            items.push(item);
+        }
+
+        return items;
+    }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function asDict(value: PdfValue | undefined): PdfDict | undefined {
+    return value instanceof Map ? value : undefined;
+}
+
+function nameOf(value: PdfValue | undefined): string | undefined {
+    return value instanceof PdfName ? value.value : undefined;
+}
+
+function bytesToCode(bytes: string): number {
+    let code = 0;
+    for (let i = 0; i < bytes.length; i++) {
+        code = (code << 8) | bytes.charCodeAt(i);
+    }
+    return code;
+}
+
+function decodeUtf16(bytes: string): string {
+    let text = '';
+    for (let i = 0; i + 1 < bytes.length; i += 2) {
+        text += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+    }
+    return text;
+}
+
+/**
+ * Bytes as a string with one character per byte, so offsets match the file
+ */
+function bytesToBinary(bytes: Uint8Array): string {
+    let result = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return result;
+}
+
+function binaryToBytes(binary: string): Uint8Array {
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
@@ -0,0 +1,12 @@
+// Documents Module Index
+export {
+    parseDocumentFile,
+    getDocumentFormat,
+    guessDocumentType,
+    MAX_DOCUMENT_BYTES,
+    DOCUMENT_FILE_ACCEPT
+} from './DocumentParser';
+export type { ParsedDocument } from './DocumentParser';
+export { DocumentParseError } from './DocumentParseError';
+export { extractPdfText } from './PdfParser';
+export { extractDocxText } from './DocxParser';
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { PostalAddress } from '@shared/types';
+import { formatAddress, matchAddressOption, normalizeCountry, parseAddress } from './AddressFormatter';
+
+describe('parseAddress', () => {
+    it('splits a US address with state and ZIP', () => {
+        expect(parseAddress('1600 Amphitheatre Pkwy, Mountain View, CA 94043, USA')).toEqual({
+            line1: '1600 Amphitheatre Pkwy',
+            city: 'Mountain View',
+            state: 'CA',
+            postalCode: '94043',
+            country: 'US',
+        });
+    });
+
+    it('reads a postcode placed before the city', () => {
+        expect(parseAddress('Unter den Linden 77, 10117 Berlin, Germany')).toMatchObject({
+            line1: 'Unter den Linden 77',
+            city: 'Berlin',
+            postalCode: '10117',
+            country: 'DE',
+        });
+    });
+
+    it('recognizes a UK postcode when no country is given', () => {
+        expect(parseAddress('221B Baker Street, London, NW1 6XE')).toMatchObject({
+            line1: '221B Baker Street',
+            city: 'London',
+            postalCode: 'NW1 6XE',
+        });
+    });
+
+    it('uses the default country\'s postcode shape', () => {
+        expect(parseAddress('10 Downing Street, London SW1A 2AA', 'GB')).toMatchObject({
+            line1: '10 Downing Street',
+            city: 'London',
+            postalCode: 'SW1A 2AA',
+            country: 'GB',
+        });
+    });
+
+    it('never takes a house number for a postcode', () => {
+        expect(parseAddress('12345 Main St, Springfield', 'US')).toMatchObject({
+            line1: '12345 Main St',
+            city: 'Springfield',
+            postalCode: '',
+        });
+    });
+
+    it('keeps lines between the street and the city as line 2', () => {
+        expect(parseAddress('1 Infinite Loop, Building B, Suite 4, Cupertino, CA 95014')).toMatchObject({
+            line1: '1 Infinite Loop',
+            line2: 'Building B, Suite 4',
+            city: 'Cupertino',
+            postalCode: '95014',
+        });
+    });
+});
+
+describe('formatAddress', () => {
+    const berlin: PostalAddress = {
+        line1: 'Unter den Linden 77',
+        city: 'Berlin',
+        postalCode: '10117',
+        country: 'DE',
+    };
+
+    it('follows the country\'s line order', () => {
+        expect(formatAddress(berlin)).toBe('Unter den Linden 77\n10117 Berlin\nGermany');
+    });
+
+    it('joins on one line without the country', () => {
+        const address: PostalAddress = {
+            line1: '1600 Amphitheatre Pkwy',
+            city: 'Mountain View',
+            state: 'CA',
+            postalCode: '94043',
+            country: 'US',
+        };
+
+        expect(formatAddress(address, { singleLine: true, includeCountry: false }))
+            .toBe('1600 Amphitheatre Pkwy, Mountain View, CA 94043');
+    });
+
+    it('drops the separators of empty components', () => {
+        expect(formatAddress({ line1: '1 Main St', city: 'Austin', postalCode: '', country: 'US' }))
+            .toBe('1 Main St\nAustin\nUnited States');
+    });
+});
+
+describe('normalizeCountry', () => {
+    it('resolves codes and names regardless of punctuation', () => {
+        expect(normalizeCountry('U.S.A.')?.code).toBe('US');
+        expect(normalizeCountry('germany')?.code).toBe('DE');
+        expect(normalizeCountry('Atlantis')).toBeNull();
+    });
+});
+
+describe('matchAddressOption', () => {
+    it('matches countries by code across names and aliases', () => {
+        const options = [
+            { value: '840', label: 'United States of America' },
+            { value: '276', label: 'Germany' },
+        ];
+
+        expect(matchAddressOption('USA', options, 'country')).toEqual({ option: options[0], exact: true });
+    });
+
+    it('matches a state code against state names', () => {
+        const options = [
+            { value: 'Texas', label: 'Texas' },
+            { value: 'California', label: 'California' },
+        ];
+
+        expect(matchAddressOption('CA', options, 'state', 'US')?.option.value).toBe('California');
+    });
+});
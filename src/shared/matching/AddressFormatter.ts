@@ -0,0 +1,296 @@
+// Address Formatter
+// Locale-aware address formatting, parsing and country/region normalization
+
+import type { FieldOption, PostalAddress } from '@shared/types';
+import { COUNTRIES, REGIONS } from '@shared/constants';
+import type { CountryInfo, RegionInfo } from '@shared/constants';
+import { matchOption, normalizeOptionText } from './OptionMatcher';
+import type { OptionMatch } from './OptionMatcher';
+
+// ============================================================================
+// Formats
+// ============================================================================
+
+interface AddressFormat {
+    lines: string[];            // Line templates; {tokens} are replaced and empty lines dropped
+    postalCodePattern: RegExp;
+}
+
+const POSTAL_CODE_BEFORE_CITY = ['{line1}', '{line2}', '{postalCode} {city}', '{country}'];
+const CITY_STATE_POSTAL_CODE = ['{line1}', '{line2}', '{city}, {state} {postalCode}', '{country}'];
+
+const DEFAULT_FORMAT: AddressFormat = {
+    lines: ['{line1}', '{line2}', '{city} {state} {postalCode}', '{country}'],
+    postalCodePattern: /\b\d{4,6}(?:-\d{3,4})?\b/,
+};
+
+/**
+ * Line order and postal code shape by country code
+ */
+const ADDRESS_FORMATS: Record<string, AddressFormat> = {
+    US: { lines: CITY_STATE_POSTAL_CODE, postalCodePattern: /\b\d{5}(?:-\d{4})?\b/ },
+    CA: { lines: CITY_STATE_POSTAL_CODE, postalCodePattern: /\b[A-Z]\d[A-Z] ?\d[A-Z]\d\b/i },
+    AU: { lines: DEFAULT_FORMAT.lines, postalCodePattern: /\b\d{4}\b/ },
+    GB: {
+        lines: ['{line1}', '{line2}', '{city}', '{postalCode}', '{country}'],
+        postalCodePattern: /\b[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}\b/i,
+    },
+    IE: {
+        lines: ['{line1}', '{line2}', '{city}', '{state}', '{postalCode}', '{country}'],
+        postalCodePattern: /\b[A-Z]\d{2} ?[A-Z\d]{4}\b/i,
+    },
+    DE: { lines: POSTAL_CODE_BEFORE_CITY, postalCodePattern: /\b\d{5}\b/ },
+    FR: { lines: POSTAL_CODE_BEFORE_CITY, postalCodePattern: /\b\d{5}\b/ },
+    ES: { lines: POSTAL_CODE_BEFORE_CITY, postalCodePattern: /\b\d{5}\b/ },
+    FI: { lines: POSTAL_CODE_BEFORE_CITY, postalCodePattern: /\b\d{5}\b/ },
+    AT: { lines: POSTAL_CODE_BEFORE_CITY, postalCodePattern: /\b\d{4}\b/ },
+    BE: { lines: POSTAL_CODE_BEFORE_CITY, postalCodePattern: /\b\d{4}\b/ },
+    CH: { lines: POSTAL_CODE_BEFORE_CITY, postalCodePattern: /\b\d{4}\b/ },
+    DK: { lines: POSTAL_CODE_BEFORE_CITY, postalCodePattern: /\b\d{4}\b/ },
+    NO: { lines: POSTAL_CODE_BEFORE_CITY, postalCodePattern: /\b\d{4}\b/ },
+    NL: { lines: POSTAL_CODE_BEFORE_CITY, postalCodePattern: /\b\d{4} ?[A-Z]{2}\b/i },
+    SE: { lines: POSTAL_CODE_BEFORE_CITY, postalCodePattern: /\b\d{3} ?\d{2}\b/ },
+    PL: { lines: POSTAL_CODE_BEFORE_CITY, postalCodePattern: /\b\d{2}-\d{3}\b/ },
+    PT: { lines: POSTAL_CODE_BEFORE_CITY, postalCodePattern: /\b\d{4}-\d{3}\b/ },
+    IT: {
+        lines: ['{line1}', '{line2}', '{postalCode} {city} {state}', '{country}'],
+        postalCodePattern: /\b\d{5}\b/,
+    },
+    IN: {
+        lines: ['{line1}', '{line2}', '{city} {postalCode}', '{state}', '{country}'],
+        postalCodePattern: /\b\d{6}\b/,
+    },
+    JP: {
+        lines: ['{postalCode}', '{state} {city}', '{line1}', '{line2}', '{country}'],
+        postalCodePattern: /\b\d{3}-?\d{4}\b/,
+    },
+    BR: {
+        lines: ['{line1}', '{line2}', '{city} - {state}', '{postalCode}', '{country}'],
+        postalCodePattern: /\b\d{5}-?\d{3}\b/,
+    },
+};
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+export interface FormatAddressOptions {
+    singleLine?: boolean;       // Join with ", " instead of newlines
+    includeCountry?: boolean;   // Default true
+}
+
+/**
+ * Format an address following its country's conventions
+ */
+export function formatAddress(address: PostalAddress, options: FormatAddressOptions = {}): string {
+    const values: Record<string, string> = {
+        line1: address.line1,
+        line2: address.line2 ?? '',
+        city: address.city,
+        state: address.state ?? '',
+        postalCode: address.postalCode,
+        country: options.includeCountry === false || !address.country ? '' : getCountryName(address.country),
+    };
+
+    const lines = getAddressFormat(address.country).lines
+        .map((template) => template.replace(/\{(\w+)\}/g, (_, token: string) => values[token] ?? ''))
+        .map(cleanAddressLine)
+        .filter(Boolean);
+
+    return lines.join(options.singleLine ? ', ' : '\n');
+}
+
+/**
+ * Split a free-text address into components.
+ * Works from the end: country, postal code, state, city; the rest is the street.
+ */
+export function parseAddress(text: string, defaultCountry: string = ''): PostalAddress {
+    const parts = text.split(/[\n,]/).map((part) => part.trim()).filter(Boolean);
+    const address: PostalAddress = { line1: '', city: '', postalCode: '', country: defaultCountry };
+
+    const country = parts.length > 1 ? normalizeCountry(parts[parts.length - 1]) : null;
+    if (country) {
+        address.country = country.code;
+        parts.pop();
+    }
+
+    // Never look in the first part, where house numbers can look like postal codes
+    const { postalCodePattern } = getAddressFormat(address.country);
+    let postalCode = findPostalCode(parts, postalCodePattern, 1);
+
+    // Without a country, also try every country's postal code shape on the last
+    // part, so "London, NW1 6XE" doesn't leave the postcode as the city
+    if (!postalCode && !address.country && parts.length > 1) {
+        for (const format of Object.values(ADDRESS_FORMATS)) {
+            postalCode = findPostalCode(parts, format.postalCodePattern, parts.length - 1);
+            if (postalCode) break;
+        }
+    }
+
+    if (postalCode) {
+        const { index, code } = postalCode;
+        address.postalCode = code;
+        parts[index] = cleanAddressLine(parts[index].replace(code, ''));
+        if (!parts[index]) {
+            parts.splice(index, 1);
+        }
+    }
+
+    // State: the trailing words of the last part, longest first ("New South Wales")
+    if (parts.length > 1) {
+        const words = parts[parts.length - 1].split(/\s+/);
+
+        for (let take = Math.min(3, words.length); take >= 1; take--) {
+            const candidate = words.slice(-take).join(' ');
+            const match = findRegion(candidate, address.country || undefined);
+
+            if (match) {
+                address.state = match.region.code;
+                address.country ||= match.countryCode;
+
+                const rest = words.slice(0, -take).join(' ');
+                if (rest) {
+                    parts[parts.length - 1] = rest;
+                } else {
+                    parts.pop();
+                }
+                break;
+            }
+        }
+    }
+
+    if (parts.length > 1) {
+        address.city = parts.pop()!;
+    }
+
+    // Anything between the first street line and the city ("Apt 4", "Building B")
+    address.line1 = parts.shift() ?? '';
+    if (parts.length > 0) {
+        address.line2 = parts.join(', ');
+    }
+
+    return address;
+}
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+/**
+ * Resolve a country name, alias or ISO code ("USA", "U.S.", "Deutschland")
+ */
+export function normalizeCountry(value: string): CountryInfo | null {
+    const key = compactText(value);
+    if (!key) {
+        return null;
+    }
+
+    return COUNTRIES.find((country) =>
+        compactText(country.code) === key ||
+        compactText(country.alpha3) === key ||
+        compactText(country.name) === key ||
+        country.aliases?.some((alias) => compactText(alias) === key)
+    ) ?? null;
+}
+
+/**
+ * Get the display name for a country code, or the value unchanged if unknown
+ */
+export function getCountryName(value: string): string {
+    return normalizeCountry(value)?.name ?? value;
+}
+
+/**
+ * Resolve a state or province name or code ("CA", "California").
+ * Without a country, every known region table is searched.
+ */
+export function normalizeRegion(value: string, countryCode?: string): RegionInfo | null {
+    return findRegion(value, countryCode)?.region ?? null;
+}
+
+/**
+ * Match a country or state value against select options, comparing by
+ * normalized code so "CA", "California" and "Calif." style options line up.
+ * Falls back to plain option matching.
+ */
+export function matchAddressOption(
+    value: string,
+    options: FieldOption[],
+    kind: 'country' | 'state',
+    countryCode?: string
+): OptionMatch | null {
+    if (kind === 'country') {
+        const target = normalizeCountry(value);
+        const option = target && options.find((opt) =>
+            normalizeCountry(opt.value)?.code === target.code ||
+            normalizeCountry(opt.label)?.code === target.code
+        );
+        if (option) {
+            return { option, exact: true };
+        }
+    } else {
+        const target = findRegion(value, countryCode);
+        const option = target && options.find((opt) =>
+            normalizeRegion(opt.value, target.countryCode) === target.region ||
+            normalizeRegion(opt.label, target.countryCode) === target.region
+        );
+        if (option) {
+            return { option, exact: true };
+        }
+    }
+
+    return matchOption(value, options);
+}
+
+function findRegion(value: string, countryCode?: string): { countryCode: string; region: RegionInfo } | null {
+    const key = compactText(value);
+    if (!key) {
+        return null;
+    }
+
+    const countryCodes = countryCode ? [countryCode] : Object.keys(REGIONS);
+    for (const code of countryCodes) {
+        const region = REGIONS[code]?.find((r) =>
+            compactText(r.code) === key || compactText(r.name) === key
+        );
+        if (region) {
+            return { countryCode: code, region };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Find the last part, down to parts[from], holding a postal code
+ */
+function findPostalCode(parts: string[], pattern: RegExp, from: number): { index: number; code: string } | null {
+    for (let i = parts.length - 1; i >= from; i--) {
+        const match = parts[i].match(pattern);
+        if (match) {
+            return { index: i, code: match[0] };
+        }
+    }
+    return null;
+}
+
+function getAddressFormat(countryCode: string): AddressFormat {
+    return ADDRESS_FORMATS[countryCode.toUpperCase()] ?? DEFAULT_FORMAT;
+}
+
+/**
+ * Normalize text and drop spaces, so "U.S.A." and "USA" compare equal
+ */
+function compactText(text: string): string {
+    return normalizeOptionText(text).replace(/ /g, '');
+}
+
+/**
+ * Collapse whitespace and trim separators left by empty tokens
+ */
+function cleanAddressLine(line: string): string {
+    return line
+        .replace(/\s+/g, ' ')
+        .replace(/\s+,/g, ',')
+        .replace(/^[\s,\-]+|[\s,\-]+$/g, '');
+}
@@ -0,0 +1,81 @@
+// Example Matcher
+// Reuse values the user entered on similar forms, for filling without an LLM
+
+import type { FieldSignature, FieldMapping, LearnedExample } from '@shared/types';
+import { matchOption } from './OptionMatcher';
+
+// Confidence by how closely a past field matches the current one
+const LABEL_AND_CLASS_CONFIDENCE = 0.85;
+const LABEL_CONFIDENCE = 0.75;
+const NAME_ATTRIBUTE_CONFIDENCE = 0.7;
+
+/**
+ * Map fields to values from learned examples.
+ * Examples are tried in order, so pass the most relevant first; a closer field
+ * match in a later example still beats a looser one in an earlier example.
+ */
+export function mapFieldsFromExamples(
+    fields: FieldSignature[],
+    examples: LearnedExample[]
+): FieldMapping[] {
+    const mappings: FieldMapping[] = [];
+
+    for (const field of fields) {
+        if (field.semanticClass === 'password') {
+            continue;
+        }
+
+        let best: { value: string; confidence: number } | null = null;
+
+        for (const example of examples) {
+            for (const past of example.fieldMappings) {
+                const confidence = scoreFieldMatch(field, past.fieldSignature);
+                if (confidence > (best?.confidence ?? 0) && past.value) {
+                    best = { value: past.value, confidence };
+                }
+            }
+
+            if (best?.confidence === LABEL_AND_CLASS_CONFIDENCE) {
+                break;
+            }
+        }
+
+        if (!best) {
+            continue;
+        }
+
+        // Selects and radios only take one of their own options
+        let value = best.value;
+        let confidence = best.confidence;
+        if (field.options && field.options.length > 0) {
+            const match = matchOption(value, field.options);
+            if (!match) {
+                continue;
+            }
+            value = match.option.value;
+            confidence = match.exact ? confidence : confidence * 0.9;
+        }
+
+        mappings.push({ fieldSignature: field, value, confidence, source: 'learned' });
+    }
+
+    return mappings;
+}
+
+/**
+ * Score how surely a past field is the same question as the current one (0 = different)
+ */
+function scoreFieldMatch(field: FieldSignature, past: FieldSignature): number {
+    const sameLabel = !!field.normalizedLabel && field.normalizedLabel === past.normalizedLabel;
+
+    if (sameLabel && field.semanticClass === past.semanticClass) {
+        return LABEL_AND_CLASS_CONFIDENCE;
+    }
+    if (sameLabel) {
+        return LABEL_CONFIDENCE;
+    }
+    if (field.attributes.name && field.attributes.name === past.attributes.name) {
+        return NAME_ATTRIBUTE_CONFIDENCE;
+    }
+    return 0;
+}
@@ -1,8 +1,27 @@
 // Field Mapper
 // Map profile fields to form fields using semantic matching
 
-import type { FieldSignature, FieldMapping, Profile, SemanticClass, ContextField } from '@shared/types';
+import type {
+    FieldSignature,
+    FieldMapping,
+    FieldOption,
+    FieldCategory,
+    Profile,
+    PostalAddress,
+    SemanticClass,
+    ContextField,
+    RepeatingSection
+} from '@shared/types';
 import { createLogger, normalizeText } from '@shared/utils';
+import { matchOption } from './OptionMatcher';
+import { mapRepeatingSections, getRepeatingFieldIds } from './RecordMapper';
+import {
+    formatAddress,
+    parseAddress,
+    normalizeCountry,
+    getCountryName,
+    matchAddressOption
+} from './AddressFormatter';
 
 const logger = createLogger('FieldMapper');
 
@@ -12,15 +31,21 @@ const logger = createLogger('FieldMapper');
 const SEMANTIC_TO_PROFILE_KEY: Record<SemanticClass, string[]> = {
     // Personal
     first_name: ['firstName', 'first_name', 'givenName'],
+    middle_name: ['middleName', 'middle_name', 'middleInitial'],
     last_name: ['lastName', 'last_name', 'familyName', 'surname'],
     full_name: ['fullName', 'full_name', 'name'],
+    preferred_name: ['preferredName', 'preferred_name', 'nickname'],
     date_of_birth: ['dateOfBirth', 'dob', 'birthDate'],
+    gender: ['gender', 'sex'],
+    pronouns: ['pronouns'],
+    nationality: ['nationality', 'citizenship'],
 
     // Contact
     email: ['email', 'emailAddress', 'email_address'],
     phone: ['phone', 'phoneNumber', 'phone_number', 'mobile', 'telephone'],
 
     // Address
+    full_address: ['fullAddress', 'full_address', 'mailingAddress', 'postalAddress'],
     address_line1: ['address', 'addressLine1', 'address_line1', 'street', 'streetAddress'],
     address_line2: ['addressLine2', 'address_line2', 'apt', 'suite', 'unit'],
     city: ['city', 'town', 'locality'],
@@ -32,6 +57,31 @@ const SEMANTIC_TO_PROFILE_KEY: Record<SemanticClass, string[]> = {
     company: ['company', 'organization', 'employer', 'companyName'],
     job_title: ['jobTitle', 'job_title', 'title', 'position', 'role'],
     website: ['website', 'url', 'homepage', 'personalWebsite'],
+    linkedin_url: ['linkedin', 'linkedinUrl', 'linkedin_url', 'linkedInUrl'],
+    github_url: ['github', 'githubUrl', 'github_url', 'gitHubUrl'],
+    portfolio_url: ['portfolio', 'portfolioUrl', 'portfolio_url', 'website'],
+
+    // Job application
+    years_of_experience: ['yearsOfExperience', 'years_of_experience', 'experienceYears'],
+    salary_expectation: ['salaryExpectation', 'salary_expectation', 'expectedSalary', 'desiredSalary', 'salary'],
+    notice_period: ['noticePeriod', 'notice_period'],
+    start_date: ['startDate', 'start_date', 'availableFrom', 'availability'],
+    work_authorization: ['workAuthorization', 'work_authorization', 'authorizedToWork'],
+    visa_sponsorship: ['visaSponsorship', 'visa_sponsorship', 'requiresSponsorship', 'sponsorship'],
+    willing_to_relocate: ['willingToRelocate', 'willing_to_relocate', 'relocation'],
+    referral_source: ['referralSource', 'referral_source', 'howDidYouHear'],
+
+    // Education
+    university: ['university', 'school', 'college', 'institution'],
+    degree: ['degree', 'qualification'],
+    field_of_study: ['fieldOfStudy', 'field_of_study', 'major'],
+    graduation_year: ['graduationYear', 'graduation_year', 'gradYear'],
+    gpa: ['gpa', 'GPA'],
+
+    // Identity documents
+    passport_number: ['passportNumber', 'passport_number', 'passport'],
+    national_id: ['nationalId', 'national_id', 'idNumber'],
+    drivers_license: ['driversLicense', 'drivers_license', 'driverLicense', 'licenseNumber'],
 
     // Credentials
     username: ['username', 'user', 'login'],
@@ -42,6 +92,102 @@ const SEMANTIC_TO_PROFILE_KEY: Record<SemanticClass, string[]> = {
     unknown: [],
 };
 
+/**
+ * Profile field category for each semantic class
+ */
+const SEMANTIC_TO_CATEGORY: Record<SemanticClass, FieldCategory> = {
+    first_name: 'personal',
+    middle_name: 'personal',
+    last_name: 'personal',
+    full_name: 'personal',
+    preferred_name: 'personal',
+    date_of_birth: 'personal',
+    gender: 'personal',
+    pronouns: 'personal',
+    nationality: 'personal',
+
+    email: 'contact',
+    phone: 'contact',
+    full_address: 'contact',
+    address_line1: 'contact',
+    address_line2: 'contact',
+    city: 'contact',
+    state: 'contact',
+    zip: 'contact',
+    country: 'contact',
+
+    company: 'professional',
+    job_title: 'professional',
+    website: 'professional',
+    linkedin_url: 'professional',
+    github_url: 'professional',
+    portfolio_url: 'professional',
+    years_of_experience: 'professional',
+    salary_expectation: 'professional',
+    notice_period: 'professional',
+    start_date: 'professional',
+    work_authorization: 'professional',
+    visa_sponsorship: 'professional',
+    willing_to_relocate: 'professional',
+    referral_source: 'professional',
+
+    university: 'education',
+    degree: 'education',
+    field_of_study: 'education',
+    graduation_year: 'education',
+    gpa: 'education',
+
+    passport_number: 'identity',
+    national_id: 'identity',
+    drivers_license: 'identity',
+
+    username: 'custom',
+    password: 'custom',
+    message: 'custom',
+    unknown: 'custom',
+};
+
+/**
+ * Infer the category of a profile field from its key
+ */
+export function inferFieldCategory(key: string): FieldCategory {
+    return SEMANTIC_TO_CATEGORY[inferSemanticClass(key)];
+}
+
+/**
+ * Infer the semantic class a profile field key fills; 'unknown' for custom keys
+ */
+export function inferSemanticClass(key: string): SemanticClass {
+    const normalizedKey = key.trim().toLowerCase();
+
+    for (const [semanticClass, keys] of Object.entries(SEMANTIC_TO_PROFILE_KEY)) {
+        if (keys.some((k) => k.toLowerCase() === normalizedKey)) {
+            return semanticClass as SemanticClass;
+        }
+    }
+
+    return 'unknown';
+}
+
+/**
+ * Semantic classes filled from the profile's address
+ */
+const ADDRESS_CLASSES: ReadonlySet<SemanticClass> = new Set<SemanticClass>([
+    'full_address',
+    'address_line1',
+    'address_line2',
+    'city',
+    'state',
+    'zip',
+    'country',
+]);
+
+interface ProfileAddress {
+    address: PostalAddress;
+    confidence: number;
+    sensitive: boolean;  // Built from an encrypted profile field
+}
+
 /**
  * Create field mappings from a profile to form fields
  */
@@ -51,6 +197,11 @@ export function mapFieldsToProfile(
 ): FieldMapping[] {
     const mappings: FieldMapping[] = [];
     const profileFields = profile.staticContext.fields;
+    const profileAddress = resolveProfileAddress(profile);
+    const countryCode = profileAddress ? normalizeCountry(profileAddress.address.country)?.code : undefined;
+    const hasAddressComponents = fields.some(
+        f => f.semanticClass === 'city' || f.semanticClass === 'state' || f.semanticClass === 'zip'
+    );
 
     for (const field of fields) {
         // Skip password fields (security)
@@ -60,8 +211,13 @@ export function mapFieldsToProfile(
 
         let mapping: FieldMapping | null = null;
 
-        // Try semantic class matching first
-        if (field.semanticClass !== 'unknown') {
+        // Address fields come from the resolved address, composed or split as the form needs
+        if (profileAddress && ADDRESS_CLASSES.has(field.semanticClass)) {
+            mapping = mapAddressField(field, profileAddress, hasAddressComponents);
+        }
+
+        // Try semantic class matching
+        if (!mapping && field.semanticClass !== 'unknown') {
             const potentialKeys = SEMANTIC_TO_PROFILE_KEY[field.semanticClass] ?? [];
 
             // Find first matching key in profile fields
@@ -73,6 +229,7 @@ export function mapFieldsToProfile(
                         value: profileField.value,
                         confidence: 1.0, // High confidence for semantic matches
                         source: 'static',
+                        sensitive: profileField.isEncrypted,
                     };
                     break;
                 }
@@ -84,6 +241,11 @@ export function mapFieldsToProfile(
             mapping = tryFuzzyMatch(field, profileFields);
         }
 
+        // Selects and radio groups only accept one of their options
+        if (mapping && field.options?.length) {
+            mapping = constrainToOptions(mapping, field.options, countryCode);
+        }
+
         if (mapping) {
             mappings.push(mapping);
         }
@@ -97,6 +259,138 @@ export function mapFieldsToProfile(
     return mappings;
 }
 
+/**
+ * Resolve the profile's address: the structured address if set, else the flat
+ * address fields, splitting a one-line full address into parts if that's all there is
+ */
+function resolveProfileAddress(profile: Profile): ProfileAddress | null {
+    if (profile.staticContext.address) {
+        return { address: profile.staticContext.address, confidence: 1.0, sensitive: false };
+    }
+
+    const profileFields = profile.staticContext.fields;
+    const usedFields: ContextField[] = [];
+
+    const findValue = (semanticClass: SemanticClass): string => {
+        for (const key of SEMANTIC_TO_PROFILE_KEY[semanticClass]) {
+            const profileField = profileFields.find(f => f.key === key);
+            if (profileField?.value) {
+                usedFields.push(profileField);
+                return profileField.value;
+            }
+        }
+        return '';
+    };
+
+    const country = findValue('country');
+    const components: PostalAddress = {
+        line1: findValue('address_line1'),
+        line2: findValue('address_line2') || undefined,
+        city: findValue('city'),
+        state: findValue('state') || undefined,
+        postalCode: findValue('zip'),
+        country: normalizeCountry(country)?.code ?? country,
+    };
+    const fullAddress = findValue('full_address');
+    const sensitive = usedFields.some(f => f.isEncrypted);
+
+    if (components.line1 && (components.city || components.postalCode)) {
+        return { address: components, confidence: 0.95, sensitive };
+    }
+
+    const text = fullAddress || components.line1;
+    if (text) {
+        const parsed = parseAddress(text, components.country);
+        if (parsed.city || parsed.postalCode) {
+            return { address: parsed, confidence: 0.85, sensitive };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Map an address field from the resolved profile address
+ */
+function mapAddressField(
+    field: FieldSignature,
+    profileAddress: ProfileAddress,
+    hasAddressComponents: boolean
+): FieldMapping | null {
+    const { address } = profileAddress;
+    let value: string;
+
+    switch (field.semanticClass) {
+        case 'full_address':
+            // Next to city/state/zip fields, a plain "Address" field only wants the street
+            value = hasAddressComponents
+                ? address.line1
+                : formatAddress(address, { singleLine: field.inputType !== 'textarea' });
+            break;
+        case 'address_line1':
+            value = address.line1;
+            break;
+        case 'address_line2':
+            value = address.line2 ?? '';
+            break;
+        case 'city':
+            value = address.city;
+            break;
+        case 'state':
+            value = address.state ?? '';
+            break;
+        case 'zip':
+            value = address.postalCode;
+            break;
+        case 'country':
+            value = address.country ? getCountryName(address.country) : '';
+            break;
+        default:
+            return null;
+    }
+
+    if (!value) {
+        return null;
+    }
+
+    return {
+        fieldSignature: field,
+        value,
+        confidence: profileAddress.confidence,
+        source: 'static',
+        sensitive: profileAddress.sensitive,
+    };
+}
+
+/**
+ * Snap a mapping's value to one of the field's options.
+ * Returns null when no option fits, leaving the field for the AI to answer.
+ */
+function constrainToOptions(
+    mapping: FieldMapping,
+    options: FieldOption[],
+    countryCode?: string
+): FieldMapping | null {
+    const { semanticClass } = mapping.fieldSignature;
+    const match = semanticClass === 'country' || semanticClass === 'state'
+        ? matchAddressOption(mapping.value, options, semanticClass, countryCode)
+        : matchOption(mapping.value, options);
+
+    if (!match) {
+        logger.debug('Profile value is not an option of field', {
+            label: mapping.fieldSignature.normalizedLabel,
+        });
+        return null;
+    }
+
+    return {
+        ...mapping,
+        value: match.option.value,
+        // A fuzzy option match is less certain than the profile key match alone
+        confidence: match.exact ? mapping.confidence : Math.min(mapping.confidence, 0.75),
+    };
+}
+
 /**
  * Try to fuzzy match a field to a profile field
  */
@@ -115,6 +409,7 @@ function tryFuzzyMatch(
                 value: profileField.value,
                 confidence: 0.95, // Very high confidence for exact key match
                 source: 'static',
+                sensitive: profileField.isEncrypted,
             };
         }
     }
@@ -148,6 +443,7 @@ function tryFuzzyMatch(
                         value: profileField.value,
                         confidence: 0.8, // Lower confidence for fuzzy matches
                         source: 'static',
+                        sensitive: profileField.isEncrypted,
                     };
                 }
             }
@@ -163,6 +459,7 @@ function tryFuzzyMatch(
                 value: profileField.value,
                 confidence: 0.7, // Medium confidence for partial match
                 source: 'static',
+                sensitive: profileField.isEncrypted,
             };
         }
     }
@@ -171,12 +468,18 @@ function tryFuzzyMatch(
 }
 
 /**
- * Create a suggested fill mapping with full name handling
+ * Create a suggested fill mapping with full name handling. Fields in repeating
+ * sections are filled from the profile's records only.
  */
 export function createSuggestedMappings(
-    fields: FieldSignature[],
-    profile: Profile
+    allFields: FieldSignature[],
+    profile: Profile,
+    sections: RepeatingSection[] = []
 ): FieldMapping[] {
+    const recordMappings = mapRepeatingSections(allFields, sections, profile);
+    const repeatingFieldIds = getRepeatingFieldIds(sections);
+    const fields = allFields.filter((f) => !repeatingFieldIds.has(f.id));
+
     const mappings = mapFieldsToProfile(fields, profile);
     const profileFields = profile.staticContext.fields;
 
@@ -190,12 +493,29 @@ export function createSuggestedMappings(
 
     // If we have a full name in profile but form has first/last name fields
     if (!hasFullNameField && hasFirstNameField && hasLastNameField) {
-        const fullName = findField('fullName')?.value || findField('full_name')?.value;
+        const fullNameSource = [findField('fullName'), findField('full_name')].find((f) => f?.value);
+        const fullName = fullNameSource?.value;
+        // Names built from an encrypted field must stay out of caches and learning like it
+        const sensitive = fullNameSource?.isEncrypted ?? false;
         if (fullName && !findField('firstName') && !findField('lastName')) {
             const parts = fullName.trim().split(/\s+/);
             if (parts.length >= 2) {
+                // With a middle name field, inner names go there instead of into the last name
+                const middleNameField = fields.find(f => f.semanticClass === 'middle_name');
+                const splitMiddle = middleNameField !== undefined && parts.length >= 3;
+
                 const firstName = parts[0];
-                const lastName = parts.slice(1).join(' ');
+                const lastName = splitMiddle ? parts[parts.length - 1] : parts.slice(1).join(' ');
+
+                if (splitMiddle && !mappings.some(m => m.fieldSignature.id === middleNameField.id)) {
+                    mappings.push({
+                        fieldSignature: middleNameField,
+                        value: parts.slice(1, -1).join(' '),
+                        confidence: 0.85,
+                        source: 'static',
+                        sensitive,
+                    });
+                }
 
                 // Add first name mapping
                 const firstNameField = fields.find(f => f.semanticClass === 'first_name');
@@ -205,6 +525,7 @@ export function createSuggestedMappings(
                         value: firstName,
                         confidence: 0.9,
                         source: 'static',
+                        sensitive,
                     });
                 }
 
@@ -216,6 +537,7 @@ export function createSuggestedMappings(
                         value: lastName,
                         confidence: 0.9,
                         source: 'static',
+                        sensitive,
                     });
                 }
             }
@@ -224,22 +546,27 @@ export function createSuggestedMappings(
 
     // If we have first/last name in profile but form has full name field
     if (hasFullNameField && !hasFirstNameField && !hasLastNameField) {
-        const firstName = findField('firstName')?.value || findField('first_name')?.value;
-        const lastName = findField('lastName')?.value || findField('last_name')?.value;
+        const firstNameSource = [findField('firstName'), findField('first_name')].find((f) => f?.value);
+        const middleNameSource = [findField('middleName'), findField('middle_name')].find((f) => f?.value);
+        const lastNameSource = [findField('lastName'), findField('last_name')].find((f) => f?.value);
+        const firstName = firstNameSource?.value;
+        const middleName = middleNameSource?.value;
+        const lastName = lastNameSource?.value;
         if (firstName && lastName && !findField('fullName')) {
             const fullNameField = fields.find(f => f.semanticClass === 'full_name');
             if (fullNameField && !mappings.some(m => m.fieldSignature.id === fullNameField.id)) {
                 mappings.push({
                     fieldSignature: fullNameField,
-                    value: `${firstName} ${lastName}`,
+                    value: [firstName, middleName, lastName].filter(Boolean).join(' '),
                     confidence: 0.9,
                     source: 'static',
+                    sensitive: [firstNameSource, middleNameSource, lastNameSource].some((f) => f?.isEncrypted),
                 });
             }
         }
     }
 
-    return mappings;
+    return [...recordMappings, ...mappings];
 }
 
 /**
@@ -0,0 +1,90 @@
+// Long-Form Answers
+// Open-ended questions answered in prose, and the length limits their answers must fit
+
+import type { FieldLimits, FieldSignature } from '@shared/types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Single-line inputs only count as open-ended when they allow this much text
+const MIN_LONG_FORM_INPUT_LENGTH = 500;
+
+// Labels of short free-text answers that happen to live in a textarea
+const SHORT_ANSWER_PATTERN = /\b(address|skills?|keywords?|tags?|links?|urls?)\b/;
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Check if a field asks an open-ended question ("Why do you want to work here?")
+ * that is answered in generated prose rather than a profile value
+ */
+export function isLongFormField(field: FieldSignature): boolean {
+    if (field.options?.length || (field.semanticClass !== 'message' && field.semanticClass !== 'unknown')) {
+        return false;
+    }
+    if (SHORT_ANSWER_PATTERN.test(field.normalizedLabel.toLowerCase())) {
+        return false;
+    }
+
+    if (field.inputType === 'textarea' || field.inputType === 'contenteditable') {
+        return true;
+    }
+    return field.inputType === 'text' && (field.limits?.maxLength ?? 0) >= MIN_LONG_FORM_INPUT_LENGTH;
+}
+
+// ============================================================================
+// Limits
+// ============================================================================
+
+/**
+ * Count the words in a text
+ */
+export function countWords(text: string): number {
+    return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Check if a text is longer than a field's limits allow
+ */
+export function exceedsLimits(text: string, limits: FieldLimits | undefined): boolean {
+    if (!limits) return false;
+    return (limits.maxLength !== undefined && text.length > limits.maxLength) ||
+        (limits.maxWords !== undefined && countWords(text) > limits.maxWords);
+}
+
+/**
+ * Cut a text to a field's limits, at the last sentence end that fits, else the
+ * last word that fits
+ */
+export function fitToLimits(text: string, limits: FieldLimits | undefined): string {
+    const trimmed = text.trim();
+    if (!exceedsLimits(trimmed, limits)) {
+        return trimmed;
+    }
+
+    let cut = trimmed;
+    if (limits?.maxWords !== undefined) {
+        const words = cut.split(/(\s+)/);
+        cut = words.slice(0, limits.maxWords * 2 - 1).join('');
+    }
+    if (limits?.maxLength !== undefined && cut.length > limits.maxLength) {
+        cut = cut.slice(0, limits.maxLength);
+        const lastSpace = cut.search(/\s\S*$/);
+        if (lastSpace > 0 && !/\s/.test(trimmed.charAt(limits.maxLength))) {
+            cut = cut.slice(0, lastSpace);
+        }
+    }
+
+    // Prefer ending on a full sentence when one ends in the second half
+    const sentenceEnd = Math.max(cut.lastIndexOf('. '), cut.lastIndexOf('! '), cut.lastIndexOf('? '));
+    if (/[.!?]$/.test(cut)) {
+        return cut;
+    }
+    if (sentenceEnd > cut.length / 2) {
+        return cut.slice(0, sentenceEnd + 1);
+    }
+    return cut.trimEnd();
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { FieldOption } from '@shared/types';
+import { matchOption, normalizeOptionText } from './OptionMatcher';
+
+const COUNTRIES: FieldOption[] = [
+    { value: 'us', label: 'United States' },
+    { value: 'uk', label: 'United Kingdom' },
+    { value: 'de', label: 'Germany' },
+];
+
+const GENDERS: FieldOption[] = [
+    { value: 'm', label: 'Male' },
+    { value: 'f', label: 'Female' },
+];
+
+describe('matchOption', () => {
+    it('returns null when there are no options', () => {
+        expect(matchOption('anything', [])).toBeNull();
+    });
+
+    it('matches the submitted value exactly', () => {
+        expect(matchOption('de', COUNTRIES)).toEqual({ option: COUNTRIES[2], exact: true });
+    });
+
+    it('matches the label ignoring case, accents and punctuation', () => {
+        const options: FieldOption[] = [{ value: '1', label: 'Zürich' }];
+        expect(matchOption('ZURICH!', options)).toEqual({ option: options[0], exact: true });
+    });
+
+    it('matches an abbreviation fuzzily', () => {
+        expect(matchOption('UK', [{ value: '44', label: 'United Kingdom' }])).toEqual({
+            option: { value: '44', label: 'United Kingdom' },
+            exact: false,
+        });
+    });
+
+    it('matches a label contained in the value', () => {
+        expect(matchOption('United States of America', COUNTRIES)?.option.value).toBe('us');
+    });
+
+    it('never matches a word inside another word', () => {
+        expect(matchOption('female', GENDERS)?.option.value).toBe('f');
+        expect(matchOption('I am a male', GENDERS)?.option.value).toBe('m');
+    });
+
+    it('rejects values that match no option well enough', () => {
+        expect(matchOption('France', COUNTRIES)).toBeNull();
+        expect(matchOption('   ', COUNTRIES)).toBeNull();
+    });
+});
+
+describe('normalizeOptionText', () => {
+    it('lowercases, strips accents and collapses punctuation', () => {
+        expect(normalizeOptionText('  Côte d’Ivoire (CI) ')).toBe('cote d ivoire ci');
+    });
+});
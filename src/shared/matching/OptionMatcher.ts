@@ -0,0 +1,104 @@
+// Option Matcher
+// Match free-text values against the allowed options of a select or radio group
+
+import type { FieldOption } from '@shared/types';
+
+export interface OptionMatch {
+    option: FieldOption;
+    exact: boolean;     // Matched the value or label outright rather than fuzzily
+}
+
+// Fuzzy matches scoring below this are treated as no match
+const MIN_FUZZY_SCORE = 0.5;
+
+/**
+ * Find the option a value refers to, by value, visible text or fuzzy similarity
+ */
+export function matchOption(value: string, options: FieldOption[]): OptionMatch | null {
+    if (options.length === 0) {
+        return null;
+    }
+
+    // Exact submitted value
+    const byValue = options.find((opt) => opt.value === value);
+    if (byValue) {
+        return { option: byValue, exact: true };
+    }
+
+    const normalizedValue = normalizeOptionText(value);
+    if (!normalizedValue) {
+        return null;
+    }
+
+    // Same value or visible text, ignoring case and punctuation
+    const byText = options.find((opt) =>
+        normalizeOptionText(opt.value) === normalizedValue ||
+        normalizeOptionText(opt.label) === normalizedValue
+    );
+    if (byText) {
+        return { option: byText, exact: true };
+    }
+
+    // Closest option by word overlap
+    let best: FieldOption | null = null;
+    let bestScore = 0;
+
+    for (const option of options) {
+        const score = Math.max(
+            scoreSimilarity(normalizedValue, normalizeOptionText(option.label)),
+            scoreSimilarity(normalizedValue, normalizeOptionText(option.value))
+        );
+
+        if (score > bestScore) {
+            best = option;
+            bestScore = score;
+        }
+    }
+
+    return best && bestScore >= MIN_FUZZY_SCORE ? { option: best, exact: false } : null;
+}
+
+/**
+ * Score how closely two normalized strings match (0-1)
+ */
+function scoreSimilarity(a: string, b: string): number {
+    if (!a || !b) {
+        return 0;
+    }
+
+    const tokensA = a.split(' ');
+    const tokensB = b.split(' ');
+
+    // Abbreviations: "US" for "United States"
+    const [short, long] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+    if (short.length === 1 && long.length > 1 && short[0] === long.map((t) => t[0]).join('')) {
+        return 0.8;
+    }
+
+    // Whole-word containment: "United States" in "United States of America".
+    // Word-level so "male" never matches "female".
+    const longSet = new Set(long);
+    if (short.every((token) => longSet.has(token))) {
+        return 0.6 + 0.4 * (short.length / long.length);
+    }
+
+    // Partial word overlap (Jaccard)
+    const setA = new Set(tokensA);
+    const setB = new Set(tokensB);
+    const intersection = [...setA].filter((token) => setB.has(token)).length;
+    const union = new Set([...setA, ...setB]).size;
+
+    return intersection / union;
+}
+
+/**
+ * Lowercase, strip accents and punctuation, collapse whitespace
+ */
+export function normalizeOptionText(text: string): string {
+    return text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
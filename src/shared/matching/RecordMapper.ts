@@ -0,0 +1,255 @@
+// Record Mapper
+// Map a profile's repeatable records to repeated blocks of form fields, record N to block N
+
+import type {
+    FieldSignature,
+    FieldMapping,
+    Profile,
+    ProfileRecord,
+    RecordType,
+    RepeatingSection
+} from '@shared/types';
+import { createLogger } from '@shared/utils';
+import { matchOption } from './OptionMatcher';
+
+const logger = createLogger('RecordMapper');
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+type RecordProperty<T extends RecordType> = Exclude<keyof Extract<ProfileRecord, { type: T }>, 'id' | 'type'>;
+
+/**
+ * Label patterns for the record property a field in a block holds, checked in
+ * order. Dates come before names and titles ("position start date" is a date).
+ */
+const RECORD_FIELD_PATTERNS: { [T in RecordType]: Array<[RegExp, RecordProperty<T>]> } = {
+    employment: [
+        [/\b(currently|current\s*(job|role|position|employer)|present|still\s*work)/, 'current'],
+        [/\b(start|from|began|joined)\b/, 'startDate'],
+        [/\b(end|until|to\s*date|date\s*to|finish(ed)?|left)\b/, 'endDate'],
+        [/\b(description|responsibilit(y|ies)|duties|achievements|summary|accomplishments)\b/, 'description'],
+        [/\b(title|position|role|designation)\b/, 'jobTitle'],
+        [/\b(company|employer|organi[sz]ation|business)\b/, 'company'],
+        [/\b(location|city|town|country)\b/, 'location'],
+    ],
+    education: [
+        [/\b(gpa|cgpa|grade|score)\b/, 'gpa'],
+        [/\b(start|from|began|enrolled)\b/, 'startDate'],
+        [/\b(end|until|graduat(ed|ion)|completion|completed|to\s*date|date\s*to)\b/, 'endDate'],
+        [/\b(field|major|study|discipline|subject|concentration|speciali[sz]ation)\b/, 'fieldOfStudy'],
+        [/\b(degree|qualification|diploma|certificate|level)\b/, 'degree'],
+        [/\b(school|university|college|institution|institute|academy)\b/, 'institution'],
+    ],
+    reference: [
+        [/\be-?mail\b/, 'email'],
+        [/\b(phone|mobile|telephone|tel|contact\s*number)\b/, 'phone'],
+        [/\b(relationship|relation|how\s*do\s*you\s*know|capacity)\b/, 'relationship'],
+        [/\b(title|position|role)\b/, 'jobTitle'],
+        [/\b(company|employer|organi[sz]ation)\b/, 'company'],
+        [/\bname\b/, 'name'],
+    ],
+    certification: [
+        [/\b(expir(y|es|ation)|valid\s*(until|through)|renewal)\b/, 'expiryDate'],
+        [/\b(issue[ds]?\s*date|date\s*(issued|obtained|earned|awarded)|obtained|earned|awarded)\b/, 'issueDate'],
+        [/\b(credential|licen[cs]e|certificat(e|ion))\s*(id|number|no)\b/, 'credentialId'],
+        [/\b(issu(er|ing)|issued\s*by|authority|organi[sz]ation|provider|body)\b/, 'issuer'],
+        [/\b(url|link|website|verify|verification)\b/, 'url'],
+        [/\b(name|title|certification|certificate|licen[cs]e|credential)\b/, 'name'],
+    ],
+};
+
+// Properties holding "YYYY-MM" dates
+const DATE_PROPERTIES: ReadonlySet<string> = new Set(['startDate', 'endDate', 'issueDate', 'expiryDate']);
+
+const MONTH_NAMES = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Block fields are matched by label within a known record, so they rank just
+// below exact profile key matches
+const RECORD_FIELD_CONFIDENCE = 0.85;
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+/**
+ * Fill each repeated block with the profile record of the same position
+ * among records of its type. Blocks beyond the profile's records are left alone.
+ */
+export function mapRepeatingSections(
+    fields: FieldSignature[],
+    sections: RepeatingSection[],
+    profile: Profile
+): FieldMapping[] {
+    const mappings: FieldMapping[] = [];
+    const fieldsById = new Map(fields.map((f) => [f.id, f]));
+
+    for (const section of sections) {
+        const records = getRecords(profile, section.recordType);
+
+        section.groups.slice(0, records.length).forEach((group, index) => {
+            for (const fieldId of group) {
+                const field = fieldsById.get(fieldId);
+                if (!field || field.semanticClass === 'password') continue;
+
+                const value = resolveRecordValue(field, records[index]);
+                if (value) {
+                    mappings.push({
+                        fieldSignature: field,
+                        value,
+                        confidence: RECORD_FIELD_CONFIDENCE,
+                        source: 'static',
+                    });
+                }
+            }
+        });
+    }
+
+    logger.debug('Mapped repeating sections', {
+        sectionCount: sections.length,
+        mappedCount: mappings.length,
+    });
+
+    return mappings;
+}
+
+/**
+ * IDs of every field in a repeated block. These are only ever filled from records,
+ * never from flat profile fields.
+ */
+export function getRepeatingFieldIds(sections: RepeatingSection[]): Set<string> {
+    return new Set(sections.flatMap((section) => section.groups.flat()));
+}
+
+/**
+ * IDs of the fields in blocks beyond the profile's records, which stay empty
+ */
+export function getSurplusGroupFieldIds(sections: RepeatingSection[], profile: Profile): Set<string> {
+    return new Set(sections.flatMap((section) =>
+        section.groups.slice(getRecords(profile, section.recordType).length).flat()
+    ));
+}
+
+/**
+ * A profile's records of one type, in fill order
+ */
+export function getRecords<T extends RecordType>(
+    profile: Pick<Profile, 'staticContext'>,
+    type: T
+): Array<Extract<ProfileRecord, { type: T }>> {
+    return (profile.staticContext.records ?? []).filter(
+        (record): record is Extract<ProfileRecord, { type: T }> => record.type === type
+    );
+}
+
+/**
+ * The value of a record for one field of its block, formatted for the field
+ */
+function resolveRecordValue(field: FieldSignature, record: ProfileRecord): string | null {
+    const label = `${field.normalizedLabel} ${field.attributes.name ?? ''}`.toLowerCase().replace(/[_\-\[\]]+/g, ' ');
+    const property = findRecordProperty(label, field, record.type);
+    if (!property) {
+        return null;
+    }
+
+    const raw = (record as unknown as Record<string, string | boolean | undefined>)[property];
+
+    if (property === 'current') {
+        return field.inputType === 'checkbox' || field.inputType === 'radio' || field.options?.length
+            ? snapToOptions(raw ? 'Yes' : 'No', field)
+            : null;
+    }
+
+    // Split names for separate first and last name fields
+    if (property === 'name' && typeof raw === 'string' && /\b(first|given|last|family|surname)\b/.test(label)) {
+        const parts = raw.trim().split(/\s+/);
+        return /\b(first|given)\b/.test(label) ? parts[0] : parts.slice(1).join(' ') || null;
+    }
+
+    if (typeof raw !== 'string' || !raw.trim()) {
+        return null;
+    }
+
+    const value = DATE_PROPERTIES.has(property) ? formatRecordDate(raw, field, label) : raw.trim();
+    return value ? snapToOptions(value, field) : null;
+}
+
+/**
+ * The record property a block field holds, from its label, else its semantic class
+ */
+function findRecordProperty(label: string, field: FieldSignature, type: RecordType): string | null {
+    const patterns = RECORD_FIELD_PATTERNS[type] as Array<[RegExp, string]>;
+    const match = patterns.find(([pattern]) => pattern.test(label));
+    if (match) {
+        return match[1];
+    }
+
+    switch (field.semanticClass) {
+        case 'company': return type === 'certification' ? 'issuer' : 'company';
+        case 'job_title': return type === 'employment' || type === 'reference' ? 'jobTitle' : null;
+        case 'university': return type === 'education' ? 'institution' : null;
+        case 'degree': return type === 'education' ? 'degree' : null;
+        case 'field_of_study': return type === 'education' ? 'fieldOfStudy' : null;
+        case 'graduation_year': return type === 'education' ? 'endDate' : null;
+        case 'email': return type === 'reference' ? 'email' : null;
+        case 'phone': return type === 'reference' ? 'phone' : null;
+        case 'full_name': return type === 'reference' ? 'name' : null;
+        case 'city': return type === 'employment' ? 'location' : null;
+        case 'message': return type === 'employment' ? 'description' : null;
+        default: return null;
+    }
+}
+
+/**
+ * Format a "YYYY-MM" date for a field: the month or year alone where the label
+ * asks for one, the input's own format for date pickers, else MM/YYYY
+ */
+function formatRecordDate(date: string, field: FieldSignature, label: string): string | null {
+    const match = /^(\d{4})(?:-(\d{1,2}))?/.exec(date.trim());
+    if (!match) {
+        return date.trim();
+    }
+
+    const [, year, month] = match;
+    const wantsMonth = /\bmonth\b/.test(label);
+    const wantsYear = /\b(year|yyyy)\b/.test(label) || field.semanticClass === 'graduation_year';
+
+    if (wantsYear && !wantsMonth) {
+        return year;
+    }
+    if (wantsMonth && !wantsYear) {
+        if (!month) return null;
+        return field.options?.length ? MONTH_NAMES[Number(month) - 1] ?? month : month.padStart(2, '0');
+    }
+    if (!month) {
+        return year;
+    }
+
+    const paddedMonth = month.padStart(2, '0');
+    return field.inputType === 'date' ? `${year}-${paddedMonth}-01` : `${paddedMonth}/${year}`;
+}
+
+/**
+ * Constrain a value to a select's or radio group's options; null if none fits
+ */
+function snapToOptions(value: string, field: FieldSignature): string | null {
+    if (!field.options?.length) {
+        return value;
+    }
+
+    // Month selects list names or numbers
+    const monthIndex = MONTH_NAMES.indexOf(value);
+    const candidates = monthIndex >= 0 ? [value, String(monthIndex + 1), String(monthIndex + 1).padStart(2, '0')] : [value];
+
+    for (const candidate of candidates) {
+        const match = matchOption(candidate, field.options);
+        if (match) {
+            return match.option.value;
+        }
+    }
+    return null;
+}
@@ -3,5 +3,26 @@ export {
     mapFieldsToProfile,
     createSuggestedMappings,
     filterHighConfidenceMappings,
-    getFillSummary
+    getFillSummary,
+    inferFieldCategory,
+    inferSemanticClass
 } from './FieldMapper';
+export { matchOption } from './OptionMatcher';
+export { mapFieldsFromExamples } from './ExampleMatcher';
+export { isLongFormField, countWords, exceedsLimits, fitToLimits } from './LongForm';
+export {
+    mapRepeatingSections,
+    getRepeatingFieldIds,
+    getSurplusGroupFieldIds,
+    getRecords
+} from './RecordMapper';
+export {
+    formatAddress,
+    parseAddress,
+    normalizeCountry,
+    normalizeRegion,
+    getCountryName,
+    matchAddressOption
+} from './AddressFormatter';
+export type { FormatAddressOptions } from './AddressFormatter';
+export type { OptionMatch } from './OptionMatcher';
@@ -19,6 +19,26 @@ function generateMessageId(): string {
  * Type-safe message bus for Chrome extension communication
  */
 export class MessageBus {
+    // Initialization subscribed handlers wait for; null once it has settled
+    private static pending: Promise<void> | null = null;
+
+    /**
+     * Hold subscribed handlers until initialization settles, so listeners can be
+     * registered before the state they read has been restored
+     */
+    static deferUntil(ready: Promise<unknown>): void {
+        const pending = ready.then(
+            () => undefined,
+            () => undefined
+        );
+        this.pending = pending;
+        pending.then(() => {
+            if (this.pending === pending) {
+                this.pending = null;
+            }
+        });
+    }
+
     /**
      * Send a message to the background service worker
      */
@@ -38,11 +58,13 @@ export class MessageBus {
 
     /**
      * Send a message to a specific tab's content script
+     * Without a frameId every frame receives it and the first response wins.
      */
     static async sendToTab<T extends MessageType>(
         tabId: number,
         type: T,
-        payload: MessagePayloadMap[T]
+        payload: MessagePayloadMap[T],
+        frameId?: number
     ): Promise<MessageResponse<T>> {
         const message: Message<T> = {
             id: generateMessageId(),
@@ -51,6 +73,10 @@ export class MessageBus {
             timestamp: Date.now(),
         };
 
+        if (frameId !== undefined) {
+            return chrome.tabs.sendMessage(tabId, message, { frameId });
+        }
+
         return chrome.tabs.sendMessage(tabId, message);
     }
 
@@ -90,7 +116,9 @@ export class MessageBus {
                 return undefined;
             }
 
-            const result = handler(message as Message<T>, sender);
+            const result = MessageBus.pending
+                ? MessageBus.pending.then(() => handler(message as Message<T>, sender))
+                : handler(message as Message<T>, sender);
 
             if (result instanceof Promise) {
                 result.then(sendResponse).catch((error) => {
@@ -1,9 +1,22 @@
 // Profile Service
 // CRUD operations for profiles with persistence
 
-import type { Profile, StaticContext, LearnedExample, URLBinding, ProfileSettings } from '@shared/types';
+import type {
+    Profile,
+    StaticContext,
+    LearnedExample,
+    URLBinding,
+    ProfileSettings,
+    ContextField,
+    ProfileExportOptions,
+    ProfileImportMode,
+    ProfileImportPreview,
+    ProfileImportResult,
+} from '@shared/types';
 import { storageService } from './StorageService';
-import { createLogger, generateId } from '@shared/utils';
+import { vaultService, VaultLockedError } from './VaultService';
+import { parseProfileExport, serializeProfiles, type ExportedProfile } from './ProfileTransfer';
+import { createLogger, generateId, matchesUrlBinding } from '@shared/utils';
 
 const logger = createLogger('ProfileService');
 
@@ -17,6 +30,8 @@ const DEFAULT_SETTINGS: ProfileSettings = {
     typingDelayMs: 50,
 };
 
+const MAX_LEARNED_EXAMPLES = 100;
+
 /**
  * Service for managing user profiles
  */
@@ -26,6 +41,7 @@ export class ProfileService {
      */
     async init(): Promise<void> {
         await storageService.init();
+        await vaultService.init();
         logger.info('ProfileService initialized');
     }
 
@@ -43,6 +59,25 @@ export class ProfileService {
         return storageService.getProfile(id);
     }
 
+    /**
+     * Get a profile with its encrypted fields decrypted, for filling only.
+     * While the vault is locked, encrypted fields are left out.
+     */
+    async getForFill(id: string): Promise<Profile | undefined> {
+        const profile = await this.getById(id);
+        if (!profile) {
+            return undefined;
+        }
+
+        return {
+            ...profile,
+            staticContext: {
+                ...profile.staticContext,
+                fields: await vaultService.openFields(profile.staticContext.fields),
+            },
+        };
+    }
+
     /**
      * Create a new profile
      */
@@ -50,6 +85,7 @@ export class ProfileService {
         name: string;
         staticContext?: Partial<StaticContext>;
         settings?: Partial<ProfileSettings>;
+        urlBindings?: URLBinding[];
     }): Promise<Profile> {
         const now = Date.now();
 
@@ -64,7 +100,7 @@ export class ProfileService {
                 ...data.staticContext,
             },
             learnedExamples: [],
-            urlBindings: [],
+            urlBindings: data.urlBindings ?? [],
             settings: {
                 ...DEFAULT_SETTINGS,
                 ...data.settings,
@@ -74,10 +110,10 @@ export class ProfileService {
             version: 1,
         };
 
-        await storageService.saveProfile(profile);
-        logger.info('Profile created', { id: profile.id, name: profile.name });
+        const saved = await this.save(profile);
+        logger.info('Profile created', { id: saved.id, name: saved.name });
 
-        return profile;
+        return saved;
     }
 
     /**
@@ -99,10 +135,10 @@ export class ProfileService {
             version: existing.version + 1,
         };
 
-        await storageService.saveProfile(updated);
-        logger.info('Profile updated', { id, version: updated.version });
+        const saved = await this.save(updated);
+        logger.info('Profile updated', { id, version: saved.version });
 
-        return updated;
+        return saved;
     }
 
     /**
@@ -150,9 +186,9 @@ export class ProfileService {
         // Add to beginning (most recent first)
         const learnedExamples = [learnedExample, ...profile.learnedExamples];
 
-        // Limit to 100 examples per profile
-        if (learnedExamples.length > 100) {
-            learnedExamples.splice(100);
+        // Limit examples per profile
+        if (learnedExamples.length > MAX_LEARNED_EXAMPLES) {
+            learnedExamples.splice(MAX_LEARNED_EXAMPLES);
         }
 
         await this.update(profileId, { learnedExamples });
@@ -199,74 +235,132 @@ export class ProfileService {
     }
 
     /**
-     * Find profiles that match a URL
+     * Find profiles that match a URL, highest binding priority first
      */
     async findByUrl(url: string): Promise<Profile[]> {
         const allProfiles = await this.getAll();
 
-        return allProfiles.filter(profile => {
-            // Check if any URL binding matches
-            return profile.urlBindings.some(binding => {
-                if (binding.type === 'exact') {
-                    return url === binding.pattern;
-                } else if (binding.type === 'domain') {
-                    try {
-                        const urlDomain = new URL(url).hostname;
-                        return urlDomain === binding.pattern || urlDomain.endsWith('.' + binding.pattern);
-                    } catch {
-                        return false;
-                    }
-                } else if (binding.type === 'regex') {
-                    try {
-                        const regex = new RegExp(binding.pattern);
-                        return regex.test(url);
-                    } catch {
-                        return false;
-                    }
-                }
-                return false;
-            });
-        });
+        return allProfiles
+            .map((profile) => ({ profile, priority: getBindingPriority(profile, url) }))
+            .filter(({ priority }) => priority !== null)
+            .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
+            .map(({ profile }) => profile);
     }
 
     /**
-     * Export a profile as a JSON object (for backup/sharing)
+     * Find the profile whose URL binding for a URL has the highest priority
      */
-    async exportProfile(id: string): Promise<object> {
-        const profile = await this.getById(id);
+    async findBestForUrl(url: string): Promise<Profile | undefined> {
+        const [best] = await this.findByUrl(url);
+        return best;
+    }
 
-        if (!profile) {
-            throw new Error(`Profile not found: ${id}`);
+    /**
+     * Export profiles (all when no ids are given) as an export file.
+     * Encrypted fields are only exported into passphrase-protected files; otherwise
+     * they are left out and counted.
+     */
+    async exportProfiles(
+        ids: string[] | undefined,
+        options: ProfileExportOptions
+    ): Promise<{ data: string; omittedEncryptedFields: number }> {
+        const profiles = (await this.getAll()).filter((p) => !ids || ids.includes(p.id));
+        if (profiles.length === 0) {
+            throw new Error('No profiles to export');
         }
 
-        return {
-            version: '1.0',
-            exportedAt: new Date().toISOString(),
-            profile: {
-                ...profile,
-                // Exclude sensitive data from exports
-                settings: {
-                    ...profile.settings,
-                },
-            },
-        };
+        let omittedEncryptedFields = 0;
+        const exported: ExportedProfile[] = [];
+
+        for (const profile of profiles) {
+            let fields = profile.staticContext.fields;
+            const encryptedCount = fields.filter((f) => f.isEncrypted).length;
+
+            if (options.passphrase && encryptedCount > 0) {
+                if (!vaultService.getStatus().unlocked) {
+                    throw new VaultLockedError('Vault is locked - unlock it to export encrypted fields');
+                }
+                fields = await vaultService.openFields(fields);
+            } else {
+                fields = fields.filter((f) => !f.isEncrypted);
+                omittedEncryptedFields += encryptedCount;
+            }
+
+            exported.push(toExportedProfile(profile, fields, options));
+        }
+
+        const data = await serializeProfiles(exported, options.passphrase);
+        logger.info('Profiles exported', {
+            count: exported.length,
+            encrypted: !!options.passphrase,
+            omittedEncryptedFields,
+        });
+
+        return { data, omittedEncryptedFields };
     }
 
     /**
-     * Import a profile from a JSON object
+     * Read an export file and describe what importing it would do
      */
-    async importProfile(data: { profile: Partial<Profile> }): Promise<Profile> {
-        const { profile: imported } = data;
+    async previewImport(text: string, passphrase?: string): Promise<ProfileImportPreview[]> {
+        const imported = await parseProfileExport(text, passphrase);
+        const existing = await this.getAll();
+
+        return imported.map((profile) => {
+            const match = findImportConflict(profile, existing);
+            return {
+                name: profile.name,
+                fieldCount: profile.staticContext.fields.length,
+                learnedExampleCount: profile.learnedExamples.length,
+                conflict: match?.conflict ?? null,
+                existingProfileId: match?.profile.id,
+            };
+        });
+    }
 
-        if (!imported.name) {
-            throw new Error('Invalid profile: missing name');
+    /**
+     * Import an export file. Profiles matching an existing one (by id, then name)
+     * are merged into it or replace its contents; the rest are created.
+     * Returns the counts and the ids of every profile written.
+     */
+    async importProfiles(
+        text: string,
+        mode: ProfileImportMode,
+        passphrase?: string
+    ): Promise<{ result: ProfileImportResult; profileIds: string[] }> {
+        const imported = await parseProfileExport(text, passphrase);
+        const existing = await this.getAll();
+
+        // Checked up front so a locked vault doesn't leave the import half done
+        const hasEncryptedFields = imported.some((p) => p.staticContext.fields.some((f) => f.isEncrypted));
+        if (hasEncryptedFields && !vaultService.getStatus().unlocked) {
+            throw new VaultLockedError('Vault is locked - unlock it to import encrypted fields');
         }
 
-        return this.create({
-            name: imported.name,
-            staticContext: imported.staticContext,
-            settings: imported.settings,
-        });
+        const result: ProfileImportResult = { created: 0, merged: 0, replaced: 0 };
+        const profileIds: string[] = [];
+
+        for (const profile of imported) {
+            const match = findImportConflict(profile, existing);
+
+            if (!match) {
+                const created = await this.save(fromExportedProfile(profile));
+                result.created++;
+                profileIds.push(created.id);
+                continue;
+            }
+
+            const updates = mode === 'merge'
+                ? mergeImportedProfile(match.profile, profile)
+                : replaceWithImportedProfile(match.profile, profile);
+            await this.update(match.profile.id, updates);
+
+            result[mode === 'merge' ? 'merged' : 'replaced']++;
+            profileIds.push(match.profile.id);
+        }
+
+        logger.info('Profiles imported', { mode, ...result });
+        return { result, profileIds };
     }
 
     /**
@@ -371,6 +465,175 @@ export class ProfileService {
 
         logger.debug('Knowledge base updated', { profileId, length: knowledgeBase.length });
     }
+
+    /**
+     * Store every profile's flagged fields again, to match a changed
+     * encryptSensitiveFields setting
+     */
+    async resealAll(): Promise<void> {
+        const profiles = await this.getAll();
+
+        // Checked up front so a locked vault doesn't leave some profiles resealed
+        const hasFlaggedValues = profiles.some((p) => p.staticContext.fields.some((f) => f.isEncrypted && f.value));
+        if (hasFlaggedValues && !vaultService.getStatus().unlocked) {
+            throw new VaultLockedError('Vault is locked - unlock it to change field encryption');
+        }
+
+        for (const profile of profiles) {
+            await this.save(profile);
+        }
+
+        logger.info('Profiles resealed', { count: profiles.length });
+    }
+
+    /**
+     * Persist a profile, encrypting fields flagged isEncrypted while the
+     * encryptSensitiveFields setting is on.
+     * Returns the profile as stored, so callers never hold on to plaintext.
+     */
+    private async save(profile: Profile): Promise<Profile> {
+        const { encryptSensitiveFields } = await storageService.getSettings();
+        const sealed: Profile = {
+            ...profile,
+            staticContext: {
+                ...profile.staticContext,
+                fields: await vaultService.sealFields(profile.staticContext.fields, encryptSensitiveFields),
+            },
+        };
+
+        await storageService.saveProfile(sealed);
+        return sealed;
+    }
+}
+
+/**
+ * Highest priority among a profile's bindings that match a URL, or null if none match
+ */
+function getBindingPriority(profile: Profile, url: string): number | null {
+    const priorities = profile.urlBindings
+        .filter((binding) => matchesUrlBinding(url, binding))
+        .map((binding) => binding.priority);
+
+    return priorities.length > 0 ? Math.max(...priorities) : null;
+}
+
+/**
+ * Strip a profile down to what an export file holds: no embeddings, vault
+ * ciphertext or LLM provider, and optional parts only when asked for
+ */
+function toExportedProfile(profile: Profile, fields: ContextField[], options: ProfileExportOptions): ExportedProfile {
+    const { providerId: _providerId, ...settings } = profile.settings;
+    const { staticContext } = profile;
+
+    return {
+        id: profile.id,
+        name: profile.name,
+        createdAt: profile.createdAt,
+        updatedAt: profile.updatedAt,
+        staticContext: {
+            fields,
+            documents: options.includeKnowledgeBase
+                ? staticContext.documents.map(({ embedding: _embedding, ...doc }) => doc)
+                : [],
+            knowledgeBase: options.includeKnowledgeBase ? staticContext.knowledgeBase ?? '' : '',
+            knowledgeBaseChunks: 0,
+            address: staticContext.address,
+            records: staticContext.records,
+        },
+        learnedExamples: options.includeLearnedExamples
+            ? profile.learnedExamples.map(({ embedding: _embedding, ...example }) => example)
+            : [],
+        urlBindings: profile.urlBindings,
+        settings,
+    };
+}
+
+/**
+ * Build a new profile from an imported one, keeping its id so importing the
+ * same file again is recognised
+ */
+function fromExportedProfile(imported: ExportedProfile): Profile {
+    return {
+        ...imported,
+        settings: { ...DEFAULT_SETTINGS, ...imported.settings },
+        updatedAt: Date.now(),
+        version: 1,
+    };
+}
+
+/**
+ * Find the existing profile an imported one corresponds to: same id, else same name
+ */
+function findImportConflict(
+    imported: ExportedProfile,
+    existing: Profile[]
+): { profile: Profile; conflict: 'id' | 'name' } | null {
+    const byId = existing.find((p) => p.id === imported.id);
+    if (byId) {
+        return { profile: byId, conflict: 'id' };
+    }
+
+    const name = imported.name.toLowerCase();
+    const byName = existing.find((p) => p.name.trim().toLowerCase() === name);
+    return byName ? { profile: byName, conflict: 'name' } : null;
+}
+
+/**
+ * Merge an imported profile into an existing one. Imported fields, documents and
+ * examples win over existing ones with the same key or id; everything else is
+ * kept, including the existing name and settings.
+ */
+function mergeImportedProfile(existing: Profile, imported: ExportedProfile): Partial<Profile> {
+    const current = existing.staticContext;
+    const incoming = imported.staticContext;
+
+    const knowledgeBase = [current.knowledgeBase, incoming.knowledgeBase]
+        .map((text) => text?.trim())
+        .filter((text, i, all): text is string => !!text && all.indexOf(text) === i)
+        .join('\n\n');
+
+    const learnedExamples = mergeBy(existing.learnedExamples, imported.learnedExamples, (e) => e.id)
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, MAX_LEARNED_EXAMPLES);
+
+    return {
+        staticContext: {
+            fields: mergeBy(current.fields, incoming.fields, (f) => f.key),
+            documents: mergeBy(current.documents, incoming.documents, (d) => d.id),
+            knowledgeBase,
+            knowledgeBaseChunks: 0,
+            address: incoming.address ?? current.address,
+            records: mergeBy(current.records ?? [], incoming.records ?? [], (r) => r.id),
+        },
+        learnedExamples,
+        urlBindings: mergeBy(existing.urlBindings, imported.urlBindings, (b) => b.pattern),
+    };
+}
+
+/**
+ * Replace an existing profile's contents with an imported one. The existing
+ * profile's LLM provider is kept, as imports carry none.
+ */
+function replaceWithImportedProfile(existing: Profile, imported: ExportedProfile): Partial<Profile> {
+    return {
+        name: imported.name,
+        staticContext: imported.staticContext,
+        learnedExamples: imported.learnedExamples,
+        urlBindings: imported.urlBindings,
+        settings: {
+            ...DEFAULT_SETTINGS,
+            ...imported.settings,
+            providerId: existing.settings.providerId,
+        },
+    };
+}
+
+/**
+ * Combine two lists, items in the second replacing items in the first with the same key
+ */
+function mergeBy<T>(current: T[], incoming: T[], getKey: (item: T) => string): T[] {
+    const incomingKeys = new Set(incoming.map(getKey));
+    return [...current.filter((item) => !incomingKeys.has(getKey(item))), ...incoming];
 }
 
 // Singleton instance
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { parseProfileExport, ProfileImportError, serializeProfiles } from './ProfileTransfer';
+import type { ExportedProfile } from './ProfileTransfer';
+
+const PROFILE: ExportedProfile = {
+    id: 'profile-1',
+    name: 'Work',
+    createdAt: 1700000000000,
+    updatedAt: 1700000000000,
+    staticContext: {
+        fields: [
+            { key: 'fullName', value: 'Ada Lovelace', category: 'personal', isEncrypted: false },
+            { key: 'passport', value: 'X1234567', category: 'identity', isEncrypted: true },
+        ],
+        documents: [],
+        knowledgeBase: 'Analytical engines',
+        knowledgeBaseChunks: 0,
+    },
+    learnedExamples: [],
+    urlBindings: [{ type: 'domain', pattern: 'example.com', priority: 0 }],
+    settings: { answerTone: 'formal' },
+};
+
+function exportFile(profiles: unknown[]): string {
+    return JSON.stringify({ format: 'formq-profiles', version: 2, exportedAt: '', profiles });
+}
+
+async function importError(text: string, passphrase?: string): Promise<ProfileImportError> {
+    const error = await parseProfileExport(text, passphrase).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ProfileImportError);
+    return error as ProfileImportError;
+}
+
+describe('serializeProfiles / parseProfileExport', () => {
+    it('round-trips a plain export', async () => {
+        const text = await serializeProfiles([PROFILE]);
+        expect(await parseProfileExport(text)).toEqual([PROFILE]);
+    });
+
+    it('round-trips an encrypted export, keeping the profiles out of the file', async () => {
+        const text = await serializeProfiles([PROFILE], 'correct horse');
+
+        expect(text).not.toContain('Ada Lovelace');
+        expect(JSON.parse(text).profiles).toBeUndefined();
+        expect(await parseProfileExport(text, 'correct horse')).toEqual([PROFILE]);
+    });
+
+    it('asks for the passphrase of an encrypted export', async () => {
+        const text = await serializeProfiles([PROFILE], 'correct horse');
+
+        expect((await importError(text)).code).toBe('passphrase_required');
+        expect((await importError(text, 'battery staple')).code).toBe('wrong_passphrase');
+    });
+
+    it('refuses iteration counts outside the accepted range', async () => {
+        const file = JSON.parse(await serializeProfiles([PROFILE], 'correct horse'));
+
+        for (const iterations of [1e9, 0, 1.5]) {
+            file.encryption.iterations = iterations;
+            expect((await importError(JSON.stringify(file), 'correct horse')).code).toBe('invalid');
+        }
+    });
+
+    it('reads a version 1 single-profile export', async () => {
+        const text = JSON.stringify({ version: '1.0', profile: PROFILE });
+        expect(await parseProfileExport(text)).toEqual([PROFILE]);
+    });
+
+    it('rejects files from a newer version', async () => {
+        const text = JSON.stringify({ format: 'formq-profiles', version: 3, profiles: [PROFILE] });
+        expect((await importError(text)).code).toBe('unsupported_version');
+    });
+
+    it('rejects files that are not profile exports', async () => {
+        expect((await importError('not json')).message).toBe('Not a JSON file');
+        expect((await importError('{"format": "other", "version": 2}')).message).toBe('Not a FormQ profile export');
+        expect((await importError(exportFile([]))).message).toBe('The file contains no profiles');
+    });
+});
+
+describe('import validation', () => {
+    it('fills in defaults and drops unknown properties', async () => {
+        const [profile] = await parseProfileExport(exportFile([{ name: ' Minimal ', extra: true }]));
+
+        expect(profile.name).toBe('Minimal');
+        expect(profile.id).toEqual(expect.any(String));
+        expect(profile.staticContext.fields).toEqual([]);
+        expect(profile).not.toHaveProperty('extra');
+    });
+
+    it('reports every invalid value with its path', async () => {
+        const error = await importError(exportFile([
+            { name: '' },
+            { name: 'Two', staticContext: { fields: [{ key: 'a', value: 1, category: 'secret' }] } },
+        ]));
+
+        expect(error.details).toEqual([
+            'profiles[0].name: must not be empty',
+            'profiles[1].staticContext.fields[0].value: expected a string',
+            'profiles[1].staticContext.fields[0].category: must be one of personal, contact, professional, education, identity, custom',
+        ]);
+    });
+
+    it('reports duplicate ids at their index in the file', async () => {
+        const error = await importError(exportFile([
+            { id: 'a', name: 'One' },
+            'not a profile',
+            { id: 'a', name: 'Three' },
+        ]));
+
+        expect(error.details).toEqual([
+            'profiles[1]: expected an object',
+            'profiles[2].id: duplicate id "a"',
+        ]);
+    });
+
+    it('rejects values sealed by another browser\'s vault', async () => {
+        const sealed = { key: 'ssn', value: 'enc:v1:abc:def', category: 'identity', isEncrypted: true };
+        const error = await importError(exportFile([{ name: 'One', staticContext: { fields: [sealed] } }]));
+
+        expect(error.details[0]).toBe('profiles[0].staticContext.fields[0].value: encrypted by another browser\'s vault');
+    });
+});
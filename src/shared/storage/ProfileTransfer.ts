@@ -0,0 +1,537 @@
+// Profile Transfer
+// Versioned profile export files: serialization, passphrase encryption and import validation
+
+import type {
+    AnswerLength,
+    AnswerTone,
+    ContextDocument,
+    ContextField,
+    DocumentFormat,
+    FieldCategory,
+    LearnedExample,
+    PostalAddress,
+    ProfileRecord,
+    ProfileSettings,
+    RecordType,
+    StaticContext,
+    URLBinding,
+} from '@shared/types';
+import {
+    base64ToBytes,
+    bytesToBase64,
+    decryptString,
+    deriveKeyFromPassphrase,
+    encryptString,
+    generateId,
+    isEncryptedValue,
+    randomBytes,
+} from '@shared/utils';
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export type ProfileImportErrorCode =
+    | 'invalid'
+    | 'unsupported_version'
+    | 'passphrase_required'
+    | 'wrong_passphrase';
+
+export class ProfileImportError extends Error {
+    constructor(
+        message: string,
+        readonly code: ProfileImportErrorCode = 'invalid',
+        readonly details: string[] = []
+    ) {
+        super(message);
+        this.name = 'ProfileImportError';
+    }
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// A profile as written to an export file: no embeddings, vault ciphertext or version
+export interface ExportedProfile {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    staticContext: StaticContext;
+    learnedExamples: LearnedExample[];
+    urlBindings: URLBinding[];
+    settings: Partial<ProfileSettings>;
+}
+
+interface ExportFile {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    profiles?: ExportedProfile[];       // Absent when encrypted
+    encryption?: ExportEncryption;
+}
+
+interface ExportEncryption {
+    kdf: 'PBKDF2-SHA256';
+    iterations: number;
+    salt: string;                       // Base64
+    data: string;                       // Encrypted envelope of the profiles array as JSON
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const EXPORT_FORMAT = 'formq-profiles';
+
+// 1: single profile, { version: '1.0', profile } (ProfileService.exportProfile)
+// 2: profile list, optionally passphrase-encrypted
+const EXPORT_VERSION = 2;
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+
+// Iteration counts accepted from a file; a huge count would hang key derivation
+const MAX_PBKDF2_ITERATIONS = 10 * PBKDF2_ITERATIONS;
+
+// Enough to locate problems without flooding the options page
+const MAX_REPORTED_ERRORS = 10;
+
+const FIELD_CATEGORIES: FieldCategory[] = ['personal', 'contact', 'professional', 'education', 'identity', 'custom'];
+const DOCUMENT_TYPES: ContextDocument['type'][] = ['resume', 'cover_letter', 'other'];
+const DOCUMENT_FORMATS: DocumentFormat[] = ['pdf', 'docx', 'markdown', 'text'];
+const BINDING_TYPES: URLBinding['type'][] = ['exact', 'domain', 'regex'];
+const EXAMPLE_SOURCES: LearnedExample['source'][] = ['user_edit', 'explicit_save'];
+const ANSWER_TONES: AnswerTone[] = ['professional', 'friendly', 'enthusiastic', 'formal', 'concise'];
+const ANSWER_LENGTHS: AnswerLength[] = ['short', 'medium', 'long'];
+
+// Text properties of each record type, required ones first
+const RECORD_PROPERTIES: Record<RecordType, { required: string[]; optional: string[] }> = {
+    employment: { required: ['company', 'jobTitle'], optional: ['location', 'startDate', 'endDate', 'description'] },
+    education: { required: ['institution'], optional: ['degree', 'fieldOfStudy', 'startDate', 'endDate', 'gpa'] },
+    reference: { required: ['name'], optional: ['relationship', 'company', 'jobTitle', 'email', 'phone'] },
+    certification: { required: ['name'], optional: ['issuer', 'issueDate', 'expiryDate', 'credentialId', 'url'] },
+};
+const RECORD_TYPES = Object.keys(RECORD_PROPERTIES) as RecordType[];
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Write profiles to an export file, encrypted with a passphrase when one is given
+ */
+export async function serializeProfiles(profiles: ExportedProfile[], passphrase?: string): Promise<string> {
+    const file: ExportFile = {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+    };
+
+    if (passphrase) {
+        const salt = randomBytes(SALT_BYTES);
+        const key = await deriveKeyFromPassphrase(passphrase, salt, PBKDF2_ITERATIONS);
+        file.encryption = {
+            kdf: 'PBKDF2-SHA256',
+            iterations: PBKDF2_ITERATIONS,
+            salt: bytesToBase64(salt),
+            data: await encryptString(key, JSON.stringify(profiles)),
+        };
+    } else {
+        file.profiles = profiles;
+    }
+
+    return JSON.stringify(file, null, 2);
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Read and validate an export file. Throws ProfileImportError when the file
+ * can't be read, needs a (different) passphrase, or holds invalid profiles.
+ */
+export async function parseProfileExport(text: string, passphrase?: string): Promise<ExportedProfile[]> {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new ProfileImportError('Not a JSON file');
+    }
+
+    if (!isRecord(data)) {
+        throw new ProfileImportError('Not a FormQ profile export');
+    }
+
+    // Version 1: a single profile
+    if (data.version === '1.0' && isRecord(data.profile)) {
+        return validateProfiles([data.profile]);
+    }
+
+    if (data.format !== EXPORT_FORMAT || typeof data.version !== 'number') {
+        throw new ProfileImportError('Not a FormQ profile export');
+    }
+    if (data.version > EXPORT_VERSION) {
+        throw new ProfileImportError(
+            'This file was exported by a newer version of FormQ',
+            'unsupported_version'
+        );
+    }
+
+    if (isRecord(data.encryption)) {
+        return validateProfiles(await decryptProfiles(data.encryption, passphrase));
+    }
+
+    return validateProfiles(data.profiles);
+}
+
+async function decryptProfiles(encryption: Record<string, unknown>, passphrase?: string): Promise<unknown> {
+    if (!passphrase) {
+        throw new ProfileImportError('This file is protected with a passphrase', 'passphrase_required');
+    }
+
+    const { iterations, salt, data } = encryption;
+    if (typeof iterations !== 'number' || typeof salt !== 'string' || typeof data !== 'string') {
+        throw new ProfileImportError('The file\'s encryption header is damaged');
+    }
+    if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_PBKDF2_ITERATIONS) {
+        throw new ProfileImportError('The file\'s encryption header is damaged');
+    }
+
+    let plaintext: string;
+    try {
+        const key = await deriveKeyFromPassphrase(passphrase, base64ToBytes(salt), iterations);
+        plaintext = await decryptString(key, data);
+    } catch {
+        throw new ProfileImportError('Wrong passphrase', 'wrong_passphrase');
+    }
+
+    try {
+        return JSON.parse(plaintext);
+    } catch {
+        throw new ProfileImportError('The file\'s encrypted contents are damaged');
+    }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check every profile in a file, reporting all problems found rather than the first.
+ * Unknown properties are dropped; optional ones that are missing take defaults.
+ */
+function validateProfiles(value: unknown): ExportedProfile[] {
+    const errors: string[] = [];
+
+    if (!Array.isArray(value) || value.length === 0) {
+        throw new ProfileImportError('The file contains no profiles');
+    }
+
+    const read = value.map((item, i) => readProfile(item, `profiles[${i}]`, errors));
+
+    // Indexes into the file, so checked before invalid profiles are dropped
+    const ids = read.map((p) => p?.id);
+    ids.forEach((id, i) => {
+        if (id !== undefined && ids.indexOf(id) !== i) {
+            errors.push(`profiles[${i}].id: duplicate id "${id}"`);
+        }
+    });
+
+    const profiles = read.filter((p): p is ExportedProfile => p !== null);
+
+    if (errors.length > 0) {
+        throw new ProfileImportError(
+            `The file contains ${errors.length} invalid value${errors.length !== 1 ? 's' : ''}`,
+            'invalid',
+            errors.slice(0, MAX_REPORTED_ERRORS)
+        );
+    }
+
+    return profiles;
+}
+
+function readProfile(value: unknown, path: string, errors: string[]): ExportedProfile | null {
+    if (!isRecord(value)) {
+        errors.push(`${path}: expected an object`);
+        return null;
+    }
+
+    const name = readString(value.name, `${path}.name`, errors);
+    if (name !== null && !name.trim()) {
+        errors.push(`${path}.name: must not be empty`);
+    }
+
+    const staticContext = isRecord(value.staticContext) ? value.staticContext : {};
+    const now = Date.now();
+
+    return {
+        id: typeof value.id === 'string' && value.id ? value.id : generateId(),
+        name: name?.trim() ?? '',
+        createdAt: typeof value.createdAt === 'number' ? value.createdAt : now,
+        updatedAt: typeof value.updatedAt === 'number' ? value.updatedAt : now,
+        staticContext: {
+            fields: readList(staticContext.fields, `${path}.staticContext.fields`, errors, readField),
+            documents: readList(staticContext.documents, `${path}.staticContext.documents`, errors, readDocument),
+            knowledgeBase: typeof staticContext.knowledgeBase === 'string' ? staticContext.knowledgeBase : '',
+            knowledgeBaseChunks: 0,     // Re-embedded after import
+            address: staticContext.address === undefined
+                ? undefined
+                : readAddress(staticContext.address, `${path}.staticContext.address`, errors) ?? undefined,
+            records: staticContext.records === undefined
+                ? undefined
+                : readList(staticContext.records, `${path}.staticContext.records`, errors, readRecord),
+        },
+        learnedExamples: readList(value.learnedExamples, `${path}.learnedExamples`, errors, readLearnedExample),
+        urlBindings: readList(value.urlBindings, `${path}.urlBindings`, errors, readBinding),
+        settings: readSettings(value.settings, `${path}.settings`, errors),
+    };
+}
+
+function readField(value: unknown, path: string, errors: string[]): ContextField | null {
+    if (!isRecord(value)) {
+        errors.push(`${path}: expected an object`);
+        return null;
+    }
+
+    const key = readString(value.key, `${path}.key`, errors);
+    const fieldValue = readString(value.value, `${path}.value`, errors);
+    const category = value.category ?? 'custom';
+    if (!FIELD_CATEGORIES.includes(category as FieldCategory)) {
+        errors.push(`${path}.category: must be one of ${FIELD_CATEGORIES.join(', ')}`);
+    }
+    if (fieldValue !== null && isEncryptedValue(fieldValue)) {
+        // Ciphertext from another vault (older exports) can't be decrypted here
+        errors.push(`${path}.value: encrypted by another browser's vault`);
+        return null;
+    }
+    if (key === null || fieldValue === null) {
+        return null;
+    }
+
+    return {
+        key,
+        value: fieldValue,
+        category: category as FieldCategory,
+        isEncrypted: value.isEncrypted === true,
+    };
+}
+
+function readDocument(value: unknown, path: string, errors: string[]): ContextDocument | null {
+    if (!isRecord(value)) {
+        errors.push(`${path}: expected an object`);
+        return null;
+    }
+
+    const name = readString(value.name, `${path}.name`, errors);
+    const content = readString(value.content, `${path}.content`, errors);
+    const type = value.type ?? 'other';
+    if (!DOCUMENT_TYPES.includes(type as ContextDocument['type'])) {
+        errors.push(`${path}.type: must be one of ${DOCUMENT_TYPES.join(', ')}`);
+    }
+    if (name === null || content === null) {
+        return null;
+    }
+
+    return {
+        id: typeof value.id === 'string' && value.id ? value.id : generateId(),
+        name,
+        content,
+        type: type as ContextDocument['type'],
+        fileName: typeof value.fileName === 'string' ? value.fileName : undefined,
+        format: DOCUMENT_FORMATS.includes(value.format as DocumentFormat) ? value.format as DocumentFormat : undefined,
+    };
+}
+
+function readAddress(value: unknown, path: string, errors: string[]): PostalAddress | null {
+    if (!isRecord(value)) {
+        errors.push(`${path}: expected an object`);
+        return null;
+    }
+
+    const line1 = readString(value.line1, `${path}.line1`, errors);
+    const city = readString(value.city, `${path}.city`, errors);
+    const postalCode = readString(value.postalCode, `${path}.postalCode`, errors);
+    const country = readString(value.country, `${path}.country`, errors);
+    if (line1 === null || city === null || postalCode === null || country === null) {
+        return null;
+    }
+
+    return {
+        line1,
+        line2: typeof value.line2 === 'string' ? value.line2 : undefined,
+        city,
+        state: typeof value.state === 'string' ? value.state : undefined,
+        postalCode,
+        country,
+    };
+}
+
+function readRecord(value: unknown, path: string, errors: string[]): ProfileRecord | null {
+    if (!isRecord(value)) {
+        errors.push(`${path}: expected an object`);
+        return null;
+    }
+    if (!RECORD_TYPES.includes(value.type as RecordType)) {
+        errors.push(`${path}.type: must be one of ${RECORD_TYPES.join(', ')}`);
+        return null;
+    }
+
+    const type = value.type as RecordType;
+    const { required, optional } = RECORD_PROPERTIES[type];
+    const record: Record<string, unknown> = {
+        id: typeof value.id === 'string' && value.id ? value.id : generateId(),
+        type,
+    };
+
+    for (const property of required) {
+        const text = readString(value[property], `${path}.${property}`, errors);
+        if (text === null) {
+            return null;
+        }
+        record[property] = text;
+    }
+    for (const property of optional) {
+        if (typeof value[property] === 'string') {
+            record[property] = value[property];
+        }
+    }
+    if (type === 'employment' && typeof value.current === 'boolean') {
+        record.current = value.current;
+    }
+
+    return record as unknown as ProfileRecord;
+}
+
+function readBinding(value: unknown, path: string, errors: string[]): URLBinding | null {
+    if (!isRecord(value)) {
+        errors.push(`${path}: expected an object`);
+        return null;
+    }
+
+    const pattern = readString(value.pattern, `${path}.pattern`, errors);
+    if (!BINDING_TYPES.includes(value.type as URLBinding['type'])) {
+        errors.push(`${path}.type: must be one of ${BINDING_TYPES.join(', ')}`);
+        return null;
+    }
+    if (value.type === 'regex' && pattern !== null) {
+        try {
+            new RegExp(pattern);
+        } catch {
+            errors.push(`${path}.pattern: invalid regular expression`);
+        }
+    }
+    if (pattern === null) {
+        return null;
+    }
+
+    return {
+        pattern,
+        type: value.type as URLBinding['type'],
+        priority: typeof value.priority === 'number' ? value.priority : 0,
+    };
+}
+
+/**
+ * Learned examples hold whole form signatures; only the parts matching and
+ * retrieval rely on are checked
+ */
+function readLearnedExample(value: unknown, path: string, errors: string[]): LearnedExample | null {
+    if (!isRecord(value)) {
+        errors.push(`${path}: expected an object`);
+        return null;
+    }
+
+    const formSignature = value.formSignature;
+    if (!isRecord(formSignature) || !Array.isArray(formSignature.fields)) {
+        errors.push(`${path}.formSignature: expected a form signature`);
+        return null;
+    }
+    if (!Array.isArray(value.fieldMappings) ||
+        !value.fieldMappings.every((m) => isRecord(m) && isRecord(m.fieldSignature) && typeof m.value === 'string')) {
+        errors.push(`${path}.fieldMappings: expected a list of field mappings`);
+        return null;
+    }
+
+    return {
+        id: typeof value.id === 'string' && value.id ? value.id : generateId(),
+        timestamp: typeof value.timestamp === 'number' ? value.timestamp : Date.now(),
+        formSignature: formSignature as unknown as LearnedExample['formSignature'],
+        fieldMappings: value.fieldMappings as unknown as LearnedExample['fieldMappings'],
+        source: EXAMPLE_SOURCES.includes(value.source as LearnedExample['source'])
+            ? value.source as LearnedExample['source']
+            : 'user_edit',
+    };
+}
+
+/**
+ * Settings keep only known behavior switches. The LLM provider is left out:
+ * provider ids are specific to the browser the profile came from.
+ */
+function readSettings(value: unknown, path: string, errors: string[]): Partial<ProfileSettings> {
+    if (value === undefined) {
+        return {};
+    }
+    if (!isRecord(value)) {
+        errors.push(`${path}: expected an object`);
+        return {};
+    }
+
+    const settings: Partial<ProfileSettings> = {};
+    for (const key of ['autoFill', 'confirmBeforeFill', 'humanizeTyping'] as const) {
+        if (typeof value[key] === 'boolean') {
+            settings[key] = value[key];
+        }
+    }
+    if (typeof value.typingDelayMs === 'number' && value.typingDelayMs >= 0) {
+        settings.typingDelayMs = value.typingDelayMs;
+    }
+    if (ANSWER_TONES.includes(value.answerTone as AnswerTone)) {
+        settings.answerTone = value.answerTone as AnswerTone;
+    }
+    if (ANSWER_LENGTHS.includes(value.answerLength as AnswerLength)) {
+        settings.answerLength = value.answerLength as AnswerLength;
+    }
+
+    return settings;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readString(value: unknown, path: string, errors: string[]): string | null {
+    if (typeof value !== 'string') {
+        errors.push(`${path}: expected a string`);
+        return null;
+    }
+    return value;
+}
+
+/**
+ * Read an optional list, dropping invalid items (each reported)
+ */
+function readList<T>(
+    value: unknown,
+    path: string,
+    errors: string[],
+    readItem: (item: unknown, path: string, errors: string[]) => T | null
+): T[] {
+    if (value === undefined) {
+        return [];
+    }
+    if (!Array.isArray(value)) {
+        errors.push(`${path}: expected a list`);
+        return [];
+    }
+
+    return value
+        .map((item, i) => readItem(item, `${path}[${i}]`, errors))
+        .filter((item): item is T => item !== null);
+}
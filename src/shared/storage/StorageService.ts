@@ -14,6 +14,20 @@ import { DATABASE_NAME, STORAGE_VERSION, STORES } from '@shared/types/storage';
 
 const logger = createLogger('StorageService');
 
+/**
+ * Default app settings
+ */
+const DEFAULT_SETTINGS: AppSettings = {
+    debugMode: false,
+    autoFillEnabled: true,
+    autoFillAllowedSites: [],
+    autoFillBlockedSites: [],
+    humanizeTyping: true,
+    typingDelayMs: 50,
+    showNotifications: true,
+    encryptSensitiveFields: true,
+};
+
 /**
  * IndexedDB storage service with typed stores and migration support
  */
@@ -295,6 +309,34 @@ export class StorageService {
         });
     }
 
+    /**
+     * Replace a profile's vectors in one transaction, so an interrupted
+     * reindex leaves the old vectors in place rather than a partial set
+     */
+    async replaceVectorsByProfile(profileId: string, vectors: VectorEntry[]): Promise<void> {
+        const db = await this.ensureInit();
+
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(STORES.VECTORS, 'readwrite');
+            const store = tx.objectStore(STORES.VECTORS);
+            const request = store.index('profileId').openCursor(profileId);
+
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (cursor) {
+                    cursor.delete();
+                    cursor.continue();
+                } else {
+                    vectors.forEach((vector) => store.put(vector));
+                }
+            };
+
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+
     // ==================== Cache Operations ====================
 
     /**
@@ -447,14 +489,8 @@ export class StorageService {
      */
     async getSettings(): Promise<AppSettings> {
         const settings = await this.getMetadata('settings');
-        return settings ?? {
-            debugMode: false,
-            autoFillEnabled: true,
-            humanizeTyping: true,
-            typingDelayMs: 50,
-            showNotifications: true,
-            encryptSensitiveFields: true,
-        };
+        // Settings saved before a setting existed take its default
+        return { ...DEFAULT_SETTINGS, ...settings };
     }
 
     /**
@@ -0,0 +1,252 @@
+// Vault Service
+// Passphrase-protected encryption of sensitive profile fields
+
+import type { ContextField, VaultMetadata, VaultStatus } from '@shared/types';
+import {
+    createLogger,
+    isEncryptedValue,
+    encryptString,
+    decryptString,
+    deriveKeyFromPassphrase,
+    randomBytes,
+    bytesToBase64,
+    base64ToBytes,
+} from '@shared/utils';
+import { storageService } from './StorageService';
+
+const logger = createLogger('VaultService');
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export class VaultLockedError extends Error {
+    constructor(message: string = 'Vault is locked - unlock it to save encrypted fields') {
+        super(message);
+        this.name = 'VaultLockedError';
+    }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const MIN_PASSPHRASE_LENGTH = 8;
+const VERIFIER_PLAINTEXT = 'FormQ vault';
+
+// Session storage is memory-only and cleared when the browser closes,
+// so the vault stays unlocked across service worker restarts but not sessions
+const SESSION_KEY = 'vaultKey';
+
+// ============================================================================
+// Vault Service
+// ============================================================================
+
+export class VaultService {
+    private key: CryptoKey | null = null;
+    private metadata: VaultMetadata | null = null;
+    private initialized: boolean = false;
+
+    /**
+     * Load vault metadata and restore an unlocked key from session storage
+     */
+    async init(): Promise<void> {
+        if (this.initialized) return;
+
+        this.metadata = (await storageService.getMetadata('vault')) ?? null;
+
+        try {
+            const stored = await chrome.storage.session.get(SESSION_KEY);
+            const rawKey = stored[SESSION_KEY] as string | undefined;
+
+            if (rawKey && this.metadata) {
+                this.key = await crypto.subtle.importKey(
+                    'raw',
+                    base64ToBytes(rawKey),
+                    'AES-GCM',
+                    true,
+                    ['encrypt', 'decrypt']
+                );
+            }
+        } catch (error) {
+            logger.error('Failed to restore vault key', { error });
+        }
+
+        this.initialized = true;
+        logger.debug('Vault initialized', this.getStatus());
+    }
+
+    /**
+     * Get whether a passphrase is set and whether the vault is unlocked
+     */
+    getStatus(): VaultStatus {
+        return {
+            configured: this.metadata !== null,
+            unlocked: this.key !== null,
+        };
+    }
+
+    /**
+     * Set the vault passphrase for the first time and unlock
+     */
+    async setup(passphrase: string): Promise<void> {
+        await this.init();
+
+        if (this.metadata) {
+            throw new Error('Vault passphrase is already set');
+        }
+        if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+            throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        }
+
+        const salt = randomBytes(SALT_BYTES);
+        const key = await deriveKeyFromPassphrase(passphrase, salt, PBKDF2_ITERATIONS);
+
+        const metadata: VaultMetadata = {
+            salt: bytesToBase64(salt),
+            iterations: PBKDF2_ITERATIONS,
+            verifier: await encryptString(key, VERIFIER_PLAINTEXT),
+            createdAt: Date.now(),
+        };
+
+        await storageService.setMetadata('vault', metadata);
+        this.metadata = metadata;
+        await this.setKey(key);
+
+        logger.info('Vault created');
+    }
+
+    /**
+     * Unlock the vault with the passphrase
+     */
+    async unlock(passphrase: string): Promise<void> {
+        await this.init();
+
+        if (!this.metadata) {
+            throw new Error('Vault passphrase has not been set');
+        }
+
+        const key = await deriveKeyFromPassphrase(
+            passphrase,
+            base64ToBytes(this.metadata.salt),
+            this.metadata.iterations
+        );
+
+        try {
+            const verifier = await decryptString(key, this.metadata.verifier);
+            if (verifier !== VERIFIER_PLAINTEXT) {
+                throw new Error('Verifier mismatch');
+            }
+        } catch {
+            logger.warn('Vault unlock failed');
+            throw new Error('Incorrect passphrase');
+        }
+
+        await this.setKey(key);
+        logger.info('Vault unlocked');
+    }
+
+    /**
+     * Forget the key; encrypted fields stay unreadable until the next unlock
+     */
+    async lock(): Promise<void> {
+        this.key = null;
+
+        try {
+            await chrome.storage.session.remove(SESSION_KEY);
+        } catch (error) {
+            logger.error('Failed to clear vault key', { error });
+        }
+
+        logger.info('Vault locked');
+    }
+
+    /**
+     * Encrypt flagged fields that hold plaintext and decrypt unflagged fields
+     * that still hold ciphertext. With encryption off, flagged fields are decrypted
+     * too. Fields already in the right shape pass through.
+     */
+    async sealFields(fields: ContextField[], encrypt: boolean = true): Promise<ContextField[]> {
+        await this.init();
+
+        return Promise.all(fields.map(async (field) => {
+            const encrypted = isEncryptedValue(field.value);
+            const sealed = field.isEncrypted && encrypt;
+
+            if (sealed && !encrypted && field.value) {
+                return { ...field, value: await encryptString(this.requireKey(), field.value) };
+            }
+
+            if (!sealed && encrypted) {
+                return { ...field, value: await decryptString(this.requireKey(), field.value) };
+            }
+
+            return field;
+        }));
+    }
+
+    /**
+     * Decrypt encrypted fields for filling.
+     * While locked, encrypted fields are left out rather than exposed as ciphertext.
+     */
+    async openFields(fields: ContextField[]): Promise<ContextField[]> {
+        await this.init();
+
+        const opened: ContextField[] = [];
+        let skipped = 0;
+
+        for (const field of fields) {
+            if (!isEncryptedValue(field.value)) {
+                opened.push(field);
+                continue;
+            }
+
+            if (!this.key) {
+                skipped++;
+                continue;
+            }
+
+            try {
+                opened.push({ ...field, value: await decryptString(this.key, field.value) });
+            } catch (error) {
+                skipped++;
+                logger.error('Failed to decrypt field', { key: field.key, error });
+            }
+        }
+
+        if (skipped > 0) {
+            logger.info('Encrypted fields skipped', { skipped, locked: !this.key });
+        }
+
+        return opened;
+    }
+
+    private requireKey(): CryptoKey {
+        if (!this.metadata) {
+            throw new VaultLockedError('Set a vault passphrase before encrypting fields');
+        }
+        if (!this.key) {
+            throw new VaultLockedError();
+        }
+        return this.key;
+    }
+
+    private async setKey(key: CryptoKey): Promise<void> {
+        this.key = key;
+
+        try {
+            const rawKey = await crypto.subtle.exportKey('raw', key);
+            await chrome.storage.session.set({ [SESSION_KEY]: bytesToBase64(new Uint8Array(rawKey)) });
+        } catch (error) {
+            logger.error('Failed to persist vault key', { error });
+        }
+    }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+export const vaultService = new VaultService();
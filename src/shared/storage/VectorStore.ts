@@ -69,15 +69,22 @@ export class VectorStore {
     }
 
     /**
-     * Search for similar vectors using cosine similarity
+     * Search for similar vectors using cosine similarity.
+     * With a model, only vectors tagged with that model and the query's
+     * dimensions are compared; anything else awaits re-indexing.
      */
     async search(
         profileId: string,
         queryEmbedding: number[],
         topK: number = 5,
-        threshold: number = 0.0
+        threshold: number = 0.0,
+        embeddingModel?: string
     ): Promise<SearchResult[]> {
-        const vectors = await this.getVectors(profileId);
+        const allVectors = await this.getVectors(profileId);
+        const vectors = embeddingModel
+            ? allVectors.filter((v) => v.embeddingModel === embeddingModel
+                && v.embedding.length === queryEmbedding.length)
+            : allVectors;
 
         if (vectors.length === 0) {
             return [];
@@ -97,7 +104,8 @@ export class VectorStore {
 
         logger.debug('Vector search complete', {
             profileId,
-            totalVectors: vectors.length,
+            totalVectors: allVectors.length,
+            comparedVectors: vectors.length,
             aboveThreshold: filtered.length,
             topSimilarity: filtered[0]?.similarity ?? 0,
         });
@@ -183,6 +191,18 @@ export class VectorStore {
         logger.debug('All vectors deleted for profile', { profileId });
     }
 
+    /**
+     * Replace all vectors for a profile with a new set, atomically
+     */
+    async replaceProfile(profileId: string, entries: VectorEntry[]): Promise<void> {
+        await this.init();
+
+        await storageService.replaceVectorsByProfile(profileId, entries);
+        this.cache.set(profileId, [...entries]);
+
+        logger.debug('Profile vectors replaced', { profileId, count: entries.length });
+    }
+
     /**
      * Delete vectors by source type for a profile
      */
@@ -198,24 +218,58 @@ export class VectorStore {
         // Filter out vectors of the specified type
         const remaining = vectors.filter(v => v.sourceType !== sourceType);
 
-        // Clear all existing vectors for this profile
-        await storageService.deleteVectorsByProfile(profileId);
+        // Keep the remaining vectors in the same transaction as the delete
+        await this.replaceProfile(profileId, remaining);
 
-        // Re-insert remaining vectors
-        if (remaining.length > 0) {
-            await this.upsertBatch(remaining);
-        } else {
-            // Invalidate cache
-            this.cache.delete(profileId);
+        logger.debug('Vectors deleted by source type', {
+            profileId,
+            sourceType,
+            deleted: vectors.length - remaining.length,
+        });
+    }
+
+    /**
+     * Delete the vectors of one source (e.g. a document's chunks) for a profile
+     */
+    async deleteBySource(
+        profileId: string,
+        sourceType: 'learned_example' | 'document' | 'knowledge_base',
+        sourceId: string
+    ): Promise<void> {
+        await this.init();
+
+        const vectors = await this.getVectors(profileId);
+        const remaining = vectors.filter((v) => v.sourceType !== sourceType || v.sourceId !== sourceId);
+        if (remaining.length === vectors.length) {
+            return;
         }
 
-        logger.debug('Vectors deleted by source type', {
+        await this.replaceProfile(profileId, remaining);
+
+        logger.debug('Vectors deleted by source', {
             profileId,
             sourceType,
+            sourceId,
             deleted: vectors.length - remaining.length,
         });
     }
 
+    /**
+     * Count vectors that a search with this model would ignore: untagged, from
+     * another model, or with dimensions that differ from the model's newest vector
+     */
+    async countStale(profileId: string, embeddingModel: string): Promise<number> {
+        const vectors = await this.getVectors(profileId);
+        const current = vectors.filter((v) => v.embeddingModel === embeddingModel);
+        const newest = current.reduce<VectorEntry | null>(
+            (latest, v) => (!latest || v.createdAt > latest.createdAt ? v : latest),
+            null
+        );
+        const dimensions = newest?.embedding.length;
+
+        return vectors.length - current.filter((v) => v.embedding.length === dimensions).length;
+    }
+
     /**
      * Get statistics for a profile's vectors
      */
@@ -1,5 +1,8 @@
 // Storage Module Index
 export { StorageService, storageService } from './StorageService';
 export { ProfileService, profileService } from './ProfileService';
+export { VaultService, vaultService, VaultLockedError } from './VaultService';
+export { ProfileImportError } from './ProfileTransfer';
+export type { ProfileImportErrorCode } from './ProfileTransfer';
 export { VectorStore, vectorStore } from './VectorStore';
 export type { SearchResult, VectorStoreStats } from './VectorStore';
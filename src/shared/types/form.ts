@@ -1,15 +1,53 @@
 // Form Types
 // Data structures for form detection, field signatures, and fill operations
 
+import type { RecordType } from './profile';
+
 export interface FormSignature {
     id: string;
     url: string;
     domain: string;
-    formIndex: number;
+    formIndex: number;  // Index within its frame's document
+    frameId?: number;   // Frame that reported the form, stamped by the background (0 = top frame)
+    label?: string;     // Human-readable name (aria-label, legend, heading) for form pickers
     fields: FieldSignature[];
+    repeatingSections?: RepeatingSection[];
+    pageContext?: PageContext;  // What the page around the form is about
     detectedAt: number;
 }
 
+// Summary of the page a form is on, for tailoring answers. Email addresses, phone
+// numbers and URL query strings are removed before it leaves the page.
+export interface PageContext {
+    title?: string;
+    headings: string[];
+    text?: string;                      // Main content, cut short
+    jobPosting?: JobPostingContext;     // From JSON-LD JobPosting
+    organization?: OrganizationContext; // From JSON-LD Organization, else og:site_name
+}
+
+export interface JobPostingContext {
+    title?: string;
+    company?: string;
+    location?: string;
+    employmentType?: string;
+    description?: string;
+}
+
+export interface OrganizationContext {
+    name: string;
+    description?: string;
+    url?: string;
+}
+
+// Blocks of fields repeated once per record, such as "Employer 1" and "Employer 2".
+// A form has at most one section per record type.
+export interface RepeatingSection {
+    recordType: RecordType;
+    groups: string[][];         // Field IDs of each block, in page order
+    addButtonPath?: string;     // Control that adds another block
+}
+
 export interface FieldSignature {
     id: string;
     domPath: string;
@@ -31,21 +69,51 @@ export interface FieldSignature {
         parentText?: string;
         position: { x: number; y: number };
     };
+
+    options?: FieldOption[];  // Allowed values for selects and radio groups
+    limits?: FieldLimits;     // Length limits from the element and its help text
+}
+
+export interface FieldLimits {
+    maxLength?: number;     // Characters
+    maxWords?: number;
+    minWords?: number;
+}
+
+export interface FieldOption {
+    value: string;  // Submitted value
+    label: string;  // Visible text
 }
 
 export type InputType =
     | 'text' | 'email' | 'tel' | 'url' | 'password'
     | 'number' | 'date' | 'datetime-local' | 'time'
     | 'select' | 'radio' | 'checkbox' | 'textarea'
-    | 'hidden' | 'file' | 'unknown';
+    | 'hidden' | 'file'
+    | 'contenteditable'     // Rich-text editor root
+    | 'combobox'            // ARIA combobox built from non-form elements
+    | 'unknown';
 
 export type SemanticClass =
-    | 'first_name' | 'last_name' | 'full_name'
-    | 'email' | 'phone' | 'address_line1' | 'address_line2'
+    // Personal
+    | 'first_name' | 'middle_name' | 'last_name' | 'full_name' | 'preferred_name'
+    | 'date_of_birth' | 'gender' | 'pronouns' | 'nationality'
+    // Contact and address
+    | 'email' | 'phone' | 'full_address' | 'address_line1' | 'address_line2'
     | 'city' | 'state' | 'zip' | 'country'
+    // Professional and job application
     | 'company' | 'job_title' | 'website'
+    | 'linkedin_url' | 'github_url' | 'portfolio_url'
+    | 'years_of_experience' | 'salary_expectation' | 'notice_period' | 'start_date'
+    | 'work_authorization' | 'visa_sponsorship' | 'willing_to_relocate' | 'referral_source'
+    // Education
+    | 'university' | 'degree' | 'field_of_study' | 'graduation_year' | 'gpa'
+    // Identity documents
+    | 'passport_number' | 'national_id' | 'drivers_license'
+    // Credentials
     | 'username' | 'password'
-    | 'date_of_birth' | 'message'
+    // Other
+    | 'message'
     | 'unknown';
 
 export interface FieldMapping {
@@ -53,6 +121,7 @@ export interface FieldMapping {
     value: string;
     confidence: number;
     source: 'llm' | 'cache' | 'static' | 'learned';
+    sensitive?: boolean;  // Value came from an encrypted profile field; never persisted
 }
 
 export interface FillResult {
@@ -67,3 +136,17 @@ export interface SkippedField {
     fieldId: string;
     reason: 'denylist' | 'no_value' | 'user_skip' | 'error';
 }
+
+// A multi-step form (wizard, application flow) filled across several pages or views
+export interface FormSession {
+    id: string;
+    key: string;                // Domain plus the URL path shared by every step
+    domain: string;
+    profileId: string;
+    tabId: number;              // Tab the session was last active in
+    steps: FillResult[];        // One per filled step, in order; sensitive values are dropped
+    seenFormIds: string[];      // Steps already filled or auto-filled, so they aren't treated as new
+    autoFill: boolean;          // Fill each new step as it appears
+    startedAt: number;
+    updatedAt: number;
+}
@@ -6,3 +6,4 @@ export * from './form';
 export * from './messages';
 export * from './state';
 export * from './storage';
+export * from './providers';
@@ -2,8 +2,19 @@
 // Type-safe message passing between extension components
 
 import type { FormSignature, FieldMapping, FillResult } from './form';
-import type { Profile } from './profile';
-import type { FillState, ErrorCode } from './state';
+import type {
+    Profile,
+    ProfileExportOptions,
+    ProfileImportMode,
+    ProfileImportPreview,
+    ProfileImportResult,
+    ExtractedProfileField,
+    RecordType,
+    AnswerAction,
+} from './profile';
+import type { FillState, ErrorCode, FieldFillProgress } from './state';
+import type { LLMProviderInput, LLMProviderSummary } from './providers';
+import type { AppSettings } from './storage';
 
 export interface Message<T extends MessageType = MessageType> {
     id: string;
@@ -17,13 +28,28 @@ export type MessageType =
     | 'FORM_DETECTED'
     | 'REQUEST_FILL'
     | 'REPORT_EDIT'
+    | 'FORM_SUBMITTED'
     | 'REQUEST_CANCEL'
+    | 'REQUEST_UNDO'
 
     // Background -> Content
     | 'FILL_COMMAND'
+    | 'FILL_APPEND'
+    | 'FILL_END'
+    | 'CANCEL_FILL'
+    | 'UNDO_FILL'
+    | 'GET_FILL_SNAPSHOT'
     | 'FILL_PROGRESS'
     | 'FILL_COMPLETE'
     | 'FILL_ERROR'
+    | 'SHOW_REVIEW'
+    | 'GET_FOCUSED_FORM'
+    | 'EXPAND_REPEATING_SECTION'
+
+    // Content (review overlay) -> Background
+    | 'USER_APPROVED'
+    | 'USER_CANCELLED'
+    | 'REVISE_ANSWER'
 
     // Popup/Options -> Background
     | 'GET_STATE'
@@ -32,19 +58,48 @@ export type MessageType =
     | 'UPDATE_PROFILE'
     | 'DELETE_PROFILE'
     | 'SET_ACTIVE_PROFILE'
+    | 'GET_SITE_PROFILE'
+    | 'BIND_SITE'
+    | 'UNBIND_SITE'
+    | 'EXPORT_PROFILES'
+    | 'PREVIEW_PROFILE_IMPORT'
+    | 'IMPORT_PROFILES'
     | 'TRIGGER_FILL'
+    | 'GET_UNDO_STATUS'
+    | 'GET_TAB_FORMS'
+    | 'GET_FORM_SESSION'
+    | 'SET_FORM_SESSION_AUTO_FILL'
+    | 'END_FORM_SESSION'
+    | 'GET_VAULT_STATUS'
+    | 'SETUP_VAULT'
+    | 'UNLOCK_VAULT'
+    | 'LOCK_VAULT'
+    | 'GET_APP_SETTINGS'
+    | 'UPDATE_APP_SETTINGS'
 
     // Background -> Popup/Options
     | 'STATE_UPDATE'
     | 'PROFILES_UPDATE'
+    | 'VAULT_STATUS'
 
     // AI-specific messages
     | 'REQUEST_AI_FILL'
     | 'GET_AI_STATUS'
     | 'AI_STATUS'
-    | 'SET_API_KEY'
     | 'TEST_API_CONNECTION'
-    | 'EMBED_KNOWLEDGE_BASE';  // Added for knowledge base embedding
+
+    // LLM providers
+    | 'GET_LLM_PROVIDERS'
+    | 'SAVE_LLM_PROVIDER'
+    | 'DELETE_LLM_PROVIDER'
+    | 'SET_DEFAULT_LLM_PROVIDER'
+    | 'EMBED_KNOWLEDGE_BASE'  // Added for knowledge base embedding
+    | 'EXTRACT_PROFILE_FIELDS'
+
+    // Embedding index
+    | 'GET_EMBEDDING_INDEX'
+    | 'REINDEX_PROFILE'
+    | 'EMBEDDING_INDEX_UPDATE';
 
 export interface FillOptions {
     skipConfirmation?: boolean;
@@ -52,9 +107,56 @@ export interface FillOptions {
     delayMs?: number;
 }
 
+// Identifies a detected form within a tab
+export interface FormRef {
+    frameId: number;
+    formIndex: number;
+}
+
+// Multi-step form session in a tab, as shown in the popup
+export interface FormSessionStatus {
+    id: string;
+    domain: string;
+    stepCount: number;      // Steps filled so far
+    autoFill: boolean;      // New steps fill themselves as they appear
+    startedAt: number;
+}
+
+export interface VaultStatus {
+    configured: boolean;    // A passphrase has been set
+    unlocked: boolean;
+}
+
+// Status of the default LLM provider
+export interface AIStatus {
+    available: boolean;
+    providerName: string | null;
+    chatModel: string;
+    embeddingModel: string;
+}
+
+// Progress of a profile's background re-index
+export interface ReindexJob {
+    state: 'queued' | 'running' | 'done' | 'error';
+    completed: number;      // Items re-embedded so far (examples, documents, knowledge base)
+    total: number;
+    error?: string;
+}
+
+// Whether a profile's vectors match its current embedding model
+export interface EmbeddingIndexStatus {
+    profileId: string;
+    embeddingModel: string;
+    vectorCount: number;
+    staleCount: number;     // Vectors from another model or dimension, ignored by search
+    job?: ReindexJob;
+}
+
 export interface MessagePayloadMap {
     // Form Detection
-    FORM_DETECTED: { formSignature: FormSignature };
+    FORM_DETECTED: { forms: FormSignature[] };
+    GET_FOCUSED_FORM: void;
+    GET_TAB_FORMS: void;
 
     // Fill Request
     REQUEST_FILL: {
@@ -63,12 +165,31 @@ export interface MessagePayloadMap {
         options?: FillOptions;
     };
     REQUEST_CANCEL: void;
+    REQUEST_UNDO: void;
 
     // Fill Commands
-    FILL_COMMAND: { mappings: FieldMapping[]; options?: FillOptions };
-    FILL_PROGRESS: { completed: number; total: number; currentField: string };
+    FILL_COMMAND: {
+        mappings: FieldMapping[];
+        options?: FillOptions;
+        streaming?: boolean;    // More mappings follow as FILL_APPEND, until FILL_END
+    };
+    FILL_APPEND: { mappings: FieldMapping[] };
+    FILL_END: void;
+    CANCEL_FILL: void;
+    UNDO_FILL: void;
+    GET_FILL_SNAPSHOT: void;
+    FILL_PROGRESS: { completed: number; total: number; field: FieldFillProgress };
     FILL_COMPLETE: { result: FillResult };
     FILL_ERROR: { error: string; code: ErrorCode };
+    // Adds blocks to a form's repeating section with the page's "add another" control
+    EXPAND_REPEATING_SECTION: { formIndex: number; recordType: RecordType; count: number };
+
+    // Pre-fill Review
+    SHOW_REVIEW: { mappings: FieldMapping[]; canRevise: boolean };  // canRevise: an AI provider can rewrite answers
+    USER_APPROVED: { mappings: FieldMapping[] };
+    USER_CANCELLED: void;
+    // Rewrites the answer to an open-ended question in the pending review
+    REVISE_ANSWER: { fieldId: string; action: AnswerAction; value: string };
 
     // Edit Reporting
     REPORT_EDIT: {
@@ -76,6 +197,7 @@ export interface MessagePayloadMap {
         originalMapping: FieldMapping;
         newValue: string;
     };
+    FORM_SUBMITTED: { formSignature: FormSignature; fieldIds: string[] };
 
     // Profile Management
     GET_PROFILES: void;
@@ -83,34 +205,115 @@ export interface MessagePayloadMap {
     UPDATE_PROFILE: { profile: Profile };
     DELETE_PROFILE: { profileId: string };
     SET_ACTIVE_PROFILE: { profileId: string };
+    GET_SITE_PROFILE: void;
+    BIND_SITE: { profileId: string };       // Binds the active tab's domain
+    UNBIND_SITE: { profileId: string };
+    EXPORT_PROFILES: { profileIds?: string[]; options: ProfileExportOptions };   // All profiles when no ids
+    PREVIEW_PROFILE_IMPORT: { data: string; passphrase?: string };
+    IMPORT_PROFILES: { data: string; passphrase?: string; mode: ProfileImportMode };
     PROFILES_UPDATE: { profiles: Profile[] };
 
+    // Encrypted Field Vault
+    GET_VAULT_STATUS: void;
+    SETUP_VAULT: { passphrase: string };
+    UNLOCK_VAULT: { passphrase: string };
+    LOCK_VAULT: void;
+    VAULT_STATUS: { status: VaultStatus };
+
+    // App settings
+    GET_APP_SETTINGS: void;
+    UPDATE_APP_SETTINGS: { settings: Partial<AppSettings> };
+
     // State
     GET_STATE: void;
     STATE_UPDATE: { state: FillState };
-    TRIGGER_FILL: { profileId?: string };
+    TRIGGER_FILL: { profileId?: string; formIndex?: number; frameId?: number; options?: FillOptions };
+    GET_UNDO_STATUS: void;
+
+    // Multi-step form sessions
+    GET_FORM_SESSION: void;
+    SET_FORM_SESSION_AUTO_FILL: { sessionId: string; enabled: boolean };
+    END_FORM_SESSION: { sessionId: string };
 
     // AI-specific
-    REQUEST_AI_FILL: { profileId?: string; useCache?: boolean };
+    REQUEST_AI_FILL: {
+        profileId?: string;
+        formIndex?: number;
+        frameId?: number;
+        useCache?: boolean;
+        options?: FillOptions;
+    };
     GET_AI_STATUS: void;
-    AI_STATUS: { available: boolean; chatModel: string; embeddingModel: string };
-    SET_API_KEY: { apiKey: string };
-    TEST_API_CONNECTION: void;
+    AI_STATUS: AIStatus;
+    TEST_API_CONNECTION: { providerId?: string };
     EMBED_KNOWLEDGE_BASE: { profileId: string };  // Added for knowledge base embedding
+    // Uses the profile's provider, or the default one for a profile not yet saved
+    EXTRACT_PROFILE_FIELDS: { document: { name: string; content: string }; profileId?: string };
+
+    // LLM providers
+    GET_LLM_PROVIDERS: void;
+    SAVE_LLM_PROVIDER: { provider: LLMProviderInput };
+    DELETE_LLM_PROVIDER: { providerId: string };
+    SET_DEFAULT_LLM_PROVIDER: { providerId: string };
+
+    // Embedding index
+    GET_EMBEDDING_INDEX: void;
+    REINDEX_PROFILE: { profileId: string };
+    EMBEDDING_INDEX_UPDATE: { status: EmbeddingIndexStatus };
 }
 
 export interface MessageResponseMap {
     GET_STATE: { state: FillState };
     GET_PROFILES: { profiles: Profile[] };
-    CREATE_PROFILE: { profile: Profile };
-    UPDATE_PROFILE: { profile: Profile };
+    CREATE_PROFILE: { profile?: Profile; error?: string };
+    UPDATE_PROFILE: { profile?: Profile; error?: string };
     DELETE_PROFILE: { success: boolean };
+    GET_SITE_PROFILE: {
+        domain: string | null;              // Active tab's domain; null on pages that can't be bound
+        boundProfileId: string | null;      // Profile with the highest-priority binding for the page
+        activeProfileId: string | null;
+    };
+    BIND_SITE: { success: boolean; error?: string };
+    UNBIND_SITE: { success: boolean };
+    EXPORT_PROFILES: { data?: string; omittedEncryptedFields?: number; error?: string };
+    PREVIEW_PROFILE_IMPORT: {
+        profiles?: ProfileImportPreview[];
+        error?: string;
+        details?: string[];             // Validation problems, by path in the file
+        needsPassphrase?: boolean;      // The file is encrypted and no (or a wrong) passphrase was given
+    };
+    IMPORT_PROFILES: { result?: ProfileImportResult; error?: string; details?: string[] };
+    GET_VAULT_STATUS: { status: VaultStatus };
+    SETUP_VAULT: { success: boolean; error?: string };
+    UNLOCK_VAULT: { success: boolean; error?: string };
+    LOCK_VAULT: { success: boolean };
+    GET_APP_SETTINGS: { settings: AppSettings };
+    UPDATE_APP_SETTINGS: { settings: AppSettings; error?: string };
     REQUEST_FILL: { success: boolean };
-    REQUEST_AI_FILL: { success: boolean; source?: string; fallbackReason?: string };
-    GET_AI_STATUS: { available: boolean; chatModel: string; embeddingModel: string };
-    SET_API_KEY: { success: boolean };
+    REQUEST_CANCEL: { success: boolean };
+    REQUEST_UNDO: { success: boolean; restored?: number; skipped?: number; error?: string };
+    UNDO_FILL: { restored: number; skipped: number };   // skipped = edited since the fill, or not restorable
+    GET_FILL_SNAPSHOT: { fieldCount: number };
+    REVISE_ANSWER: { value?: string; error?: string };
+    EXPAND_REPEATING_SECTION: { added: number; form: FormSignature | null };  // The form re-detected
+    GET_UNDO_STATUS: { available: boolean; fieldCount: number };
+    TRIGGER_FILL: { success: boolean; source?: string; error?: string };
+    GET_TAB_FORMS: { forms: FormSignature[]; focusedForm: FormRef | null };
+    GET_FORM_SESSION: { session: FormSessionStatus | null };
+    SET_FORM_SESSION_AUTO_FILL: { success: boolean };
+    END_FORM_SESSION: { success: boolean };
+    GET_FOCUSED_FORM: { formIndex: number | null; focusedAt: number | null };
+    REQUEST_AI_FILL: { success: boolean; source?: string; fallbackReason?: string; error?: string };
+    GET_AI_STATUS: AIStatus;
     TEST_API_CONNECTION: { success: boolean; error?: string };
     EMBED_KNOWLEDGE_BASE: { success: boolean; chunks?: number; error?: string };  // Added
+    EXTRACT_PROFILE_FIELDS: { fields?: ExtractedProfileField[]; error?: string };
+    GET_LLM_PROVIDERS: { providers: LLMProviderSummary[]; defaultProviderId: string | null };
+    SAVE_LLM_PROVIDER: { provider?: LLMProviderSummary; error?: string };
+    DELETE_LLM_PROVIDER: { success: boolean; error?: string };
+    SET_DEFAULT_LLM_PROVIDER: { success: boolean; error?: string };
+    GET_EMBEDDING_INDEX: { profiles: EmbeddingIndexStatus[] };
+    REINDEX_PROFILE: { success: boolean; error?: string };
 }
 
 export type MessageResponse<T extends MessageType> = T extends keyof MessageResponseMap
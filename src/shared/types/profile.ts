@@ -19,6 +19,17 @@ export interface StaticContext {
     documents: ContextDocument[];
     knowledgeBase?: string;  // Free-text knowledge for AI context
     knowledgeBaseChunks?: number;  // Number of embedded chunks
+    address?: PostalAddress;  // Structured address, preferred over flat address fields
+    records?: ProfileRecord[];  // Repeatable entries; order within a type is fill order (most recent first)
+}
+
+export interface PostalAddress {
+    line1: string;
+    line2?: string;
+    city: string;
+    state?: string;      // State, province or region, as a code or name
+    postalCode: string;
+    country: string;     // ISO 3166-1 alpha-2 code
 }
 
 export interface ContextField {
@@ -33,16 +44,73 @@ export type FieldCategory =
     | 'contact'
     | 'professional'
     | 'education'
+    | 'identity'
     | 'custom';
 
+// Repeatable records, filled one per repeated block of a form ("Employer 1", "Employer 2")
+export type RecordType = 'employment' | 'education' | 'reference' | 'certification';
+
+// Dates are "YYYY-MM"
+export interface EmploymentRecord {
+    id: string;
+    type: 'employment';
+    company: string;
+    jobTitle: string;
+    location?: string;
+    startDate?: string;
+    endDate?: string;
+    current?: boolean;        // Still in this position; there is no end date
+    description?: string;
+}
+
+export interface EducationRecord {
+    id: string;
+    type: 'education';
+    institution: string;
+    degree?: string;
+    fieldOfStudy?: string;
+    startDate?: string;
+    endDate?: string;         // Graduation, or expected graduation
+    gpa?: string;
+}
+
+export interface ReferenceRecord {
+    id: string;
+    type: 'reference';
+    name: string;
+    relationship?: string;
+    company?: string;
+    jobTitle?: string;
+    email?: string;
+    phone?: string;
+}
+
+export interface CertificationRecord {
+    id: string;
+    type: 'certification';
+    name: string;
+    issuer?: string;
+    issueDate?: string;
+    expiryDate?: string;
+    credentialId?: string;
+    url?: string;
+}
+
+export type ProfileRecord = EmploymentRecord | EducationRecord | ReferenceRecord | CertificationRecord;
+
 export interface ContextDocument {
     id: string;
     name: string;
     content: string;
     type: 'resume' | 'cover_letter' | 'other';
     embedding?: number[];
+    fileName?: string;        // Uploaded file the content was extracted from
+    format?: DocumentFormat;
+    chunkCount?: number;      // Chunks embedded from the content
 }
 
+export type DocumentFormat = 'pdf' | 'docx' | 'markdown' | 'text';
+
 export interface LearnedExample {
     id: string;
     timestamp: number;
@@ -63,6 +131,47 @@ export interface ProfileSettings {
     confirmBeforeFill: boolean;
     humanizeTyping: boolean;
     typingDelayMs: number;
+    providerId?: string;  // LLM provider for this profile; the default provider when unset
+    answerTone?: AnswerTone;        // Written answers to open-ended questions; 'professional' when unset
+    answerLength?: AnswerLength;    // Target length when the field sets no limit; 'medium' when unset
+}
+
+export type AnswerTone = 'professional' | 'friendly' | 'enthusiastic' | 'formal' | 'concise';
+
+export type AnswerLength = 'short' | 'medium' | 'long';
+
+// Revisions offered for a generated answer in the review overlay
+export type AnswerAction = 'regenerate' | 'shorten' | 'expand';
+
+export interface ProfileExportOptions {
+    includeLearnedExamples: boolean;
+    includeKnowledgeBase: boolean;   // Knowledge base text and documents
+    passphrase?: string;             // Encrypts the file; encrypted fields are only exported this way
+}
+
+// How an imported profile that matches an existing one (by id, then name) is applied
+export type ProfileImportMode = 'merge' | 'replace';
+
+export interface ProfileImportPreview {
+    name: string;
+    fieldCount: number;
+    learnedExampleCount: number;
+    conflict: 'id' | 'name' | null;
+    existingProfileId?: string;      // Profile the import would merge into or replace
+}
+
+export interface ProfileImportResult {
+    created: number;
+    merged: number;
+    replaced: number;
+}
+
+export interface ExtractedProfileField {
+    key: string;
+    value: string;
+    category: FieldCategory;
+    confidence: number;         // Lowered when the value fails a format check or isn't found in the document
+    section?: string;           // Document section the value was read from
 }
 
 // Forward declarations for cross-references
@@ -0,0 +1,33 @@
+// LLM Provider Types
+// Configuration for the chat and embedding backends a profile can use
+
+/**
+ * Wire protocol a provider speaks
+ */
+export type LLMProviderType =
+    | 'openrouter'          // OpenRouter (OpenAI-compatible, hosted)
+    | 'openai_compatible'   // Any /chat/completions server: Ollama, llama.cpp, vLLM, OpenAI
+    | 'anthropic';          // Anthropic Messages API (no embeddings)
+
+export interface LLMProviderConfig {
+    id: string;
+    name: string;
+    type: LLMProviderType;
+    baseUrl: string;
+    apiKey?: string;            // Optional for local servers
+    chatModel: string;
+    embeddingModel?: string;    // Embeddings are disabled when unset
+}
+
+/**
+ * Provider config as exposed to UI pages - the API key never leaves the background
+ */
+export interface LLMProviderSummary extends Omit<LLMProviderConfig, 'apiKey'> {
+    hasApiKey: boolean;
+    configured: boolean;
+}
+
+/**
+ * Provider to create or update. Omit `id` to create; omit `apiKey` to keep the stored key.
+ */
+export type LLMProviderInput = Omit<LLMProviderConfig, 'id'> & { id?: string };
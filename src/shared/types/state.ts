@@ -50,12 +50,30 @@ export interface FillingState extends BaseState {
     type: 'FILLING';
     profileId?: string;
     formSignature: FormSignature;
-    mappings: FieldMapping[];
-    progress: { completed: number; total: number };
+    mappings: FieldMapping[];   // Grows while an AI response is still streaming in
+    progress: FillProgress;
+}
+
+export interface FillProgress {
+    completed: number;          // Fields processed, whatever their outcome
+    total: number;
+    failed: number;
+    streaming: boolean;         // More mappings may still arrive
+    fields: FieldFillProgress[];
+}
+
+export type FieldFillStatus = 'filled' | 'failed' | 'skipped';
+
+export interface FieldFillProgress {
+    fieldId: string;
+    label: string;
+    status: FieldFillStatus;
+    error?: string;
 }
 
 export interface AwaitingReviewState extends BaseState {
     type: 'AWAITING_REVIEW';
+    profileId?: string;
     formSignature: FormSignature;
     mappings: FieldMapping[];
 }
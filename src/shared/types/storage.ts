@@ -23,6 +23,16 @@ export interface VectorEntry {
     sourceId: string;
     text: string;
     createdAt: number;
+    embeddingModel?: string;       // Model that produced the embedding; unset on vectors stored before it was recorded
+    embeddingDimensions?: number;  // Length of the embedding when it was stored
+    provenance?: ChunkProvenance;  // Where a document chunk came from; unset for other sources
+}
+
+export interface ChunkProvenance {
+    chunkIndex: number;
+    section?: string;              // Heading path the chunk sits under, e.g. "Experience > Acme Corp"
+    startOffset: number;           // Character range in the document's content
+    endOffset: number;
 }
 
 export interface CacheEntry {
@@ -39,11 +49,20 @@ export interface MetadataEntry {
 
 export interface AppSettings {
     debugMode: boolean;
-    autoFillEnabled: boolean;
+    autoFillEnabled: boolean;           // Fill forms on page load for profiles bound to the site
+    autoFillAllowedSites: string[];     // Domains auto-fill is limited to; all sites when empty
+    autoFillBlockedSites: string[];     // Domains never auto-filled, even when allowed
     humanizeTyping: boolean;
     typingDelayMs: number;
     showNotifications: boolean;
-    encryptSensitiveFields: boolean;
+    encryptSensitiveFields: boolean;    // Store 🔒 fields encrypted; off keeps them in plaintext
+}
+
+export interface VaultMetadata {
+    salt: string;           // Base64 PBKDF2 salt
+    iterations: number;
+    verifier: string;       // Encrypted known plaintext, used to check the passphrase
+    createdAt: number;
 }
 
 // Type-safe store value mapping
@@ -53,6 +72,7 @@ export interface StoreValueMap {
     llm_cache: CacheEntry;
     metadata: {
         settings: AppSettings;
+        vault: VaultMetadata;
         [key: string]: unknown;
     };
 }
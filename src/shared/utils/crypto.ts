@@ -0,0 +1,108 @@
+// Crypto Helpers
+// WebCrypto primitives for encrypting sensitive values at rest
+
+/**
+ * Prefix marking a value as an encrypted envelope: enc:v1:<iv>:<ciphertext>
+ */
+export const ENCRYPTED_VALUE_PREFIX = 'enc:v1:';
+
+const IV_BYTES = 12;
+
+/**
+ * Check if a stored value is an encrypted envelope
+ */
+export function isEncryptedValue(value: string): boolean {
+    return value.startsWith(ENCRYPTED_VALUE_PREFIX);
+}
+
+/**
+ * Generate cryptographically random bytes
+ */
+export function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+    return crypto.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * Derive an AES-GCM key from a passphrase with PBKDF2-SHA-256
+ */
+export async function deriveKeyFromPassphrase(
+    passphrase: string,
+    salt: Uint8Array<ArrayBuffer>,
+    iterations: number
+): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(passphrase),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        true,  // Extractable so the unlocked key can be kept in session storage
+        ['encrypt', 'decrypt']
+    );
+}
+
+/**
+ * Encrypt a string into an envelope with a fresh IV
+ */
+export async function encryptString(key: CryptoKey, plaintext: string): Promise<string> {
+    const iv = randomBytes(IV_BYTES);
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        key,
+        new TextEncoder().encode(plaintext)
+    );
+
+    return `${ENCRYPTED_VALUE_PREFIX}${bytesToBase64(iv)}:${bytesToBase64(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypt an envelope produced by encryptString.
+ * Throws if the key is wrong or the envelope was tampered with.
+ */
+export async function decryptString(key: CryptoKey, envelope: string): Promise<string> {
+    if (!isEncryptedValue(envelope)) {
+        throw new Error('Value is not an encrypted envelope');
+    }
+
+    const [ivPart, ciphertextPart] = envelope.slice(ENCRYPTED_VALUE_PREFIX.length).split(':');
+    if (!ivPart || !ciphertextPart) {
+        throw new Error('Malformed encrypted envelope');
+    }
+
+    const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: base64ToBytes(ivPart) },
+        key,
+        base64ToBytes(ciphertextPart)
+    );
+
+    return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Encode bytes as base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte);
+    }
+    return btoa(binary);
+}
+
+/**
+ * Decode base64 into bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
@@ -1,6 +1,8 @@
 // Utility Functions
 // Common helper functions used across the extension
 
+import type { URLBinding } from '@shared/types';
+
 /**
  * Generate a unique ID (UUID v4 format)
  */
@@ -100,6 +102,30 @@ export function extractDomain(url: string): string {
     }
 }
 
+/**
+ * Check whether a URL binding matches a URL
+ */
+export function matchesUrlBinding(url: string, binding: URLBinding): boolean {
+    if (binding.type === 'exact') {
+        return url === binding.pattern;
+    } else if (binding.type === 'domain') {
+        try {
+            const urlDomain = new URL(url).hostname;
+            return urlDomain === binding.pattern || urlDomain.endsWith('.' + binding.pattern);
+        } catch {
+            return false;
+        }
+    } else if (binding.type === 'regex') {
+        try {
+            const regex = new RegExp(binding.pattern);
+            return regex.test(url);
+        } catch {
+            return false;
+        }
+    }
+    return false;
+}
+
 /**
  * Clean and normalize text
  */
@@ -110,3 +136,11 @@ export function normalizeText(text: string): string {
         .replace(/\s+/g, ' ')
         .replace(/[^\w\s-]/g, '');
 }
+
+/**
+ * Decompress bytes with the browser's built-in DecompressionStream
+ */
+export async function inflate(bytes: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+    const stream = new Blob([bytes.slice()]).stream().pipeThrough(new DecompressionStream(format));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
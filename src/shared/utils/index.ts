@@ -1,3 +1,4 @@
 // Utils Index
 export * from './helpers';
 export * from './logger';
+export * from './crypto';